@@ -1,13 +1,28 @@
 import express, { Express } from 'express';
 import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
-import { createFeedRouter, createOrdersRouter, createErrorsRouter, errorHandler, notFoundHandler, createApiKeyAuth } from './infrastructure/http';
+import { createFeedRouter, createOrdersRouter, createErrorsRouter, errorHandler, notFoundHandler, createApiKeyAuth, createMasterKeyAuth, createApiKeysRouter, createIdempotencyMiddleware, createPartnersRouter, createJobsRouter, createWebhooksRouter, createAdminRouter, createSchemasRouter, createRateLimitMiddleware, createRequestSigningMiddleware, SignatureHeader } from './infrastructure/http';
 import { FeedHandler } from './application/services/feed-handler';
 import { OrderQueryService } from './application/services/order-query-service';
+import { BatchJobService } from './application/services/batch-job-service';
+import { ErrorReprocessingService } from './application/services/error-reprocessing-service';
+import { WebhookService, WebhookServiceOptions } from './application/services/webhook-service';
+import { RateLimiter } from './application/services/rate-limiter';
+import { ApiKeyService } from './application/services/api-key-service';
 import { ValidationService } from './domain/services/validation-service';
 import { OrderTransformer } from './domain/services/order-transformer';
-import { InMemoryOrderStream, InMemorySequenceManager, InMemoryOrderRepository, FileOrderRepository, FileSequenceManager, FileErrorRepository, InMemoryErrorRepository } from './infrastructure/adapters';
-import { IOrderRepositoryPort, ISequenceManagerPort, IErrorRepositoryPort } from './domain/ports';
+import { PartnerRegistry, createDefaultPartnerRegistry } from './domain/services/partner-registry';
+import { DeclarativePartnerAdapter } from './domain/services/declarative-partner-adapter';
+import { FxRateTable } from './domain/services/fx-rate-table';
+import { TaxRuleEngine } from './domain/services/tax-rules';
+import { PromotionCatalog } from './domain/services/promotion-catalog';
+import { TimestampPolicies } from './domain/services/timestamp-policy';
+import { RateLimitPolicies } from './domain/services/rate-limit-policy';
+import { RequestSigning } from './domain/services/request-signature';
+import { BusinessRules } from './domain/services/business-rules';
+import { RoundingMode, isRoundingMode } from './domain/services/money';
+import { InMemoryOrderStream, InMemorySequenceManager, InMemoryOrderRepository, FileOrderRepository, FileSequenceManager, FileErrorRepository, InMemoryErrorRepository, FileIdempotencyStore, InMemoryIdempotencyStore, FileBatchJobRepository, InMemoryBatchJobRepository, FileWebhookRepository, InMemoryWebhookRepository, FileApiKeyStore, InMemoryApiKeyStore, HttpWebhookSender, loadPartnerMappings, loadFxRateTable, loadTaxRules, loadPromotionCatalog, loadTimestampPolicies, loadRateLimitPolicies, loadRequestSigning, loadBusinessRules, BusinessRuleWatcher, FileIngestionLedger, InMemoryIngestionLedger, InboxWatcher } from './infrastructure/adapters';
+import { IOrderRepositoryPort, ISequenceManagerPort, IErrorRepositoryPort, IIdempotencyStorePort, IBatchJobRepositoryPort, IWebhookRepositoryPort, IWebhookSenderPort, IIngestionLedgerPort, IApiKeyStorePort, IPartnerAdapter } from './domain/ports';
 import { ErrorCode } from './domain/models';
 
 /**
@@ -18,10 +33,34 @@ export interface AppContainer {
   sequenceManager: ISequenceManagerPort;
   orderRepository: IOrderRepositoryPort;
   errorRepository: IErrorRepositoryPort;
+  idempotencyStore: IIdempotencyStorePort;
+  batchJobRepository: IBatchJobRepositoryPort;
+  webhookRepository: IWebhookRepositoryPort;
+  ingestionLedger: IIngestionLedgerPort;
+  apiKeyStore: IApiKeyStorePort;
+  partnerRegistry: PartnerRegistry;
+  fxRates: FxRateTable;
+  taxRules: TaxRuleEngine;
+  promotions: PromotionCatalog;
   validationService: ValidationService;
   transformer: OrderTransformer;
   feedHandler: FeedHandler;
   orderQueryService: OrderQueryService;
+  batchJobService: BatchJobService;
+  errorReprocessingService: ErrorReprocessingService;
+  webhookService: WebhookService;
+  /** Partner API keys (hashed) and their lifecycle */
+  apiKeyService: ApiKeyService;
+  /** Drop-directory ingestion; null when no inbox directory is configured */
+  inboxWatcher: InboxWatcher | null;
+  /** Partner business rules, replaced when the rules file changes */
+  businessRules: BusinessRules;
+  /** Hot reload of the business rules file (started by startServer) */
+  businessRuleWatcher: BusinessRuleWatcher;
+  /** Per-partner token buckets and daily quotas of the feed endpoints */
+  rateLimiter: RateLimiter;
+  /** Partners that sign their feed requests */
+  requestSigning: RequestSigning;
 }
 
 /**
@@ -32,6 +71,32 @@ export interface ContainerOptions {
   usePersistence?: boolean;
   /** Data directory for file persistence (default: './data') */
   dataDir?: string;
+  /** Additional partner adapters registered next to the built-in partners */
+  partners?: IPartnerAdapter[];
+  /** Directory of declarative partner mapping files (default: PARTNER_MAPPINGS_DIR or './config/partners') */
+  partnerMappingsDir?: string;
+  /** Timestamp policies file (default: TIMESTAMP_POLICIES_FILE or './config/timestamp-policies.json'; default policy when missing) */
+  timestampPoliciesFile?: string;
+  /** Rate limit policies file (default: RATE_LIMITS_FILE or './config/rate-limits.json'; default policy when missing) */
+  rateLimitsFile?: string;
+  /** Request signing file with partner secrets (default: REQUEST_SIGNING_FILE or './config/request-signing.json'; no signing when missing) */
+  requestSigningFile?: string;
+  /** Business rules file (default: BUSINESS_RULES_FILE or './config/business-rules.json'; no rules when missing) */
+  businessRulesFile?: string;
+  /** FX rate table file (default: FX_RATES_FILE or './config/fx-rates.json'; base currency USD only when missing) */
+  fxRatesFile?: string;
+  /** Tax rules file (default: TAX_RULES_FILE or './config/tax-rules.json'; no rules when missing) */
+  taxRulesFile?: string;
+  /** Promotion catalog file (default: PROMOTIONS_FILE or './config/promotions.json'; no promotions when missing) */
+  promotionsFile?: string;
+  /** Rounding of amounts to minor units (default: ROUNDING_MODE or HALF_UP) */
+  roundingMode?: RoundingMode;
+  /** Sender for webhook requests (default: HTTP) */
+  webhookSender?: IWebhookSenderPort;
+  /** Webhook retry configuration */
+  webhookOptions?: WebhookServiceOptions;
+  /** Root folder of the partner inbox folders (default: INBOX_DIR; no file ingestion when unset) */
+  inboxDir?: string;
 }
 
 /**
@@ -42,6 +107,8 @@ export interface AppOptions {
   enableApiAuth?: boolean;
   /** CORS origin (default: '*' in dev) */
   corsOrigin?: string | string[];
+  /** Master key for admin endpoints and all feeds (default: MASTER_API_KEY; none when unset) */
+  masterApiKey?: string;
 }
 
 /**
@@ -57,61 +124,191 @@ export function createContainer(options: ContainerOptions = {}): AppContainer {
   let sequenceManager: ISequenceManagerPort;
   let orderRepository: IOrderRepositoryPort;
   let errorRepository: IErrorRepositoryPort;
+  let idempotencyStore: IIdempotencyStorePort;
+  let batchJobRepository: IBatchJobRepositoryPort;
+  let webhookRepository: IWebhookRepositoryPort;
+  let ingestionLedger: IIngestionLedgerPort;
+  let apiKeyStore: IApiKeyStorePort;
 
   if (usePersistence) {
     console.log('💾 Using file-based persistence');
     sequenceManager = new FileSequenceManager(dataDir);
     orderRepository = new FileOrderRepository(dataDir);
     errorRepository = new FileErrorRepository(dataDir);
+    idempotencyStore = new FileIdempotencyStore(dataDir);
+    batchJobRepository = new FileBatchJobRepository(dataDir);
+    webhookRepository = new FileWebhookRepository(dataDir);
+    ingestionLedger = new FileIngestionLedger(dataDir);
+    apiKeyStore = new FileApiKeyStore(dataDir);
   } else {
     console.log('🧠 Using in-memory storage (no persistence)');
     sequenceManager = new InMemorySequenceManager();
     orderRepository = new InMemoryOrderRepository();
     errorRepository = new InMemoryErrorRepository();
+    idempotencyStore = new InMemoryIdempotencyStore();
+    batchJobRepository = new InMemoryBatchJobRepository();
+    webhookRepository = new InMemoryWebhookRepository();
+    ingestionLedger = new InMemoryIngestionLedger();
+    apiKeyStore = new InMemoryApiKeyStore();
+  }
+
+  // Allowed clock skew and age of partner transaction timestamps
+  const timestampPoliciesFile = options.timestampPoliciesFile ?? process.env.TIMESTAMP_POLICIES_FILE ?? './config/timestamp-policies.json';
+  const timestampPolicies = new TimestampPolicies(loadTimestampPolicies(timestampPoliciesFile) ?? undefined);
+
+  // Orders partners may send to the feed endpoints
+  const rateLimitsFile = options.rateLimitsFile ?? process.env.RATE_LIMITS_FILE ?? './config/rate-limits.json';
+  const rateLimiter = new RateLimiter(new RateLimitPolicies(loadRateLimitPolicies(rateLimitsFile) ?? undefined));
+
+  // Partners that sign their feed requests
+  const requestSigningFile = options.requestSigningFile ?? process.env.REQUEST_SIGNING_FILE ?? './config/request-signing.json';
+  const requestSigning = new RequestSigning(loadRequestSigning(requestSigningFile) ?? undefined);
+
+  // Partner business rules, reloaded when the file changes
+  const businessRulesFile = options.businessRulesFile ?? process.env.BUSINESS_RULES_FILE ?? './config/business-rules.json';
+  const businessRules = new BusinessRules(loadBusinessRules(businessRulesFile) ?? undefined);
+  const businessRuleWatcher = new BusinessRuleWatcher(businessRules, { filePath: businessRulesFile });
+
+  // Partner registry - built-in partners, declarative mappings and any configured adapters
+  const partnerRegistry = createDefaultPartnerRegistry(timestampPolicies, businessRules);
+  const partnerMappingsDir = options.partnerMappingsDir ?? process.env.PARTNER_MAPPINGS_DIR ?? './config/partners';
+  for (const definition of loadPartnerMappings(partnerMappingsDir)) {
+    partnerRegistry.register(
+      new DeclarativePartnerAdapter(definition, timestampPolicies.forPartner(definition.partnerId), businessRules)
+    );
+  }
+  for (const partner of options.partners ?? []) {
+    partnerRegistry.register(partner);
+  }
+
+  // Exchange rates to the base currency
+  const fxRatesFile = options.fxRatesFile ?? process.env.FX_RATES_FILE ?? './config/fx-rates.json';
+  const fxRates = new FxRateTable(loadFxRateTable(fxRatesFile) ?? undefined);
+
+  // Tax rules overriding or verifying partner tax rates
+  const taxRulesFile = options.taxRulesFile ?? process.env.TAX_RULES_FILE ?? './config/tax-rules.json';
+  const taxRules = new TaxRuleEngine(loadTaxRules(taxRulesFile) ?? undefined);
+
+  // Promotions redeemable with promo codes
+  const promotionsFile = options.promotionsFile ?? process.env.PROMOTIONS_FILE ?? './config/promotions.json';
+  const promotions = new PromotionCatalog(loadPromotionCatalog(promotionsFile) ?? undefined);
+
+  // Rounding of amounts to minor units
+  const roundingMode = options.roundingMode ?? process.env.ROUNDING_MODE ?? RoundingMode.HALF_UP;
+  if (!isRoundingMode(roundingMode)) {
+    throw new Error(`Invalid rounding mode '${roundingMode}' (expected ${Object.values(RoundingMode).join(' or ')})`);
   }
 
   // Domain services
-  const validationService = new ValidationService();
-  const transformer = new OrderTransformer();
+  const validationService = new ValidationService(partnerRegistry);
+  const transformer = new OrderTransformer(partnerRegistry, fxRates, roundingMode, taxRules, promotions);
 
   // Application services
   const feedHandler = new FeedHandler(
     validationService,
     transformer,
     orderStream,
-    sequenceManager
+    sequenceManager,
+    orderRepository,
+    partnerRegistry
   );
   
-  const orderQueryService = new OrderQueryService(orderRepository);
+  const orderQueryService = new OrderQueryService(orderRepository, partnerRegistry, fxRates.baseCurrency);
+
+  const batchJobService = new BatchJobService(feedHandler, batchJobRepository);
+  batchJobService.recoverInterruptedJobs().then((count) => {
+    if (count > 0) {
+      console.log(`⚠️  Marked ${count} interrupted batch job(s) as failed`);
+    }
+  });
+
+  // Fix-and-resubmit of rejected orders
+  const errorReprocessingService = new ErrorReprocessingService(errorRepository, feedHandler, partnerRegistry);
 
   // Subscribe to valid orders stream to persist orders
   orderStream.onValidOrder(async (payload) => {
     await orderRepository.save(payload.orderEvent);
   });
 
-  // Subscribe to error orders stream to persist errors
+  // Amendments, cancellations and status changes replace the stored order
+  orderStream.onOrderAmended(async (payload) => {
+    await orderRepository.save(payload.orderEvent);
+  });
+  orderStream.onOrderCancelled(async (payload) => {
+    await orderRepository.save(payload.orderEvent);
+  });
+  orderStream.onOrderStatusChanged(async (payload) => {
+    await orderRepository.save(payload.orderEvent);
+  });
+
+  // Subscribe to error orders stream to persist errors, classified by the
+  // rejection reason or else the first field-level error
   orderStream.onErrorOrder(async (payload) => {
+    const errorCode = payload.errorCode ?? payload.details[0]?.errorCode ?? ErrorCode.INVALID_VALUE;
     await errorRepository.save({
       id: uuidv4(),
       partnerId: payload.partnerId,
       externalOrderId: payload.originalOrderId,
-      errorCode: ErrorCode.INVALID_VALUE,
-      message: 'Validation failed',
-      details: payload.errors.map((e) => ({ field: 'validation', message: e })),
+      errorCode,
+      message: errorCode === ErrorCode.DUPLICATE_ORDER ? 'Duplicate order' : 'Validation failed',
+      details: payload.details,
       originalPayload: payload.rawInput,
       timestamp: payload.timestamp.toISOString(),
     });
   });
 
+  // Partner callbacks for every valid/error order (after persistence listeners)
+  const webhookService = new WebhookService(
+    webhookRepository,
+    options.webhookSender ?? new HttpWebhookSender(),
+    options.webhookOptions
+  );
+  webhookService.attach(orderStream);
+  webhookService.resumePendingDeliveries().then((count) => {
+    if (count > 0) {
+      console.log(`🔁 Resumed ${count} pending webhook deliveries`);
+    }
+  });
+
+  // Partner API keys
+  const apiKeyService = new ApiKeyService(apiKeyStore);
+
+  // Drop-directory ingestion (started by startServer)
+  const inboxDir = options.inboxDir ?? process.env.INBOX_DIR;
+  const inboxWatcher = inboxDir
+    ? new InboxWatcher(feedHandler, orderRepository, partnerRegistry, ingestionLedger, {
+        inboxDir,
+        pollIntervalMs: process.env.INBOX_POLL_INTERVAL_MS ? parseInt(process.env.INBOX_POLL_INTERVAL_MS, 10) : undefined,
+      })
+    : null;
+
   return {
     orderStream,
     sequenceManager,
     orderRepository,
     errorRepository,
+    idempotencyStore,
+    batchJobRepository,
+    webhookRepository,
+    ingestionLedger,
+    apiKeyStore,
+    partnerRegistry,
+    fxRates,
+    taxRules,
+    promotions,
     validationService,
     transformer,
     feedHandler,
     orderQueryService,
+    batchJobService,
+    errorReprocessingService,
+    webhookService,
+    apiKeyService,
+    inboxWatcher,
+    businessRules,
+    businessRuleWatcher,
+    rateLimiter,
+    requestSigning,
   };
 }
 
@@ -125,22 +322,57 @@ export function createApp(container?: AppContainer, options: AppOptions = {}): E
   const {
     enableApiAuth = process.env.ENABLE_API_AUTH === 'true',
     corsOrigin = process.env.CORS_ORIGIN || '*',
+    masterApiKey = process.env.MASTER_API_KEY || undefined,
   } = options;
 
   // CORS middleware - allow frontend to make requests
   app.use(cors({
     origin: corsOrigin,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key', ...Object.values(SignatureHeader)],
+    exposedHeaders: ['Idempotent-Replayed', 'Location', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
   }));
 
-  // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
+  // Body parsing middleware; the raw body is kept for request signature verification
+  const keepRawBody = (req: express.Request, _res: express.Response, body: Buffer) => {
+    req.rawBody = body;
+  };
+  app.use(express.json({ limit: '10mb', verify: keepRawBody }));
+  app.use(express.text({ type: ['text/csv', 'application/csv'], limit: '10mb', verify: keepRawBody }));
 
-  // Optional API key authentication for feed endpoints
+  // API key management always requires the master key: keys issued now stay valid once authentication is enabled
+  const requireMasterKey = createMasterKeyAuth({ masterKey: masterApiKey });
+  if (!masterApiKey) {
+    console.warn(enableApiAuth
+      ? '⚠️  MASTER_API_KEY is not set: admin endpoints (including API key management) are unavailable'
+      : '⚠️  MASTER_API_KEY is not set: API key management is unavailable');
+  }
+
+  // Optional API key authentication for feed endpoints; admin and webhook endpoints then require the master key
   if (enableApiAuth) {
     console.log('🔐 API key authentication enabled');
-    app.use('/api/feed', createApiKeyAuth({ enabled: true }));
+    app.use('/api/feed', createApiKeyAuth({
+      enabled: true,
+      apiKeyService: appContainer.apiKeyService,
+      masterKey: masterApiKey,
+      partnerRegistry: appContainer.partnerRegistry,
+    }));
+    app.use('/api/admin', requireMasterKey);
+    // Webhook subscriptions receive partner order data and make the server send requests
+    app.use('/api/webhooks', requireMasterKey);
+    // Order queries stay open; changing an order's status does not
+    app.patch('/api/orders/:id/status', requireMasterKey);
+    // Reprocessing submits orders for the error's partner, bypassing the feed's authentication
+    app.post(['/api/errors/:id/preview', '/api/errors/:id/reprocess'], requireMasterKey);
+  }
+
+  // Request signatures of partners that sign (after API key authentication)
+  if (appContainer.requestSigning.getPartnerIds().length > 0) {
+    console.log(`✍️  Request signing enabled for ${appContainer.requestSigning.getPartnerIds().join(', ')}`);
+    app.use('/api/feed', createRequestSigningMiddleware({
+      signing: appContainer.requestSigning,
+      partnerRegistry: appContainer.partnerRegistry,
+    }));
   }
 
   // Health check
@@ -149,9 +381,21 @@ export function createApp(container?: AppContainer, options: AppOptions = {}): E
   });
 
   // API routes
-  app.use('/api/feed', createFeedRouter(appContainer.feedHandler));
-  app.use('/api/orders', createOrdersRouter(appContainer.orderQueryService));
-  app.use('/api/errors', createErrorsRouter(appContainer.errorRepository));
+  app.use(
+    '/api/feed',
+    // Idempotent replays are answered before any orders are charged
+    createIdempotencyMiddleware({ store: appContainer.idempotencyStore }),
+    createRateLimitMiddleware({ rateLimiter: appContainer.rateLimiter, partnerRegistry: appContainer.partnerRegistry }),
+    createFeedRouter(appContainer.feedHandler, appContainer.partnerRegistry, appContainer.batchJobService)
+  );
+  app.use('/api/jobs', createJobsRouter(appContainer.batchJobService));
+  app.use('/api/webhooks', createWebhooksRouter(appContainer.webhookService, appContainer.partnerRegistry));
+  app.use('/api/admin/api-keys', requireMasterKey, createApiKeysRouter(appContainer.apiKeyService, appContainer.partnerRegistry));
+  app.use('/api/admin', createAdminRouter(appContainer.businessRules, appContainer.partnerRegistry, appContainer.rateLimiter));
+  app.use('/api/partners', createPartnersRouter(appContainer.partnerRegistry));
+  app.use('/api/schemas', createSchemasRouter(appContainer.partnerRegistry));
+  app.use('/api/orders', createOrdersRouter(appContainer.orderQueryService, appContainer.partnerRegistry, appContainer.feedHandler));
+  app.use('/api/errors', createErrorsRouter(appContainer.errorRepository, appContainer.partnerRegistry, appContainer.errorReprocessingService, appContainer.rateLimiter));
 
   // Error handling
   app.use(notFoundHandler);
@@ -176,14 +420,44 @@ export function startServer(port: number = 3000): void {
     console.log(`[ERROR_ORDER] ${payload.partnerId}:${payload.originalOrderId} errors=${payload.errors.length}`);
   });
 
+  container.orderStream.onOrderAmended((payload) => {
+    console.log(`[ORDER_AMENDED] ${payload.orderEvent.partnerId}:${payload.orderEvent.externalOrderId} rev=${payload.orderEvent.revision}`);
+  });
+
+  container.orderStream.onOrderCancelled((payload) => {
+    console.log(`[ORDER_CANCELLED] ${payload.orderEvent.partnerId}:${payload.orderEvent.externalOrderId} rev=${payload.orderEvent.revision}`);
+  });
+
+  container.orderStream.onOrderStatusChanged((payload) => {
+    console.log(`[ORDER_STATUS_CHANGED] ${payload.orderEvent.partnerId}:${payload.orderEvent.externalOrderId} ${payload.previousStatus} -> ${payload.orderEvent.status}`);
+  });
+
   app.listen(port, () => {
     console.log(`🚀 NexusStream server running on http://localhost:${port}`);
     console.log(`📊 Health check: http://localhost:${port}/health`);
-    console.log(`📥 Partner A endpoint: POST http://localhost:${port}/api/feed/partner-a`);
-    console.log(`📥 Partner B endpoint: POST http://localhost:${port}/api/feed/partner-b`);
+    for (const partner of container.partnerRegistry.list()) {
+      console.log(`📥 ${partner.displayName} endpoint: POST http://localhost:${port}/api/feed/${partner.slug}`);
+    }
     console.log(`📋 Orders endpoint: GET http://localhost:${port}/api/orders`);
     console.log(`📈 Stats endpoint: GET http://localhost:${port}/api/orders/stats`);
+    console.log(`⏳ Batch jobs endpoint: GET http://localhost:${port}/api/jobs/:id`);
+    console.log(`📐 Input schemas: GET http://localhost:${port}/api/schemas/:partner`);
+    console.log(`💱 Currencies: ${container.fxRates.getCurrencies().join(', ')} (base ${container.fxRates.baseCurrency})`);
+    console.log(`🧾 Tax rules: ${container.taxRules.getRules().length}`);
+    console.log(`🏷️  Promotions: ${container.promotions.getPromotions().length}`);
+    console.log(`📏 Business rules: GET http://localhost:${port}/api/admin/business-rules`);
+    console.log(`🚦 Rate limits: GET http://localhost:${port}/api/admin/rate-limits`);
+    console.log(`🔑 API keys: GET http://localhost:${port}/api/admin/api-keys`);
   });
+
+  container.businessRuleWatcher.start();
+
+  if (container.inboxWatcher) {
+    container.inboxWatcher.start();
+    for (const partner of container.partnerRegistry.list()) {
+      console.log(`📂 ${partner.displayName} inbox: ${container.inboxWatcher.getPartnerInbox(partner)}`);
+    }
+  }
 }
 
 // Run server if this file is executed directly
@@ -0,0 +1,201 @@
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, ApiKeyStatus, ErrorCode, PartnerId } from '../../domain/models';
+import { IApiKeyStorePort } from '../../domain/ports';
+
+/** How long a rotated key keeps working by default: one day */
+export const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+/** Prefix of issued keys, so they are recognisable (e.g. in secret scanners) */
+const KEY_PREFIX = 'pk_';
+
+/**
+ * Options for issuing a key
+ */
+export interface ApiKeyInput {
+  label?: string;
+  expiresAt?: string;
+}
+
+/**
+ * A newly issued key. The plaintext key is only available here.
+ */
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+/**
+ * Result of changing a key.
+ */
+export type ApiKeyChangeResult =
+  | { success: true; apiKey: ApiKey }
+  | { success: false; errorCode: ErrorCode; message: string };
+
+/**
+ * Result of rotating a key: the replacement and the key it replaces.
+ */
+export type ApiKeyRotationResult =
+  | { success: true; issued: IssuedApiKey; previous: ApiKey }
+  | { success: false; errorCode: ErrorCode; message: string };
+
+/**
+ * Hash a plaintext key for storage and lookup.
+ * Issued keys are long random strings, so a fast hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Whether a key can be used at a given time
+ */
+export function getApiKeyStatus(apiKey: ApiKey, now: Date = new Date()): ApiKeyStatus {
+  if (apiKey.revokedAt) {
+    return ApiKeyStatus.REVOKED;
+  }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= now.getTime()) {
+    return ApiKeyStatus.EXPIRED;
+  }
+  return ApiKeyStatus.ACTIVE;
+}
+
+/**
+ * API Key Service - Application layer service for partner credentials.
+ *
+ * Responsibilities:
+ * - Issue random keys and store only their hashes
+ * - Rotate keys, keeping the old key working for a grace period
+ * - Expire and revoke keys
+ * - Authenticate presented keys and record when they were last used
+ */
+export class ApiKeyService {
+  constructor(
+    private readonly store: IApiKeyStorePort,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Issue a new key for a partner
+   */
+  async create(partnerId: PartnerId, input: ApiKeyInput = {}): Promise<IssuedApiKey> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      partnerId,
+      keyHash: hashApiKey(key),
+      maskedKey: `${KEY_PREFIX}••••${key.slice(-4)}`,
+      createdAt: this.now().toISOString(),
+      ...(input.label !== undefined && { label: input.label }),
+      ...(input.expiresAt !== undefined && { expiresAt: new Date(input.expiresAt).toISOString() }),
+    };
+
+    await this.store.save(apiKey);
+    return { apiKey, key };
+  }
+
+  /**
+   * List keys, oldest first (all partners when no partner is given)
+   */
+  async list(partnerId?: PartnerId): Promise<ApiKey[]> {
+    const keys = await this.store.list(partnerId);
+    return [...keys].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get a key by ID
+   */
+  async get(id: string): Promise<ApiKey | null> {
+    return this.store.findById(id);
+  }
+
+  /**
+   * Issue a replacement for a key. The old key keeps working for the grace
+   * period (or until its own expiry, if sooner) so the partner can switch over.
+   */
+  async rotate(id: string, gracePeriodSeconds: number = DEFAULT_ROTATION_GRACE_SECONDS): Promise<ApiKeyRotationResult> {
+    const lookup = await this.findUsable(id);
+    if (!lookup.success) {
+      return lookup;
+    }
+
+    const current = lookup.apiKey;
+    const issued = await this.create(current.partnerId, {
+      ...(current.label !== undefined && { label: current.label }),
+    });
+
+    const graceEnd = new Date(this.now().getTime() + gracePeriodSeconds * 1000);
+    const expiresAt = current.expiresAt && new Date(current.expiresAt) < graceEnd ? current.expiresAt : graceEnd.toISOString();
+    const previous: ApiKey = { ...current, expiresAt, replacedBy: issued.apiKey.id };
+    await this.store.save(previous);
+
+    return { success: true, issued, previous };
+  }
+
+  /**
+   * Set when a key stops working (default: now)
+   */
+  async expire(id: string, expiresAt?: string): Promise<ApiKeyChangeResult> {
+    const lookup = await this.findUsable(id);
+    if (!lookup.success) {
+      return lookup;
+    }
+
+    const apiKey: ApiKey = {
+      ...lookup.apiKey,
+      expiresAt: (expiresAt ? new Date(expiresAt) : this.now()).toISOString(),
+    };
+    await this.store.save(apiKey);
+    return { success: true, apiKey };
+  }
+
+  /**
+   * Revoke a key immediately and for good
+   */
+  async revoke(id: string): Promise<ApiKeyChangeResult> {
+    const existing = await this.store.findById(id);
+    if (!existing) {
+      return { success: false, errorCode: ErrorCode.API_KEY_NOT_FOUND, message: `API key not found: ${id}` };
+    }
+    if (existing.revokedAt) {
+      return { success: true, apiKey: existing };
+    }
+
+    const apiKey: ApiKey = { ...existing, revokedAt: this.now().toISOString() };
+    await this.store.save(apiKey);
+    console.log(`[AUTH] Revoked API key ${apiKey.maskedKey} of ${apiKey.partnerId}`);
+    return { success: true, apiKey };
+  }
+
+  /**
+   * Find the active key matching a presented key and record its use.
+   * Returns null for unknown, expired and revoked keys.
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const apiKey = await this.store.findByHash(hashApiKey(key));
+    const now = this.now();
+    if (!apiKey || getApiKeyStatus(apiKey, now) !== ApiKeyStatus.ACTIVE) {
+      return null;
+    }
+
+    const used: ApiKey = { ...apiKey, lastUsedAt: now.toISOString() };
+    await this.store.save(used);
+    return used;
+  }
+
+  /**
+   * Look up a key that can still be changed (not revoked or expired)
+   */
+  private async findUsable(id: string): Promise<ApiKeyChangeResult> {
+    const apiKey = await this.store.findById(id);
+    if (!apiKey) {
+      return { success: false, errorCode: ErrorCode.API_KEY_NOT_FOUND, message: `API key not found: ${id}` };
+    }
+
+    const status = getApiKeyStatus(apiKey, this.now());
+    if (status !== ApiKeyStatus.ACTIVE) {
+      return { success: false, errorCode: ErrorCode.API_KEY_INACTIVE, message: `API key ${apiKey.maskedKey} is ${status.toLowerCase()}` };
+    }
+    return { success: true, apiKey };
+  }
+}
@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BatchJob, BatchJobOrderResult, BatchJobStatus, PartnerId } from '../../domain/models';
+import { IBatchJobRepositoryPort } from '../../domain/ports';
+import { FeedHandler, FeedProcessingResult } from './feed-handler';
+
+/** Orders processed between yields to the event loop, so status polls stay responsive */
+const YIELD_EVERY = 100;
+
+/**
+ * Convert a feed processing result to its job representation.
+ */
+function toJobResult(result: FeedProcessingResult): BatchJobOrderResult {
+  return result.success
+    ? {
+        status: 'accepted',
+        orderId: result.orderId,
+        partnerId: result.partnerId,
+        sequenceNumber: result.sequenceNumber,
+        ...(result.warnings && { warnings: result.warnings }),
+      }
+    : {
+        status: 'rejected',
+        orderId: result.orderId,
+        partnerId: result.partnerId,
+        errors: result.errors ?? [],
+        ...(result.errorCode && { errorCode: result.errorCode }),
+      };
+}
+
+/**
+ * Batch Job Service - Application layer service for asynchronous batches.
+ *
+ * Responsibilities:
+ * - Accept a batch and return a job immediately
+ * - Process the batch in the background through the FeedHandler
+ * - Track progress and per-order results on the persisted job
+ * - Mark jobs interrupted by a restart as failed
+ */
+export class BatchJobService {
+  // Background runs by job ID, so callers can wait for completion
+  private readonly runningJobs: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private readonly feedHandler: FeedHandler,
+    private readonly jobRepository: IBatchJobRepositoryPort
+  ) {}
+
+  /**
+   * Create a job for the batch and start processing it in the background.
+   * Returns the job in PENDING state.
+   */
+  async submit(partnerId: PartnerId, inputs: unknown[]): Promise<BatchJob> {
+    const job: BatchJob = {
+      id: uuidv4(),
+      partnerId,
+      status: BatchJobStatus.PENDING,
+      total: inputs.length,
+      accepted: 0,
+      rejected: 0,
+      pending: inputs.length,
+      results: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.jobRepository.save(job);
+
+    // Start after the current request has been answered
+    const run = new Promise<void>((resolve) => setImmediate(resolve))
+      .then(() => this.run(job, inputs))
+      .finally(() => this.runningJobs.delete(job.id));
+    this.runningJobs.set(job.id, run);
+
+    return { ...job };
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<BatchJob | null> {
+    return this.jobRepository.findById(id);
+  }
+
+  /**
+   * Wait until a job has finished processing and return its final state
+   */
+  async waitForJob(id: string): Promise<BatchJob | null> {
+    await this.runningJobs.get(id);
+    return this.getJob(id);
+  }
+
+  /**
+   * Mark jobs left PENDING or RUNNING by a previous process as FAILED.
+   * Their inputs are not persisted, so they cannot be resumed; orders
+   * already accepted keep their results and resubmitting the batch is safe
+   * because accepted orders are rejected as duplicates.
+   */
+  async recoverInterruptedJobs(): Promise<number> {
+    const interrupted = await this.jobRepository.findByStatus([
+      BatchJobStatus.PENDING,
+      BatchJobStatus.RUNNING,
+    ]);
+
+    for (const job of interrupted) {
+      job.status = BatchJobStatus.FAILED;
+      job.error = 'Interrupted by a server restart before all orders were processed';
+      job.completedAt = new Date().toISOString();
+      await this.jobRepository.save(job);
+    }
+
+    return interrupted.length;
+  }
+
+  // ============ Private Helper Methods ============
+
+  /**
+   * Process every order of the job, saving progress after each order.
+   */
+  private async run(job: BatchJob, inputs: unknown[]): Promise<void> {
+    job.status = BatchJobStatus.RUNNING;
+    job.startedAt = new Date().toISOString();
+    await this.jobRepository.save(job);
+
+    try {
+      const processNext = this.feedHandler.createBatchProcessor(job.partnerId);
+
+      for (let i = 0; i < inputs.length; i++) {
+        const result = toJobResult(await processNext(inputs[i]));
+
+        job.results.push(result);
+        job[result.status]++;
+        job.pending--;
+        await this.jobRepository.save(job);
+
+        if ((i + 1) % YIELD_EVERY === 0) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      }
+
+      job.status = BatchJobStatus.COMPLETED;
+    } catch (error) {
+      console.error(`❌ Batch job ${job.id} failed:`, error);
+      job.status = BatchJobStatus.FAILED;
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.completedAt = new Date().toISOString();
+    await this.jobRepository.save(job);
+  }
+}
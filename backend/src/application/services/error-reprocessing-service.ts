@@ -0,0 +1,156 @@
+import { isDeepStrictEqual } from 'util';
+import { ErrorCode, ErrorEvent } from '../../domain/models';
+import { IErrorRepositoryPort } from '../../domain/ports';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { FeedHandler, FeedProcessingResult, OrderPreviewResult } from './feed-handler';
+
+/**
+ * Result of reprocessing an error event: the resolved error event and the
+ * accepted order, or why nothing was resubmitted or the order was rejected.
+ */
+export type ErrorReprocessResult =
+  | { success: true; error: ErrorEvent; result: FeedProcessingResult }
+  | { success: false; errors: string[]; errorCode?: ErrorCode };
+
+/**
+ * Result of previewing the reprocessing of an error event.
+ */
+export type ErrorPreviewResult =
+  | { success: true; preview: OrderPreviewResult }
+  | { success: false; errors: string[]; errorCode: ErrorCode };
+
+/**
+ * Outcome of looking up an error event to reprocess: the error event, or
+ * why it cannot be reprocessed.
+ */
+type ErrorLookup =
+  | { found: true; error: ErrorEvent }
+  | { found: false; result: { success: false; errors: string[]; errorCode: ErrorCode } };
+
+/**
+ * Error Reprocessing Service - Application layer service for the
+ * fix-and-resubmit workflow of rejected orders.
+ *
+ * Responsibilities:
+ * - Preview a stored (optionally edited) payload without processing it
+ * - Resubmit the payload as a new order through the FeedHandler
+ * - Resolve the error event with a link to the accepted order
+ *
+ * Payloads that fail the preview are not resubmitted, so a failed attempt
+ * does not record another error event.
+ */
+export class ErrorReprocessingService {
+  // Error events being reprocessed, so a double submit cannot resubmit twice
+  private readonly reprocessing: Set<string> = new Set();
+
+  constructor(
+    private readonly errorRepository: IErrorRepositoryPort,
+    private readonly feedHandler: FeedHandler,
+    private readonly partnerRegistry: PartnerRegistry
+  ) {}
+
+  /**
+   * Check the payload of an error event (the stored one unless an edited
+   * payload is given) like the feed would, without processing it.
+   */
+  async preview(errorId: string, payload?: unknown): Promise<ErrorPreviewResult> {
+    const lookup = await this.findReprocessable(errorId);
+    if (!lookup.found) {
+      return lookup.result;
+    }
+
+    const { error } = lookup;
+    return { success: true, preview: await this.feedHandler.previewOrder(error.partnerId, payload ?? error.originalPayload) };
+  }
+
+  /**
+   * Resubmit the payload of an error event (the stored one unless an edited
+   * payload is given) as a new order. When it is accepted the error event is
+   * resolved with the accepted order.
+   */
+  async reprocess(errorId: string, payload?: unknown): Promise<ErrorReprocessResult> {
+    if (this.reprocessing.has(errorId)) {
+      return {
+        success: false,
+        errors: [`Error event '${errorId}' is already being reprocessed`],
+        errorCode: ErrorCode.ERROR_ALREADY_RESOLVED,
+      };
+    }
+
+    this.reprocessing.add(errorId);
+    try {
+      const lookup = await this.findReprocessable(errorId);
+      if (!lookup.found) {
+        return lookup.result;
+      }
+
+      const { error } = lookup;
+      const input = payload ?? error.originalPayload;
+
+      const preview = await this.feedHandler.previewOrder(error.partnerId, input);
+      if (!preview.valid) {
+        return { success: false, errors: preview.errors, ...(preview.errorCode && { errorCode: preview.errorCode }) };
+      }
+
+      const result = await this.feedHandler.processOrder(error.partnerId, input);
+      if (!result.success) {
+        return { success: false, errors: result.errors ?? [], ...(result.errorCode && { errorCode: result.errorCode }) };
+      }
+
+      const resolved: ErrorEvent = {
+        ...error,
+        resolution: {
+          resolvedAt: new Date().toISOString(),
+          orderEventId: result.orderEventId!,
+          externalOrderId: result.orderId,
+          sequenceNumber: result.sequenceNumber!,
+          ...(!isDeepStrictEqual(input, error.originalPayload) && { editedPayload: input }),
+        },
+      };
+      await this.errorRepository.save(resolved);
+
+      return { success: true, error: resolved, result };
+    } finally {
+      this.reprocessing.delete(errorId);
+    }
+  }
+
+  /**
+   * Find an error event that can be reprocessed: it exists, is not resolved
+   * yet and its partner is still registered.
+   */
+  private async findReprocessable(errorId: string): Promise<ErrorLookup> {
+    const error = await this.errorRepository.findById(errorId);
+
+    if (!error) {
+      return {
+        found: false,
+        result: { success: false, errors: [`Error event '${errorId}' not found`], errorCode: ErrorCode.ERROR_NOT_FOUND },
+      };
+    }
+
+    if (error.resolution) {
+      return {
+        found: false,
+        result: {
+          success: false,
+          errors: [`Error event '${errorId}' was already resolved by order '${error.resolution.externalOrderId}'`],
+          errorCode: ErrorCode.ERROR_ALREADY_RESOLVED,
+        },
+      };
+    }
+
+    if (!this.partnerRegistry.get(error.partnerId)) {
+      return {
+        found: false,
+        result: {
+          success: false,
+          errors: [`Partner '${error.partnerId}' is no longer registered`],
+          errorCode: ErrorCode.UNKNOWN_PARTNER,
+        },
+      };
+    }
+
+    return { found: true, error };
+  }
+}
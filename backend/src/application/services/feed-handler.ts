@@ -1,8 +1,18 @@
-import { PartnerId } from '../../domain/models';
-import { PartnerAInput, PartnerBInput, ValidationError } from '../../domain/models';
-import { ValidationService } from '../../domain/services/validation-service';
+import { PartnerId, ErrorCode, OrderStatus } from '../../domain/models';
+import {
+  PartnerAInput,
+  PartnerBInput,
+  ValidationError,
+  ValidationResult,
+  OrderEvent,
+  CreateOrderEventInput
+} from '../../domain/models';
+import { ValidationService, formatValidationErrors } from '../../domain/services/validation-service';
 import { OrderTransformer } from '../../domain/services/order-transformer';
-import { IOrderStreamPort, ISequenceManagerPort } from '../../domain/ports';
+import { PartnerRegistry, createDefaultPartnerRegistry } from '../../domain/services/partner-registry';
+import { getValueAtPath } from '../../domain/services/object-path';
+import { canTransitionOrderStatus, getOrderStatus, isOrderOpen } from '../../domain/services/order-status';
+import { IOrderStreamPort, ISequenceManagerPort, IOrderRepositoryPort, IPartnerAdapter } from '../../domain/ports';
 
 /**
  * Result of processing a feed request.
@@ -12,150 +22,746 @@ export interface FeedProcessingResult {
   orderId: string;
   partnerId: PartnerId;
   sequenceNumber?: number;
+  /** Internal ID of the OrderEvent an accepted new order became */
+  orderEventId?: string;
+  /** Order revision after an amendment or cancellation */
+  revision?: number;
   errors?: string[];
+  /** Validation warnings of an accepted order (it was accepted anyway) */
+  warnings?: string[];
+  errorCode?: ErrorCode;
 }
 
 /**
- * Convert ValidationError array to string array for external consumption.
+ * Options for batch processing.
  */
-function formatValidationErrors(errors: ValidationError[]): string[] {
-  return errors.map((e) => `${e.field}: ${e.message}`);
+export interface BatchProcessingOptions {
+  /**
+   * All-or-nothing: every order is validated first and either all orders are
+   * sequenced (contiguously) and emitted, or none is (default: false)
+   */
+  atomic?: boolean;
 }
 
+/**
+ * Result of changing an order's lifecycle status.
+ */
+export type OrderStatusChangeResult =
+  | { success: true; order: OrderEvent }
+  | { success: false; errors: string[]; errorCode: ErrorCode };
+
+/**
+ * Result of previewing an order: the OrderEvent it would become (not
+ * sequenced: sequenceNumber 0), or why it would be rejected.
+ */
+export type OrderPreviewResult =
+  | { valid: true; orderId: string; partnerId: PartnerId; orderEvent: OrderEvent }
+  | { valid: false; orderId: string; partnerId: PartnerId; errors: string[]; errorCode?: ErrorCode };
+
+/**
+ * Outcome of the checks an order must pass before it is sequenced, without
+ * side effects: the validated and mapped order, or the problems found.
+ */
+type OrderCheck =
+  | { passed: true; orderId: string; orderInput: CreateOrderEventInput }
+  | { passed: false; orderId: string; details: ValidationError[]; errorCode?: ErrorCode };
+
+/**
+ * Outcome of checking an order before it is sequenced: either the validated
+ * and mapped order with its external ID reserved, or the rejection already emitted.
+ */
+type Admission =
+  | { admitted: true; orderId: string; orderKey: string; orderInput: CreateOrderEventInput }
+  | { admitted: false; result: FeedProcessingResult };
+
+/**
+ * Outcome of looking up an order to amend or cancel: the order, or the
+ * rejection already emitted.
+ */
+type OrderLookup =
+  | { found: true; order: OrderEvent }
+  | { found: false; result: FeedProcessingResult };
+
 /**
  * Feed Handler Service - Application layer orchestrator.
  * Coordinates validation, transformation, sequencing, and stream routing.
- * 
+ *
  * Responsibilities:
  * - Accept raw partner input
  * - Validate using ValidationService
+ * - Reject duplicate external order IDs (idempotency)
+ * - Reject orders in currencies without an exchange rate
  * - Transform using OrderTransformer
  * - Assign sequence numbers
  * - Route to appropriate stream (valid_orders or error_orders)
+ * - Amend and cancel accepted orders (order_amended / order_cancelled)
+ * - Move accepted orders through their lifecycle (order_status_changed)
+ * - Preview orders without processing them
  */
 export class FeedHandler {
+  // Orders between the duplicate check and emission (partnerId:externalOrderId)
+  private readonly pendingOrderKeys: Set<string> = new Set();
+
+  // Tail of the queued amendments/cancellations/status changes per order (partnerId:externalOrderId)
+  private readonly orderLocks: Map<string, Promise<unknown>> = new Map();
+
   constructor(
     private readonly validationService: ValidationService,
     private readonly transformer: OrderTransformer,
     private readonly orderStream: IOrderStreamPort,
-    private readonly sequenceManager: ISequenceManagerPort
+    private readonly sequenceManager: ISequenceManagerPort,
+    private readonly orderRepository: IOrderRepositoryPort,
+    private readonly partnerRegistry: PartnerRegistry = createDefaultPartnerRegistry()
   ) {}
 
   /**
-   * Process a Partner A order feed.
+   * Process a single order for any registered partner.
    */
-  processPartnerAOrder(input: PartnerAInput): FeedProcessingResult {
-    const partnerId = PartnerId.PARTNER_A;
-    const orderId = input.orderId;
+  async processOrder(partnerId: PartnerId, input: unknown): Promise<FeedProcessingResult> {
+    return this.processWithBatch(this.getAdapter(partnerId), input);
+  }
 
-    // Step 1: Validate
-    const validationResult = this.validationService.validatePartnerA(input);
+  /**
+   * Check an order like processOrder would, without sequencing, emitting or
+   * recording it (e.g. to preview a fixed payload before resubmitting it).
+   */
+  async previewOrder(partnerId: PartnerId, input: unknown): Promise<OrderPreviewResult> {
+    const adapter = this.getAdapter(partnerId);
+    const check = this.checkOrder(adapter, input);
 
-    if (!validationResult.isValid) {
-      const errorMessages = formatValidationErrors(validationResult.errors);
-      
-      // Route to error stream
-      this.orderStream.emitErrorOrder({
-        partnerId,
-        originalOrderId: orderId,
-        errors: errorMessages,
-        rawInput: input,
-        timestamp: new Date(),
-      });
+    if (!check.passed) {
+      const { orderId, details, errorCode } = check;
+      return { valid: false, orderId, partnerId, errors: formatValidationErrors(details), ...(errorCode && { errorCode }) };
+    }
 
+    const { orderId, orderInput } = check;
+    if (this.pendingOrderKeys.has(`${partnerId}:${orderId}`) ||
+        await this.orderRepository.existsByExternalId(orderId, partnerId)) {
       return {
-        success: false,
+        valid: false,
         orderId,
         partnerId,
-        errors: errorMessages,
+        errors: formatValidationErrors([this.describeDuplicate(partnerId, adapter.idField, orderId)]),
+        errorCode: ErrorCode.DUPLICATE_ORDER,
       };
     }
 
-    // Step 2: Get next sequence number
-    const sequenceNumber = this.sequenceManager.getNextSequence(partnerId);
+    return { valid: true, orderId, partnerId, orderEvent: this.transformer.buildOrderEvent(orderInput, 0) };
+  }
 
-    // Step 3: Transform to OrderEvent
-    const createInput = this.transformer.transformPartnerA(input);
-    const orderEvent = this.transformer.buildOrderEvent(createInput, sequenceNumber);
+  /**
+   * Process batch of orders for any registered partner.
+   * Returns results for each order in the batch.
+   * Orders are processed in submission order; a repeated external order ID
+   * within the batch is rejected as a duplicate of the first accepted occurrence.
+   * In atomic mode a single rejected order aborts the whole batch: the other
+   * orders are rejected with BATCH_ABORTED and nothing is sequenced.
+   */
+  async processBatch(
+    partnerId: PartnerId,
+    inputs: unknown[],
+    options: BatchProcessingOptions = {}
+  ): Promise<FeedProcessingResult[]> {
+    if (options.atomic) {
+      return this.processAtomicBatch(this.getAdapter(partnerId), inputs);
+    }
 
-    // Step 4: Route to valid orders stream
-    this.orderStream.emitValidOrder({
-      orderEvent,
-      receivedAt: new Date(),
-    });
+    const processNext = this.createBatchProcessor(partnerId);
+    const results: FeedProcessingResult[] = [];
+    for (const input of inputs) {
+      results.push(await processNext(input));
+    }
+    return results;
+  }
 
-    return {
-      success: true,
-      orderId,
+  /**
+   * Create a processor for a batch whose orders arrive one at a time
+   * (e.g. a streamed request). Orders passed to the processor are handled
+   * like a batch: a repeated external order ID is rejected as a duplicate.
+   * Callers must await each call before passing the next order.
+   */
+  createBatchProcessor(partnerId: PartnerId): (input: unknown) => Promise<FeedProcessingResult> {
+    const adapter = this.getAdapter(partnerId);
+    const batchOrderIds = new Set<string>();
+    return (input) => this.processWithBatch(adapter, input, batchOrderIds);
+  }
+
+  /**
+   * Reject a record of multi-order content that could not be read as
+   * partner input (e.g. a CSV row with too many cells or an NDJSON line that
+   * is not JSON). It is routed to the error stream like any rejected order,
+   * with the raw record as its payload so it can be fixed and reprocessed.
+   */
+  rejectUnreadable(partnerId: PartnerId, rawInput: unknown, reason: string, orderId: string = 'unknown'): FeedProcessingResult {
+    const errorCode = ErrorCode.INVALID_DATA_TYPE;
+    this.orderStream.emitErrorOrder({
       partnerId,
-      sequenceNumber,
-    };
+      originalOrderId: orderId,
+      errors: [reason],
+      details: [{ field: 'record', errorCode, message: reason }],
+      errorCode,
+      rawInput,
+      timestamp: new Date(),
+    });
+
+    return { success: false, orderId, partnerId, errors: [reason], errorCode };
+  }
+
+  /**
+   * Amend an accepted order with its corrected partner input.
+   * The input is validated like a new order and must carry the same external
+   * order ID; amounts are recomputed and the change is added to the order's
+   * history. An amendment that changes nothing keeps the current revision.
+   */
+  async amendOrder(partnerId: PartnerId, externalOrderId: string, input: unknown): Promise<FeedProcessingResult> {
+    const adapter = this.getAdapter(partnerId);
+    const { idField } = adapter;
+
+    return this.withOrderLock(`${partnerId}:${externalOrderId}`, async () => {
+      const validationResult = this.validationService.validateByPartner(partnerId, input);
+
+      if (!validationResult.isValid) {
+        return this.reject(partnerId, externalOrderId, input, validationResult.errors);
+      }
+
+      if (String(getValueAtPath(input, idField)) !== externalOrderId) {
+        return this.reject(
+          partnerId,
+          externalOrderId,
+          input,
+          [{
+            field: idField,
+            errorCode: ErrorCode.INVALID_VALUE,
+            message: `Must match the order being amended ('${externalOrderId}')`,
+            receivedValue: getValueAtPath(input, idField),
+          }],
+          ErrorCode.INVALID_VALUE
+        );
+      }
+
+      const orderInput = this.toOrderInput(adapter, validationResult);
+      const currencyErrors = this.checkCurrency(orderInput);
+      if (currencyErrors.length > 0) {
+        return this.reject(partnerId, externalOrderId, input, currencyErrors, ErrorCode.UNSUPPORTED_CURRENCY);
+      }
+
+      const taxRateErrors = this.transformer.verifyTaxRates(orderInput);
+      if (taxRateErrors.length > 0) {
+        return this.reject(partnerId, externalOrderId, input, taxRateErrors, ErrorCode.TAX_RATE_MISMATCH);
+      }
+
+      const discountErrors = this.transformer.verifyDiscounts(orderInput);
+      if (discountErrors.length > 0) {
+        return this.reject(partnerId, externalOrderId, input, discountErrors, ErrorCode.INVALID_DISCOUNT);
+      }
+
+      const amountErrors = this.transformer.verifyAmounts(orderInput);
+      if (amountErrors.length > 0) {
+        return this.reject(partnerId, externalOrderId, input, amountErrors, ErrorCode.INVALID_VALUE);
+      }
+
+      const lookup = await this.findChangeableOrder(adapter, externalOrderId, input);
+      if (!lookup.found) {
+        return lookup.result;
+      }
+      const current = lookup.order;
+
+      const { orderEvent, changes } = this.transformer.amendOrderEvent(current, orderInput);
+
+      if (changes.length > 0) {
+        this.orderStream.emitOrderAmended({ orderEvent, previous: current, changes, receivedAt: new Date() });
+      }
+
+      return this.changed(orderEvent);
+    });
+  }
+
+  /**
+   * Cancel an accepted order. Cancelled orders stay queryable but are
+   * excluded from statistics and can no longer be amended.
+   */
+  async cancelOrder(partnerId: PartnerId, externalOrderId: string, reason?: string): Promise<FeedProcessingResult> {
+    const adapter = this.getAdapter(partnerId);
+
+    return this.withOrderLock(`${partnerId}:${externalOrderId}`, async () => {
+      const lookup = await this.findChangeableOrder(adapter, externalOrderId, { reason });
+      if (!lookup.found) {
+        return lookup.result;
+      }
+
+      const orderEvent = this.transformer.cancelOrderEvent(lookup.order, reason);
+      this.orderStream.emitOrderCancelled({ orderEvent, reason, receivedAt: new Date() });
+
+      return this.changed(orderEvent);
+    });
+  }
+
+  /**
+   * Move an accepted order (by its ID) to another lifecycle status.
+   * Only transitions in ORDER_STATUS_TRANSITIONS are applied; a change to
+   * CANCELLED cancels the order like cancelOrder, and a change to the
+   * current status changes nothing. Refused changes are returned rather
+   * than routed to the error stream, which records rejected partner input.
+   */
+  async changeOrderStatus(orderId: string, status: OrderStatus, reason?: string): Promise<OrderStatusChangeResult> {
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      return {
+        success: false,
+        errors: [`Order with ID '${orderId}' not found`],
+        errorCode: ErrorCode.ORDER_NOT_FOUND,
+      };
+    }
+
+    return this.withOrderLock(`${order.partnerId}:${order.externalOrderId}`, async (): Promise<OrderStatusChangeResult> => {
+      // Re-read: a change queued before this one may have moved the order on
+      const current = (await this.orderRepository.findById(orderId)) ?? order;
+      const previousStatus = getOrderStatus(current);
+
+      if (previousStatus === status) {
+        return { success: true, order: current };
+      }
+
+      if (!canTransitionOrderStatus(previousStatus, status)) {
+        return {
+          success: false,
+          errors: [`Cannot change order status from ${previousStatus} to ${status}`],
+          errorCode: ErrorCode.INVALID_STATUS_TRANSITION,
+        };
+      }
+
+      const receivedAt = new Date();
+      if (status === OrderStatus.CANCELLED) {
+        const orderEvent = this.transformer.cancelOrderEvent(current, reason, receivedAt);
+        this.orderStream.emitOrderCancelled({ orderEvent, reason, receivedAt });
+        return { success: true, order: orderEvent };
+      }
+
+      const orderEvent = this.transformer.changeOrderEventStatus(current, status, reason, receivedAt);
+      this.orderStream.emitOrderStatusChanged({ orderEvent, previousStatus, reason, receivedAt });
+      return { success: true, order: orderEvent };
+    });
+  }
+
+  /**
+   * Process a Partner A order feed.
+   */
+  async processPartnerAOrder(input: PartnerAInput): Promise<FeedProcessingResult> {
+    return this.processOrder(PartnerId.PARTNER_A, input);
   }
 
   /**
    * Process a Partner B order feed.
    */
-  processPartnerBOrder(input: PartnerBInput): FeedProcessingResult {
-    const partnerId = PartnerId.PARTNER_B;
-    const orderId = input.transactionId;
+  async processPartnerBOrder(input: PartnerBInput): Promise<FeedProcessingResult> {
+    return this.processOrder(PartnerId.PARTNER_B, input);
+  }
 
-    // Step 1: Validate
-    const validationResult = this.validationService.validatePartnerB(input);
+  /**
+   * Process batch of Partner A orders.
+   */
+  async processPartnerABatch(
+    inputs: PartnerAInput[],
+    options?: BatchProcessingOptions
+  ): Promise<FeedProcessingResult[]> {
+    return this.processBatch(PartnerId.PARTNER_A, inputs, options);
+  }
 
-    if (!validationResult.isValid) {
-      const errorMessages = formatValidationErrors(validationResult.errors);
-      
-      // Route to error stream
-      this.orderStream.emitErrorOrder({
-        partnerId,
-        originalOrderId: orderId,
-        errors: errorMessages,
-        rawInput: input,
-        timestamp: new Date(),
+  /**
+   * Process batch of Partner B orders.
+   */
+  async processPartnerBBatch(
+    inputs: PartnerBInput[],
+    options?: BatchProcessingOptions
+  ): Promise<FeedProcessingResult[]> {
+    return this.processBatch(PartnerId.PARTNER_B, inputs, options);
+  }
+
+  // ============ Private Helper Methods ============
+
+  /**
+   * Look up the adapter for a partner; unknown partners are a programming error.
+   */
+  private getAdapter(partnerId: PartnerId): IPartnerAdapter {
+    const adapter = this.partnerRegistry.get(partnerId);
+    if (!adapter) {
+      throw new Error(`Unknown partner ID: ${partnerId}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Shared pipeline: validate, reject duplicates, sequence, transform, emit.
+   */
+  private async processWithBatch(
+    adapter: IPartnerAdapter,
+    input: unknown,
+    batchOrderIds?: Set<string>
+  ): Promise<FeedProcessingResult> {
+    const { partnerId } = adapter;
+
+    // Steps 1-2: Validate and reject duplicates
+    const admission = await this.admit(adapter, input, batchOrderIds);
+    if (!admission.admitted) {
+      return admission.result;
+    }
+
+    const { orderId, orderKey, orderInput } = admission;
+    try {
+      // Step 3: Get next sequence number
+      const sequenceNumber = this.sequenceManager.getNextSequence(partnerId);
+
+      // Step 4: Transform to OrderEvent
+      const orderEvent = this.transformer.buildOrderEvent(orderInput, sequenceNumber);
+
+      // Step 5: Route to valid orders stream
+      this.orderStream.emitValidOrder({
+        orderEvent,
+        receivedAt: new Date(),
       });
 
+      batchOrderIds?.add(orderId);
+
       return {
-        success: false,
+        success: true,
         orderId,
         partnerId,
-        errors: errorMessages,
+        sequenceNumber,
+        orderEventId: orderEvent.id,
+        ...this.describeWarnings(orderEvent),
       };
+    } finally {
+      this.pendingOrderKeys.delete(orderKey);
     }
+  }
 
-    // Step 2: Get next sequence number
-    const sequenceNumber = this.sequenceManager.getNextSequence(partnerId);
+  /**
+   * All-or-nothing pipeline: admit every order first, then sequence and
+   * emit all of them, or none if any order was rejected.
+   */
+  private async processAtomicBatch(adapter: IPartnerAdapter, inputs: unknown[]): Promise<FeedProcessingResult[]> {
+    const { partnerId } = adapter;
+    const batchOrderIds = new Set<string>();
+    const admissions: Admission[] = [];
 
-    // Step 3: Transform to OrderEvent
-    const createInput = this.transformer.transformPartnerB(input);
-    const orderEvent = this.transformer.buildOrderEvent(createInput, sequenceNumber);
+    try {
+      for (const input of inputs) {
+        const admission = await this.admit(adapter, input, batchOrderIds);
+        if (admission.admitted) {
+          batchOrderIds.add(admission.orderId);
+        }
+        admissions.push(admission);
+      }
 
-    // Step 4: Route to valid orders stream
-    this.orderStream.emitValidOrder({
-      orderEvent,
-      receivedAt: new Date(),
-    });
+      const rejected = admissions.filter((admission) => !admission.admitted).length;
+      if (rejected > 0) {
+        const errors = [`Batch aborted: ${rejected} of ${inputs.length} orders were rejected`];
+        return admissions.map((admission) =>
+          admission.admitted
+            ? { success: false, orderId: admission.orderId, partnerId, errors, errorCode: ErrorCode.BATCH_ABORTED }
+            : admission.result
+        );
+      }
+
+      // Take sequence numbers in one synchronous pass so the batch gets a
+      // contiguous range
+      const orderInputs = admissions.flatMap((admission) => (admission.admitted ? [admission.orderInput] : []));
+      const orderEvents = orderInputs.map((orderInput) =>
+        this.transformer.buildOrderEvent(orderInput, this.sequenceManager.getNextSequence(partnerId))
+      );
+
+      const receivedAt = new Date();
+      for (const orderEvent of orderEvents) {
+        this.orderStream.emitValidOrder({ orderEvent, receivedAt });
+      }
 
+      return orderEvents.map((orderEvent) => ({
+        success: true,
+        orderId: orderEvent.externalOrderId,
+        partnerId,
+        sequenceNumber: orderEvent.sequenceNumber,
+        orderEventId: orderEvent.id,
+        ...this.describeWarnings(orderEvent),
+      }));
+    } finally {
+      for (const admission of admissions) {
+        if (admission.admitted) {
+          this.pendingOrderKeys.delete(admission.orderKey);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate and map an order, and reject unsupported currencies, tax rates
+   * that fail a tax rule and duplicates before a sequence number is consumed.
+   * An admitted order's key stays in pendingOrderKeys until the caller releases it.
+   */
+  private async admit(
+    adapter: IPartnerAdapter,
+    input: unknown,
+    batchOrderIds?: Set<string>
+  ): Promise<Admission> {
+    const { partnerId, idField } = adapter;
+
+    const check = this.checkOrder(adapter, input);
+    if (!check.passed) {
+      return {
+        admitted: false,
+        result: this.reject(partnerId, check.orderId, input, check.details, check.errorCode),
+      };
+    }
+
+    const { orderId, orderInput } = check;
+    const orderKey = `${partnerId}:${orderId}`;
+    if (batchOrderIds?.has(orderId) || this.pendingOrderKeys.has(orderKey)) {
+      return { admitted: false, result: this.rejectDuplicate(partnerId, idField, orderId, input) };
+    }
+
+    this.pendingOrderKeys.add(orderKey);
+    let exists: boolean;
+    try {
+      exists = await this.orderRepository.existsByExternalId(orderId, partnerId);
+    } catch (error) {
+      this.pendingOrderKeys.delete(orderKey);
+      throw error;
+    }
+
+    if (exists) {
+      this.pendingOrderKeys.delete(orderKey);
+      return { admitted: false, result: this.rejectDuplicate(partnerId, idField, orderId, input) };
+    }
+
+    return { admitted: true, orderId, orderKey, orderInput };
+  }
+
+  /**
+   * Validate and map an order, and check its currency, tax rates,
+   * discounts and amount sizes. Duplicates are not checked.
+   */
+  private checkOrder(adapter: IPartnerAdapter, input: unknown): OrderCheck {
+    const { partnerId, idField } = adapter;
+    const orderId = getValueAtPath(input, idField) as string;
+
+    const validationResult = this.validationService.validateByPartner(partnerId, input);
+
+    if (!validationResult.isValid) {
+      return { passed: false, orderId, details: validationResult.errors };
+    }
+
+    const orderInput = this.toOrderInput(adapter, validationResult);
+    const currencyErrors = this.checkCurrency(orderInput);
+    if (currencyErrors.length > 0) {
+      return { passed: false, orderId, details: currencyErrors, errorCode: ErrorCode.UNSUPPORTED_CURRENCY };
+    }
+
+    const taxRateErrors = this.transformer.verifyTaxRates(orderInput);
+    if (taxRateErrors.length > 0) {
+      return { passed: false, orderId, details: taxRateErrors, errorCode: ErrorCode.TAX_RATE_MISMATCH };
+    }
+
+    const discountErrors = this.transformer.verifyDiscounts(orderInput);
+    if (discountErrors.length > 0) {
+      return { passed: false, orderId, details: discountErrors, errorCode: ErrorCode.INVALID_DISCOUNT };
+    }
+
+    const amountErrors = this.transformer.verifyAmounts(orderInput);
+    if (amountErrors.length > 0) {
+      return { passed: false, orderId, details: amountErrors, errorCode: ErrorCode.INVALID_VALUE };
+    }
+
+    return { passed: true, orderId, orderInput };
+  }
+
+  /**
+   * Map a validated order to order input, annotated with its validation
+   * warnings.
+   */
+  private toOrderInput(adapter: IPartnerAdapter, validationResult: ValidationResult<unknown>): CreateOrderEventInput {
+    const orderInput = adapter.toOrderInput(validationResult.data);
+    const warnings = validationResult.warnings ?? [];
+    return warnings.length > 0 ? { ...orderInput, warnings } : orderInput;
+  }
+
+  /**
+   * Check that an order's amounts can be converted to the base currency
+   * (a rate is in effect at its transaction time); returns the errors.
+   */
+  private checkCurrency(orderInput: CreateOrderEventInput): ValidationError[] {
+    if (this.transformer.findFxRate(orderInput)) {
+      return [];
+    }
+
+    const currency = this.transformer.resolveCurrency(orderInput);
+    return [{
+      field: 'currency',
+      errorCode: ErrorCode.UNSUPPORTED_CURRENCY,
+      message: `No exchange rate from ${currency} to ${this.transformer.baseCurrency} on ${orderInput.transactionTime.slice(0, 10)}`,
+      receivedValue: currency,
+    }];
+  }
+
+  /**
+   * Run amendments, cancellations and status changes of the same order one
+   * at a time, so each applies to the revision left by the previous one.
+   */
+  private async withOrderLock<T>(orderKey: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.orderLocks.get(orderKey) ?? Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.catch(() => undefined);
+    this.orderLocks.set(orderKey, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.orderLocks.get(orderKey) === tail) {
+        this.orderLocks.delete(orderKey);
+      }
+    }
+  }
+
+  /**
+   * Find an accepted order that can still be changed (not cancelled and
+   * still open), or reject the change.
+   */
+  private async findChangeableOrder(
+    adapter: IPartnerAdapter,
+    externalOrderId: string,
+    input: unknown
+  ): Promise<OrderLookup> {
+    const { partnerId, idField } = adapter;
+    const order = await this.orderRepository.findByExternalId(externalOrderId, partnerId);
+
+    if (!order) {
+      return {
+        found: false,
+        result: this.reject(
+          partnerId,
+          externalOrderId,
+          input,
+          [this.describeOrder(idField, externalOrderId, `Order '${externalOrderId}' has not been accepted for ${partnerId}`, ErrorCode.ORDER_NOT_FOUND)],
+          ErrorCode.ORDER_NOT_FOUND
+        ),
+      };
+    }
+
+    if (order.cancelledAt) {
+      return {
+        found: false,
+        result: this.reject(
+          partnerId,
+          externalOrderId,
+          input,
+          [this.describeOrder(idField, externalOrderId, `Order '${externalOrderId}' was cancelled and can no longer be changed`, ErrorCode.ORDER_CANCELLED)],
+          ErrorCode.ORDER_CANCELLED
+        ),
+      };
+    }
+
+    if (!isOrderOpen(order)) {
+      return {
+        found: false,
+        result: this.reject(
+          partnerId,
+          externalOrderId,
+          input,
+          [this.describeOrder(idField, externalOrderId, `Order '${externalOrderId}' is ${getOrderStatus(order)} and can no longer be changed`, ErrorCode.INVALID_STATUS_TRANSITION)],
+          ErrorCode.INVALID_STATUS_TRANSITION
+        ),
+      };
+    }
+
+    return { found: true, order };
+  }
+
+  /**
+   * Build the result of a successful amendment or cancellation.
+   */
+  private changed(orderEvent: OrderEvent): FeedProcessingResult {
     return {
       success: true,
+      orderId: orderEvent.externalOrderId,
+      partnerId: orderEvent.partnerId,
+      sequenceNumber: orderEvent.sequenceNumber,
+      revision: orderEvent.revision ?? 1,
+      ...this.describeWarnings(orderEvent),
+    };
+  }
+
+  /**
+   * Warnings of an accepted order for its result (none: no warnings field).
+   */
+  private describeWarnings(orderEvent: OrderEvent): Pick<FeedProcessingResult, 'warnings'> {
+    return orderEvent.warnings && orderEvent.warnings.length > 0
+      ? { warnings: formatValidationErrors(orderEvent.warnings) }
+      : {};
+  }
+
+  /**
+   * Route a rejected order to the error stream (with its field-level
+   * errors) and build the failure result.
+   */
+  private reject(
+    partnerId: PartnerId,
+    orderId: string,
+    input: unknown,
+    details: ValidationError[],
+    errorCode?: ErrorCode
+  ): FeedProcessingResult {
+    const errors = formatValidationErrors(details);
+    this.orderStream.emitErrorOrder({
+      partnerId,
+      originalOrderId: orderId,
+      errors,
+      details,
+      ...(errorCode && { errorCode }),
+      rawInput: input,
+      timestamp: new Date(),
+    });
+
+    return {
+      success: false,
       orderId,
       partnerId,
-      sequenceNumber,
+      errors,
+      ...(errorCode && { errorCode }),
     };
   }
 
   /**
-   * Process batch of Partner A orders.
-   * Returns results for each order in the batch.
+   * Reject an order whose external ID was already accepted for the partner.
    */
-  processPartnerABatch(inputs: PartnerAInput[]): FeedProcessingResult[] {
-    return inputs.map((input) => this.processPartnerAOrder(input));
+  private rejectDuplicate(
+    partnerId: PartnerId,
+    idField: string,
+    orderId: string,
+    input: unknown
+  ): FeedProcessingResult {
+    return this.reject(
+      partnerId,
+      orderId,
+      input,
+      [this.describeDuplicate(partnerId, idField, orderId)],
+      ErrorCode.DUPLICATE_ORDER
+    );
   }
 
   /**
-   * Process batch of Partner B orders.
-   * Returns results for each order in the batch.
+   * Error for an external order ID already accepted for the partner.
+   */
+  private describeDuplicate(partnerId: PartnerId, idField: string, orderId: string): ValidationError {
+    return this.describeOrder(
+      idField,
+      orderId,
+      `Duplicate order '${orderId}' has already been accepted for ${partnerId}`,
+      ErrorCode.DUPLICATE_ORDER
+    );
+  }
+
+  /**
+   * Error about the order an external order ID refers to.
    */
-  processPartnerBBatch(inputs: PartnerBInput[]): FeedProcessingResult[] {
-    return inputs.map((input) => this.processPartnerBOrder(input));
+  private describeOrder(idField: string, orderId: string, message: string, errorCode: ErrorCode): ValidationError {
+    return { field: idField, errorCode, message, receivedValue: orderId };
   }
 }
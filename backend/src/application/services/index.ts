@@ -1,2 +1,7 @@
-export { FeedHandler, FeedProcessingResult } from './feed-handler';
+export { FeedHandler, FeedProcessingResult, OrderPreviewResult, OrderStatusChangeResult } from './feed-handler';
 export { OrderQueryService, OrderQueryParams, OrderResult } from './order-query-service';
+export { BatchJobService } from './batch-job-service';
+export { WebhookService, WebhookServiceOptions, WebhookSubscriptionInput, WebhookHeader } from './webhook-service';
+export { ErrorReprocessingService, ErrorReprocessResult, ErrorPreviewResult } from './error-reprocessing-service';
+export { RateLimiter, RateLimitDecision, RateLimitRefusal, RateLimitUsage, TokenBucketUsage } from './rate-limiter';
+export { ApiKeyService, ApiKeyInput, IssuedApiKey, ApiKeyChangeResult, ApiKeyRotationResult, DEFAULT_ROTATION_GRACE_SECONDS, hashApiKey, getApiKeyStatus } from './api-key-service';
@@ -7,6 +7,8 @@ import {
   PaginatedResult,
   OrderStatistics,
 } from '../../domain/ports';
+import { PartnerRegistry, createDefaultPartnerRegistry } from '../../domain/services/partner-registry';
+import { DEFAULT_BASE_CURRENCY } from '../../domain/services/fx-rate-table';
 
 /**
  * Query parameters for order retrieval
@@ -36,7 +38,9 @@ export interface OrderResult {
  */
 export class OrderQueryService {
   constructor(
-    private readonly repository: IOrderRepositoryPort
+    private readonly repository: IOrderRepositoryPort,
+    private readonly partnerRegistry: PartnerRegistry = createDefaultPartnerRegistry(),
+    private readonly baseCurrency: string = DEFAULT_BASE_CURRENCY
   ) {}
 
   /**
@@ -102,10 +106,26 @@ export class OrderQueryService {
   }
 
   /**
-   * Get order statistics
+   * Get order statistics.
+   * Every registered partner is reported, including those without orders;
+   * amount totals are in the base currency.
    */
   async getStatistics(filters?: OrderQueryFilters): Promise<OrderStatistics> {
-    return this.repository.getStatistics(filters);
+    const stats = await this.repository.getStatistics(filters);
+
+    const ordersByPartner: Record<PartnerId, number> = {};
+    const highestSequence: Record<PartnerId, number> = {};
+    for (const partnerId of this.partnerRegistry.getPartnerIds()) {
+      ordersByPartner[partnerId] = 0;
+      highestSequence[partnerId] = 0;
+    }
+
+    return {
+      ...stats,
+      ordersByPartner: { ...ordersByPartner, ...stats.ordersByPartner },
+      highestSequence: { ...highestSequence, ...stats.highestSequence },
+      baseCurrency: this.baseCurrency,
+    };
   }
 
   /**
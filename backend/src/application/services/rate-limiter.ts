@@ -0,0 +1,237 @@
+import { PartnerId, RateLimitKind, RateLimitPolicy, TokenBucketLimit } from '../../domain/models';
+import { RateLimitPolicies } from '../../domain/services/rate-limit-policy';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Why orders were refused
+ */
+export type RateLimitRefusal = 'RATE_LIMIT_EXCEEDED' | 'DAILY_QUOTA_EXCEEDED' | 'BATCH_TOO_LARGE';
+
+/**
+ * Outcome of asking to send orders, with the figures for the RateLimit-* headers
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+
+  /** Why the orders were refused (only when not allowed) */
+  refusal?: RateLimitRefusal;
+
+  kind: RateLimitKind;
+  policy: RateLimitPolicy;
+
+  /** Limit closest to exhaustion: the bucket capacity or the daily quota */
+  limit: number;
+
+  /** Orders left under that limit */
+  remaining: number;
+
+  /** Seconds until that limit is fully available again */
+  resetSeconds: number;
+
+  /** Seconds until the refused orders would be allowed (only when not allowed) */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Current state of one token bucket
+ */
+export interface TokenBucketUsage extends TokenBucketLimit {
+  /** Orders that can be sent right now (negative: charged orders overdrew the bucket) */
+  available: number;
+
+  /** Seconds until the bucket is full again */
+  fullInSeconds: number;
+}
+
+/**
+ * Current usage of a partner
+ */
+export interface RateLimitUsage {
+  partnerId: PartnerId;
+  single: TokenBucketUsage;
+  batch: TokenBucketUsage;
+  daily: {
+    /** UTC day (YYYY-MM-DD) */
+    date: string;
+    quota: number;
+    used: number;
+    remaining: number;
+    resetsAt: string;
+  };
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface PartnerState {
+  buckets: Record<RateLimitKind, BucketState>;
+  /** Start of the UTC day the count belongs to */
+  day: number;
+  ordersToday: number;
+}
+
+/**
+ * Rate Limiter - Application layer service throttling partners.
+ *
+ * Responsibilities:
+ * - Keep a token bucket per partner for single-order and for batch endpoints,
+ *   where every order takes one token
+ * - Count orders per partner and UTC day against the daily quota
+ * - Report usage for the RateLimit-* headers and the admin API
+ *
+ * State is kept in memory: limits restart full when the process restarts.
+ */
+export class RateLimiter {
+  private readonly partners: Map<PartnerId, PartnerState> = new Map();
+
+  constructor(
+    private readonly policies: RateLimitPolicies,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Take tokens for orders if the partner's limits allow all of them.
+   * Nothing is taken when the orders are refused.
+   */
+  consume(partnerId: PartnerId, kind: RateLimitKind, orders: number): RateLimitDecision {
+    const policy = this.policies.forPartner(partnerId);
+    const limit = policy[kind];
+    const state = this.getState(partnerId, policy);
+    const bucket = state.buckets[kind];
+
+    if (orders > limit.capacity) {
+      return this.decide(partnerId, kind, policy, 'BATCH_TOO_LARGE');
+    }
+    if (state.ordersToday + orders > policy.dailyQuota) {
+      return this.decide(partnerId, kind, policy, 'DAILY_QUOTA_EXCEEDED', this.secondsUntilNextDay());
+    }
+    if (bucket.tokens < orders) {
+      return this.decide(partnerId, kind, policy, 'RATE_LIMIT_EXCEEDED', (orders - bucket.tokens) / limit.refillPerSecond);
+    }
+
+    bucket.tokens -= orders;
+    state.ordersToday += orders;
+    return this.decide(partnerId, kind, policy);
+  }
+
+  /**
+   * Charge orders that were already sent, without checking the limits.
+   * The bucket may go negative, holding back the partner's next requests
+   * until it refills.
+   */
+  charge(partnerId: PartnerId, kind: RateLimitKind, orders: number): void {
+    const state = this.getState(partnerId, this.policies.forPartner(partnerId));
+    state.buckets[kind].tokens -= orders;
+    state.ordersToday += orders;
+  }
+
+  /**
+   * Current usage of a partner (full buckets if it has sent nothing yet)
+   */
+  getUsage(partnerId: PartnerId): RateLimitUsage {
+    const policy = this.policies.forPartner(partnerId);
+    const state = this.getState(partnerId, policy);
+
+    const bucketUsage = (kind: RateLimitKind): TokenBucketUsage => ({
+      ...policy[kind],
+      available: Math.floor(state.buckets[kind].tokens),
+      fullInSeconds: this.secondsUntilFull(policy[kind], state.buckets[kind]),
+    });
+
+    return {
+      partnerId,
+      single: bucketUsage('single'),
+      batch: bucketUsage('batch'),
+      daily: {
+        date: new Date(state.day).toISOString().slice(0, 10),
+        quota: policy.dailyQuota,
+        used: state.ordersToday,
+        remaining: Math.max(0, policy.dailyQuota - state.ordersToday),
+        resetsAt: new Date(state.day + MS_PER_DAY).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Decision with the figures of the limit closest to exhaustion
+   */
+  private decide(
+    partnerId: PartnerId,
+    kind: RateLimitKind,
+    policy: RateLimitPolicy,
+    refusal?: RateLimitRefusal,
+    retryAfterSeconds?: number
+  ): RateLimitDecision {
+    const state = this.partners.get(partnerId)!;
+    const bucket = state.buckets[kind];
+    const bucketRemaining = Math.max(0, Math.floor(bucket.tokens));
+    const quotaRemaining = Math.max(0, policy.dailyQuota - state.ordersToday);
+
+    const figures = quotaRemaining <= bucketRemaining
+      ? { limit: policy.dailyQuota, remaining: quotaRemaining, resetSeconds: this.secondsUntilNextDay() }
+      : { limit: policy[kind].capacity, remaining: bucketRemaining, resetSeconds: this.secondsUntilFull(policy[kind], bucket) };
+
+    return {
+      allowed: refusal === undefined,
+      kind,
+      policy,
+      ...figures,
+      ...(refusal && { refusal }),
+      ...(retryAfterSeconds !== undefined && { retryAfterSeconds: Math.ceil(retryAfterSeconds) }),
+    };
+  }
+
+  /**
+   * State of a partner with its buckets refilled up to now and the daily
+   * count restarted on a new UTC day
+   */
+  private getState(partnerId: PartnerId, policy: RateLimitPolicy): PartnerState {
+    const now = this.now();
+    const today = now - (now % MS_PER_DAY);
+
+    let state = this.partners.get(partnerId);
+    if (!state) {
+      state = {
+        buckets: {
+          single: { tokens: policy.single.capacity, updatedAt: now },
+          batch: { tokens: policy.batch.capacity, updatedAt: now },
+        },
+        day: today,
+        ordersToday: 0,
+      };
+      this.partners.set(partnerId, state);
+    }
+
+    for (const kind of ['single', 'batch'] as const) {
+      const bucket = state.buckets[kind];
+      const refill = ((now - bucket.updatedAt) / 1000) * policy[kind].refillPerSecond;
+      bucket.tokens = Math.min(policy[kind].capacity, bucket.tokens + refill);
+      bucket.updatedAt = now;
+    }
+
+    if (state.day !== today) {
+      state.day = today;
+      state.ordersToday = 0;
+    }
+
+    return state;
+  }
+
+  /**
+   * Seconds until a bucket has refilled to its capacity
+   */
+  private secondsUntilFull(limit: TokenBucketLimit, bucket: BucketState): number {
+    return Math.ceil(Math.max(0, limit.capacity - bucket.tokens) / limit.refillPerSecond);
+  }
+
+  /**
+   * Seconds until the daily quota resets (midnight UTC)
+   */
+  private secondsUntilNextDay(): number {
+    const now = this.now();
+    return Math.ceil((MS_PER_DAY - (now % MS_PER_DAY)) / 1000);
+  }
+}
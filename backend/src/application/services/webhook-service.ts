@@ -0,0 +1,383 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PartnerId,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+} from '../../domain/models';
+import {
+  IOrderStreamPort,
+  IWebhookRepositoryPort,
+  IWebhookSenderPort,
+  WebhookDeliveryFilters,
+  PaginationOptions,
+  PaginatedResult,
+  ValidOrderPayload,
+  ErrorOrderPayload,
+  OrderAmendedPayload,
+  OrderCancelledPayload,
+  OrderStatusChangedPayload,
+  WebhookSendResult,
+} from '../../domain/ports';
+import { signWebhookPayload } from '../../domain/services/webhook-signature';
+
+/**
+ * Webhook request headers
+ */
+export const WebhookHeader = {
+  ID: 'X-Webhook-Id',
+  EVENT: 'X-Webhook-Event',
+  TIMESTAMP: 'X-Webhook-Timestamp',
+  SIGNATURE: 'X-Webhook-Signature',
+} as const;
+
+/**
+ * Retry configuration for webhook deliveries
+ */
+export interface WebhookServiceOptions {
+  /** Attempts per delivery cycle before it is marked FAILED (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles with every retry (default: 1s) */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay (default: 5 minutes) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Changes to a partner's webhook subscription
+ */
+export interface WebhookSubscriptionInput {
+  url: string;
+  /** Shared secret; generated when a new subscription omits it */
+  secret?: string;
+  /** Subscribed events (default: all) */
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+/**
+ * Webhook Service - Application layer service for partner callbacks.
+ *
+ * Responsibilities:
+ * - Manage per-partner webhook subscriptions
+ * - Turn order stream events (accepted, rejected, amended, cancelled, status changes) into signed deliveries
+ * - Retry failed deliveries with exponential backoff
+ * - Keep a delivery log and redeliver on demand
+ */
+export class WebhookService {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  // Scheduled retries by delivery ID
+  private readonly retryTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private readonly repository: IWebhookRepositoryPort,
+    private readonly sender: IWebhookSenderPort,
+    options: WebhookServiceOptions = {}
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Deliver order outcomes emitted on the stream to subscribed partners.
+   */
+  attach(orderStream: IOrderStreamPort): void {
+    orderStream.onValidOrder((payload) => this.handle(() => this.onValidOrder(payload)));
+    orderStream.onErrorOrder((payload) => this.handle(() => this.onErrorOrder(payload)));
+    orderStream.onOrderAmended((payload) => this.handle(() => this.onOrderAmended(payload)));
+    orderStream.onOrderCancelled((payload) => this.handle(() => this.onOrderCancelled(payload)));
+    orderStream.onOrderStatusChanged((payload) => this.handle(() => this.onOrderStatusChanged(payload)));
+  }
+
+  // ============ Subscriptions ============
+
+  /**
+   * Create or update a partner's subscription
+   */
+  async configure(partnerId: PartnerId, input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const existing = await this.repository.findSubscription(partnerId);
+    const now = new Date().toISOString();
+
+    const subscription: WebhookSubscription = {
+      partnerId,
+      url: input.url,
+      secret: input.secret ?? existing?.secret ?? randomBytes(32).toString('hex'),
+      events: input.events ?? existing?.events ?? Object.values(WebhookEventType),
+      enabled: input.enabled ?? existing?.enabled ?? true,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.repository.saveSubscription(subscription);
+    return subscription;
+  }
+
+  /**
+   * Get a partner's subscription
+   */
+  async getSubscription(partnerId: PartnerId): Promise<WebhookSubscription | null> {
+    return this.repository.findSubscription(partnerId);
+  }
+
+  /**
+   * List all subscriptions
+   */
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.repository.listSubscriptions();
+  }
+
+  /**
+   * Remove a partner's subscription; pending retries stop at their next attempt
+   */
+  async removeSubscription(partnerId: PartnerId): Promise<boolean> {
+    return this.repository.deleteSubscription(partnerId);
+  }
+
+  // ============ Deliveries ============
+
+  /**
+   * Query the delivery log
+   */
+  async listDeliveries(
+    filters?: WebhookDeliveryFilters,
+    pagination?: PaginationOptions
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    return this.repository.findDeliveries(filters, pagination);
+  }
+
+  /**
+   * Get a delivery by ID
+   */
+  async getDelivery(id: string): Promise<WebhookDelivery | null> {
+    return this.repository.findDeliveryById(id);
+  }
+
+  /**
+   * Start a new delivery cycle for a delivery and make its first attempt.
+   * Returns the delivery after that attempt, or null if it does not exist.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery | null> {
+    const delivery = await this.repository.findDeliveryById(id);
+    if (!delivery) {
+      return null;
+    }
+
+    this.cancelRetry(delivery.id);
+    delivery.status = WebhookDeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = undefined;
+
+    await this.attempt(delivery);
+    return delivery;
+  }
+
+  /**
+   * Reschedule deliveries left PENDING by a previous process.
+   */
+  async resumePendingDeliveries(): Promise<number> {
+    const { data } = await this.repository.findDeliveries(
+      { status: WebhookDeliveryStatus.PENDING },
+      { page: 1, pageSize: Number.MAX_SAFE_INTEGER }
+    );
+
+    for (const delivery of data) {
+      const dueIn = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() - Date.now() : 0;
+      this.scheduleRetry(delivery, Math.max(dueIn, 0));
+    }
+
+    return data.length;
+  }
+
+  /**
+   * Cancel all scheduled retries (for shutdown and tests)
+   */
+  stop(): void {
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  // ============ Private Helper Methods ============
+
+  /**
+   * Run a stream listener without letting webhook failures affect order processing
+   */
+  private async handle(task: () => Promise<void>): Promise<void> {
+    try {
+      await task();
+    } catch (error) {
+      console.error('❌ Error dispatching webhook:', error);
+    }
+  }
+
+  private async onValidOrder(payload: ValidOrderPayload): Promise<void> {
+    const { orderEvent } = payload;
+    await this.enqueue(orderEvent.partnerId, WebhookEventType.ORDER_ACCEPTED, payload.receivedAt, {
+      orderId: orderEvent.externalOrderId,
+      order: orderEvent,
+    });
+  }
+
+  private async onErrorOrder(payload: ErrorOrderPayload): Promise<void> {
+    await this.enqueue(payload.partnerId, WebhookEventType.ORDER_REJECTED, payload.timestamp, {
+      orderId: payload.originalOrderId,
+      errors: payload.errors,
+      ...(payload.errorCode && { errorCode: payload.errorCode }),
+    });
+  }
+
+  private async onOrderAmended(payload: OrderAmendedPayload): Promise<void> {
+    const { orderEvent } = payload;
+    await this.enqueue(orderEvent.partnerId, WebhookEventType.ORDER_AMENDED, payload.receivedAt, {
+      orderId: orderEvent.externalOrderId,
+      order: orderEvent,
+      changes: payload.changes,
+    });
+  }
+
+  private async onOrderCancelled(payload: OrderCancelledPayload): Promise<void> {
+    const { orderEvent } = payload;
+    await this.enqueue(orderEvent.partnerId, WebhookEventType.ORDER_CANCELLED, payload.receivedAt, {
+      orderId: orderEvent.externalOrderId,
+      order: orderEvent,
+      ...(payload.reason && { reason: payload.reason }),
+    });
+  }
+
+  private async onOrderStatusChanged(payload: OrderStatusChangedPayload): Promise<void> {
+    const { orderEvent } = payload;
+    await this.enqueue(orderEvent.partnerId, WebhookEventType.ORDER_STATUS_CHANGED, payload.receivedAt, {
+      orderId: orderEvent.externalOrderId,
+      order: orderEvent,
+      previousStatus: payload.previousStatus,
+      ...(payload.reason && { reason: payload.reason }),
+    });
+  }
+
+  /**
+   * Create a delivery for a subscribed partner and make the first attempt
+   */
+  private async enqueue(
+    partnerId: PartnerId,
+    event: WebhookEventType,
+    occurredAt: Date,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const subscription = await this.repository.findSubscription(partnerId);
+    if (!subscription || !subscription.enabled || !subscription.events.includes(event)) {
+      return;
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id,
+      partnerId,
+      event,
+      url: subscription.url,
+      payload: { id, event, partnerId, occurredAt: occurredAt.toISOString(), data },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.repository.saveDelivery(delivery);
+    await this.attempt(delivery);
+  }
+
+  /**
+   * Send a delivery once; schedule a retry or mark it failed on error.
+   * The current subscription is used so URL and secret changes apply to retries.
+   */
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await this.repository.findSubscription(delivery.partnerId);
+    delivery.attempts++;
+    delivery.updatedAt = new Date().toISOString();
+
+    if (!subscription) {
+      delivery.status = WebhookDeliveryStatus.FAILED;
+      delivery.lastError = 'Webhook subscription was removed';
+      delivery.nextAttemptAt = undefined;
+      await this.repository.saveDelivery(delivery);
+      return;
+    }
+
+    delivery.url = subscription.url;
+
+    try {
+      const { statusCode } = await this.send(delivery, subscription.secret);
+      delivery.lastStatusCode = statusCode;
+
+      if (statusCode >= 200 && statusCode < 300) {
+        delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+        delivery.lastError = undefined;
+        delivery.nextAttemptAt = undefined;
+        delivery.deliveredAt = new Date().toISOString();
+        await this.repository.saveDelivery(delivery);
+        return;
+      }
+
+      delivery.lastError = `Endpoint responded with HTTP ${statusCode}`;
+    } catch (error) {
+      delivery.lastStatusCode = undefined;
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = WebhookDeliveryStatus.FAILED;
+      delivery.nextAttemptAt = undefined;
+    } else {
+      const delayMs = Math.min(this.baseDelayMs * 2 ** (delivery.attempts - 1), this.maxDelayMs);
+      delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      this.scheduleRetry(delivery, delayMs);
+    }
+
+    await this.repository.saveDelivery(delivery);
+  }
+
+  /**
+   * Sign and send the delivery payload
+   */
+  private send(delivery: WebhookDelivery, secret: string): Promise<WebhookSendResult> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    return this.sender.send(delivery.url, body, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'NexusStream-Webhooks/1.0',
+      [WebhookHeader.ID]: delivery.id,
+      [WebhookHeader.EVENT]: delivery.event,
+      [WebhookHeader.TIMESTAMP]: timestamp,
+      [WebhookHeader.SIGNATURE]: signWebhookPayload(secret, timestamp, body),
+    });
+  }
+
+  private scheduleRetry(delivery: WebhookDelivery, delayMs: number): void {
+    this.cancelRetry(delivery.id);
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(delivery.id);
+      this.handle(() => this.attempt(delivery));
+    }, delayMs);
+    // Pending retries must not keep the process alive
+    timer.unref();
+
+    this.retryTimers.set(delivery.id, timer);
+  }
+
+  private cancelRetry(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(id);
+    }
+  }
+}
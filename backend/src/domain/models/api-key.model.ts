@@ -0,0 +1,44 @@
+import { PartnerId } from './partner-input.model';
+
+/**
+ * API Key
+ *
+ * A partner's credential for the feed endpoints. Only a SHA-256 hash of the
+ * key is stored; the key itself is shown once, when it is created.
+ */
+export interface ApiKey {
+  id: string;
+  partnerId: PartnerId;
+
+  /** Hex SHA-256 of the key */
+  keyHash: string;
+
+  /** Start and end of the key for display (e.g. pk_••••9f3a) */
+  maskedKey: string;
+
+  /** What the key is for (e.g. "nightly batch uploader") */
+  label?: string;
+
+  createdAt: string;
+
+  /** The key stops working at this time (set when it is rotated or expired) */
+  expiresAt?: string;
+
+  /** The key stopped working at this time, for good */
+  revokedAt?: string;
+
+  /** Last time the key authenticated a request */
+  lastUsedAt?: string;
+
+  /** Key that replaced this one when it was rotated */
+  replacedBy?: string;
+}
+
+/**
+ * Whether a key can be used
+ */
+export enum ApiKeyStatus {
+  ACTIVE = 'ACTIVE',
+  EXPIRED = 'EXPIRED',
+  REVOKED = 'REVOKED'
+}
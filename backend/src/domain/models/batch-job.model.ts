@@ -0,0 +1,78 @@
+import { PartnerId } from './partner-input.model';
+import { ErrorCode } from './error-event.model';
+
+/**
+ * Asynchronous batch job
+ *
+ * Created when a batch is submitted with ?async=true. The batch is processed
+ * in the background; progress and per-order results are tracked on the job
+ * and persisted so its status survives a restart.
+ */
+export interface BatchJob {
+  /** Unique identifier for this job (UUID v4) */
+  id: string;
+
+  /** Partner that submitted the batch */
+  partnerId: PartnerId;
+
+  /** Current lifecycle state */
+  status: BatchJobStatus;
+
+  /** Number of orders in the batch */
+  total: number;
+
+  /** Orders accepted so far */
+  accepted: number;
+
+  /** Orders rejected so far */
+  rejected: number;
+
+  /** Orders not processed yet */
+  pending: number;
+
+  /** Per-order results in submission order (filled in as orders are processed) */
+  results: BatchJobOrderResult[];
+
+  /** Failure reason when status is FAILED */
+  error?: string;
+
+  /** When the job was submitted (ISO 8601) */
+  createdAt: string;
+
+  /** When processing started (ISO 8601) */
+  startedAt?: string;
+
+  /** When processing finished (ISO 8601) */
+  completedAt?: string;
+}
+
+/**
+ * Result of a single order within a batch job
+ */
+export interface BatchJobOrderResult {
+  status: 'accepted' | 'rejected';
+  orderId: string;
+  partnerId: PartnerId;
+  sequenceNumber?: number;
+  errors?: string[];
+  /** Validation warnings of an accepted order */
+  warnings?: string[];
+  errorCode?: ErrorCode;
+}
+
+/**
+ * Batch job lifecycle states
+ */
+export enum BatchJobStatus {
+  /** Submitted, waiting to be processed */
+  PENDING = 'PENDING',
+
+  /** Orders are being processed */
+  RUNNING = 'RUNNING',
+
+  /** Every order was processed (accepted or rejected) */
+  COMPLETED = 'COMPLETED',
+
+  /** Processing stopped before every order was processed */
+  FAILED = 'FAILED'
+}
@@ -0,0 +1,79 @@
+import { ErrorCode } from './error-event.model';
+
+/**
+ * Business Rule Set Definition
+ *
+ * Partner-specific limits checked after an order passed the structural
+ * validation of its partner format. The rules are loaded from a local JSON
+ * file and reloaded when the file changes.
+ *
+ * A rule's field is a dot-separated path in the partner input; `[]` checks
+ * every element of an array (e.g. lineItems[].quantity) and `$orderValue`
+ * is the order's quantity × unit price total before discounts. Rules only
+ * check fields that are present.
+ *
+ * Example:
+ * {
+ *   "partners": {
+ *     "PARTNER_A": [
+ *       { "id": "max-quantity", "field": "quantity", "operator": "MAX", "value": 500 },
+ *       { "id": "sku-format", "field": "lineItems[].skuId", "operator": "MATCHES", "value": "^SKU-\\d+$" },
+ *       { "id": "min-order", "field": "$orderValue", "operator": "MIN", "value": 10, "severity": "WARNING" }
+ *     ]
+ *   }
+ * }
+ */
+export interface BusinessRuleSetDefinition {
+  /** Rules by partner ID */
+  partners: Record<string, BusinessRule[]>;
+}
+
+/**
+ * Limit on one field of a partner's orders
+ */
+export interface BusinessRule {
+  /** Rule identifier, unique per partner */
+  id: string;
+
+  /** Partner input path (or $orderValue) the rule checks */
+  field: string;
+
+  operator: BusinessRuleOperator;
+
+  /**
+   * MIN/MAX: inclusive number limit; MATCHES: regular expression;
+   * IN/NOT_IN: list of strings or numbers
+   */
+  value: number | string | (string | number)[];
+
+  /** Code of the errors or warnings the rule raises (default: BUSINESS_RULE_VIOLATION) */
+  errorCode?: ErrorCode;
+
+  /** ERROR rejects the order, WARNING accepts it with a warning (default: ERROR) */
+  severity?: BusinessRuleSeverity;
+
+  /** Message of the errors or warnings the rule raises (default: describes the limit) */
+  message?: string;
+}
+
+/**
+ * How a rule compares a field with its value
+ * - MIN / MAX: the number is at least / at most the value
+ * - MATCHES: the string (or number) matches the regular expression
+ * - IN / NOT_IN: the value is / is not one of the listed values
+ */
+export enum BusinessRuleOperator {
+  MIN = 'MIN',
+  MAX = 'MAX',
+  MATCHES = 'MATCHES',
+  IN = 'IN',
+  NOT_IN = 'NOT_IN'
+}
+
+/**
+ * What breaking a rule does to the order
+ */
+export enum BusinessRuleSeverity {
+  ERROR = 'ERROR',
+  WARNING = 'WARNING'
+}
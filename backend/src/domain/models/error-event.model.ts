@@ -18,7 +18,7 @@ export interface ErrorEvent {
   /** Human-readable error message */
   message: string;
   
-  /** Detailed error information */
+  /** Field-level errors, each with its own error code */
   details: ValidationError[];
   
   /** Original payload that caused the error */
@@ -26,6 +26,30 @@ export interface ErrorEvent {
   
   /** When this error occurred (ISO 8601) */
   timestamp: string;
+
+  /** Set once the payload was fixed and reprocessed into an accepted order */
+  resolution?: ErrorResolution;
+}
+
+/**
+ * How an error event was resolved: the order accepted when its (optionally
+ * edited) payload was reprocessed
+ */
+export interface ErrorResolution {
+  /** When the error was resolved (ISO 8601) */
+  resolvedAt: string;
+
+  /** Internal ID of the accepted OrderEvent */
+  orderEventId: string;
+
+  /** External order ID of the accepted order */
+  externalOrderId: string;
+
+  /** Sequence number of the accepted order */
+  sequenceNumber: number;
+
+  /** Payload that was accepted, when it differs from originalPayload */
+  editedPayload?: unknown;
 }
 
 /**
@@ -34,6 +58,9 @@ export interface ErrorEvent {
 export interface ValidationError {
   /** Field that failed validation */
   field: string;
+
+  /** What kind of problem this is */
+  errorCode: ErrorCode;
   
   /** Error message describing the issue */
   message: string;
@@ -43,8 +70,17 @@ export interface ValidationError {
   
   /** Expected type or format */
   expectedType?: string;
+
+  /** JSON Pointer to the rule in the partner's input schema (e.g. #/properties/quantity) */
+  schemaPath?: string;
 }
 
+/**
+ * Finding of a soft validation rule: the order is suspicious but accepted.
+ * Same shape as a validation error, with a warning code.
+ */
+export type ValidationWarning = ValidationError;
+
 /**
  * Error codes for categorization
  */
@@ -63,11 +99,31 @@ export enum ErrorCode {
   // Timestamp errors
   INVALID_TIMESTAMP = 'INVALID_TIMESTAMP',
   FUTURE_TIMESTAMP = 'FUTURE_TIMESTAMP',
+
+  // Validation warnings (the order is accepted)
+  HIGH_QUANTITY = 'HIGH_QUANTITY',
+  ZERO_TAX_RATE = 'ZERO_TAX_RATE',
+  STALE_TRANSACTION_TIME = 'STALE_TRANSACTION_TIME',
+  UNKNOWN_METADATA_KEY = 'UNKNOWN_METADATA_KEY',
+
+  // Partner business rules (errors or warnings)
+  BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
   
   // Processing errors
   DUPLICATE_ORDER = 'DUPLICATE_ORDER',
   TRANSFORMATION_ERROR = 'TRANSFORMATION_ERROR',
   UNKNOWN_PARTNER = 'UNKNOWN_PARTNER',
+  BATCH_ABORTED = 'BATCH_ABORTED',
+  ORDER_NOT_FOUND = 'ORDER_NOT_FOUND',
+  ORDER_CANCELLED = 'ORDER_CANCELLED',
+  INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION',
+  UNSUPPORTED_CURRENCY = 'UNSUPPORTED_CURRENCY',
+  TAX_RATE_MISMATCH = 'TAX_RATE_MISMATCH',
+  INVALID_DISCOUNT = 'INVALID_DISCOUNT',
+  ERROR_NOT_FOUND = 'ERROR_NOT_FOUND',
+  ERROR_ALREADY_RESOLVED = 'ERROR_ALREADY_RESOLVED',
+  API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+  API_KEY_INACTIVE = 'API_KEY_INACTIVE',
   
   // System errors
   INTERNAL_ERROR = 'INTERNAL_ERROR'
@@ -80,4 +136,6 @@ export interface ValidationResult<T> {
   isValid: boolean;
   data?: T;
   errors: ValidationError[];
+  /** Soft rules the input broke; they do not make it invalid */
+  warnings?: ValidationWarning[];
 }
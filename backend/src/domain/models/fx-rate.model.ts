@@ -0,0 +1,39 @@
+/**
+ * FX Rate Table Definition
+ *
+ * Exchange rates from order currencies to the base currency that order
+ * amounts are aggregated in. The table is loaded from a local JSON file;
+ * a rate applies from its effective date until the next rate for the same
+ * currency takes effect.
+ *
+ * Example (1 EUR = 1.08 USD from 2024-01-01, 1.10 USD from 2024-07-01):
+ * {
+ *   "baseCurrency": "USD",
+ *   "rates": [
+ *     { "currency": "EUR", "rate": 1.08, "effectiveFrom": "2024-01-01" },
+ *     { "currency": "EUR", "rate": 1.10, "effectiveFrom": "2024-07-01" },
+ *     { "currency": "GBP", "rate": 1.27, "effectiveFrom": "2024-01-01" }
+ *   ]
+ * }
+ */
+export interface FxRateTableDefinition {
+  /** ISO 4217 code of the currency amounts are converted to (e.g. USD) */
+  baseCurrency: string;
+
+  /** Rates in any order */
+  rates: FxRate[];
+}
+
+/**
+ * Exchange rate of a currency to the base currency
+ */
+export interface FxRate {
+  /** ISO 4217 currency code (e.g. EUR) */
+  currency: string;
+
+  /** Base currency units per unit of the currency */
+  rate: number;
+
+  /** Date (YYYY-MM-DD, UTC) or ISO 8601 timestamp from which the rate applies */
+  effectiveFrom: string;
+}
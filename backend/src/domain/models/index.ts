@@ -2,6 +2,8 @@
 export { 
   PartnerAInput, 
   PartnerBInput, 
+  PartnerALineItem,
+  PartnerBLineItem,
   PartnerInput,
   PartnerId 
 } from './partner-input.model';
@@ -9,14 +11,114 @@ export {
 // Order Event Models
 export { 
   OrderEvent, 
+  OrderLineItem,
+  BaseCurrencyAmounts,
+  MinorUnitAmounts,
+  AppliedTaxRule,
+  AppliedTaxComponent,
+  AppliedPromotion,
   CreateOrderEventInput,
-  OrderStatus 
+  CreateOrderLineItemInput,
+  OrderStatus,
+  OrderStatusChange,
+  OrderRevision,
+  OrderFieldChange,
+  OrderRevisionType
 } from './order-event.model';
 
 // Error Event Models
 export { 
   ErrorEvent, 
+  ErrorResolution,
   ValidationError, 
+  ValidationWarning,
   ValidationResult,
   ErrorCode 
 } from './error-event.model';
+
+// Partner Mapping Models
+export {
+  PartnerMappingDefinition,
+  FieldMapping,
+  MappingTarget,
+  MappingFieldType,
+  MappingConversion
+} from './partner-mapping.model';
+
+// FX Rate Models
+export {
+  FxRateTableDefinition,
+  FxRate
+} from './fx-rate.model';
+
+// Tax Rule Models
+export {
+  TaxRuleSetDefinition,
+  TaxRule,
+  TaxRuleMode,
+  TaxComponent
+} from './tax-rule.model';
+
+// Promotion Models
+export {
+  PromotionCatalogDefinition,
+  Promotion,
+  PromotionType
+} from './promotion.model';
+
+// Business Rule Models
+export {
+  BusinessRuleSetDefinition,
+  BusinessRule,
+  BusinessRuleOperator,
+  BusinessRuleSeverity
+} from './business-rule.model';
+
+// JSON Schema Models
+export {
+  JsonSchema,
+  JsonSchemaType
+} from './json-schema.model';
+
+// Timestamp Policy Models
+export {
+  TimestampPolicyDefinition,
+  TimestampPolicy
+} from './timestamp-policy.model';
+
+// Rate Limit Models
+export {
+  RateLimitPolicyDefinition,
+  RateLimitPolicyOverride,
+  RateLimitPolicy,
+  TokenBucketLimit,
+  RateLimitKind
+} from './rate-limit.model';
+
+// Request Signing Models
+export { RequestSigningDefinition, PartnerRequestSigning } from './request-signing.model';
+
+// API Key Models
+export { ApiKey, ApiKeyStatus } from './api-key.model';
+
+// Batch Job Models
+export {
+  BatchJob,
+  BatchJobOrderResult,
+  BatchJobStatus
+} from './batch-job.model';
+
+// Webhook Models
+export {
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookPayload,
+  WebhookEventType,
+  WebhookDeliveryStatus
+} from './webhook.model';
+
+// Ingested File Models
+export {
+  IngestedFile,
+  IngestedFileStatus
+} from './ingested-file.model';
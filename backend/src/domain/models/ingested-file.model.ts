@@ -0,0 +1,57 @@
+import { PartnerId } from './partner-input.model';
+
+/**
+ * File picked up from a partner's inbox folder
+ *
+ * Recorded in the ingestion ledger before the file is processed and updated
+ * when it has been consumed, so a restart never processes the same file
+ * content twice.
+ */
+export interface IngestedFile {
+  /** Ledger key: partner ID and SHA-256 of the file content */
+  id: string;
+
+  /** Partner whose inbox the file was dropped into */
+  partnerId: PartnerId;
+
+  /** SHA-256 of the file content (hex) */
+  sha256: string;
+
+  /** File name as dropped into the inbox */
+  fileName: string;
+
+  /** Current ingestion state */
+  status: IngestedFileStatus;
+
+  /** Orders read from the file */
+  total: number;
+
+  /** Orders accepted */
+  accepted: number;
+
+  /** Orders rejected */
+  rejected: number;
+
+  /** Why the file could not be processed, when status is FAILED */
+  error?: string;
+
+  /** When processing started (ISO 8601) */
+  startedAt: string;
+
+  /** When the file was consumed (ISO 8601) */
+  completedAt?: string;
+}
+
+/**
+ * Ingested file states
+ */
+export enum IngestedFileStatus {
+  /** Being processed; a file left in this state by a restart is processed again */
+  PROCESSING = 'PROCESSING',
+
+  /** Every order in the file was processed (accepted or rejected) */
+  PROCESSED = 'PROCESSED',
+
+  /** The file could not be read as a feed (unsupported or malformed) */
+  FAILED = 'FAILED'
+}
@@ -0,0 +1,62 @@
+/**
+ * JSON Schema
+ *
+ * Machine-readable contract of a partner input format, published at
+ * /api/schemas/:partner. Only the subset of JSON Schema (draft 2020-12)
+ * the partner schemas use is supported; partner input is validated against
+ * it so the published contract and the validators cannot drift apart.
+ *
+ * Example:
+ * {
+ *   "type": "object",
+ *   "required": ["orderId"],
+ *   "properties": {
+ *     "orderId": { "type": "string", "minLength": 1 },
+ *     "quantity": { "type": "integer", "exclusiveMinimum": 0 }
+ *   }
+ * }
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+
+  /** Accepted type(s); integer also matches whole numbers */
+  type?: JsonSchemaType | JsonSchemaType[];
+
+  /** Accepted values */
+  enum?: readonly (string | number | boolean | null)[];
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+
+  // Strings
+  minLength?: number;
+  /** Regular expression the string must match (unanchored) */
+  pattern?: string;
+  /** date-time: strict ISO 8601 timestamp */
+  format?: 'date-time';
+
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+
+  // Combinations
+  not?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * JSON Schema value types
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
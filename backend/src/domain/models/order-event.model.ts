@@ -1,4 +1,7 @@
 import { PartnerId } from './partner-input.model';
+import { TaxRuleMode } from './tax-rule.model';
+import { PromotionType } from './promotion.model';
+import { ValidationWarning } from './error-event.model';
 
 /**
  * Unified OrderEvent Schema
@@ -6,10 +9,16 @@ import { PartnerId } from './partner-input.model';
  * This is the internal schema after validation and transformation.
  * All partner-specific formats are normalized to this unified structure.
  * 
- * Key calculations:
+ * Key calculations (per line item; order amounts are the sums of the lines):
  * - grossAmount = quantity * unitPrice
- * - taxAmount = grossAmount * taxRate
- * - netAmount = grossAmount + taxAmount
+ *   (tax-inclusive prices: quantity * unitPrice / (1 + taxRate))
+ * - discountAmount = partner discounts + promotion discounts (before tax)
+ * - taxAmount = (grossAmount - discountAmount) * taxRate (the sum of the tax rule's components)
+ * - netAmount = grossAmount - discountAmount + taxAmount
+ *
+ * Amounts are calculated exactly in integer minor units (see minorUnits) and
+ * rounded with the configured rounding mode; the decimal amount fields are
+ * the minor units in major units (e.g. 2999 cents -> 29.99).
  * 
  * Timestamps are normalized to ISO 8601 format.
  */
@@ -26,29 +35,62 @@ export interface OrderEvent {
   /** Sequence number for this partner (starts at 1, increments per order) */
   sequenceNumber: number;
   
-  /** Product/SKU identifier (normalized from skuId or itemCode) */
+  /** Product/SKU identifier (normalized from skuId or itemCode; the first line's product) */
   productId: string;
   
   /** Customer identifier (normalized from customerId or clientId) */
   customerId: string;
   
-  /** Number of items ordered */
+  /** Number of items ordered (over all lines) */
   quantity: number;
   
-  /** Price per unit */
+  /** Price per unit (for multi-line orders: average price, grossAmount / quantity) */
   unitPrice: number;
   
-  /** Tax rate as decimal (e.g., 0.1 for 10%) */
+  /** Order tax rate as decimal (e.g., 0.1 for 10%), applied to lines without their own rate */
   taxRate: number;
   
-  /** Gross amount before tax: quantity * unitPrice */
+  /** Gross amount before discounts and tax: sum of the lines' quantity * unitPrice */
   grossAmount: number;
+
+  /** Discounts taken off the gross amount before tax (absent on orders stored before discounts were introduced: 0) */
+  discountAmount?: number;
   
-  /** Tax amount: grossAmount * taxRate */
+  /** Tax amount: sum of the lines' (grossAmount - discountAmount) * taxRate */
   taxAmount: number;
   
-  /** Net amount including tax: grossAmount + taxAmount */
+  /** Net amount including tax: grossAmount - discountAmount + taxAmount */
   netAmount: number;
+
+  /**
+   * Order amounts in integer minor units of the order currency (absent on
+   * orders stored before minor units were introduced)
+   */
+  minorUnits?: MinorUnitAmounts;
+
+  /**
+   * ISO 4217 currency of the prices and amounts (absent on orders stored
+   * before currencies were introduced: USD)
+   */
+  currency?: string;
+
+  /** Order amounts converted to the base currency (absent: same as the order amounts) */
+  baseAmounts?: BaseCurrencyAmounts;
+
+  /** Region of the customer, used to find tax rules (ISO 3166, e.g. DE or US-CA) */
+  customerRegion?: string;
+
+  /** Set when the unit prices include tax (the gross amounts are back-calculated) */
+  pricesIncludeTax?: boolean;
+
+  /** Promotions redeemed with the order's promo codes, in the order they were applied */
+  appliedPromotions?: AppliedPromotion[];
+
+  /**
+   * Order lines, in submission order (a single line for single-product
+   * orders; absent on orders stored before line items were introduced)
+   */
+  lineItems?: OrderLineItem[];
   
   /** Transaction timestamp in ISO 8601 format */
   transactionTime: string;
@@ -58,6 +100,202 @@ export interface OrderEvent {
   
   /** Additional metadata from the original order */
   metadata?: Record<string, unknown>;
+
+  /** Soft validation rules the order broke; it was accepted anyway (absent: none) */
+  warnings?: ValidationWarning[];
+
+  /** Revision number: 1 when accepted, incremented by every amendment or cancellation (absent = 1) */
+  revision?: number;
+
+  /** When the order was cancelled (ISO 8601); cancelled orders are excluded from statistics */
+  cancelledAt?: string;
+
+  /** Amendments and cancellation applied after the order was accepted, oldest first */
+  history?: OrderRevision[];
+
+  /**
+   * Lifecycle status: PROCESSED when accepted (absent on orders stored before
+   * statuses were introduced: PROCESSED, or CANCELLED when cancelledAt is set)
+   */
+  status?: OrderStatus;
+
+  /** Status changes after the order was accepted, oldest first */
+  statusHistory?: OrderStatusChange[];
+}
+
+/**
+ * A line of an order: one product with its quantity, price and amounts
+ */
+export interface OrderLineItem {
+  /** Position of the line in the order (1-based) */
+  lineNumber: number;
+  productId: string;
+
+  /** Product category, used to find tax rules */
+  productCategory?: string;
+
+  quantity: number;
+
+  /** Price per unit (including tax when the order's pricesIncludeTax is set) */
+  unitPrice: number;
+
+  /**
+   * Tax rate as decimal: the line's own rate or the order tax rate, or the
+   * total rate of the tax rule that overrides it
+   */
+  taxRate: number;
+
+  /** quantity * unitPrice */
+  grossAmount: number;
+
+  /** Partner and promotion discounts on the line */
+  discountAmount?: number;
+
+  /** (grossAmount - discountAmount) * taxRate */
+  taxAmount: number;
+
+  /** grossAmount - discountAmount + taxAmount */
+  netAmount: number;
+
+  /** Line amounts in integer minor units of the order currency */
+  minorUnits?: MinorUnitAmounts;
+
+  /** Tax rule applied to the line (absent: the partner rate was applied without a rule) */
+  taxRule?: AppliedTaxRule;
+
+  /** Tax per component of the applied tax rule; the amounts add up to taxAmount */
+  taxComponents?: AppliedTaxComponent[];
+}
+
+/**
+ * Tax rule applied to an order line, recorded for audit
+ */
+export interface AppliedTaxRule {
+  id: string;
+  mode: TaxRuleMode;
+
+  /** Tax rate the partner supplied for the line */
+  partnerTaxRate: number;
+}
+
+/**
+ * Tax of one component of the applied tax rule
+ */
+export interface AppliedTaxComponent {
+  name: string;
+  rate: number;
+  compound?: boolean;
+  taxAmount: number;
+
+  /** taxAmount in integer minor units of the order currency */
+  taxMinorUnits: number;
+}
+
+/**
+ * Amounts in integer minor units of a currency (e.g. cents); netAmount is
+ * exactly grossAmount - discountAmount + taxAmount
+ */
+export interface MinorUnitAmounts {
+  /** Digits of the minor unit (2 for cents, 0 for JPY) */
+  digits: number;
+
+  grossAmount: number;
+
+  /** Absent on amounts stored before discounts were introduced: 0 */
+  discountAmount?: number;
+
+  taxAmount: number;
+  netAmount: number;
+}
+
+/**
+ * Promotion redeemed by an order
+ */
+export interface AppliedPromotion {
+  code: string;
+  type: PromotionType;
+
+  /** Discount the promotion gave over all lines */
+  discountAmount: number;
+
+  /** discountAmount in integer minor units of the order currency */
+  discountMinorUnits: number;
+}
+
+/**
+ * Order amounts in the base currency, converted at the exchange rate in
+ * effect at the transaction time
+ */
+export interface BaseCurrencyAmounts {
+  /** ISO 4217 base currency code */
+  currency: string;
+
+  /** Base currency units per unit of the order currency (1 for base currency orders) */
+  fxRate: number;
+
+  /** When the applied rate took effect (absent for base currency orders) */
+  fxRateEffectiveFrom?: string;
+
+  grossAmount: number;
+  discountAmount?: number;
+  taxAmount: number;
+
+  /** grossAmount - discountAmount + taxAmount */
+  netAmount: number;
+
+  /** Base amounts in integer minor units of the base currency */
+  minorUnits?: MinorUnitAmounts;
+}
+
+/**
+ * A change applied to an accepted order
+ */
+export interface OrderRevision {
+  /** Revision number the change produced */
+  revision: number;
+
+  /** Kind of change */
+  type: OrderRevisionType;
+
+  /** When the change was applied (ISO 8601) */
+  occurredAt: string;
+
+  /** Fields changed by an amendment, with their previous and new values */
+  changes?: OrderFieldChange[];
+
+  /** Reason given for a cancellation */
+  reason?: string;
+}
+
+/**
+ * Previous and new value of an amended field
+ */
+export interface OrderFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Kinds of changes to an accepted order
+ */
+export enum OrderRevisionType {
+  AMENDED = 'AMENDED',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * A change of an order's lifecycle status
+ */
+export interface OrderStatusChange {
+  from: OrderStatus;
+  to: OrderStatus;
+
+  /** When the status changed (ISO 8601) */
+  changedAt: string;
+
+  /** Reason given for the change */
+  reason?: string;
 }
 
 /**
@@ -66,21 +304,68 @@ export interface OrderEvent {
 export interface CreateOrderEventInput {
   externalOrderId: string;
   partnerId: PartnerId;
-  productId: string;
   customerId: string;
-  quantity: number;
-  unitPrice: number;
+
+  /** Product of a single-line order (required unless lineItems is given) */
+  productId?: string;
+  productCategory?: string;
+  quantity?: number;
+  unitPrice?: number;
+
+  /** Order tax rate, applied to lines without their own rate */
   taxRate: number;
+
+  /** Lines of a multi-line order (replaces productId, quantity and unitPrice) */
+  lineItems?: CreateOrderLineItemInput[];
+
+  /** ISO 4217 currency of the prices (default: the partner's currency, else the base currency) */
+  currency?: string;
+
+  /** Region of the customer (ISO 3166 country or subdivision, e.g. US-CA) */
+  customerRegion?: string;
+
+  /** Whether the unit prices include tax (discount amounts then include tax too) */
+  pricesIncludeTax?: boolean;
+
+  /** Discount off the whole order, spread over the lines by their amounts */
+  discountAmount?: number;
+
+  /** Promo codes to redeem from the promotion catalog, applied in order */
+  promoCodes?: string[];
+
   transactionTime: string;
   metadata?: Record<string, unknown>;
+
+  /** Validation warnings to annotate the order with */
+  warnings?: ValidationWarning[];
+}
+
+/**
+ * Order line creation input
+ */
+export interface CreateOrderLineItemInput {
+  productId: string;
+  productCategory?: string;
+  quantity: number;
+  unitPrice: number;
+
+  /** Line tax rate as decimal (default: the order tax rate) */
+  taxRate?: number;
+
+  /** Discount off the line */
+  discountAmount?: number;
 }
 
 /**
- * Order status for tracking
+ * Order lifecycle status (allowed transitions are defined in
+ * domain/services/order-status)
  */
 export enum OrderStatus {
   PENDING = 'PENDING',
   VALIDATED = 'VALIDATED',
   PROCESSED = 'PROCESSED',
+  FULFILLED = 'FULFILLED',
+  CANCELLED = 'CANCELLED',
+  REFUNDED = 'REFUNDED',
   FAILED = 'FAILED'
 }
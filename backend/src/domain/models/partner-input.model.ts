@@ -9,18 +9,52 @@
  * - taxRate: Tax rate as decimal (e.g., 0.1 for 10%)
  * - customerId: Customer identifier
  * - orderId: Unique order identifier from Partner A
+ * - lineItems: Lines of a multi-product order, sent instead of skuId/quantity/unitPrice
+ * - currency: ISO 4217 currency of the prices (default: the base currency)
+ * - productCategory: Category of the product, for tax rules
+ * - customerRegion: ISO 3166 region of the customer (e.g. US-CA), for tax rules
+ * - pricesIncludeTax: Whether unitPrice includes tax
+ * - discountAmount: Amount off the order before tax (also on lines)
+ * - promoCodes: Promo codes redeemed with the order
  */
 export interface PartnerAInput {
   orderId: string;
-  skuId: string;
+  /** Required unless lineItems is given */
+  skuId?: string;
   customerId: string;
-  quantity: number;
-  unitPrice: number;
+  /** Required unless lineItems is given */
+  quantity?: number;
+  /** Required unless lineItems is given */
+  unitPrice?: number;
+  /** Category of skuId (single-product orders) */
+  productCategory?: string;
+  /** Order tax rate, also applied to lines without their own taxRate */
   taxRate: number;
   transactionTimeMs: number;
+  lineItems?: PartnerALineItem[];
+  currency?: string;
+  customerRegion?: string;
+  pricesIncludeTax?: boolean;
+  /** Amount off the order, in the terms of the prices */
+  discountAmount?: number;
+  promoCodes?: string[];
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Partner A order line
+ */
+export interface PartnerALineItem {
+  skuId: string;
+  quantity: number;
+  unitPrice: number;
+  productCategory?: string;
+  /** Decimal tax rate (default: the order taxRate) */
+  taxRate?: number;
+  /** Amount off the line, in the terms of the prices */
+  discountAmount?: number;
+}
+
 /**
  * Partner B Input Format
  * 
@@ -32,26 +66,69 @@ export interface PartnerAInput {
  * - tax: Tax rate as percentage (e.g., 10 for 10%)
  * - clientId: Customer identifier (maps to customerId)
  * - transactionId: Unique order identifier from Partner B
+ * - items: Lines of a multi-product order, sent instead of itemCode/qty/price
+ * - currency: ISO 4217 currency of the prices (default: the base currency)
+ * - itemCategory: Category of the item (maps to productCategory), for tax rules
+ * - clientRegion: ISO 3166 region of the client (maps to customerRegion), for tax rules
+ * - taxIncluded: Whether price includes tax (maps to pricesIncludeTax)
+ * - discount: Amount off the order before tax (maps to discountAmount, also on items)
+ * - promoCodes: Promo codes redeemed with the order
  */
 export interface PartnerBInput {
   transactionId: string;
-  itemCode: string;
+  /** Required unless items is given */
+  itemCode?: string;
   clientId: string;
-  qty: number;
-  price: number;
+  /** Required unless items is given */
+  qty?: number;
+  /** Required unless items is given */
+  price?: number;
+  /** Category of itemCode (single-item orders) */
+  itemCategory?: string;
+  /** Order tax percentage, also applied to lines without their own tax */
   tax: number;
   purchaseTime: string;
+  items?: PartnerBLineItem[];
+  currency?: string;
+  clientRegion?: string;
+  taxIncluded?: boolean;
+  /** Amount off the order, in the terms of the prices */
+  discount?: number;
+  promoCodes?: string[];
   notes?: string;
 }
 
 /**
- * Partner identifier enum
+ * Partner B order line
  */
-export enum PartnerId {
-  PARTNER_A = 'PARTNER_A',
-  PARTNER_B = 'PARTNER_B'
+export interface PartnerBLineItem {
+  itemCode: string;
+  qty: number;
+  price: number;
+  itemCategory?: string;
+  /** Tax percentage (default: the order tax) */
+  tax?: number;
+  /** Amount off the line, in the terms of the prices */
+  discount?: number;
 }
 
+/**
+ * Partner identifier
+ *
+ * Partners are registered at runtime through the PartnerRegistry, so any
+ * registered ID is valid. The built-in partners are listed in the PartnerId
+ * constant below.
+ */
+export type PartnerId = string;
+
+/**
+ * Identifiers of the built-in partners
+ */
+export const PartnerId = {
+  PARTNER_A: 'PARTNER_A',
+  PARTNER_B: 'PARTNER_B'
+} as const;
+
 /**
  * Union type for all partner inputs
  */
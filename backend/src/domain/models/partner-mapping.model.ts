@@ -0,0 +1,110 @@
+/**
+ * Declarative Partner Mapping Definition
+ *
+ * Describes a partner input format as data instead of code. A definition is
+ * loaded from a JSON file at startup and turned into a partner adapter that
+ * validates the input and maps it to CreateOrderEventInput.
+ *
+ * Example (Partner C sends nested JSON with seconds timestamps and percent tax):
+ * {
+ *   "partnerId": "PARTNER_C",
+ *   "slug": "partner-c",
+ *   "displayName": "Partner C",
+ *   "currency": "EUR",
+ *   "fields": [
+ *     { "source": "order.ref", "target": "externalOrderId", "type": "string" },
+ *     { "source": "order.sku", "target": "productId", "type": "string" },
+ *     { "source": "buyer.id", "target": "customerId", "type": "string" },
+ *     { "source": "units", "target": "quantity", "type": "integer", "default": 1 },
+ *     { "source": "cost", "target": "unitPrice", "type": "number" },
+ *     { "source": "vat", "target": "taxRate", "type": "number", "conversion": "percent-to-decimal" },
+ *     { "source": "ts", "target": "transactionTime", "type": "timestamp", "conversion": "seconds-to-iso" },
+ *     { "source": "channel", "target": "metadata.channel", "type": "string", "required": false }
+ *   ]
+ * }
+ */
+export interface PartnerMappingDefinition {
+  /** Unique partner identifier (e.g. PARTNER_C) */
+  partnerId: string;
+
+  /** URL slug used in feed routes (e.g. partner-c) */
+  slug: string;
+
+  /** Human-readable partner name (default: partnerId) */
+  displayName?: string;
+
+  /** Additional identifiers accepted in query parameters */
+  aliases?: string[];
+
+  /** ISO 4217 currency of orders that do not map one (default: the base currency) */
+  currency?: string;
+
+  /** Field mappings from partner input to the unified order input */
+  fields: FieldMapping[];
+}
+
+/**
+ * Mapping of a single partner input field
+ */
+export interface FieldMapping {
+  /** Dot-separated path in the partner input (e.g. order.ref) */
+  source: string;
+
+  /** Target field in CreateOrderEventInput, or metadata.<key> */
+  target: MappingTarget;
+
+  /** Expected type of the source value */
+  type: MappingFieldType;
+
+  /** Whether the source value must be present (default: true unless a default is given) */
+  required?: boolean;
+
+  /** Value used when the source value is missing */
+  default?: unknown;
+
+  /** Conversion applied to the source value */
+  conversion?: MappingConversion;
+}
+
+/**
+ * Order input fields a partner field can be mapped to
+ */
+export type MappingTarget =
+  | 'externalOrderId'
+  | 'productId'
+  | 'customerId'
+  | 'quantity'
+  | 'unitPrice'
+  | 'taxRate'
+  | 'transactionTime'
+  | 'currency'
+  | 'productCategory'
+  | 'customerRegion'
+  | 'pricesIncludeTax'
+  | 'discountAmount'
+  | 'metadata'
+  | `metadata.${string}`;
+
+/**
+ * Supported source value types
+ */
+export type MappingFieldType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'timestamp';
+
+/**
+ * Supported value conversions
+ * - ms-to-iso: Unix timestamp in milliseconds -> ISO 8601
+ * - seconds-to-iso: Unix timestamp in seconds -> ISO 8601
+ * - iso-normalize: ISO 8601 string -> normalized ISO 8601 (default for timestamps)
+ * - percent-to-decimal: percentage (10) -> decimal (0.1)
+ */
+export type MappingConversion =
+  | 'ms-to-iso'
+  | 'seconds-to-iso'
+  | 'iso-normalize'
+  | 'percent-to-decimal';
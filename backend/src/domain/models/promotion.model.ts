@@ -0,0 +1,70 @@
+/**
+ * Promotion Catalog Definition
+ *
+ * Promotions orders can redeem by sending promo codes. The catalog is
+ * loaded from a local JSON file; promotion discounts are applied to the
+ * order lines before tax, after any discounts the partner sends.
+ *
+ * Example:
+ * {
+ *   "promotions": [
+ *     { "code": "SPRING10", "type": "PERCENTAGE", "value": 0.1, "effectiveTo": "2024-06-01" },
+ *     { "code": "WELCOME5", "type": "FIXED_AMOUNT", "value": 5, "currency": "USD" },
+ *     { "code": "SOCKS3FOR2", "type": "BUY_X_GET_Y", "buyQuantity": 2, "freeQuantity": 1, "productCategory": "socks" }
+ *   ]
+ * }
+ */
+export interface PromotionCatalogDefinition {
+  promotions: Promotion[];
+}
+
+/**
+ * A promotion redeemable with its code
+ */
+export interface Promotion {
+  /** Unique promo code */
+  code: string;
+
+  description?: string;
+
+  type: PromotionType;
+
+  /**
+   * PERCENTAGE: decimal share of the line amounts (0.1 for 10% off);
+   * FIXED_AMOUNT: amount off the order in the promotion's currency
+   */
+  value?: number;
+
+  /** ISO 4217 currency of a FIXED_AMOUNT promotion; it only applies to orders in this currency */
+  currency?: string;
+
+  /** BUY_X_GET_Y: units to buy for freeQuantity more units free */
+  buyQuantity?: number;
+
+  /** BUY_X_GET_Y: free units per buyQuantity units bought */
+  freeQuantity?: number;
+
+  /** Product the promotion applies to (absent: every product) */
+  productId?: string;
+
+  /** Product category the promotion applies to (absent: every category) */
+  productCategory?: string;
+
+  /** Date (YYYY-MM-DD, UTC) or ISO 8601 timestamp from which the code is valid (absent: always) */
+  effectiveFrom?: string;
+
+  /** Date or ISO 8601 timestamp from which the code is no longer valid (absent: never expires) */
+  effectiveTo?: string;
+}
+
+/**
+ * Kinds of promotions
+ * - PERCENTAGE: a share off the matching lines
+ * - FIXED_AMOUNT: an amount off the matching lines, spread by their amounts
+ * - BUY_X_GET_Y: every freeQuantity units after buyQuantity units of a line are free
+ */
+export enum PromotionType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED_AMOUNT = 'FIXED_AMOUNT',
+  BUY_X_GET_Y = 'BUY_X_GET_Y'
+}
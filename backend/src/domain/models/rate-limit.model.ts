@@ -0,0 +1,66 @@
+/**
+ * Rate Limit Policy Definition
+ *
+ * How many orders a partner may send to the feed endpoints. Single-order
+ * endpoints and batch endpoints (batch, CSV, NDJSON stream) draw on
+ * separate token buckets, and every order counts towards a daily quota.
+ * The policies are loaded from a local JSON file; partners without a
+ * policy of their own use the default policy, and settings a policy leaves
+ * out fall back to the default policy's.
+ *
+ * Example (Partner B uploads large nightly batches):
+ * {
+ *   "default": {
+ *     "single": { "capacity": 60, "refillPerSecond": 10 },
+ *     "batch": { "capacity": 5000, "refillPerSecond": 100 },
+ *     "dailyQuota": 1000000
+ *   },
+ *   "partners": {
+ *     "PARTNER_B": { "batch": { "capacity": 20000 }, "dailyQuota": 50000 }
+ *   }
+ * }
+ */
+export interface RateLimitPolicyDefinition {
+  /** Policy for partners without their own (absent: DEFAULT_RATE_LIMIT_POLICY) */
+  default?: RateLimitPolicyOverride;
+
+  /** Policies by partner ID */
+  partners?: Record<string, RateLimitPolicyOverride>;
+}
+
+/**
+ * Settings of a policy that override the policy it is based on
+ */
+export interface RateLimitPolicyOverride {
+  single?: Partial<TokenBucketLimit>;
+  batch?: Partial<TokenBucketLimit>;
+  dailyQuota?: number;
+}
+
+/**
+ * Orders a partner may send
+ */
+export interface RateLimitPolicy {
+  /** Limit of the single-order endpoints (submit, amend, cancel) */
+  single: TokenBucketLimit;
+
+  /** Limit of the batch endpoints (batch, CSV, NDJSON stream), counting every order of a batch */
+  batch: TokenBucketLimit;
+
+  /** Orders per UTC day across all feed endpoints */
+  dailyQuota: number;
+}
+
+/**
+ * Token bucket: holds at most capacity orders (the burst allowed) and
+ * refills continuously at refillPerSecond orders per second
+ */
+export interface TokenBucketLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Feed endpoint groups with separate limits
+ */
+export type RateLimitKind = 'single' | 'batch';
@@ -0,0 +1,40 @@
+/**
+ * Request Signing Definition
+ *
+ * Partners that sign their feed requests: each request carries an
+ * HMAC-SHA256 of its timestamp, nonce, method, URL and body made with a
+ * secret shared with the partner, so a captured request cannot be altered
+ * or sent again. Partners not listed do not sign. The definition is loaded
+ * from a local JSON file, which holds the secrets and must not be committed.
+ *
+ * Example (Partner A must sign; Partner B is migrating and may still send
+ * unsigned requests; the second Partner A secret is being rotated out):
+ * {
+ *   "toleranceSeconds": 300,
+ *   "partners": {
+ *     "PARTNER_A": { "secrets": ["new-secret-of-partner-a", "old-secret-of-partner-a"] },
+ *     "PARTNER_B": { "secrets": ["secret-of-partner-b-1234"], "required": false }
+ *   }
+ * }
+ */
+export interface RequestSigningDefinition {
+  /** Seconds a request timestamp may differ from our clock (absent: DEFAULT_SIGNATURE_TOLERANCE_SECONDS) */
+  toleranceSeconds?: number;
+
+  /** Largest NDJSON stream accepted from a signing partner, in bytes (absent: DEFAULT_MAX_SIGNED_STREAM_BYTES) */
+  maxStreamBytes?: number;
+
+  /** Signing settings by partner ID */
+  partners: Record<string, PartnerRequestSigning>;
+}
+
+/**
+ * Signing settings of a partner
+ */
+export interface PartnerRequestSigning {
+  /** Secrets a signature may be made with; more than one while rotating */
+  secrets: string[];
+
+  /** Reject unsigned requests (default: true); signed requests are always verified */
+  required?: boolean;
+}
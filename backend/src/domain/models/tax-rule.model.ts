@@ -0,0 +1,86 @@
+/**
+ * Tax Rule Set Definition
+ *
+ * Rules the tax engine applies to order lines, keyed by product category,
+ * customer region and date. The rule set is loaded from a local JSON file.
+ * An OVERRIDE rule replaces the partner-supplied tax rate with its
+ * components; a VERIFY rule rejects orders whose rate does not match them.
+ *
+ * Example (Quebec GST + QST, German VAT with a reduced rate for food):
+ * {
+ *   "rules": [
+ *     {
+ *       "id": "ca-qc-sales",
+ *       "customerRegion": "CA-QC",
+ *       "mode": "OVERRIDE",
+ *       "components": [{ "name": "GST", "rate": 0.05 }, { "name": "QST", "rate": 0.09975 }]
+ *     },
+ *     { "id": "de-vat", "customerRegion": "DE", "mode": "VERIFY", "components": [{ "name": "VAT", "rate": 0.19 }] },
+ *     {
+ *       "id": "de-vat-food",
+ *       "customerRegion": "DE",
+ *       "productCategory": "food",
+ *       "mode": "VERIFY",
+ *       "components": [{ "name": "VAT", "rate": 0.07 }]
+ *     }
+ *   ]
+ * }
+ */
+export interface TaxRuleSetDefinition {
+  /** Rules in any order; the most specific matching rule applies */
+  rules: TaxRule[];
+}
+
+/**
+ * Tax rule for the order lines matching its criteria
+ */
+export interface TaxRule {
+  /** Unique rule identifier, recorded on the lines the rule applies to */
+  id: string;
+
+  description?: string;
+
+  /** Product category of the line (absent: every category) */
+  productCategory?: string;
+
+  /**
+   * Customer region: ISO 3166 country (DE) or subdivision (US-CA); a country
+   * rule also applies to the country's subdivisions (absent: every region)
+   */
+  customerRegion?: string;
+
+  /** Date (YYYY-MM-DD, UTC) or ISO 8601 timestamp from which the rule applies (absent: always) */
+  effectiveFrom?: string;
+
+  /** Date or ISO 8601 timestamp from which the rule no longer applies (absent: never expires) */
+  effectiveTo?: string;
+
+  mode: TaxRuleMode;
+
+  /** Tax components, stacked in order (at least one) */
+  components: TaxComponent[];
+}
+
+/**
+ * What a tax rule does with the partner-supplied tax rate
+ * - OVERRIDE: the rule's components replace the partner rate
+ * - VERIFY: the partner rate must equal the rule's total rate
+ */
+export enum TaxRuleMode {
+  OVERRIDE = 'OVERRIDE',
+  VERIFY = 'VERIFY'
+}
+
+/**
+ * One tax of a rule (e.g. state and county sales tax)
+ */
+export interface TaxComponent {
+  /** Name of the tax (e.g. GST) */
+  name: string;
+
+  /** Rate as decimal (e.g. 0.05 for 5%) */
+  rate: number;
+
+  /** Whether the rate also applies to the preceding components' tax (tax on tax) */
+  compound?: boolean;
+}
@@ -0,0 +1,35 @@
+/**
+ * Timestamp Policy Definition
+ *
+ * How far partner transaction timestamps may lie in the future (the clock
+ * skew allowed between a partner's clock and ours) and in the past. The
+ * policies are loaded from a local JSON file; partners without a policy of
+ * their own use the default policy, and settings a policy leaves out fall
+ * back to the default policy's.
+ *
+ * Example (Partner B sends from a well-synchronised, real-time system):
+ * {
+ *   "default": { "maxClockSkewSeconds": 300, "maxAgeDays": 3650 },
+ *   "partners": {
+ *     "PARTNER_B": { "maxClockSkewSeconds": 30, "maxAgeDays": 30 }
+ *   }
+ * }
+ */
+export interface TimestampPolicyDefinition {
+  /** Policy for partners without their own (absent: DEFAULT_TIMESTAMP_POLICY) */
+  default?: Partial<TimestampPolicy>;
+
+  /** Policies by partner ID */
+  partners?: Record<string, Partial<TimestampPolicy>>;
+}
+
+/**
+ * Range of transaction timestamps a partner may send
+ */
+export interface TimestampPolicy {
+  /** Seconds a timestamp may lie in the future before it is rejected with FUTURE_TIMESTAMP */
+  maxClockSkewSeconds: number;
+
+  /** Days a timestamp may lie in the past before it is rejected with INVALID_TIMESTAMP */
+  maxAgeDays: number;
+}
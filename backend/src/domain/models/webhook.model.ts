@@ -0,0 +1,121 @@
+import { PartnerId } from './partner-input.model';
+
+/**
+ * Webhook subscription of a partner
+ *
+ * When configured, the outcome of every order the partner submits is POSTed
+ * to the partner's URL, signed with the shared secret.
+ */
+export interface WebhookSubscription {
+  /** Partner receiving the callbacks */
+  partnerId: PartnerId;
+
+  /** HTTP(S) endpoint receiving the callbacks */
+  url: string;
+
+  /** Shared secret used to sign payloads (HMAC-SHA256) */
+  secret: string;
+
+  /** Events delivered to the endpoint */
+  events: WebhookEventType[];
+
+  /** Whether deliveries are currently sent */
+  enabled: boolean;
+
+  /** When the subscription was created (ISO 8601) */
+  createdAt: string;
+
+  /** When the subscription was last changed (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * A single webhook delivery and its attempt history
+ */
+export interface WebhookDelivery {
+  /** Unique identifier for this delivery (UUID v4), also sent to the partner */
+  id: string;
+
+  /** Partner receiving the callback */
+  partnerId: PartnerId;
+
+  /** Event being delivered */
+  event: WebhookEventType;
+
+  /** Endpoint the delivery is sent to */
+  url: string;
+
+  /** JSON payload sent as the request body */
+  payload: WebhookPayload;
+
+  /** Current delivery state */
+  status: WebhookDeliveryStatus;
+
+  /** Attempts made in the current delivery cycle */
+  attempts: number;
+
+  /** HTTP status of the last attempt (absent on network errors) */
+  lastStatusCode?: number;
+
+  /** Error of the last failed attempt */
+  lastError?: string;
+
+  /** When the next retry is due (ISO 8601), while PENDING */
+  nextAttemptAt?: string;
+
+  /** When the delivery was created (ISO 8601) */
+  createdAt: string;
+
+  /** When the delivery last changed (ISO 8601) */
+  updatedAt: string;
+
+  /** When the partner acknowledged the delivery (ISO 8601) */
+  deliveredAt?: string;
+}
+
+/**
+ * Body of a webhook request
+ */
+export interface WebhookPayload {
+  /** Delivery ID (stable across retries, usable for de-duplication) */
+  id: string;
+  event: WebhookEventType;
+  partnerId: PartnerId;
+  /** When the order outcome occurred (ISO 8601) */
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Webhook event types
+ */
+export enum WebhookEventType {
+  /** Order was validated, sequenced and accepted */
+  ORDER_ACCEPTED = 'order.accepted',
+
+  /** Order was rejected (validation error, duplicate, ...) */
+  ORDER_REJECTED = 'order.rejected',
+
+  /** Accepted order was amended by the partner */
+  ORDER_AMENDED = 'order.amended',
+
+  /** Order was cancelled */
+  ORDER_CANCELLED = 'order.cancelled',
+
+  /** Order moved to another status (other than a cancellation) */
+  ORDER_STATUS_CHANGED = 'order.status_changed'
+}
+
+/**
+ * Webhook delivery states
+ */
+export enum WebhookDeliveryStatus {
+  /** Not delivered yet; an attempt is in progress or a retry is scheduled */
+  PENDING = 'PENDING',
+
+  /** Partner endpoint answered with a 2xx status */
+  SUCCEEDED = 'SUCCEEDED',
+
+  /** All attempts failed; can be redelivered manually */
+  FAILED = 'FAILED'
+}
@@ -0,0 +1,32 @@
+import { ApiKey, PartnerId } from '../models';
+
+/**
+ * Port interface for API key storage.
+ * Keys are stored by hash only; the plaintext key is never persisted.
+ */
+export interface IApiKeyStorePort {
+  /**
+   * Save a key (insert or replace by ID)
+   */
+  save(apiKey: ApiKey): Promise<void>;
+
+  /**
+   * Find a key by ID
+   */
+  findById(id: string): Promise<ApiKey | null>;
+
+  /**
+   * Find a key by the hash of its plaintext
+   */
+  findByHash(keyHash: string): Promise<ApiKey | null>;
+
+  /**
+   * List keys, oldest first (all partners when no partner is given)
+   */
+  list(partnerId?: PartnerId): Promise<ApiKey[]>;
+
+  /**
+   * Clear all keys (for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,27 @@
+import { BatchJob, BatchJobStatus } from '../models';
+
+/**
+ * Port interface for batch job storage.
+ * Abstracts where asynchronous batch jobs are kept (in-memory, file, database, etc.)
+ */
+export interface IBatchJobRepositoryPort {
+  /**
+   * Save a job (insert or replace by ID)
+   */
+  save(job: BatchJob): Promise<void>;
+
+  /**
+   * Find a job by ID
+   */
+  findById(id: string): Promise<BatchJob | null>;
+
+  /**
+   * Find jobs in any of the given states
+   */
+  findByStatus(statuses: BatchJobStatus[]): Promise<BatchJob[]>;
+
+  /**
+   * Clear all jobs (for testing)
+   */
+  clear(): Promise<void>;
+}
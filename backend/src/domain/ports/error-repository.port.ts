@@ -8,7 +8,7 @@ import { ErrorEvent, ErrorCode, PartnerId } from '../../domain/models';
  */
 export interface IErrorRepositoryPort {
   /**
-   * Save an error event
+   * Save an error event (replaces an error event with the same ID)
    */
   save(error: ErrorEvent): Promise<void>;
 
@@ -46,9 +46,12 @@ export interface IErrorRepositoryPort {
  */
 export interface ErrorQueryFilters {
   partnerId?: PartnerId;
+  /** Error code of the event or of any of its field-level errors */
   errorCode?: ErrorCode;
   fromDate?: Date;
   toDate?: Date;
+  /** Only resolved (true) or unresolved (false) errors */
+  resolved?: boolean;
 }
 
 /**
@@ -79,4 +82,6 @@ export interface ErrorStatistics {
   errorsByPartner: Record<string, number>;
   errorsByCode: Record<string, number>;
   last24Hours: number;
+  /** Errors resolved by reprocessing their payload */
+  resolvedErrors: number;
 }
@@ -0,0 +1,41 @@
+/**
+ * A stored response for a request submitted with an Idempotency-Key.
+ * Replayed verbatim when the same key is presented again.
+ */
+export interface IdempotencyRecord {
+  /** Scoped key (route + client supplied Idempotency-Key) */
+  key: string;
+
+  /** Hash of the original request body, used to detect key reuse */
+  requestHash: string;
+
+  /** HTTP status code of the original response */
+  statusCode: number;
+
+  /** Body of the original response */
+  responseBody: unknown;
+
+  /** When the original request was processed (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Port interface for idempotency key storage.
+ * Abstracts where replayable responses are kept (in-memory, file, Redis, etc.)
+ */
+export interface IIdempotencyStorePort {
+  /**
+   * Find a stored record by scoped key (expired records are not returned)
+   */
+  find(key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Save a record for later replay
+   */
+  save(record: IdempotencyRecord): Promise<void>;
+
+  /**
+   * Clear all records (for testing)
+   */
+  clear(): Promise<void>;
+}
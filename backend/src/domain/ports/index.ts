@@ -3,8 +3,14 @@ export {
   StreamEvent,
   ValidOrderPayload,
   ErrorOrderPayload,
+  OrderAmendedPayload,
+  OrderCancelledPayload,
+  OrderStatusChangedPayload,
   ValidOrderListener,
   ErrorOrderListener,
+  OrderAmendedListener,
+  OrderCancelledListener,
+  OrderStatusChangedListener,
   PartnerId
 } from './order-stream.port';
 
@@ -26,3 +32,23 @@ export {
   ErrorPaginatedResult,
   ErrorStatistics
 } from './error-repository.port';
+
+export {
+  IIdempotencyStorePort,
+  IdempotencyRecord
+} from './idempotency-store.port';
+
+export { IPartnerAdapter, InputFieldType } from './partner-adapter.port';
+
+export { IBatchJobRepositoryPort } from './batch-job-repository.port';
+
+export {
+  IWebhookRepositoryPort,
+  IWebhookSenderPort,
+  WebhookDeliveryFilters,
+  WebhookSendResult
+} from './webhook-repository.port';
+
+export { IIngestionLedgerPort } from './ingestion-ledger.port';
+
+export { IApiKeyStorePort } from './api-key-store.port';
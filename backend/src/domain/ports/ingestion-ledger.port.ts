@@ -0,0 +1,28 @@
+import { IngestedFile } from '../models';
+
+/**
+ * Port interface for the file ingestion ledger.
+ * Tracks which inbox files have been consumed so drop-directory ingestion
+ * is restart-safe.
+ */
+export interface IIngestionLedgerPort {
+  /**
+   * Save an entry (insert or replace by ID)
+   */
+  save(entry: IngestedFile): Promise<void>;
+
+  /**
+   * Find an entry by ID
+   */
+  findById(id: string): Promise<IngestedFile | null>;
+
+  /**
+   * List all entries
+   */
+  list(): Promise<IngestedFile[]>;
+
+  /**
+   * Clear all entries (for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -1,4 +1,4 @@
-import { OrderEvent, PartnerId } from '../models';
+import { ErrorCode, MinorUnitAmounts, OrderEvent, OrderStatus, PartnerId } from '../models';
 
 /**
  * Query filters for order retrieval
@@ -10,8 +10,11 @@ export interface OrderQueryFilters {
   /** Filter by customer ID */
   customerId?: string;
   
-  /** Filter by product ID */
+  /** Filter by product ID (matches any line of the order) */
   productId?: string;
+
+  /** Filter by lifecycle status (orders without a status count as PROCESSED or CANCELLED) */
+  status?: OrderStatus;
   
   /** Filter orders after this date (inclusive) */
   fromDate?: Date;
@@ -19,11 +22,17 @@ export interface OrderQueryFilters {
   /** Filter orders before this date (inclusive) */
   toDate?: Date;
   
-  /** Minimum gross amount */
+  /** Minimum gross amount (in the base currency) */
   minAmount?: number;
   
-  /** Maximum gross amount */
+  /** Maximum gross amount (in the base currency) */
   maxAmount?: number;
+
+  /** Filter by whether the order was accepted with validation warnings */
+  hasWarnings?: boolean;
+
+  /** Filter orders accepted with a warning of this code */
+  warningCode?: ErrorCode;
 }
 
 /**
@@ -41,7 +50,7 @@ export interface PaginationOptions {
  * Sort options
  */
 export interface SortOptions {
-  /** Field to sort by */
+  /** Field to sort by (grossAmount: in the base currency) */
   field: 'processedAt' | 'transactionTime' | 'grossAmount' | 'sequenceNumber';
   
   /** Sort direction */
@@ -72,18 +81,22 @@ export interface PaginatedResult<T> {
 }
 
 /**
- * Order statistics
+ * Order statistics over the current state of orders; cancelled orders are
+ * only counted in cancelledOrders (and highestSequence)
  */
 export interface OrderStatistics {
-  /** Total number of orders */
+  /** Total number of orders (excluding cancelled orders) */
   totalOrders: number;
   
   /** Orders per partner */
   ordersByPartner: Record<PartnerId, number>;
   
-  /** Total gross amount */
+  /** Total gross amount (in the base currency, like all amount totals) */
   totalGrossAmount: number;
   
+  /** Total discount amount (partner discounts and promotions, before tax) */
+  totalDiscountAmount: number;
+  
   /** Total tax amount */
   totalTaxAmount: number;
   
@@ -95,6 +108,24 @@ export interface OrderStatistics {
   
   /** Highest sequence per partner */
   highestSequence: Record<PartnerId, number>;
+
+  /** Number of cancelled orders */
+  cancelledOrders: number;
+
+  /** Orders that redeemed each promo code */
+  promoCodeRedemptions: Record<string, number>;
+
+  /** Number of orders accepted with validation warnings */
+  ordersWithWarnings: number;
+
+  /** Validation warnings per warning code */
+  warningsByCode: Record<string, number>;
+
+  /** Amount totals in integer minor units of the base currency */
+  minorUnits: MinorUnitAmounts;
+
+  /** Currency of the amount totals (set by OrderQueryService) */
+  baseCurrency?: string;
 }
 
 /**
@@ -145,6 +176,11 @@ export interface IOrderRepositoryPort {
    * Count orders matching filters
    */
   count(filters?: OrderQueryFilters): Promise<number>;
+
+  /**
+   * Write pending changes to storage immediately
+   */
+  flush(): Promise<void>;
   
   /**
    * Delete all orders (for testing)
@@ -1,4 +1,4 @@
-import { OrderEvent, PartnerId } from '../models';
+import { OrderEvent, OrderFieldChange, OrderStatus, PartnerId, ErrorCode, ValidationError } from '../models';
 
 // Re-export PartnerId for convenience
 export { PartnerId } from '../models';
@@ -8,7 +8,10 @@ export { PartnerId } from '../models';
  */
 export enum StreamEvent {
   VALID_ORDER = 'valid_order',
-  ERROR_ORDER = 'error_order'
+  ERROR_ORDER = 'error_order',
+  ORDER_AMENDED = 'order_amended',
+  ORDER_CANCELLED = 'order_cancelled',
+  ORDER_STATUS_CHANGED = 'order_status_changed'
 }
 
 /**
@@ -22,16 +25,48 @@ export interface ValidOrderPayload {
 export interface ErrorOrderPayload {
   partnerId: PartnerId;
   originalOrderId: string;
+  /** Errors as "field: message" strings */
   errors: string[];
+  /** The same errors with their fields, error codes and received values */
+  details: ValidationError[];
+  /** Specific rejection reason when known (e.g. DUPLICATE_ORDER) */
+  errorCode?: ErrorCode;
   rawInput: unknown;
   timestamp: Date;
 }
 
+export interface OrderAmendedPayload {
+  /** Order after the amendment */
+  orderEvent: OrderEvent;
+  /** Order before the amendment */
+  previous: OrderEvent;
+  changes: OrderFieldChange[];
+  receivedAt: Date;
+}
+
+export interface OrderCancelledPayload {
+  /** Order after the cancellation */
+  orderEvent: OrderEvent;
+  reason?: string;
+  receivedAt: Date;
+}
+
+export interface OrderStatusChangedPayload {
+  /** Order after the status change */
+  orderEvent: OrderEvent;
+  previousStatus: OrderStatus;
+  reason?: string;
+  receivedAt: Date;
+}
+
 /**
  * Stream listener function types
  */
 export type ValidOrderListener = (payload: ValidOrderPayload) => void | Promise<void>;
 export type ErrorOrderListener = (payload: ErrorOrderPayload) => void | Promise<void>;
+export type OrderAmendedListener = (payload: OrderAmendedPayload) => void | Promise<void>;
+export type OrderCancelledListener = (payload: OrderCancelledPayload) => void | Promise<void>;
+export type OrderStatusChangedListener = (payload: OrderStatusChangedPayload) => void | Promise<void>;
 
 /**
  * Port interface for order streams
@@ -43,16 +78,43 @@ export interface IOrderStreamPort {
   
   /** Emit an error order to the stream */
   emitErrorOrder(payload: ErrorOrderPayload): void;
+
+  /** Emit an amended order to the stream */
+  emitOrderAmended(payload: OrderAmendedPayload): void;
+
+  /** Emit a cancelled order to the stream */
+  emitOrderCancelled(payload: OrderCancelledPayload): void;
+
+  /** Emit an order status change (other than a cancellation) to the stream */
+  emitOrderStatusChanged(payload: OrderStatusChangedPayload): void;
   
   /** Subscribe to valid orders */
   onValidOrder(listener: ValidOrderListener): void;
   
   /** Subscribe to error orders */
   onErrorOrder(listener: ErrorOrderListener): void;
+
+  /** Subscribe to order amendments */
+  onOrderAmended(listener: OrderAmendedListener): void;
+
+  /** Subscribe to order cancellations */
+  onOrderCancelled(listener: OrderCancelledListener): void;
+
+  /** Subscribe to order status changes */
+  onOrderStatusChanged(listener: OrderStatusChangedListener): void;
   
   /** Unsubscribe from valid orders */
   offValidOrder(listener: ValidOrderListener): void;
   
   /** Unsubscribe from error orders */
   offErrorOrder(listener: ErrorOrderListener): void;
+
+  /** Unsubscribe from order amendments */
+  offOrderAmended(listener: OrderAmendedListener): void;
+
+  /** Unsubscribe from order cancellations */
+  offOrderCancelled(listener: OrderCancelledListener): void;
+
+  /** Unsubscribe from order status changes */
+  offOrderStatusChanged(listener: OrderStatusChangedListener): void;
 }
@@ -0,0 +1,62 @@
+import { PartnerId, ValidationResult, CreateOrderEventInput, JsonSchema } from '../models';
+
+/**
+ * Type of a partner input field, used to coerce untyped text formats (e.g. CSV).
+ * - number: numeric value
+ * - boolean: true/false
+ * - timestamp-ms / timestamp-seconds: Unix timestamp (dates are also accepted)
+ * - timestamp-iso: ISO 8601 string (Unix milliseconds are also accepted)
+ * - json: JSON-encoded object or array
+ */
+export type InputFieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'timestamp-ms'
+  | 'timestamp-seconds'
+  | 'timestamp-iso'
+  | 'json';
+
+/**
+ * Port interface for a partner integration.
+ *
+ * A partner adapter is self-contained: it knows how to validate the partner's
+ * input format and how to map it to the unified CreateOrderEventInput.
+ * Adapters are registered in the PartnerRegistry at container creation, which
+ * makes them available to feed routes, authentication, queries and statistics.
+ */
+export interface IPartnerAdapter<TInput = unknown> {
+  /** Unique partner identifier (e.g. PARTNER_A) */
+  readonly partnerId: PartnerId;
+
+  /** URL slug used in feed routes (e.g. partner-a → /api/feed/partner-a) */
+  readonly slug: string;
+
+  /** Human-readable partner name */
+  readonly displayName: string;
+
+  /** Input field holding the partner's external order ID (e.g. orderId, or a dot-separated path such as order.ref) */
+  readonly idField: string;
+
+  /** Additional identifiers accepted in query parameters (e.g. A) */
+  readonly aliases?: readonly string[];
+
+  /** ISO 4217 currency of orders that do not name one (default: the base currency) */
+  readonly defaultCurrency?: string;
+
+  /** Types of non-string input fields by name or dot path; unlisted fields are strings */
+  readonly fieldTypes?: Readonly<Record<string, InputFieldType>>;
+
+  /** JSON Schema of the input format, published at /api/schemas/:slug; validate() enforces it */
+  readonly inputSchema: JsonSchema;
+
+  /**
+   * Validate raw partner input
+   */
+  validate(input: unknown): ValidationResult<TInput>;
+
+  /**
+   * Map validated partner input to OrderEvent creation input
+   */
+  toOrderInput(input: TInput): CreateOrderEventInput;
+}
@@ -0,0 +1,81 @@
+import {
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  PartnerId
+} from '../models';
+import { PaginationOptions, PaginatedResult } from './order-repository.port';
+
+/**
+ * Port interface for webhook subscriptions and the delivery log.
+ */
+export interface IWebhookRepositoryPort {
+  /**
+   * Save a partner's subscription (insert or replace by partner)
+   */
+  saveSubscription(subscription: WebhookSubscription): Promise<void>;
+
+  /**
+   * Find the subscription of a partner
+   */
+  findSubscription(partnerId: PartnerId): Promise<WebhookSubscription | null>;
+
+  /**
+   * List all subscriptions
+   */
+  listSubscriptions(): Promise<WebhookSubscription[]>;
+
+  /**
+   * Delete a partner's subscription; returns false if none existed
+   */
+  deleteSubscription(partnerId: PartnerId): Promise<boolean>;
+
+  /**
+   * Save a delivery (insert or replace by ID)
+   */
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+
+  /**
+   * Find a delivery by ID
+   */
+  findDeliveryById(id: string): Promise<WebhookDelivery | null>;
+
+  /**
+   * Find deliveries, most recent first
+   */
+  findDeliveries(
+    filters?: WebhookDeliveryFilters,
+    pagination?: PaginationOptions
+  ): Promise<PaginatedResult<WebhookDelivery>>;
+
+  /**
+   * Clear all subscriptions and deliveries (for testing)
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Query filters for the delivery log
+ */
+export interface WebhookDeliveryFilters {
+  partnerId?: PartnerId;
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEventType;
+}
+
+/**
+ * Result of sending a webhook request
+ */
+export interface WebhookSendResult {
+  /** HTTP status returned by the endpoint */
+  statusCode: number;
+}
+
+/**
+ * Port interface for sending webhook HTTP requests.
+ * Rejects on network errors and timeouts.
+ */
+export interface IWebhookSenderPort {
+  send(url: string, body: string, headers: Record<string, string>): Promise<WebhookSendResult>;
+}
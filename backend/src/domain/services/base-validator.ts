@@ -1,10 +1,93 @@
-import { ValidationError, ValidationResult, ErrorCode } from '../models';
+import {
+  ValidationError,
+  ValidationWarning,
+  ValidationResult,
+  ErrorCode,
+  TimestampPolicy,
+  BusinessRule,
+  BusinessRuleSeverity,
+  JsonSchema
+} from '../models';
+import { MAX_ORDER_LINE_ITEMS } from './order-line-items';
+import { isCurrencyCode } from './fx-rate-table';
+import { isRegionCode } from './tax-rules';
+import { MAX_PROMO_CODES } from './promotion-catalog';
+import { DEFAULT_TIMESTAMP_POLICY, parseISO8601Timestamp } from './timestamp-policy';
+import {
+  BusinessRuleComputedFields,
+  describeBusinessRule,
+  getBusinessRuleFieldValues,
+  satisfiesBusinessRule
+} from './business-rules';
+import { JsonSchemaViolation, getSchemaPath, validateJsonSchema } from './json-schema';
 
 /**
- * Base Validator class with common validation utilities
+ * Quantities above this are accepted with a HIGH_QUANTITY warning
+ */
+export const HIGH_QUANTITY_THRESHOLD = 1000;
+
+/**
+ * Transactions older than this many days are accepted with a
+ * STALE_TRANSACTION_TIME warning
+ */
+export const STALE_TRANSACTION_DAYS = 90;
+
+/**
+ * Metadata keys partners are expected to send; others are accepted with an
+ * UNKNOWN_METADATA_KEY warning
+ */
+export const KNOWN_METADATA_KEYS: readonly string[] = ['channel', 'source', 'campaign', 'notes', 'storeId'];
+
+/**
+ * Error code of a schema violation, in the terms of the field checks
+ */
+function getSchemaViolationCode({ keyword, expected, value }: JsonSchemaViolation): ErrorCode {
+  switch (keyword) {
+    case 'required':
+      return ErrorCode.MISSING_REQUIRED_FIELD;
+    case 'type':
+      if (value === null) return ErrorCode.NULL_VALUE;
+      if (/number|integer/.test(expected)) {
+        return typeof value === 'number' ? ErrorCode.INVALID_VALUE : ErrorCode.NOT_A_NUMBER;
+      }
+      return ErrorCode.INVALID_DATA_TYPE;
+    case 'minimum':
+    case 'exclusiveMinimum':
+      if (value === 0) return ErrorCode.ZERO_VALUE;
+      return (value as number) < 0 ? ErrorCode.NEGATIVE_NUMBER : ErrorCode.INVALID_VALUE;
+    case 'format':
+      return ErrorCode.INVALID_TIMESTAMP;
+    default:
+      return ErrorCode.INVALID_VALUE;
+  }
+}
+
+/**
+ * Base Validator class with common validation utilities.
+ * Timestamps are checked against the partner's timestamp policy, and
+ * structurally valid input against the partner's business rules.
+ *
+ * Every validator publishes the JSON Schema of its input format: errors
+ * carry the schema path of their field, and input the field checks accept
+ * is also checked against the schema so the two cannot drift apart.
  */
 export abstract class BaseValidator<T> {
   protected errors: ValidationError[] = [];
+  protected warnings: ValidationWarning[] = [];
+
+  /**
+   * JSON Schema of the input format
+   */
+  abstract readonly schema: JsonSchema;
+
+  /**
+   * @param timestampPolicy - Range of timestamps accepted
+   * @param getBusinessRules - Current business rules of the partner (looked up on every validation)
+   */
+  constructor(
+    protected readonly timestampPolicy: TimestampPolicy = DEFAULT_TIMESTAMP_POLICY,
+    private readonly getBusinessRules: () => readonly BusinessRule[] = () => []
+  ) {}
 
   /**
    * Validate the input and return a result
@@ -12,26 +95,53 @@ export abstract class BaseValidator<T> {
   abstract validate(input: unknown): ValidationResult<T>;
 
   /**
-   * Reset errors for a new validation
+   * Reset errors and warnings for a new validation
    */
   protected resetErrors(): void {
     this.errors = [];
+    this.warnings = [];
   }
 
   /**
-   * Add a validation error
+   * Add a validation error, classified by its error code
+   * (schemaPath: default the schema of the field)
    */
   protected addError(
     field: string,
+    errorCode: ErrorCode,
     message: string,
     receivedValue?: unknown,
-    expectedType?: string
+    expectedType?: string,
+    schemaPath: string | undefined = getSchemaPath(this.schema, field)
   ): void {
     this.errors.push({
       field,
+      errorCode,
+      message,
+      receivedValue,
+      expectedType,
+      ...(schemaPath && { schemaPath })
+    });
+  }
+
+  /**
+   * Add a validation warning (a soft rule: the input stays valid)
+   */
+  protected addWarning(
+    field: string,
+    errorCode: ErrorCode,
+    message: string,
+    receivedValue?: unknown,
+    expectedType?: string,
+    schemaPath: string | undefined = getSchemaPath(this.schema, field)
+  ): void {
+    this.warnings.push({
+      field,
+      errorCode,
       message,
       receivedValue,
-      expectedType
+      expectedType,
+      ...(schemaPath && { schemaPath })
     });
   }
 
@@ -44,15 +154,18 @@ export abstract class BaseValidator<T> {
 
   /**
    * Validate required field exists and is not null/undefined
+   * (name: the field's path in errors, e.g. lineItems[0].skuId)
    */
   protected validateRequired(
     obj: Record<string, unknown>,
-    field: string
+    field: string,
+    name: string = field
   ): boolean {
     if (!(field in obj)) {
       this.addError(
-        field,
-        `Missing required field: ${field}`,
+        name,
+        ErrorCode.MISSING_REQUIRED_FIELD,
+        `Missing required field: ${name}`,
         undefined,
         'required'
       );
@@ -61,8 +174,9 @@ export abstract class BaseValidator<T> {
     
     if (this.isNullOrUndefined(obj[field])) {
       this.addError(
-        field,
-        `Field '${field}' cannot be null or undefined`,
+        name,
+        ErrorCode.NULL_VALUE,
+        `Field '${name}' cannot be null or undefined`,
         obj[field],
         'non-null'
       );
@@ -83,6 +197,7 @@ export abstract class BaseValidator<T> {
     if (typeof value !== 'string') {
       this.addError(
         field,
+        ErrorCode.INVALID_DATA_TYPE,
         `Field '${field}' must be a string`,
         value,
         'string'
@@ -93,6 +208,7 @@ export abstract class BaseValidator<T> {
     if (value.trim().length < minLength) {
       this.addError(
         field,
+        ErrorCode.INVALID_VALUE,
         `Field '${field}' must have at least ${minLength} character(s)`,
         value,
         `string (min length: ${minLength})`
@@ -114,6 +230,7 @@ export abstract class BaseValidator<T> {
     if (typeof value !== 'number' || isNaN(value)) {
       this.addError(
         field,
+        ErrorCode.NOT_A_NUMBER,
         `Field '${field}' must be a valid number`,
         value,
         'number'
@@ -124,6 +241,7 @@ export abstract class BaseValidator<T> {
     if (!allowZero && value <= 0) {
       this.addError(
         field,
+        value === 0 ? ErrorCode.ZERO_VALUE : ErrorCode.NEGATIVE_NUMBER,
         `Field '${field}' must be a positive number`,
         value,
         'positive number'
@@ -134,6 +252,7 @@ export abstract class BaseValidator<T> {
     if (allowZero && value < 0) {
       this.addError(
         field,
+        ErrorCode.NEGATIVE_NUMBER,
         `Field '${field}' cannot be negative`,
         value,
         'non-negative number'
@@ -164,32 +283,20 @@ export abstract class BaseValidator<T> {
     if (typeof value !== 'number' || isNaN(value)) {
       this.addError(
         field,
+        ErrorCode.INVALID_DATA_TYPE,
         `Field '${field}' must be a valid timestamp (number)`,
         value,
         'timestamp (milliseconds)'
       );
       return false;
     }
-    
-    // Reasonable timestamp range (year 2000 to 100 years from now)
-    const minTimestamp = 946684800000; // Jan 1, 2000
-    const maxTimestamp = Date.now() + (100 * 365 * 24 * 60 * 60 * 1000);
-    
-    if (value < minTimestamp || value > maxTimestamp) {
-      this.addError(
-        field,
-        `Field '${field}' must be a valid timestamp in milliseconds`,
-        value,
-        'timestamp (milliseconds since Unix epoch)'
-      );
-      return false;
-    }
-    
-    return true;
+
+    return this.validateTimestampRange(new Date(value), field, value);
   }
 
   /**
-   * Validate that a value is a valid ISO 8601 timestamp string
+   * Validate that a value is a strict ISO 8601 timestamp string
+   * (date, time with seconds, and Z or a UTC offset)
    */
   protected validateISO8601Timestamp(
     value: unknown,
@@ -198,24 +305,59 @@ export abstract class BaseValidator<T> {
     if (typeof value !== 'string') {
       this.addError(
         field,
+        ErrorCode.INVALID_DATA_TYPE,
         `Field '${field}' must be a string`,
         value,
         'ISO 8601 timestamp string'
       );
       return false;
     }
-    
-    const date = new Date(value);
-    if (isNaN(date.getTime())) {
+
+    const date = parseISO8601Timestamp(value);
+    if (!date) {
       this.addError(
         field,
+        ErrorCode.INVALID_TIMESTAMP,
         `Field '${field}' must be a valid ISO 8601 timestamp`,
         value,
         'ISO 8601 timestamp (e.g., 2024-01-15T10:30:00.000Z)'
       );
       return false;
     }
-    
+
+    return this.validateTimestampRange(date, field, value);
+  }
+
+  /**
+   * Validate that a timestamp is within the timestamp policy: at most
+   * maxClockSkewSeconds in the future and maxAgeDays in the past
+   */
+  private validateTimestampRange(time: Date, field: string, receivedValue: unknown): boolean {
+    const { maxClockSkewSeconds, maxAgeDays } = this.timestampPolicy;
+    const now = Date.now();
+
+    if (time.getTime() > now + maxClockSkewSeconds * 1000) {
+      this.addError(
+        field,
+        ErrorCode.FUTURE_TIMESTAMP,
+        `Field '${field}' is in the future (at most ${maxClockSkewSeconds} seconds of clock skew allowed)`,
+        receivedValue,
+        `timestamp at most ${maxClockSkewSeconds} seconds in the future`
+      );
+      return false;
+    }
+
+    if (time.getTime() < now - maxAgeDays * 24 * 60 * 60 * 1000) {
+      this.addError(
+        field,
+        ErrorCode.INVALID_TIMESTAMP,
+        `Field '${field}' is more than ${maxAgeDays} days in the past`,
+        receivedValue,
+        `timestamp within the last ${maxAgeDays} days`
+      );
+      return false;
+    }
+
     return true;
   }
 
@@ -230,6 +372,7 @@ export abstract class BaseValidator<T> {
     if (typeof value !== 'number' || isNaN(value)) {
       this.addError(
         field,
+        ErrorCode.NOT_A_NUMBER,
         `Field '${field}' must be a valid number`,
         value,
         'number'
@@ -242,6 +385,7 @@ export abstract class BaseValidator<T> {
     if (value < 0 || value > maxValue) {
       this.addError(
         field,
+        value < 0 ? ErrorCode.NEGATIVE_NUMBER : ErrorCode.INVALID_VALUE,
         `Field '${field}' must be between 0 and ${maxValue}`,
         value,
         isPercentage ? 'percentage (0-100)' : 'decimal (0-1)'
@@ -253,13 +397,238 @@ export abstract class BaseValidator<T> {
   }
 
   /**
-   * Create successful validation result
+   * Validate that a value is an ISO 4217 currency code (e.g. EUR).
+   * Whether an exchange rate exists is checked when the order is processed.
+   */
+  protected validateCurrencyCode(
+    value: unknown,
+    field: string
+  ): value is string {
+    if (!isCurrencyCode(value)) {
+      this.addError(
+        field,
+        ErrorCode.INVALID_VALUE,
+        `Field '${field}' must be an ISO 4217 currency code`,
+        value,
+        'currency code (e.g. USD, EUR)'
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate that a value is an ISO 3166 region code: a country (DE) or a
+   * country subdivision (US-CA)
+   */
+  protected validateRegionCode(
+    value: unknown,
+    field: string
+  ): value is string {
+    if (!isRegionCode(value)) {
+      this.addError(
+        field,
+        ErrorCode.INVALID_VALUE,
+        `Field '${field}' must be an ISO 3166 country or subdivision code`,
+        value,
+        'region code (e.g. DE, US-CA)'
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate that a value is a boolean
+   */
+  protected validateBoolean(
+    value: unknown,
+    field: string
+  ): value is boolean {
+    if (typeof value !== 'boolean') {
+      this.addError(field, ErrorCode.INVALID_DATA_TYPE, `Field '${field}' must be a boolean`, value, 'boolean');
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate that a value is a list of distinct non-empty promo codes (at
+   * most MAX_PROMO_CODES). Whether the codes exist is checked when the
+   * order is processed.
+   */
+  protected validatePromoCodes(
+    value: unknown,
+    field: string
+  ): value is string[] {
+    if (!Array.isArray(value) || value.length > MAX_PROMO_CODES) {
+      this.addError(
+        field,
+        Array.isArray(value) ? ErrorCode.INVALID_VALUE : ErrorCode.INVALID_DATA_TYPE,
+        `Field '${field}' must be an array of at most ${MAX_PROMO_CODES} promo codes`,
+        value,
+        `array of strings (0-${MAX_PROMO_CODES})`
+      );
+      return false;
+    }
+
+    const errorCount = this.errors.length;
+    value.forEach((code, index) => {
+      if (this.validateString(code, `${field}[${index}]`) && value.indexOf(code) !== index) {
+        this.addError(`${field}[${index}]`, ErrorCode.INVALID_DISCOUNT, `Promo code '${code}' is sent more than once`, code, 'distinct promo code');
+      }
+    });
+
+    return this.errors.length === errorCount;
+  }
+
+  /**
+   * Validate that a value is a non-empty array of order lines
+   * (at most MAX_ORDER_LINE_ITEMS). The lines themselves are not checked.
+   */
+  protected validateLineItemList(
+    value: unknown,
+    field: string
+  ): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.addError(
+        field,
+        ErrorCode.INVALID_DATA_TYPE,
+        `Field '${field}' must be an array`,
+        value,
+        'array of order lines'
+      );
+      return false;
+    }
+
+    if (value.length === 0 || value.length > MAX_ORDER_LINE_ITEMS) {
+      this.addError(
+        field,
+        ErrorCode.INVALID_VALUE,
+        `Field '${field}' must have between 1 and ${MAX_ORDER_LINE_ITEMS} lines`,
+        value.length,
+        `array (1-${MAX_ORDER_LINE_ITEMS} lines)`
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Warn about a quantity above HIGH_QUANTITY_THRESHOLD
+   */
+  protected warnOnHighQuantity(value: number, field: string): void {
+    if (value > HIGH_QUANTITY_THRESHOLD) {
+      this.addWarning(
+        field,
+        ErrorCode.HIGH_QUANTITY,
+        `Quantity ${value} is unusually high`,
+        value,
+        `quantity (at most ${HIGH_QUANTITY_THRESHOLD})`
+      );
+    }
+  }
+
+  /**
+   * Warn about a zero tax rate
+   */
+  protected warnOnZeroTaxRate(value: number, field: string): void {
+    if (value === 0) {
+      this.addWarning(field, ErrorCode.ZERO_TAX_RATE, 'Tax rate is zero', value, 'tax rate above 0');
+    }
+  }
+
+  /**
+   * Warn about a transaction more than STALE_TRANSACTION_DAYS in the past
+   */
+  protected warnOnStaleTransactionTime(time: Date, field: string, receivedValue: unknown): void {
+    const ageDays = (Date.now() - time.getTime()) / (24 * 60 * 60 * 1000);
+    if (ageDays > STALE_TRANSACTION_DAYS) {
+      this.addWarning(
+        field,
+        ErrorCode.STALE_TRANSACTION_TIME,
+        `Transaction time is ${Math.floor(ageDays)} days in the past`,
+        receivedValue,
+        `timestamp within the last ${STALE_TRANSACTION_DAYS} days`
+      );
+    }
+  }
+
+  /**
+   * Warn about metadata keys that are not in KNOWN_METADATA_KEYS
+   */
+  protected warnOnUnknownMetadataKeys(metadata: Record<string, unknown>, field: string): void {
+    for (const key of Object.keys(metadata)) {
+      if (!KNOWN_METADATA_KEYS.includes(key)) {
+        this.addWarning(
+          `${field}.${key}`,
+          ErrorCode.UNKNOWN_METADATA_KEY,
+          `Unknown metadata key '${key}'`,
+          metadata[key],
+          KNOWN_METADATA_KEYS.join(' | ')
+        );
+      }
+    }
+  }
+
+  /**
+   * Check input the field checks accepted against the schema. Violations
+   * are errors whose messages name the failed schema keyword.
+   */
+  protected checkSchema(input: unknown): boolean {
+    const violations = validateJsonSchema(this.schema, input);
+
+    for (const violation of violations) {
+      const { field, keyword, expected, value, schemaPath } = violation;
+      const name = field || 'root';
+      const message = keyword === 'required'
+        ? `Missing required field: ${name} (${schemaPath})`
+        : `Field '${name}' must be ${expected} (${schemaPath})`;
+
+      this.addError(name, getSchemaViolationCode(violation), message, value, expected, schemaPath);
+    }
+
+    return violations.length === 0;
+  }
+
+  /**
+   * Check structurally valid input against the partner's business rules.
+   * ERROR rules add errors, WARNING rules add warnings.
+   */
+  protected checkBusinessRules(input: unknown, computed: BusinessRuleComputedFields = {}): void {
+    for (const rule of this.getBusinessRules()) {
+      for (const { path, value } of getBusinessRuleFieldValues(rule.field, input, computed)) {
+        if (satisfiesBusinessRule(rule, value)) {
+          continue;
+        }
+
+        const expected = describeBusinessRule(rule);
+        const report = rule.severity === BusinessRuleSeverity.WARNING ? this.addWarning : this.addError;
+        report.call(
+          this,
+          path,
+          rule.errorCode ?? ErrorCode.BUSINESS_RULE_VIOLATION,
+          rule.message ?? `Field '${path}' must be ${expected} (rule ${rule.id})`,
+          value,
+          expected
+        );
+      }
+    }
+  }
+
+  /**
+   * Create successful validation result (with any warnings)
    */
   protected success(data: T): ValidationResult<T> {
     return {
       isValid: true,
       data,
-      errors: []
+      errors: [],
+      warnings: [...this.warnings]
     };
   }
 
@@ -0,0 +1,268 @@
+import {
+  BusinessRule,
+  BusinessRuleOperator,
+  BusinessRuleSetDefinition,
+  BusinessRuleSeverity,
+  ErrorCode
+} from '../models';
+import { fromMinorUnits, getCurrencyMinorDigits, roundProduct } from './money';
+
+/**
+ * Computed fields rules can check next to the partner input fields
+ */
+export interface BusinessRuleComputedFields {
+  /** Quantity × unit price total of the order lines, before discounts */
+  $orderValue?: number;
+}
+
+/**
+ * A value of the field a rule checks, with the path it was found at
+ * (array elements are named by index, e.g. lineItems[1].quantity)
+ */
+export interface BusinessRuleFieldValue {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * Quantity × unit price total of order lines (the $orderValue field),
+ * computed exactly in the minor unit of the order currency (default: 2 digits)
+ */
+export function getOrderValue(lines: { quantity: number; unitPrice: number }[], currency?: string): number {
+  const digits = currency ? getCurrencyMinorDigits(currency) : 2;
+  const total = lines.reduce((sum, line) => sum + roundProduct([line.quantity, line.unitPrice], digits), 0);
+  return fromMinorUnits(total, digits);
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a string compiles as a regular expression
+ */
+function isRegExp(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a business rule set definition (typically parsed from a JSON file).
+ * Throws with every problem found so a broken rule file is never applied.
+ */
+export function validateBusinessRules(definition: unknown): BusinessRuleSetDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid business rules: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  if (!isObject(definition.partners)) {
+    problems.push('partners must be an object keyed by partner ID');
+  } else {
+    for (const [partnerId, rules] of Object.entries(definition.partners)) {
+      if (!Array.isArray(rules)) {
+        problems.push(`partners.${partnerId} must be an array`);
+        continue;
+      }
+
+      const ids = new Set<string>();
+
+      rules.forEach((rule: unknown, index: number) => {
+        const where = `partners.${partnerId}[${index}]`;
+        if (!isObject(rule)) {
+          problems.push(`${where} must be an object`);
+          return;
+        }
+
+        if (typeof rule.id !== 'string' || rule.id.trim() === '') {
+          problems.push(`${where}.id must be a non-empty string`);
+        } else if (ids.has(rule.id)) {
+          problems.push(`${where}.id '${rule.id}' is used by another rule`);
+        } else {
+          ids.add(rule.id);
+        }
+        if (typeof rule.field !== 'string' || rule.field.trim() === '') {
+          problems.push(`${where}.field must be a non-empty string`);
+        }
+
+        switch (rule.operator) {
+          case BusinessRuleOperator.MIN:
+          case BusinessRuleOperator.MAX:
+            if (typeof rule.value !== 'number' || !isFinite(rule.value)) {
+              problems.push(`${where}.value must be a number for ${rule.operator}`);
+            }
+            break;
+          case BusinessRuleOperator.MATCHES:
+            if (!isRegExp(rule.value)) {
+              problems.push(`${where}.value must be a regular expression for MATCHES`);
+            }
+            break;
+          case BusinessRuleOperator.IN:
+          case BusinessRuleOperator.NOT_IN:
+            if (!Array.isArray(rule.value) || rule.value.length === 0 ||
+                !rule.value.every((item) => typeof item === 'string' || typeof item === 'number')) {
+              problems.push(`${where}.value must be a non-empty array of strings or numbers for ${rule.operator}`);
+            }
+            break;
+          default:
+            problems.push(`${where}.operator must be ${Object.values(BusinessRuleOperator).join(', ')}`);
+        }
+
+        if (rule.errorCode !== undefined && !Object.values(ErrorCode).includes(rule.errorCode as ErrorCode)) {
+          problems.push(`${where}.errorCode must be a known error code`);
+        }
+        if (rule.severity !== undefined &&
+            !Object.values(BusinessRuleSeverity).includes(rule.severity as BusinessRuleSeverity)) {
+          problems.push(`${where}.severity must be ${Object.values(BusinessRuleSeverity).join(' or ')}`);
+        }
+        if (rule.message !== undefined && typeof rule.message !== 'string') {
+          problems.push(`${where}.message must be a string`);
+        }
+      });
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid business rules: ${problems.join('; ')}`);
+  }
+
+  return definition as unknown as BusinessRuleSetDefinition;
+}
+
+/**
+ * Values of the field a rule checks. A `[]` segment expands to every element
+ * of an array; missing fields yield no values.
+ */
+export function getBusinessRuleFieldValues(
+  field: string,
+  input: unknown,
+  computed: BusinessRuleComputedFields = {}
+): BusinessRuleFieldValue[] {
+  if (field.startsWith('$')) {
+    const value = computed[field as keyof BusinessRuleComputedFields];
+    return value === undefined ? [] : [{ path: field, value }];
+  }
+
+  let values: BusinessRuleFieldValue[] = [{ path: '', value: input }];
+
+  for (const segment of field.split('.')) {
+    const isArray = segment.endsWith('[]');
+    const key = isArray ? segment.slice(0, -2) : segment;
+    const next: BusinessRuleFieldValue[] = [];
+
+    for (const { path, value } of values) {
+      if (!isObject(value) || value[key] === undefined || value[key] === null) {
+        continue;
+      }
+      const keyPath = path ? `${path}.${key}` : key;
+      const child = value[key];
+
+      if (isArray) {
+        if (Array.isArray(child)) {
+          child.forEach((item, index) => next.push({ path: `${keyPath}[${index}]`, value: item }));
+        }
+      } else {
+        next.push({ path: keyPath, value: child });
+      }
+    }
+
+    values = next;
+  }
+
+  return values.filter(({ value }) => value !== undefined && value !== null);
+}
+
+/**
+ * Check whether a value satisfies a rule
+ */
+export function satisfiesBusinessRule(rule: BusinessRule, value: unknown): boolean {
+  switch (rule.operator) {
+    case BusinessRuleOperator.MIN:
+      return typeof value === 'number' && value >= (rule.value as number);
+    case BusinessRuleOperator.MAX:
+      return typeof value === 'number' && value <= (rule.value as number);
+    case BusinessRuleOperator.MATCHES:
+      return (typeof value === 'string' || typeof value === 'number') &&
+        new RegExp(rule.value as string).test(String(value));
+    case BusinessRuleOperator.IN:
+      return (rule.value as unknown[]).includes(value);
+    case BusinessRuleOperator.NOT_IN:
+      return !(rule.value as unknown[]).includes(value);
+  }
+}
+
+/**
+ * Describe the values a rule accepts (e.g. "at most 500")
+ */
+export function describeBusinessRule(rule: BusinessRule): string {
+  switch (rule.operator) {
+    case BusinessRuleOperator.MIN:
+      return `at least ${rule.value}`;
+    case BusinessRuleOperator.MAX:
+      return `at most ${rule.value}`;
+    case BusinessRuleOperator.MATCHES:
+      return `matching /${rule.value}/`;
+    case BusinessRuleOperator.IN:
+      return `one of ${(rule.value as unknown[]).join(', ')}`;
+    case BusinessRuleOperator.NOT_IN:
+      return `not one of ${(rule.value as unknown[]).join(', ')}`;
+  }
+}
+
+/**
+ * Business rules by partner.
+ *
+ * The rules can be replaced while the application runs (hot reload);
+ * validators look them up on every validation, so new rules apply to the
+ * next order. Without a definition no partner has rules.
+ */
+export class BusinessRules {
+  private definition: BusinessRuleSetDefinition;
+  private loadedAt: string;
+
+  constructor(definition: BusinessRuleSetDefinition = { partners: {} }) {
+    this.definition = validateBusinessRules(definition);
+    this.loadedAt = new Date().toISOString();
+  }
+
+  /**
+   * Replace every rule. Throws (keeping the current rules) if the new
+   * definition is invalid.
+   */
+  replace(definition: BusinessRuleSetDefinition): void {
+    this.definition = validateBusinessRules(definition);
+    this.loadedAt = new Date().toISOString();
+  }
+
+  /**
+   * Rules of a partner in definition order
+   */
+  forPartner(partnerId: string): readonly BusinessRule[] {
+    return this.definition.partners[partnerId] ?? [];
+  }
+
+  /**
+   * Rules of every partner
+   */
+  getDefinition(): BusinessRuleSetDefinition {
+    return this.definition;
+  }
+
+  /**
+   * When the current rules were loaded (ISO 8601)
+   */
+  getLoadedAt(): string {
+    return this.loadedAt;
+  }
+}
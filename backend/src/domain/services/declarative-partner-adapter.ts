@@ -0,0 +1,586 @@
+import {
+  PartnerMappingDefinition,
+  FieldMapping,
+  MappingTarget,
+  MappingFieldType,
+  MappingConversion,
+  CreateOrderEventInput,
+  TimestampPolicy,
+  BusinessRule,
+  JsonSchema,
+  ValidationResult,
+  ErrorCode
+} from '../models';
+import { IPartnerAdapter, InputFieldType } from '../ports/partner-adapter.port';
+import { BaseValidator } from './base-validator';
+import { getValueAtPath } from './object-path';
+import {
+  convertMsToISO8601,
+  normalizeISO8601,
+  convertPercentageToDecimal
+} from './partner-adapters';
+import { CURRENCY_CODE_PATTERN, isCurrencyCode } from './fx-rate-table';
+import { REGION_CODE_PATTERN } from './tax-rules';
+import { BusinessRules, getOrderValue } from './business-rules';
+import { JSON_SCHEMA_DIALECT } from './json-schema';
+import { nonBlankString, nullable } from './partner-schemas';
+
+type MappedInput = Record<string, unknown>;
+
+/**
+ * Order input fields every mapping must provide
+ */
+const REQUIRED_TARGETS: MappingTarget[] = [
+  'externalOrderId',
+  'productId',
+  'customerId',
+  'quantity',
+  'unitPrice',
+  'taxRate',
+  'transactionTime'
+];
+
+/**
+ * Source types accepted for each order input field
+ */
+const TARGET_TYPES: Record<string, MappingFieldType[]> = {
+  externalOrderId: ['string', 'integer'],
+  productId: ['string', 'integer'],
+  customerId: ['string', 'integer'],
+  quantity: ['integer'],
+  unitPrice: ['number'],
+  taxRate: ['number'],
+  transactionTime: ['timestamp'],
+  currency: ['string'],
+  productCategory: ['string'],
+  customerRegion: ['string'],
+  pricesIncludeTax: ['boolean'],
+  discountAmount: ['number'],
+  metadata: ['object']
+};
+
+/**
+ * Conversions accepted for each order input field
+ */
+const TARGET_CONVERSIONS: Record<string, MappingConversion[]> = {
+  taxRate: ['percent-to-decimal'],
+  transactionTime: ['ms-to-iso', 'seconds-to-iso', 'iso-normalize']
+};
+
+const FIELD_TYPES: MappingFieldType[] = ['string', 'number', 'integer', 'boolean', 'object', 'timestamp'];
+
+const ID_TARGETS: MappingTarget[] = ['externalOrderId', 'productId', 'customerId'];
+
+/**
+ * Input field type of a mapped source value
+ */
+function toInputFieldType(field: FieldMapping): InputFieldType {
+  switch (field.type) {
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'object':
+      return 'json';
+    case 'timestamp':
+      return field.conversion === 'ms-to-iso'
+        ? 'timestamp-ms'
+        : field.conversion === 'seconds-to-iso' ? 'timestamp-seconds' : 'timestamp-iso';
+    default:
+      return field.type;
+  }
+}
+
+/**
+ * Check whether a source value must be present
+ */
+function isRequired(field: FieldMapping): boolean {
+  return field.required ?? field.default === undefined;
+}
+
+/**
+ * Check whether a source value must be present and not null
+ */
+function isMandatory(field: FieldMapping): boolean {
+  return isRequired(field) && field.default === undefined;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Time of a valid timestamp source value in the format implied by its conversion
+ */
+function toDate(conversion: MappingConversion | undefined, value: unknown): Date {
+  switch (conversion) {
+    case 'ms-to-iso':
+      return new Date(value as number);
+    case 'seconds-to-iso':
+      return new Date((value as number) * 1000);
+    default:
+      return new Date(value as string);
+  }
+}
+
+/**
+ * Validate a mapping definition (typically parsed from a JSON file).
+ * Throws with every problem found so a broken definition fails at startup.
+ */
+export function validatePartnerMapping(definition: unknown): PartnerMappingDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid partner mapping: definition must be an object');
+  }
+
+  const label = typeof definition.partnerId === 'string' ? definition.partnerId : '<unknown>';
+  const problems: string[] = [];
+
+  if (typeof definition.partnerId !== 'string' || definition.partnerId.trim() === '') {
+    problems.push('partnerId must be a non-empty string');
+  }
+  if (typeof definition.slug !== 'string' || !/^[a-z0-9-]+$/i.test(definition.slug)) {
+    problems.push('slug must contain only letters, digits and dashes');
+  }
+  if (definition.displayName !== undefined && typeof definition.displayName !== 'string') {
+    problems.push('displayName must be a string');
+  }
+  if (definition.aliases !== undefined &&
+      (!Array.isArray(definition.aliases) || definition.aliases.some((a) => typeof a !== 'string'))) {
+    problems.push('aliases must be an array of strings');
+  }
+  if (definition.currency !== undefined && !isCurrencyCode(definition.currency)) {
+    problems.push('currency must be an ISO 4217 currency code');
+  }
+
+  if (!Array.isArray(definition.fields)) {
+    problems.push('fields must be an array');
+  } else {
+    const targets = new Set<string>();
+
+    definition.fields.forEach((field: unknown, index: number) => {
+      const where = `fields[${index}]`;
+      if (!isObject(field)) {
+        problems.push(`${where} must be an object`);
+        return;
+      }
+
+      const { source, target, type, conversion, required } = field;
+      if (typeof source !== 'string' || source.trim() === '') {
+        problems.push(`${where}.source must be a non-empty string`);
+      }
+      if (typeof target !== 'string' ||
+          !(target in TARGET_TYPES || /^metadata\.[^.]+$/.test(target))) {
+        problems.push(`${where}.target '${String(target)}' is not a supported order field`);
+        return;
+      }
+      if (targets.has(target)) {
+        problems.push(`${where}.target '${target}' is mapped more than once`);
+      }
+      targets.add(target);
+
+      const allowedTypes = TARGET_TYPES[target] ?? FIELD_TYPES;
+      if (!allowedTypes.includes(type as MappingFieldType)) {
+        problems.push(`${where}.type '${String(type)}' is not valid for ${target} (expected ${allowedTypes.join(' | ')})`);
+      }
+
+      const allowedConversions = type === 'timestamp'
+        ? TARGET_CONVERSIONS.transactionTime
+        : TARGET_CONVERSIONS[target] ?? [];
+      if (conversion !== undefined && !allowedConversions.includes(conversion as MappingConversion)) {
+        problems.push(`${where}.conversion '${String(conversion)}' is not valid for ${target}`);
+      }
+
+      if (required !== undefined && typeof required !== 'boolean') {
+        problems.push(`${where}.required must be a boolean`);
+      }
+      if (REQUIRED_TARGETS.includes(target as MappingTarget) && required === false && field.default === undefined) {
+        problems.push(`${where} maps required field ${target} and must be required or have a default`);
+      }
+      if (target === 'externalOrderId' && field.default !== undefined) {
+        problems.push(`${where} maps externalOrderId and cannot have a default`);
+      }
+    });
+
+    for (const target of REQUIRED_TARGETS) {
+      if (!targets.has(target)) {
+        problems.push(`missing mapping for required field ${target}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid partner mapping '${label}': ${problems.join('; ')}`);
+  }
+
+  return definition as unknown as PartnerMappingDefinition;
+}
+
+/**
+ * JSON Schema of a source value, mirroring the checks of its target and type
+ */
+function getFieldSchema(field: FieldMapping): JsonSchema {
+  const description = `Maps to ${field.target}` +
+    (field.conversion ? ` (${field.conversion})` : '') +
+    (field.default !== undefined ? `, default ${JSON.stringify(field.default)}` : '');
+
+  switch (field.target) {
+    case 'quantity':
+      return { type: 'integer', exclusiveMinimum: 0, description };
+    case 'unitPrice':
+      return { type: 'number', exclusiveMinimum: 0, description };
+    case 'taxRate':
+      return { type: 'number', minimum: 0, maximum: field.conversion === 'percent-to-decimal' ? 100 : 1, description };
+    case 'currency':
+      return { type: 'string', pattern: CURRENCY_CODE_PATTERN, description };
+    case 'customerRegion':
+      return { type: 'string', pattern: REGION_CODE_PATTERN, description };
+    case 'discountAmount':
+      return { type: 'number', minimum: 0, description };
+  }
+
+  switch (field.type) {
+    case 'string':
+      return nonBlankString(description);
+    case 'timestamp':
+      return field.conversion === 'ms-to-iso' || field.conversion === 'seconds-to-iso'
+        ? { type: 'number', description }
+        : { type: 'string', format: 'date-time', description };
+    default:
+      return { type: field.type, description };
+  }
+}
+
+/**
+ * Object schema of fields by their remaining source path segments.
+ * Nested objects are required when they hold a mandatory field.
+ */
+function buildObjectSchema(fields: Array<{ path: string[]; field: FieldMapping }>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  const nested = new Map<string, Array<{ path: string[]; field: FieldMapping }>>();
+
+  for (const { path, field } of fields) {
+    const [key, ...rest] = path;
+    if (rest.length > 0) {
+      nested.set(key, [...(nested.get(key) ?? []), { path: rest, field }]);
+    } else if (isMandatory(field)) {
+      properties[key] = getFieldSchema(field);
+      required.push(key);
+    } else {
+      properties[key] = nullable(getFieldSchema(field));
+    }
+  }
+
+  for (const [key, children] of nested) {
+    const schema = buildObjectSchema(children);
+    if (schema.required) {
+      properties[key] = schema;
+      required.push(key);
+    } else {
+      properties[key] = nullable(schema);
+    }
+  }
+
+  return { type: 'object', ...(required.length > 0 && { required }), properties };
+}
+
+/**
+ * JSON Schema of the input format a mapping definition describes
+ */
+export function buildPartnerMappingSchema(definition: PartnerMappingDefinition): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: `${definition.displayName ?? definition.partnerId} order`,
+    description: `Order sent to /api/feed/${definition.slug}. Transaction times must also be within the partner's timestamp policy.`,
+    ...buildObjectSchema(definition.fields.map((field) => ({ path: field.source.split('.'), field })))
+  };
+}
+
+/**
+ * Validator driven by the field mappings of a definition.
+ * Field names in errors are the partner's source paths.
+ */
+class MappingValidator extends BaseValidator<MappedInput> {
+  constructor(
+    private readonly fields: FieldMapping[],
+    readonly schema: JsonSchema,
+    timestampPolicy?: TimestampPolicy,
+    getBusinessRules?: () => readonly BusinessRule[]
+  ) {
+    super(timestampPolicy, getBusinessRules);
+  }
+
+  validate(input: unknown): ValidationResult<MappedInput> {
+    this.resetErrors();
+
+    if (!isObject(input)) {
+      this.addError('root', ErrorCode.INVALID_DATA_TYPE, 'Input must be a valid object', input, 'object');
+      return this.failure();
+    }
+
+    for (const field of this.fields) {
+      const value = getValueAtPath(input, field.source);
+
+      if (this.isNullOrUndefined(value)) {
+        if (isRequired(field) && field.default === undefined) {
+          this.addError(
+            field.source,
+            value === undefined ? ErrorCode.MISSING_REQUIRED_FIELD : ErrorCode.NULL_VALUE,
+            value === undefined
+              ? `Missing required field: ${field.source}`
+              : `Field '${field.source}' cannot be null or undefined`,
+            value,
+            value === undefined ? 'required' : 'non-null'
+          );
+        }
+        continue;
+      }
+
+      if (this.validateField(field, value)) {
+        this.checkWarnings(field, value);
+      }
+    }
+
+    // Whatever the field checks accept must match the published schema
+    if (this.errors.length === 0) {
+      this.checkSchema(input);
+    }
+
+    // Partner business rules apply to structurally valid orders only
+    if (this.errors.length === 0) {
+      this.checkBusinessRules(input, { $orderValue: this.getOrderValue(input) });
+    }
+
+    return this.errors.length > 0 ? this.failure() : this.success(input);
+  }
+
+  /**
+   * Quantity × unit price of a valid input (undefined unless both are mapped)
+   */
+  private getOrderValue(input: MappedInput): number | undefined {
+    const valueOf = (target: MappingTarget) => {
+      const field = this.fields.find((candidate) => candidate.target === target);
+      return field && (getValueAtPath(input, field.source) ?? field.default);
+    };
+    const quantity = valueOf('quantity');
+    const unitPrice = valueOf('unitPrice');
+    const currency = valueOf('currency');
+
+    return typeof quantity === 'number' && typeof unitPrice === 'number'
+      ? getOrderValue([{ quantity, unitPrice }], typeof currency === 'string' ? currency : undefined)
+      : undefined;
+  }
+
+  /**
+   * Check the soft rules of a valid source value by its target: high
+   * quantities, zero tax rates, stale transaction times and unknown
+   * metadata keys
+   */
+  private checkWarnings(field: FieldMapping, value: unknown): void {
+    const name = field.source;
+
+    switch (field.target) {
+      case 'quantity':
+        this.warnOnHighQuantity(value as number, name);
+        break;
+      case 'taxRate':
+        this.warnOnZeroTaxRate(value as number, name);
+        break;
+      case 'transactionTime':
+        this.warnOnStaleTransactionTime(toDate(field.conversion, value), name, value);
+        break;
+      case 'metadata':
+        this.warnOnUnknownMetadataKeys(value as Record<string, unknown>, name);
+        break;
+    }
+  }
+
+  /**
+   * Validate a present source value against its target and type
+   */
+  private validateField(field: FieldMapping, value: unknown): boolean {
+    const name = field.source;
+
+    switch (field.target) {
+      case 'quantity':
+        return this.validatePositiveNumber(value, name) && this.validateInteger(value, name);
+      case 'unitPrice':
+        return this.validatePositiveNumber(value, name);
+      case 'taxRate':
+        return this.validateTaxRate(value, name, field.conversion === 'percent-to-decimal');
+      case 'currency':
+        return this.validateCurrencyCode(value, name);
+      case 'customerRegion':
+        return this.validateRegionCode(value, name);
+      case 'discountAmount':
+        return this.validateNonNegativeNumber(value, name);
+      default:
+        return this.validateType(field, value);
+    }
+  }
+
+  /**
+   * Validate a value against the declared source type
+   */
+  private validateType(field: FieldMapping, value: unknown): boolean {
+    const name = field.source;
+
+    switch (field.type) {
+      case 'string':
+        return this.validateString(value, name);
+      case 'number':
+        if (typeof value !== 'number' || isNaN(value)) {
+          this.addError(name, ErrorCode.NOT_A_NUMBER, `Field '${name}' must be a valid number`, value, 'number');
+          return false;
+        }
+        return true;
+      case 'integer':
+        return this.validateInteger(value, name);
+      case 'boolean':
+        return this.validateBoolean(value, name);
+      case 'object':
+        if (!isObject(value)) {
+          this.addError(name, ErrorCode.INVALID_DATA_TYPE, `Field '${name}' must be an object`, value, 'object');
+          return false;
+        }
+        return true;
+      case 'timestamp':
+        return this.validateTimestamp(field.conversion, value, name);
+    }
+  }
+
+  /**
+   * Validate a timestamp in the format implied by its conversion
+   */
+  private validateTimestamp(conversion: MappingConversion | undefined, value: unknown, name: string): boolean {
+    switch (conversion) {
+      case 'ms-to-iso':
+        return this.validateTimestampMs(value, name);
+      case 'seconds-to-iso':
+        if (typeof value !== 'number' || isNaN(value)) {
+          this.addError(name, ErrorCode.INVALID_DATA_TYPE, `Field '${name}' must be a valid timestamp (number)`, value, 'timestamp (seconds)');
+          return false;
+        }
+        return this.validateTimestampMs(value * 1000, name);
+      default:
+        return this.validateISO8601Timestamp(value, name);
+    }
+  }
+
+  /**
+   * Validate that a value is an integer
+   */
+  private validateInteger(value: unknown, name: string): boolean {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      this.addError(
+        name,
+        typeof value === 'number' ? ErrorCode.INVALID_VALUE : ErrorCode.NOT_A_NUMBER,
+        `Field '${name}' must be an integer`,
+        value,
+        'integer'
+      );
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Partner adapter built from a declarative mapping definition.
+ *
+ * Lets new partners be onboarded with a JSON file instead of a custom
+ * validator and adapter class. Source fields may be nested (dot paths),
+ * renamed, defaulted and converted (timestamps, percentages). The input
+ * schema is generated from the field mappings.
+ */
+export class DeclarativePartnerAdapter implements IPartnerAdapter<MappedInput> {
+  readonly partnerId: string;
+  readonly slug: string;
+  readonly displayName: string;
+  readonly idField: string;
+  readonly aliases: readonly string[];
+  readonly defaultCurrency?: string;
+  readonly fieldTypes: Readonly<Record<string, InputFieldType>>;
+  readonly inputSchema: JsonSchema;
+
+  private readonly fields: FieldMapping[];
+  private readonly validator: MappingValidator;
+
+  /**
+   * @param timestampPolicy - Range of transaction times accepted (default: DEFAULT_TIMESTAMP_POLICY)
+   * @param businessRules - Business rules checked after the mapping validation (default: none)
+   */
+  constructor(definition: PartnerMappingDefinition, timestampPolicy?: TimestampPolicy, businessRules?: BusinessRules) {
+    const valid = validatePartnerMapping(definition);
+
+    this.partnerId = valid.partnerId;
+    this.slug = valid.slug;
+    this.displayName = valid.displayName ?? valid.partnerId;
+    this.aliases = valid.aliases ?? [];
+    this.defaultCurrency = valid.currency;
+    this.fields = valid.fields;
+    this.idField = valid.fields.find((field) => field.target === 'externalOrderId')!.source;
+    this.fieldTypes = Object.fromEntries(
+      this.fields.map((field) => [field.source, toInputFieldType(field)])
+    );
+    this.inputSchema = buildPartnerMappingSchema(valid);
+    this.validator = new MappingValidator(
+      this.fields,
+      this.inputSchema,
+      timestampPolicy,
+      () => businessRules?.forPartner(this.partnerId) ?? []
+    );
+  }
+
+  validate(input: unknown): ValidationResult<MappedInput> {
+    return this.validator.validate(input);
+  }
+
+  toOrderInput(input: MappedInput): CreateOrderEventInput {
+    const order: Record<string, unknown> = { partnerId: this.partnerId };
+    const metadata: Record<string, unknown> = {};
+
+    for (const field of this.fields) {
+      const raw = getValueAtPath(input, field.source);
+      const value = raw === undefined || raw === null ? field.default : raw;
+      if (value === undefined) {
+        continue;
+      }
+
+      const converted = this.convert(field, value);
+
+      if (field.target === 'metadata') {
+        Object.assign(metadata, converted);
+      } else if (field.target.startsWith('metadata.')) {
+        metadata[field.target.slice('metadata.'.length)] = converted;
+      } else {
+        order[field.target] = ID_TARGETS.includes(field.target) ? String(converted) : converted;
+      }
+    }
+
+    return {
+      ...order,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+    } as unknown as CreateOrderEventInput;
+  }
+
+  /**
+   * Apply the field's conversion to a source value
+   */
+  private convert(field: FieldMapping, value: unknown): unknown {
+    switch (field.conversion) {
+      case 'ms-to-iso':
+        return convertMsToISO8601(value as number);
+      case 'seconds-to-iso':
+        return convertMsToISO8601((value as number) * 1000);
+      case 'percent-to-decimal':
+        return convertPercentageToDecimal(value as number);
+      case 'iso-normalize':
+        return normalizeISO8601(value as string);
+      default:
+        return field.type === 'timestamp' ? normalizeISO8601(value as string) : value;
+    }
+  }
+}
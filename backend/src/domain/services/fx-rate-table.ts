@@ -0,0 +1,159 @@
+import { BaseCurrencyAmounts, FxRate, FxRateTableDefinition, OrderEvent } from '../models';
+
+/**
+ * Base currency when no FX rate table is configured, and currency of
+ * orders stored before currencies were introduced
+ */
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+/**
+ * Exchange rate in effect for a currency at a point in time
+ */
+export interface FxRateLookup {
+  /** Base currency units per unit of the currency */
+  rate: number;
+
+  /** When the rate took effect (absent for the base currency) */
+  effectiveFrom?: string;
+}
+
+/**
+ * ISO 4217 currency code: three uppercase letters
+ */
+export const CURRENCY_CODE_PATTERN = '^[A-Z]{3}$';
+
+/**
+ * Check whether a value is an ISO 4217 currency code (three uppercase letters)
+ */
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && new RegExp(CURRENCY_CODE_PATTERN).test(value);
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an FX rate table definition (typically parsed from a JSON file).
+ * Throws with every problem found so a broken table fails at startup.
+ */
+export function validateFxRateTable(definition: unknown): FxRateTableDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid FX rate table: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  if (!isCurrencyCode(definition.baseCurrency)) {
+    problems.push('baseCurrency must be an ISO 4217 currency code');
+  }
+
+  if (!Array.isArray(definition.rates)) {
+    problems.push('rates must be an array');
+  } else {
+    const effectiveDates = new Set<string>();
+
+    definition.rates.forEach((rate: unknown, index: number) => {
+      const where = `rates[${index}]`;
+      if (!isObject(rate)) {
+        problems.push(`${where} must be an object`);
+        return;
+      }
+
+      if (!isCurrencyCode(rate.currency)) {
+        problems.push(`${where}.currency must be an ISO 4217 currency code`);
+      } else if (rate.currency === definition.baseCurrency) {
+        problems.push(`${where}.currency is the base currency`);
+      }
+      if (typeof rate.rate !== 'number' || !(rate.rate > 0)) {
+        problems.push(`${where}.rate must be a positive number`);
+      }
+      if (typeof rate.effectiveFrom !== 'string' || isNaN(new Date(rate.effectiveFrom).getTime())) {
+        problems.push(`${where}.effectiveFrom must be a date or ISO 8601 timestamp`);
+        return;
+      }
+
+      const key = `${String(rate.currency)}@${new Date(rate.effectiveFrom).getTime()}`;
+      if (effectiveDates.has(key)) {
+        problems.push(`${where} repeats the ${String(rate.currency)} rate effective from ${rate.effectiveFrom}`);
+      }
+      effectiveDates.add(key);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid FX rate table: ${problems.join('; ')}`);
+  }
+
+  return definition as unknown as FxRateTableDefinition;
+}
+
+/**
+ * Amounts of an order in the base currency. Orders stored before
+ * currencies were introduced are in the default base currency.
+ */
+export function getBaseAmounts(order: OrderEvent): BaseCurrencyAmounts {
+  return order.baseAmounts ?? {
+    currency: order.currency ?? DEFAULT_BASE_CURRENCY,
+    fxRate: 1,
+    grossAmount: order.grossAmount,
+    ...(order.discountAmount && { discountAmount: order.discountAmount }),
+    taxAmount: order.taxAmount,
+    netAmount: order.netAmount,
+  };
+}
+
+/**
+ * Exchange rates to the base currency, with effective dates.
+ *
+ * Without a definition the table only knows the default base currency,
+ * so every order must be in USD.
+ */
+export class FxRateTable {
+  readonly baseCurrency: string;
+
+  // Rates per currency, latest effective date first
+  private readonly ratesByCurrency: Map<string, FxRate[]> = new Map();
+
+  constructor(definition: FxRateTableDefinition = { baseCurrency: DEFAULT_BASE_CURRENCY, rates: [] }) {
+    const valid = validateFxRateTable(definition);
+
+    this.baseCurrency = valid.baseCurrency;
+    for (const rate of valid.rates) {
+      const rates = this.ratesByCurrency.get(rate.currency) ?? [];
+      rates.push(rate);
+      this.ratesByCurrency.set(rate.currency, rates);
+    }
+    for (const rates of this.ratesByCurrency.values()) {
+      rates.sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime());
+    }
+  }
+
+  /**
+   * Currencies orders can be placed in: the base currency and every
+   * currency with a rate, sorted
+   */
+  getCurrencies(): string[] {
+    return [this.baseCurrency, ...this.ratesByCurrency.keys()].sort();
+  }
+
+  /**
+   * Rate in effect for a currency at a point in time: the rate with the
+   * latest effective date not after it. Null when the currency has no
+   * rate yet at that time.
+   */
+  findRate(currency: string, at: Date): FxRateLookup | null {
+    if (currency === this.baseCurrency) {
+      return { rate: 1 };
+    }
+
+    const rate = this.ratesByCurrency
+      .get(currency)
+      ?.find((candidate) => new Date(candidate.effectiveFrom).getTime() <= at.getTime());
+
+    return rate ? { rate: rate.rate, effectiveFrom: rate.effectiveFrom } : null;
+  }
+}
@@ -2,7 +2,129 @@
 export { BaseValidator } from './base-validator';
 export { PartnerAValidator } from './partner-a-validator';
 export { PartnerBValidator } from './partner-b-validator';
-export { ValidationService } from './validation-service';
+export { ValidationService, formatValidationErrors } from './validation-service';
+
+// Partners
+export { PartnerAAdapter, PartnerBAdapter } from './partner-adapters';
+export { PartnerRegistry, createDefaultPartnerRegistry } from './partner-registry';
+export {
+  DeclarativePartnerAdapter,
+  validatePartnerMapping,
+  buildPartnerMappingSchema
+} from './declarative-partner-adapter';
+
+// Schemas
+export {
+  JSON_SCHEMA_DIALECT,
+  JsonSchemaViolation,
+  validateJsonSchema,
+  getSchemaPath
+} from './json-schema';
+export { PARTNER_A_INPUT_SCHEMA, PARTNER_B_INPUT_SCHEMA } from './partner-schemas';
+
+// Webhooks
+export { signWebhookPayload, verifyWebhookSignature } from './webhook-signature';
+
+// Request signing
+export {
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  MIN_SIGNING_SECRET_LENGTH,
+  SignedRequest,
+  RequestSigning,
+  signRequest,
+  verifyRequestSignature,
+  validateRequestSigning
+} from './request-signature';
+
+// Order lifecycle
+export {
+  ORDER_STATUS_TRANSITIONS,
+  isOrderStatus,
+  getOrderStatus,
+  canTransitionOrderStatus,
+  isOrderOpen
+} from './order-status';
+
+// Order lines
+export { MAX_ORDER_LINE_ITEMS, getOrderLineItems, orderHasProduct } from './order-line-items';
+
+// Validation warnings
+export {
+  HIGH_QUANTITY_THRESHOLD,
+  STALE_TRANSACTION_DAYS,
+  KNOWN_METADATA_KEYS
+} from './base-validator';
+export { hasWarnings, hasWarning } from './order-warnings';
+
+// Currencies
+export {
+  DEFAULT_BASE_CURRENCY,
+  FxRateTable,
+  FxRateLookup,
+  CURRENCY_CODE_PATTERN,
+  isCurrencyCode,
+  validateFxRateTable,
+  getBaseAmounts
+} from './fx-rate-table';
+
+// Taxes
+export {
+  TaxRuleEngine,
+  TaxRuleCriteria,
+  REGION_CODE_PATTERN,
+  isRegionCode,
+  validateTaxRules,
+  getTaxComponentsRate
+} from './tax-rules';
+
+// Promotions
+export {
+  MAX_PROMO_CODES,
+  PromotionCatalog,
+  validatePromotionCatalog,
+  isPromotionActive,
+  promotionAppliesTo
+} from './promotion-catalog';
+
+// Timestamps
+export {
+  DEFAULT_TIMESTAMP_POLICY,
+  TimestampPolicies,
+  parseISO8601Timestamp,
+  validateTimestampPolicies
+} from './timestamp-policy';
+
+// Rate limits
+export {
+  DEFAULT_RATE_LIMIT_POLICY,
+  RateLimitPolicies,
+  validateRateLimitPolicies
+} from './rate-limit-policy';
+
+// Business rules
+export {
+  BusinessRules,
+  BusinessRuleComputedFields,
+  validateBusinessRules,
+  getBusinessRuleFieldValues,
+  satisfiesBusinessRule,
+  describeBusinessRule,
+  getOrderValue
+} from './business-rules';
+
+// Money
+export {
+  RoundingMode,
+  isRoundingMode,
+  getCurrencyMinorDigits,
+  roundProduct,
+  toMinorUnits,
+  fromMinorUnits,
+  divideMinorUnits,
+  removeRate,
+  allocateMinorUnits,
+  getMinorUnitAmounts
+} from './money';
 
 // Transformers
 export { OrderTransformer } from './order-transformer';
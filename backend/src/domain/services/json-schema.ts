@@ -0,0 +1,195 @@
+import { JsonSchema, JsonSchemaType } from '../models';
+import { parseISO8601Timestamp } from './timestamp-policy';
+
+/**
+ * JSON Schema dialect of the published partner schemas
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * A value that does not satisfy a schema keyword
+ */
+export interface JsonSchemaViolation {
+  /** Path of the value in the input (e.g. lineItems[0].quantity; empty for the input itself) */
+  field: string;
+
+  /** JSON Pointer to the keyword in the schema (e.g. #/properties/quantity/exclusiveMinimum) */
+  schemaPath: string;
+
+  /** Keyword that failed (e.g. required, type, minimum) */
+  keyword: string;
+
+  /** What the value should be (e.g. "integer", "> 0") */
+  expected: string;
+
+  /** The value that failed (undefined for a missing property) */
+  value: unknown;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value has a JSON Schema type
+ */
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+/**
+ * Escape a property name for a JSON Pointer
+ */
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Path of a property in the input
+ */
+function childField(field: string, name: string): string {
+  return field === '' ? name : `${field}.${name}`;
+}
+
+/**
+ * Validate a value against a schema.
+ * Returns every violation found (none: the value is valid).
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): JsonSchemaViolation[] {
+  const violations: JsonSchemaViolation[] = [];
+  checkSchema(schema, value, '', '#', violations);
+  return violations;
+}
+
+/**
+ * Check a value against a (sub)schema, collecting violations
+ */
+function checkSchema(
+  schema: JsonSchema,
+  value: unknown,
+  field: string,
+  schemaPath: string,
+  violations: JsonSchemaViolation[]
+): void {
+  const fail = (keyword: string, expected: string, at: string = field, received: unknown = value) =>
+    violations.push({ field: at, schemaPath: `${schemaPath}/${keyword}`, keyword, expected, value: received });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      // The other keywords are meaningless for a value of the wrong type
+      fail('type', types.join(' | '));
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    fail('enum', `one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail('minimum', `>= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail('maximum', `<= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) fail('exclusiveMinimum', `> ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) fail('exclusiveMaximum', `< ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail('minLength', `at least ${schema.minLength} character(s)`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) fail('pattern', `matching /${schema.pattern}/`);
+    if (schema.format === 'date-time' && !parseISO8601Timestamp(value)) fail('format', 'ISO 8601 date-time');
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail('minItems', `at least ${schema.minItems} item(s)`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail('maxItems', `at most ${schema.maxItems} item(s)`);
+    if (schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+      fail('uniqueItems', 'distinct items');
+    }
+    if (schema.items) {
+      value.forEach((item, index) => checkSchema(schema.items!, item, `${field}[${index}]`, `${schemaPath}/items`, violations));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        fail('required', 'required', childField(field, name), undefined);
+      }
+    }
+    for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (name in value) {
+        checkSchema(propertySchema, value[name], childField(field, name), `${schemaPath}/properties/${escapePointer(name)}`, violations);
+      }
+    }
+  }
+
+  if (schema.not && validateJsonSchema(schema.not, value).length === 0) {
+    fail('not', `not matching ${schemaPath}/not`);
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((option) => validateJsonSchema(option, value).length === 0)) {
+    fail('anyOf', `matching any of ${describeOptions(schema.anyOf)}`);
+  }
+
+  if (schema.oneOf && schema.oneOf.filter((option) => validateJsonSchema(option, value).length === 0).length !== 1) {
+    fail('oneOf', `matching exactly one of ${describeOptions(schema.oneOf)}`);
+  }
+}
+
+/**
+ * Describe the options of anyOf/oneOf by their titles
+ */
+function describeOptions(options: JsonSchema[]): string {
+  return options.map((option, index) => option.title ?? `option ${index + 1}`).join(', ');
+}
+
+/**
+ * JSON Pointer to the schema of a field in the input (e.g. lineItems[0].quantity
+ * -> #/properties/lineItems/items/properties/quantity). Fields the schema
+ * does not describe resolve to their closest described parent; undefined
+ * when the schema does not describe the field at all.
+ */
+export function getSchemaPath(schema: JsonSchema, field: string): string | undefined {
+  if (field === 'root' || field === '') {
+    return '#';
+  }
+
+  const segments = field.split('.').flatMap((segment) =>
+    segment.split(/[[\]]/).filter((part) => part !== '').map((part, index) => (index === 0 ? part : Number(part)))
+  );
+
+  let node = schema;
+  let pointer = '#';
+  for (const segment of segments) {
+    if (typeof segment === 'number' && node.items) {
+      node = node.items;
+      pointer += '/items';
+    } else if (typeof segment === 'string' && node.properties?.[segment]) {
+      node = node.properties[segment];
+      pointer += `/properties/${escapePointer(segment)}`;
+    } else {
+      break;
+    }
+  }
+
+  return pointer === '#' ? undefined : pointer;
+}
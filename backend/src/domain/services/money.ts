@@ -0,0 +1,217 @@
+import { MinorUnitAmounts } from '../models';
+
+/**
+ * How amounts are rounded to minor units
+ * - HALF_UP: ties away from zero (2.345 -> 2.35)
+ * - HALF_EVEN: ties to the even neighbour, banker's rounding (2.345 -> 2.34)
+ */
+export enum RoundingMode {
+  HALF_UP = 'HALF_UP',
+  HALF_EVEN = 'HALF_EVEN'
+}
+
+/**
+ * Digits of the minor unit of currencies that do not use cents
+ * (ISO 4217 exponent); all other currencies use 2.
+ * The dashboard formats amounts with the same table (frontend/src/utils/formatters.ts).
+ */
+const CURRENCY_MINOR_DIGITS: Record<string, number> = {
+  BHD: 3,
+  CLP: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  UGX: 0,
+  VND: 0,
+};
+
+/**
+ * Exact decimal value: units * 10^-scale
+ */
+interface DecimalValue {
+  units: bigint;
+  scale: number;
+}
+
+/**
+ * Check whether a value is a rounding mode.
+ */
+export function isRoundingMode(value: unknown): value is RoundingMode {
+  return Object.values(RoundingMode).includes(value as RoundingMode);
+}
+
+/**
+ * Number of digits of a currency's minor unit (2 for USD cents, 0 for JPY)
+ */
+export function getCurrencyMinorDigits(currency: string): number {
+  return CURRENCY_MINOR_DIGITS[currency] ?? 2;
+}
+
+/**
+ * Exact decimal value of a number, as written in its shortest representation
+ * (10.005 is 10005 * 10^-3, not the nearest binary fraction)
+ */
+function toDecimal(value: number): DecimalValue {
+  const match = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/i.exec(String(value));
+  if (!match) {
+    throw new Error(`Not a finite amount: ${value}`);
+  }
+
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  const scale = fraction.length - parseInt(exponent, 10);
+  const units = BigInt(`${sign}${integer}${fraction}`);
+
+  return scale >= 0
+    ? { units, scale }
+    : { units: units * 10n ** BigInt(-scale), scale: 0 };
+}
+
+/**
+ * Round numerator / denominator (denominator > 0) to an integer
+ */
+function roundQuotient(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+
+  if (twiceRemainder < denominator) {
+    return quotient;
+  }
+
+  const awayFromZero = numerator < 0n ? quotient - 1n : quotient + 1n;
+  if (twiceRemainder > denominator || mode === RoundingMode.HALF_UP) {
+    return awayFromZero;
+  }
+  return quotient % 2n === 0n ? quotient : awayFromZero;
+}
+
+/**
+ * Round an exact decimal to a number of digits, as integer units of 10^-digits
+ */
+function roundDecimal(value: DecimalValue, digits: number, mode: RoundingMode): number {
+  const shift = value.scale - digits;
+  const units = shift <= 0
+    ? value.units * 10n ** BigInt(-shift)
+    : roundQuotient(value.units, 10n ** BigInt(shift), mode);
+
+  return Number(units);
+}
+
+/**
+ * Exact product of numbers, rounded to a number of digits and returned as
+ * integer units of 10^-digits: roundProduct([3, 10.005], 2) is 3002 (30.02).
+ * Negative digits round to tens, hundreds, ... Results beyond
+ * Number.MAX_SAFE_INTEGER are not exact; orders with such amounts are
+ * rejected (see OrderTransformer.verifyAmounts).
+ */
+export function roundProduct(factors: number[], digits: number, mode: RoundingMode = RoundingMode.HALF_UP): number {
+  const product = factors.map(toDecimal).reduce(
+    (result, factor) => ({ units: result.units * factor.units, scale: result.scale + factor.scale }),
+    { units: 1n, scale: 0 }
+  );
+
+  return roundDecimal(product, digits, mode);
+}
+
+/**
+ * Convert an amount to integer minor units (e.g. 29.99 USD -> 2999)
+ */
+export function toMinorUnits(amount: number, digits: number, mode: RoundingMode = RoundingMode.HALF_UP): number {
+  return roundProduct([amount], digits, mode);
+}
+
+/**
+ * Convert integer minor units back to an amount (e.g. 2999 -> 29.99)
+ */
+export function fromMinorUnits(minorUnits: number, digits: number): number {
+  return digits === 0 ? minorUnits : Number(toDecimalString(minorUnits, digits));
+}
+
+/**
+ * Divide integer minor units by a positive integer, rounded to minor units
+ */
+export function divideMinorUnits(minorUnits: number, divisor: number, mode: RoundingMode = RoundingMode.HALF_UP): number {
+  return Number(roundQuotient(BigInt(minorUnits), BigInt(divisor), mode));
+}
+
+/**
+ * Amount before a rate was added to it: minorUnits / (1 + rate), rounded to
+ * minor units (e.g. the gross amount of a tax-inclusive amount)
+ */
+export function removeRate(minorUnits: number, rate: number, mode: RoundingMode = RoundingMode.HALF_UP): number {
+  const { units, scale } = toDecimal(rate);
+  const one = 10n ** BigInt(scale);
+
+  return Number(roundQuotient(BigInt(minorUnits) * one, one + units, mode));
+}
+
+/**
+ * Split integer minor units over shares proportional to weights, so that
+ * the shares add up to exactly the total (largest remainder method; ties go
+ * to the earlier share). All weights zero: the shares are zero.
+ */
+export function allocateMinorUnits(minorUnits: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {
+    return weights.map(() => 0);
+  }
+
+  const total = BigInt(minorUnits);
+  const divisor = BigInt(totalWeight);
+  const shares = weights.map((weight) => (total * BigInt(weight)) / divisor);
+  const remainders = weights.map((weight, index) => ({ index, remainder: (total * BigInt(weight)) % divisor }));
+
+  let left = total - shares.reduce((sum, share) => sum + share, 0n);
+  remainders
+    .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1))
+    .forEach(({ index }) => {
+      if (left > 0n) {
+        shares[index] += 1n;
+        left -= 1n;
+      }
+    });
+
+  return shares.map(Number);
+}
+
+/**
+ * Integer minor unit amounts of stored amounts. Amounts stored before minor
+ * units were introduced are converted (rounding half-up); amounts without
+ * a discount have a discountAmount of 0.
+ */
+export function getMinorUnitAmounts(
+  amounts: { grossAmount: number; discountAmount?: number; taxAmount: number; netAmount: number; minorUnits?: MinorUnitAmounts },
+  currency: string
+): Required<MinorUnitAmounts> {
+  if (amounts.minorUnits) {
+    return { ...amounts.minorUnits, discountAmount: amounts.minorUnits.discountAmount ?? 0 };
+  }
+
+  const digits = getCurrencyMinorDigits(currency);
+  return {
+    digits,
+    grossAmount: toMinorUnits(amounts.grossAmount, digits),
+    discountAmount: toMinorUnits(amounts.discountAmount ?? 0, digits),
+    taxAmount: toMinorUnits(amounts.taxAmount, digits),
+    netAmount: toMinorUnits(amounts.netAmount, digits),
+  };
+}
+
+/**
+ * Decimal string of integer minor units (e.g. 2999, 2 -> "29.99"); exact
+ * for amounts a number cannot hold (e.g. Number.MAX_SAFE_INTEGER cents)
+ */
+export function toDecimalString(minorUnits: number, digits: number): string {
+  if (digits === 0) {
+    return String(minorUnits);
+  }
+  const sign = minorUnits < 0 ? '-' : '';
+  const padded = Math.abs(minorUnits).toString().padStart(digits + 1, '0');
+  return `${sign}${padded.slice(0, -digits)}.${padded.slice(-digits)}`;
+}
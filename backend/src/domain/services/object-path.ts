@@ -0,0 +1,12 @@
+/**
+ * Read a value from a nested object using a dot-separated path
+ * (e.g. "order.customer.id"). Returns undefined when any segment is missing.
+ */
+export function getValueAtPath(input: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, input);
+}
@@ -0,0 +1,36 @@
+import { OrderEvent, OrderLineItem } from '../models';
+
+/**
+ * Maximum number of lines in one order
+ */
+export const MAX_ORDER_LINE_ITEMS = 100;
+
+/**
+ * Lines of an order. Orders stored before line items were introduced
+ * have none: their single product is returned as line 1.
+ */
+export function getOrderLineItems(order: OrderEvent): OrderLineItem[] {
+  if (order.lineItems) {
+    return order.lineItems;
+  }
+
+  return [
+    {
+      lineNumber: 1,
+      productId: order.productId,
+      quantity: order.quantity,
+      unitPrice: order.unitPrice,
+      taxRate: order.taxRate,
+      grossAmount: order.grossAmount,
+      taxAmount: order.taxAmount,
+      netAmount: order.netAmount,
+    },
+  ];
+}
+
+/**
+ * Whether any line of an order is for a product.
+ */
+export function orderHasProduct(order: OrderEvent, productId: string): boolean {
+  return getOrderLineItems(order).some((line) => line.productId === productId);
+}
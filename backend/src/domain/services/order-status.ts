@@ -0,0 +1,49 @@
+import { OrderEvent, OrderStatus } from '../models';
+
+/**
+ * Order lifecycle: the statuses each status may change to.
+ *
+ *   PENDING -> VALIDATED -> PROCESSED -> FULFILLED -> REFUNDED
+ *
+ * Orders can be cancelled or fail until they are fulfilled; FAILED,
+ * CANCELLED and REFUNDED are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  [OrderStatus.PENDING]: [OrderStatus.VALIDATED, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  [OrderStatus.VALIDATED]: [OrderStatus.PROCESSED, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  [OrderStatus.PROCESSED]: [OrderStatus.FULFILLED, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  [OrderStatus.FULFILLED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+  [OrderStatus.FAILED]: [],
+};
+
+/**
+ * Whether a value is an order status.
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return Object.values(OrderStatus).includes(value as OrderStatus);
+}
+
+/**
+ * Current status of an order. Orders stored before statuses were
+ * introduced have none: they are PROCESSED, or CANCELLED if cancelled.
+ */
+export function getOrderStatus(order: OrderEvent): OrderStatus {
+  return order.status ?? (order.cancelledAt ? OrderStatus.CANCELLED : OrderStatus.PROCESSED);
+}
+
+/**
+ * Whether an order may change from one status to another.
+ */
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether an order is still open, i.e. can be amended or cancelled
+ * (not yet fulfilled and not in a final status).
+ */
+export function isOrderOpen(order: OrderEvent): boolean {
+  return canTransitionOrderStatus(getOrderStatus(order), OrderStatus.CANCELLED);
+}
@@ -4,101 +4,443 @@ import {
   PartnerBInput, 
   PartnerId, 
   OrderEvent,
-  CreateOrderEventInput 
+  CreateOrderEventInput,
+  CreateOrderLineItemInput,
+  OrderLineItem,
+  BaseCurrencyAmounts,
+  MinorUnitAmounts,
+  OrderFieldChange,
+  OrderRevisionType,
+  OrderStatus,
+  TaxComponent,
+  TaxRule,
+  TaxRuleMode,
+  Promotion,
+  PromotionType,
+  AppliedPromotion,
+  ValidationError,
+  ErrorCode
 } from '../models';
+import { PartnerAAdapter, PartnerBAdapter } from './partner-adapters';
+import { PartnerRegistry, createDefaultPartnerRegistry } from './partner-registry';
+import { getOrderStatus } from './order-status';
+import { FxRateTable, FxRateLookup } from './fx-rate-table';
+import {
+  RoundingMode,
+  roundProduct,
+  toMinorUnits,
+  fromMinorUnits,
+  toDecimalString,
+  divideMinorUnits,
+  removeRate,
+  allocateMinorUnits,
+  getCurrencyMinorDigits,
+  getMinorUnitAmounts
+} from './money';
+import { TaxRuleEngine, getTaxComponentsRate } from './tax-rules';
+import { PromotionCatalog, isPromotionActive, promotionAppliesTo } from './promotion-catalog';
+import { formatValidationErrors } from './validation-service';
+
+/**
+ * Order fields an amendment can change (compared to record the changes)
+ */
+const AMENDABLE_FIELDS = [
+  'productId',
+  'customerId',
+  'quantity',
+  'unitPrice',
+  'taxRate',
+  'grossAmount',
+  'discountAmount',
+  'taxAmount',
+  'netAmount',
+  'currency',
+  'baseAmounts',
+  'customerRegion',
+  'pricesIncludeTax',
+  'appliedPromotions',
+  'lineItems',
+  'transactionTime',
+  'metadata',
+] as const;
+
+/**
+ * Largest difference between a partner tax rate and a VERIFY rule's rate
+ * that still counts as a match (absorbs percentage conversion errors)
+ */
+const TAX_RATE_TOLERANCE = 1e-9;
+
+/**
+ * Result of applying an amendment to an order
+ */
+export interface OrderAmendment {
+  orderEvent: OrderEvent;
+  /** Empty when the amendment changes nothing (the order is returned unchanged) */
+  changes: OrderFieldChange[];
+}
 
 /**
  * Transformer for converting partner-specific input formats
  * to the unified OrderEvent schema.
  * 
  * Responsibilities:
- * - Normalize field names across partners
- * - Convert timestamps to ISO 8601
- * - Calculate grossAmount, taxAmount, and netAmount
+ * - Delegate field normalization to the registered partner adapter
+ * - Calculate grossAmount, taxAmount, and netAmount per line and per order,
+ *   exactly in integer minor units with the configured rounding mode
+ * - Apply partner discounts and promotions (promotion catalog) before tax
+ * - Apply the tax rules (override or verify partner rates, stacked components,
+ *   tax-inclusive prices)
+ * - Convert order amounts to the base currency (FX rate table)
  * - Generate unique IDs
- * - Handle partner-specific data formats
  */
 export class OrderTransformer {
+  private readonly partnerAAdapter = new PartnerAAdapter();
+  private readonly partnerBAdapter = new PartnerBAdapter();
+
+  constructor(
+    private readonly partnerRegistry: PartnerRegistry = createDefaultPartnerRegistry(),
+    private readonly fxRates: FxRateTable = new FxRateTable(),
+    private readonly roundingMode: RoundingMode = RoundingMode.HALF_UP,
+    private readonly taxRules: TaxRuleEngine = new TaxRuleEngine(),
+    private readonly promotions: PromotionCatalog = new PromotionCatalog()
+  ) {}
+
+  /**
+   * Currency order amounts are converted to
+   */
+  get baseCurrency(): string {
+    return this.fxRates.baseCurrency;
+  }
+
+  /**
+   * Currency of an order input: its own currency, else the partner's
+   * default currency, else the base currency
+   */
+  resolveCurrency(input: CreateOrderEventInput): string {
+    return input.currency
+      ?? this.partnerRegistry.get(input.partnerId)?.defaultCurrency
+      ?? this.fxRates.baseCurrency;
+  }
+
+  /**
+   * Exchange rate to the base currency in effect at the order's transaction
+   * time; null when the order cannot be converted (and built)
+   */
+  findFxRate(input: CreateOrderEventInput): FxRateLookup | null {
+    return this.fxRates.findRate(this.resolveCurrency(input), new Date(input.transactionTime));
+  }
+
+  /**
+   * Problems with the tax rates of an order input: lines whose tax rate
+   * differs from the total rate of the VERIFY rule that applies to them
+   * (the order cannot be built)
+   */
+  verifyTaxRates(input: CreateOrderEventInput): ValidationError[] {
+    const hasLineItems = input.lineItems !== undefined && input.lineItems.length > 0;
+
+    return this.getLineInputs(input).flatMap((line, index) => {
+      const rule = this.findTaxRule(input, line);
+      if (rule?.mode !== TaxRuleMode.VERIFY) {
+        return [];
+      }
+
+      const taxRate = line.taxRate ?? input.taxRate;
+      const ruleRate = getTaxComponentsRate(rule.components);
+      if (Math.abs(taxRate - ruleRate) < TAX_RATE_TOLERANCE) {
+        return [];
+      }
+
+      const field = hasLineItems ? `lineItems[${index}].taxRate` : 'taxRate';
+      return [{
+        field,
+        errorCode: ErrorCode.TAX_RATE_MISMATCH,
+        message: `Tax rate ${taxRate} does not match tax rule '${rule.id}' (${ruleRate})`,
+        receivedValue: taxRate,
+        expectedType: `tax rate ${ruleRate}`
+      }];
+    });
+  }
+
+  /**
+   * Problems with the discounts of an order input: promo codes that are
+   * unknown, repeated, not valid at the transaction time or not for the
+   * order currency, and partner discounts larger than the amounts they
+   * apply to (the order cannot be built)
+   */
+  verifyDiscounts(input: CreateOrderEventInput): ValidationError[] {
+    const problems: ValidationError[] = [];
+    const addProblem = (field: string, message: string, receivedValue: unknown) =>
+      problems.push({ field, errorCode: ErrorCode.INVALID_DISCOUNT, message, receivedValue });
+    const currency = this.resolveCurrency(input);
+    const promoCodes = input.promoCodes ?? [];
+
+    promoCodes.forEach((code, index) => {
+      const field = `promoCodes[${index}]`;
+      const promotion = this.promotions.get(code);
+
+      if (!promotion) {
+        addProblem(field, `Unknown promo code '${code}'`, code);
+      } else if (promoCodes.indexOf(code) !== index) {
+        addProblem(field, `Promo code '${code}' is redeemed more than once`, code);
+      } else if (!isPromotionActive(promotion, new Date(input.transactionTime))) {
+        addProblem(field, `Promo code '${code}' is not valid on ${input.transactionTime.slice(0, 10)}`, code);
+      } else if (promotion.currency !== undefined && promotion.currency !== currency) {
+        addProblem(field, `Promo code '${code}' only applies to ${promotion.currency} orders`, code);
+      }
+    });
+
+    const digits = getCurrencyMinorDigits(currency);
+    let orderAmount = 0;
+    this.getLineInputs(input).forEach((line, index) => {
+      const lineAmount = this.calculateGrossAmount(line.quantity, line.unitPrice, digits);
+      const lineDiscount = toMinorUnits(line.discountAmount ?? 0, digits, this.roundingMode);
+      if (lineDiscount > lineAmount) {
+        addProblem(
+          `lineItems[${index}].discountAmount`,
+          `Discount exceeds the line amount (${fromMinorUnits(lineAmount, digits)})`,
+          line.discountAmount
+        );
+      }
+      orderAmount += Math.max(lineAmount - lineDiscount, 0);
+    });
+
+    if (toMinorUnits(input.discountAmount ?? 0, digits, this.roundingMode) > orderAmount) {
+      addProblem('discountAmount', `Discount exceeds the order amount (${fromMinorUnits(orderAmount, digits)})`, input.discountAmount);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Problems with the size of an order's amounts: every amount in minor
+   * units, in the order and the base currency, must be a safe integer
+   * (at most Number.MAX_SAFE_INTEGER) to be exact. Expects an order that
+   * passes verifyTaxRates and verifyDiscounts.
+   */
+  verifyAmounts(input: CreateOrderEventInput): ValidationError[] {
+    const currency = this.resolveCurrency(input);
+    const digits = getCurrencyMinorDigits(currency);
+    const hasLineItems = input.lineItems !== undefined && input.lineItems.length > 0;
+    const tooLarge = (field: string, limitCurrency: string, receivedValue: unknown): ValidationError => {
+      const limit = toDecimalString(Number.MAX_SAFE_INTEGER, getCurrencyMinorDigits(limitCurrency));
+      return {
+        field,
+        errorCode: ErrorCode.INVALID_VALUE,
+        message: `Amount exceeds the largest supported amount (${limit} ${limitCurrency})`,
+        receivedValue,
+      };
+    };
+
+    const lineProblems = this.getLineInputs(input).flatMap((line, index) =>
+      Number.isSafeInteger(this.calculateGrossAmount(line.quantity, line.unitPrice, digits))
+        ? []
+        : [tooLarge(hasLineItems ? `lineItems[${index}].unitPrice` : 'unitPrice', currency, line.unitPrice)]
+    );
+    if (lineProblems.length > 0) {
+      return lineProblems;
+    }
+
+    // Line amounts are safe, so the totals can be computed (possibly inexactly) and checked
+    const order = this.buildOrderEvent(input, 0);
+    const isSafe = (amounts: MinorUnitAmounts) =>
+      [amounts.grossAmount, amounts.discountAmount ?? 0, amounts.taxAmount, amounts.netAmount].every(Number.isSafeInteger);
+
+    if (![order.minorUnits!, ...order.lineItems!.map((line) => line.minorUnits!)].every(isSafe)) {
+      return [tooLarge('netAmount', currency, order.netAmount)];
+    }
+    if (!isSafe(order.baseAmounts!.minorUnits!)) {
+      return [tooLarge('baseAmounts.netAmount', this.fxRates.baseCurrency, order.baseAmounts!.netAmount)];
+    }
+    return [];
+  }
+
   /**
    * Transform Partner A input to OrderEvent creation input
-   * 
-   * Partner A specifics:
-   * - transactionTimeMs: timestamp in milliseconds -> ISO 8601
-   * - taxRate: already in decimal format (0.1 = 10%)
+   * (see PartnerAAdapter for the field mapping)
    */
   transformPartnerA(input: PartnerAInput): CreateOrderEventInput {
-    return {
-      externalOrderId: input.orderId,
-      partnerId: PartnerId.PARTNER_A,
-      productId: input.skuId,
-      customerId: input.customerId,
-      quantity: input.quantity,
-      unitPrice: input.unitPrice,
-      taxRate: input.taxRate,
-      transactionTime: this.convertMsToISO8601(input.transactionTimeMs),
-      metadata: input.metadata
-    };
+    return this.partnerAAdapter.toOrderInput(input);
   }
 
   /**
    * Transform Partner B input to OrderEvent creation input
-   * 
-   * Partner B specifics:
-   * - purchaseTime: already in ISO 8601 format
-   * - tax: percentage format (10 = 10%) -> decimal (0.1)
-   * - Field name mappings:
-   *   - transactionId -> externalOrderId
-   *   - itemCode -> productId
-   *   - clientId -> customerId
-   *   - qty -> quantity
-   *   - price -> unitPrice
+   * (see PartnerBAdapter for the field mapping)
    */
   transformPartnerB(input: PartnerBInput): CreateOrderEventInput {
-    return {
-      externalOrderId: input.transactionId,
-      partnerId: PartnerId.PARTNER_B,
-      productId: input.itemCode,
-      customerId: input.clientId,
-      quantity: input.qty,
-      unitPrice: input.price,
-      taxRate: this.convertPercentageToDecimal(input.tax),
-      transactionTime: this.normalizeISO8601(input.purchaseTime),
-      metadata: input.notes ? { notes: input.notes } : undefined
-    };
+    return this.partnerBAdapter.toOrderInput(input);
   }
 
   /**
    * Build a complete OrderEvent from creation input
    * 
-   * Calculations:
-   * - grossAmount = quantity * unitPrice
-   * - taxAmount = grossAmount * taxRate
-   * - netAmount = grossAmount + taxAmount
+   * Calculations (per line, in minor units of the order currency; order
+   * amounts are the sums of the lines):
+   * - grossAmount = quantity * unitPrice, rounded
+   * - taxAmount = grossAmount * taxRate (the line's rate or the order rate), rounded
+   * - netAmount = grossAmount + taxAmount (exact)
+   *
+   * Discounts (partner discounts, then promotions; see calculateDiscounts)
+   * are taken off before tax: taxAmount = (grossAmount - discountAmount) *
+   * taxRate and netAmount = grossAmount - discountAmount + taxAmount.
+   *
+   * A tax rule matching the line replaces the single rate with its
+   * components, each rounded (OVERRIDE rules also replace the rate). With
+   * tax-inclusive prices quantity * unitPrice is the net amount before
+   * discounts and grossAmount = quantity * unitPrice / (1 + taxRate), rounded.
+   *
+   * A single-product order becomes one line. The order-level productId is
+   * the first line's product, quantity the total quantity and, for
+   * multi-line orders, unitPrice the average price (grossAmount / quantity).
+   *
+   * Amounts stay in the order currency; baseAmounts holds them converted at
+   * the rate in effect at the transaction time (see findFxRate).
    */
   buildOrderEvent(
     input: CreateOrderEventInput,
     sequenceNumber: number
   ): OrderEvent {
-    const grossAmount = this.calculateGrossAmount(input.quantity, input.unitPrice);
-    const taxAmount = this.calculateTaxAmount(grossAmount, input.taxRate);
-    const netAmount = this.calculateNetAmount(grossAmount, taxAmount);
+    const currency = this.resolveCurrency(input);
+    const fxRate = this.findFxRate(input);
+    if (!fxRate) {
+      throw new Error(`No exchange rate from ${currency} to ${this.fxRates.baseCurrency} on ${input.transactionTime}`);
+    }
+
+    const taxRateProblems = this.verifyTaxRates(input);
+    if (taxRateProblems.length > 0) {
+      throw new Error(formatValidationErrors(taxRateProblems).join('; '));
+    }
+
+    const discountProblems = this.verifyDiscounts(input);
+    if (discountProblems.length > 0) {
+      throw new Error(formatValidationErrors(discountProblems).join('; '));
+    }
+
+    const digits = getCurrencyMinorDigits(currency);
+    const lines = this.getLineInputs(input);
+    const priceAmounts = lines.map((line) => this.calculateGrossAmount(line.quantity, line.unitPrice, digits));
+    const { discounts, appliedPromotions } = this.calculateDiscounts(input, lines, priceAmounts, digits);
+    const lineItems = lines.map((line, index) =>
+      this.buildLineItem(line, index + 1, input, digits, priceAmounts[index], discounts[index])
+    );
+
+    const quantity = lineItems.reduce((sum, line) => sum + line.quantity, 0);
+    const totals = lineItems
+      .map((line) => getMinorUnitAmounts(line, currency))
+      .reduce(
+        (sum, line) => ({
+          grossAmount: sum.grossAmount + line.grossAmount,
+          discountAmount: sum.discountAmount + line.discountAmount,
+          taxAmount: sum.taxAmount + line.taxAmount,
+        }),
+        { grossAmount: 0, discountAmount: 0, taxAmount: 0 }
+      );
+    const minorUnits = this.toMinorUnitAmounts(digits, totals.grossAmount, totals.discountAmount, totals.taxAmount);
 
     return {
       id: uuidv4(),
       externalOrderId: input.externalOrderId,
       partnerId: input.partnerId,
       sequenceNumber,
-      productId: input.productId,
+      productId: lineItems[0].productId,
       customerId: input.customerId,
-      quantity: input.quantity,
-      unitPrice: this.roundToTwoDecimals(input.unitPrice),
+      quantity,
+      unitPrice: lineItems.length === 1
+        ? lineItems[0].unitPrice
+        : fromMinorUnits(
+            divideMinorUnits(input.pricesIncludeTax ? minorUnits.netAmount : minorUnits.grossAmount, quantity, this.roundingMode),
+            digits
+          ),
       taxRate: input.taxRate,
-      grossAmount: this.roundToTwoDecimals(grossAmount),
-      taxAmount: this.roundToTwoDecimals(taxAmount),
-      netAmount: this.roundToTwoDecimals(netAmount),
+      ...this.toMajorUnits(minorUnits),
+      minorUnits,
+      currency,
+      baseAmounts: this.toBaseAmounts(fxRate, minorUnits),
+      ...(input.customerRegion && { customerRegion: input.customerRegion }),
+      ...(input.pricesIncludeTax && { pricesIncludeTax: true }),
+      ...(appliedPromotions.length > 0 && { appliedPromotions }),
+      lineItems,
       transactionTime: input.transactionTime,
       processedAt: new Date().toISOString(),
-      metadata: input.metadata
+      metadata: input.metadata,
+      ...(input.warnings && input.warnings.length > 0 && { warnings: input.warnings }),
+      status: OrderStatus.PROCESSED
+    };
+  }
+
+  /**
+   * Apply an amendment (the corrected order input) to an accepted order.
+   * Amounts are recomputed; the order keeps its ID, sequence number,
+   * processing time and status, and the changed fields are added to its history.
+   */
+  amendOrderEvent(
+    current: OrderEvent,
+    input: CreateOrderEventInput,
+    amendedAt: Date = new Date()
+  ): OrderAmendment {
+    const amended = this.buildOrderEvent(input, current.sequenceNumber);
+
+    const changes: OrderFieldChange[] = AMENDABLE_FIELDS
+      .filter((field) => JSON.stringify(current[field]) !== JSON.stringify(amended[field]))
+      .map((field) => ({ field, from: current[field], to: amended[field] }));
+
+    if (changes.length === 0) {
+      return { orderEvent: current, changes };
+    }
+
+    const revision = (current.revision ?? 1) + 1;
+    return {
+      orderEvent: {
+        ...amended,
+        id: current.id,
+        processedAt: current.processedAt,
+        status: getOrderStatus(current),
+        ...(current.statusHistory && { statusHistory: current.statusHistory }),
+        revision,
+        history: [
+          ...(current.history ?? []),
+          { revision, type: OrderRevisionType.AMENDED, occurredAt: amendedAt.toISOString(), changes },
+        ],
+      },
+      changes,
+    };
+  }
+
+  /**
+   * Mark an accepted order as cancelled, adding the cancellation to its
+   * history and status history.
+   */
+  cancelOrderEvent(current: OrderEvent, reason?: string, cancelledAt: Date = new Date()): OrderEvent {
+    const revision = (current.revision ?? 1) + 1;
+    const occurredAt = cancelledAt.toISOString();
+
+    return {
+      ...this.changeOrderEventStatus(current, OrderStatus.CANCELLED, reason, cancelledAt),
+      revision,
+      cancelledAt: occurredAt,
+      history: [
+        ...(current.history ?? []),
+        { revision, type: OrderRevisionType.CANCELLED, occurredAt, ...(reason && { reason }) },
+      ],
+    };
+  }
+
+  /**
+   * Move an order to another lifecycle status, adding the change to its
+   * status history. Transitions are not checked here (see order-status).
+   */
+  changeOrderEventStatus(
+    current: OrderEvent,
+    status: OrderStatus,
+    reason?: string,
+    changedAt: Date = new Date()
+  ): OrderEvent {
+    return {
+      ...current,
+      status,
+      statusHistory: [
+        ...(current.statusHistory ?? []),
+        { from: getOrderStatus(current), to: status, changedAt: changedAt.toISOString(), ...(reason && { reason }) },
+      ],
     };
   }
 
@@ -119,71 +461,255 @@ export class OrderTransformer {
   }
 
   /**
-   * Transform based on partner ID
+   * Transform based on partner ID using the registered partner adapter
    */
   transform(
     partnerId: PartnerId,
-    input: PartnerAInput | PartnerBInput,
+    input: unknown,
     sequenceNumber: number
   ): OrderEvent {
-    switch (partnerId) {
-      case PartnerId.PARTNER_A:
-        return this.fromPartnerA(input as PartnerAInput, sequenceNumber);
-      case PartnerId.PARTNER_B:
-        return this.fromPartnerB(input as PartnerBInput, sequenceNumber);
-      default:
-        throw new Error(`Unknown partner ID: ${partnerId}`);
+    const adapter = this.partnerRegistry.get(partnerId);
+    if (!adapter) {
+      throw new Error(`Unknown partner ID: ${partnerId}`);
     }
+    return this.buildOrderEvent(adapter.toOrderInput(input), sequenceNumber);
   }
 
   // ============ Private Helper Methods ============
 
   /**
-   * Convert milliseconds timestamp to ISO 8601 string
+   * Lines of an order input: its line items, or its single product
    */
-  private convertMsToISO8601(timestampMs: number): string {
-    return new Date(timestampMs).toISOString();
+  private getLineInputs(input: CreateOrderEventInput): CreateOrderLineItemInput[] {
+    if (input.lineItems && input.lineItems.length > 0) {
+      return input.lineItems;
+    }
+
+    const { productId, productCategory, quantity, unitPrice } = input;
+    if (productId === undefined || quantity === undefined || unitPrice === undefined) {
+      throw new Error('Order input must have productId, quantity and unitPrice, or line items');
+    }
+    return [{ productId, ...(productCategory && { productCategory }), quantity, unitPrice }];
   }
 
   /**
-   * Normalize ISO 8601 timestamp (ensure consistent format)
+   * Tax rule that applies to an order line, if any
    */
-  private normalizeISO8601(timestamp: string): string {
-    return new Date(timestamp).toISOString();
+  private findTaxRule(input: CreateOrderEventInput, line: CreateOrderLineItemInput): TaxRule | null {
+    return this.taxRules.findRule({
+      productCategory: line.productCategory,
+      customerRegion: input.customerRegion,
+      at: new Date(input.transactionTime),
+    });
   }
 
   /**
-   * Convert percentage (0-100) to decimal (0-1)
+   * Discounts per line in minor units, in the terms of the prices: the
+   * line's own discount and its share of the order discount, then the
+   * promotions in promo code order, each applied to what is left of the lines
    */
-  private convertPercentageToDecimal(percentage: number): number {
-    return percentage / 100;
+  private calculateDiscounts(
+    input: CreateOrderEventInput,
+    lines: CreateOrderLineItemInput[],
+    priceAmounts: number[],
+    digits: number
+  ): { discounts: number[]; appliedPromotions: AppliedPromotion[] } {
+    const discounts = lines.map((line) => toMinorUnits(line.discountAmount ?? 0, digits, this.roundingMode));
+    const getLeft = () => priceAmounts.map((amount, index) => amount - discounts[index]);
+
+    const orderDiscount = toMinorUnits(input.discountAmount ?? 0, digits, this.roundingMode);
+    allocateMinorUnits(orderDiscount, getLeft()).forEach((share, index) => {
+      discounts[index] += share;
+    });
+
+    const appliedPromotions = (input.promoCodes ?? []).map((code): AppliedPromotion => {
+      const promotion = this.promotions.get(code)!;
+      const left = getLeft().map((amount, index) => (promotionAppliesTo(promotion, lines[index]) ? amount : 0));
+      const promotionDiscounts = this.calculatePromotionDiscounts(promotion, lines, left, digits);
+
+      promotionDiscounts.forEach((discount, index) => {
+        discounts[index] += discount;
+      });
+      const total = promotionDiscounts.reduce((sum, discount) => sum + discount, 0);
+      return { code, type: promotion.type, discountAmount: fromMinorUnits(total, digits), discountMinorUnits: total };
+    });
+
+    return { discounts, appliedPromotions };
   }
 
   /**
-   * Calculate gross amount: quantity * unitPrice
+   * Discount of a promotion per line in minor units, at most what is left
+   * of each line (0 for lines the promotion does not apply to)
    */
-  private calculateGrossAmount(quantity: number, unitPrice: number): number {
-    return quantity * unitPrice;
+  private calculatePromotionDiscounts(
+    promotion: Promotion,
+    lines: CreateOrderLineItemInput[],
+    left: number[],
+    digits: number
+  ): number[] {
+    switch (promotion.type) {
+      case PromotionType.PERCENTAGE:
+        return left.map((amount) => roundProduct([amount, promotion.value!], 0, this.roundingMode));
+      case PromotionType.FIXED_AMOUNT: {
+        const total = Math.min(
+          toMinorUnits(promotion.value!, digits, this.roundingMode),
+          left.reduce((sum, amount) => sum + amount, 0)
+        );
+        return allocateMinorUnits(total, left);
+      }
+      case PromotionType.BUY_X_GET_Y: {
+        const groupSize = promotion.buyQuantity! + promotion.freeQuantity!;
+        return lines.map((line, index) => {
+          const freeUnits = Math.floor(line.quantity / groupSize) * promotion.freeQuantity!;
+          return Math.min(left[index], this.calculateGrossAmount(freeUnits, line.unitPrice, digits));
+        });
+      }
+    }
   }
 
   /**
-   * Calculate tax amount: grossAmount * taxRate
+   * Calculate the amounts of one order line from its price amount
+   * (quantity * unitPrice) and discount in minor units
    */
-  private calculateTaxAmount(grossAmount: number, taxRate: number): number {
-    return grossAmount * taxRate;
+  private buildLineItem(
+    line: CreateOrderLineItemInput,
+    lineNumber: number,
+    input: CreateOrderEventInput,
+    digits: number,
+    priceAmount: number,
+    discount: number
+  ): OrderLineItem {
+    const partnerTaxRate = line.taxRate ?? input.taxRate;
+    const rule = this.findTaxRule(input, line);
+    const taxRate = rule?.mode === TaxRuleMode.OVERRIDE ? getTaxComponentsRate(rule.components) : partnerTaxRate;
+    const components: TaxComponent[] = rule ? rule.components : [{ name: 'tax', rate: taxRate }];
+
+    // Tax-inclusive prices: the price and discount amounts include tax
+    const inclusive = input.pricesIncludeTax === true;
+    const grossAmount = inclusive ? removeRate(priceAmount, taxRate, this.roundingMode) : priceAmount;
+    const taxableAmount = inclusive ? removeRate(priceAmount - discount, taxRate, this.roundingMode) : priceAmount - discount;
+    const discountAmount = grossAmount - taxableAmount;
+    const componentTaxes = this.calculateComponentTaxes(taxableAmount, components);
+    if (inclusive) {
+      // The last component absorbs the rounding difference to the tax the prices include
+      componentTaxes[componentTaxes.length - 1] +=
+        priceAmount - discount - taxableAmount - componentTaxes.reduce((sum, tax) => sum + tax, 0);
+    }
+
+    const taxAmount = componentTaxes.reduce((sum, tax) => sum + tax, 0);
+    const minorUnits = this.toMinorUnitAmounts(digits, grossAmount, discountAmount, taxAmount);
+
+    return {
+      lineNumber,
+      productId: line.productId,
+      ...(line.productCategory && { productCategory: line.productCategory }),
+      quantity: line.quantity,
+      unitPrice: fromMinorUnits(toMinorUnits(line.unitPrice, digits, this.roundingMode), digits),
+      taxRate,
+      ...this.toMajorUnits(minorUnits),
+      minorUnits,
+      ...(rule && {
+        taxRule: { id: rule.id, mode: rule.mode, partnerTaxRate },
+        taxComponents: components.map((component, index) => ({
+          name: component.name,
+          rate: component.rate,
+          ...(component.compound && { compound: true }),
+          taxAmount: fromMinorUnits(componentTaxes[index], digits),
+          taxMinorUnits: componentTaxes[index],
+        })),
+      }),
+    };
+  }
+
+  /**
+   * Calculate the tax of stacked components on the taxable amount in minor
+   * units; compound components are also applied to the preceding components' tax
+   */
+  private calculateComponentTaxes(taxableAmount: number, components: TaxComponent[]): number[] {
+    const taxes: number[] = [];
+    let taxSoFar = 0;
+
+    for (const component of components) {
+      const tax = this.calculateTaxAmount(component.compound ? taxableAmount + taxSoFar : taxableAmount, component.rate);
+      taxes.push(tax);
+      taxSoFar += tax;
+    }
+
+    return taxes;
+  }
+
+  /**
+   * Convert order amounts (in minor units) to the base currency. Each amount
+   * is converted and rounded, and the net amount is calculated from them.
+   */
+  private toBaseAmounts(fxRate: FxRateLookup, amounts: MinorUnitAmounts): BaseCurrencyAmounts {
+    const digits = getCurrencyMinorDigits(this.fxRates.baseCurrency);
+    const shift = digits - amounts.digits;
+    const grossAmount = roundProduct([amounts.grossAmount, fxRate.rate], shift, this.roundingMode);
+    const discountAmount = roundProduct([amounts.discountAmount ?? 0, fxRate.rate], shift, this.roundingMode);
+    const taxAmount = roundProduct([amounts.taxAmount, fxRate.rate], shift, this.roundingMode);
+    const minorUnits = this.toMinorUnitAmounts(digits, grossAmount, discountAmount, taxAmount);
+
+    return {
+      currency: this.fxRates.baseCurrency,
+      fxRate: fxRate.rate,
+      ...(fxRate.effectiveFrom && { fxRateEffectiveFrom: fxRate.effectiveFrom }),
+      ...this.toMajorUnits(minorUnits),
+      minorUnits,
+    };
+  }
+
+  /**
+   * Calculate gross amount in minor units: quantity * unitPrice, rounded
+   */
+  private calculateGrossAmount(quantity: number, unitPrice: number, digits: number): number {
+    return roundProduct([quantity, unitPrice], digits, this.roundingMode);
+  }
+
+  /**
+   * Calculate tax amount in minor units: taxableAmount * taxRate, rounded
+   */
+  private calculateTaxAmount(taxableAmount: number, taxRate: number): number {
+    return roundProduct([taxableAmount, taxRate], 0, this.roundingMode);
   }
 
   /**
-   * Calculate net amount: grossAmount + taxAmount
+   * Calculate net amount in minor units: grossAmount - discountAmount + taxAmount
    */
-  private calculateNetAmount(grossAmount: number, taxAmount: number): number {
-    return grossAmount + taxAmount;
+  private calculateNetAmount(grossAmount: number, discountAmount: number, taxAmount: number): number {
+    return grossAmount - discountAmount + taxAmount;
   }
 
   /**
-   * Round number to two decimal places (for currency)
+   * Minor unit amounts with the net amount; discountAmount is only recorded
+   * when there is a discount
    */
-  private roundToTwoDecimals(value: number): number {
-    return Math.round(value * 100) / 100;
+  private toMinorUnitAmounts(
+    digits: number,
+    grossAmount: number,
+    discountAmount: number,
+    taxAmount: number
+  ): MinorUnitAmounts {
+    return {
+      digits,
+      grossAmount,
+      ...(discountAmount !== 0 && { discountAmount }),
+      taxAmount,
+      netAmount: this.calculateNetAmount(grossAmount, discountAmount, taxAmount),
+    };
+  }
+
+  /**
+   * Decimal amounts of minor unit amounts
+   */
+  private toMajorUnits(
+    amounts: MinorUnitAmounts
+  ): Pick<OrderEvent, 'grossAmount' | 'discountAmount' | 'taxAmount' | 'netAmount'> {
+    return {
+      grossAmount: fromMinorUnits(amounts.grossAmount, amounts.digits),
+      ...(amounts.discountAmount && { discountAmount: fromMinorUnits(amounts.discountAmount, amounts.digits) }),
+      taxAmount: fromMinorUnits(amounts.taxAmount, amounts.digits),
+      netAmount: fromMinorUnits(amounts.netAmount, amounts.digits),
+    };
   }
 }
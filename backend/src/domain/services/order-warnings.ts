@@ -0,0 +1,15 @@
+import { ErrorCode, OrderEvent } from '../models';
+
+/**
+ * Whether an order was accepted with validation warnings.
+ */
+export function hasWarnings(order: OrderEvent): boolean {
+  return (order.warnings?.length ?? 0) > 0;
+}
+
+/**
+ * Whether an order was accepted with a warning of a code.
+ */
+export function hasWarning(order: OrderEvent, warningCode: ErrorCode): boolean {
+  return order.warnings?.some((warning) => warning.errorCode === warningCode) ?? false;
+}
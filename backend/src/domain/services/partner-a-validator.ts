@@ -1,20 +1,35 @@
-import { PartnerAInput, ValidationResult } from '../models';
+import { PartnerAInput, PartnerALineItem, ValidationResult, ErrorCode } from '../models';
 import { BaseValidator } from './base-validator';
+import { PARTNER_A_INPUT_SCHEMA } from './partner-schemas';
+import { getOrderValue } from './business-rules';
 
 /**
  * Validator for Partner A input format
  * 
  * Partner A Field Requirements:
  * - orderId: Required, non-empty string
- * - skuId: Required, non-empty string
+ * - skuId: Required unless lineItems is given, non-empty string
  * - customerId: Required, non-empty string
- * - quantity: Required, positive integer
- * - unitPrice: Required, positive number
+ * - quantity: Required unless lineItems is given, positive integer
+ * - unitPrice: Required unless lineItems is given, positive number
  * - taxRate: Required, decimal between 0 and 1
  * - transactionTimeMs: Required, valid timestamp in milliseconds
+ * - lineItems: Optional, 1-100 lines of { skuId, quantity, unitPrice, taxRate? }
+ *   with the same rules, sent instead of skuId/quantity/unitPrice
+ * - currency: Optional ISO 4217 currency code (e.g. EUR)
+ * - productCategory: Optional non-empty string (also on lines)
+ * - customerRegion: Optional ISO 3166 country or subdivision code (e.g. US-CA)
+ * - pricesIncludeTax: Optional boolean
+ * - discountAmount: Optional non-negative number (also on lines)
+ * - promoCodes: Optional array of at most 10 distinct promo codes
  * - metadata: Optional object
+ *
+ * The same rules are published as JSON Schema (PARTNER_A_INPUT_SCHEMA).
+ * Valid input is then checked against Partner A's business rules.
  */
 export class PartnerAValidator extends BaseValidator<PartnerAInput> {
+  readonly schema = PARTNER_A_INPUT_SCHEMA;
+
   /**
    * Validate Partner A input
    */
@@ -23,18 +38,21 @@ export class PartnerAValidator extends BaseValidator<PartnerAInput> {
 
     // Check if input is an object
     if (!input || typeof input !== 'object' || Array.isArray(input)) {
-      this.addError('root', 'Input must be a valid object', input, 'object');
+      this.addError('root', ErrorCode.INVALID_DATA_TYPE, 'Input must be a valid object', input, 'object');
       return this.failure();
     }
 
     const obj = input as Record<string, unknown>;
 
+    // Multi-line orders send their products as lineItems
+    const hasLineItems = !this.isNullOrUndefined(obj.lineItems);
+
     // Validate all required fields exist
     const hasOrderId = this.validateRequired(obj, 'orderId');
-    const hasSkuId = this.validateRequired(obj, 'skuId');
+    const hasSkuId = hasLineItems || this.validateRequired(obj, 'skuId');
     const hasCustomerId = this.validateRequired(obj, 'customerId');
-    const hasQuantity = this.validateRequired(obj, 'quantity');
-    const hasUnitPrice = this.validateRequired(obj, 'unitPrice');
+    const hasQuantity = hasLineItems || this.validateRequired(obj, 'quantity');
+    const hasUnitPrice = hasLineItems || this.validateRequired(obj, 'unitPrice');
     const hasTaxRate = this.validateRequired(obj, 'taxRate');
     const hasTransactionTimeMs = this.validateRequired(obj, 'transactionTimeMs');
 
@@ -44,51 +62,204 @@ export class PartnerAValidator extends BaseValidator<PartnerAInput> {
       return this.failure();
     }
 
+    if (hasLineItems && ['skuId', 'quantity', 'unitPrice'].some((field) => obj[field] !== undefined)) {
+      this.addError(
+        'lineItems',
+        ErrorCode.INVALID_VALUE,
+        'Send either lineItems or skuId, quantity and unitPrice, not both',
+        obj.lineItems,
+        'lineItems without skuId, quantity and unitPrice'
+      );
+      return this.failure();
+    }
+
     // Validate field types and values
     const validOrderId = this.validateString(obj.orderId, 'orderId');
-    const validSkuId = this.validateString(obj.skuId, 'skuId');
+    const validSkuId = hasLineItems || this.validateString(obj.skuId, 'skuId');
     const validCustomerId = this.validateString(obj.customerId, 'customerId');
-    const validQuantity = this.validateQuantity(obj.quantity);
-    const validUnitPrice = this.validatePositiveNumber(obj.unitPrice, 'unitPrice');
+    const validQuantity = hasLineItems || this.validateQuantity(obj.quantity);
+    const validUnitPrice = hasLineItems || this.validatePositiveNumber(obj.unitPrice, 'unitPrice');
     const validTaxRate = this.validateTaxRate(obj.taxRate, 'taxRate', false);
     const validTimestamp = this.validateTimestampMs(obj.transactionTimeMs, 'transactionTimeMs');
+    const validLineItems = !hasLineItems || this.validateLineItems(obj.lineItems);
+    const validCurrency = this.isNullOrUndefined(obj.currency) || this.validateCurrencyCode(obj.currency, 'currency');
+    const validTaxFields = this.validateTaxRuleFields(obj);
+    const validDiscountFields = this.validateDiscountFields(obj);
 
     // If any validation failed, return failure
-    if (!validOrderId || !validSkuId || !validCustomerId || 
-        !validQuantity || !validUnitPrice || !validTaxRate || !validTimestamp) {
+    if (!validOrderId || !validSkuId || !validCustomerId || !validQuantity || !validUnitPrice ||
+        !validTaxRate || !validTimestamp || !validLineItems || !validCurrency || !validTaxFields ||
+        !validDiscountFields) {
       return this.failure();
     }
 
     // Validate optional metadata if present
     if (obj.metadata !== undefined && obj.metadata !== null) {
       if (typeof obj.metadata !== 'object' || Array.isArray(obj.metadata)) {
-        this.addError('metadata', 'Metadata must be an object', obj.metadata, 'object');
+        this.addError('metadata', ErrorCode.INVALID_DATA_TYPE, 'Metadata must be an object', obj.metadata, 'object');
         return this.failure();
       }
     }
 
+    // Whatever the field checks accept must match the published schema
+    if (!this.checkSchema(obj)) {
+      return this.failure();
+    }
+
     // Build validated input object
     const validatedInput: PartnerAInput = {
       orderId: obj.orderId as string,
-      skuId: obj.skuId as string,
       customerId: obj.customerId as string,
-      quantity: obj.quantity as number,
-      unitPrice: obj.unitPrice as number,
       taxRate: obj.taxRate as number,
       transactionTimeMs: obj.transactionTimeMs as number,
+      ...(hasLineItems
+        ? { lineItems: (obj.lineItems as Record<string, unknown>[]).map((line) => this.toLineItem(line)) }
+        : {
+            skuId: obj.skuId as string,
+            quantity: obj.quantity as number,
+            unitPrice: obj.unitPrice as number,
+            ...(!this.isNullOrUndefined(obj.productCategory) && { productCategory: obj.productCategory as string }),
+          }),
+      ...(!this.isNullOrUndefined(obj.currency) && { currency: obj.currency as string }),
+      ...(!this.isNullOrUndefined(obj.customerRegion) && { customerRegion: obj.customerRegion as string }),
+      ...(!this.isNullOrUndefined(obj.pricesIncludeTax) && { pricesIncludeTax: obj.pricesIncludeTax as boolean }),
+      ...(!this.isNullOrUndefined(obj.discountAmount) && { discountAmount: obj.discountAmount as number }),
+      ...(!this.isNullOrUndefined(obj.promoCodes) && { promoCodes: obj.promoCodes as string[] }),
       ...(obj.metadata && { metadata: obj.metadata as Record<string, unknown> })
     };
 
+    // Partner business rules apply to structurally valid orders only
+    this.checkBusinessRules(validatedInput, {
+      $orderValue: getOrderValue(
+        validatedInput.lineItems ?? [{ quantity: validatedInput.quantity!, unitPrice: validatedInput.unitPrice! }],
+        validatedInput.currency
+      )
+    });
+    if (this.errors.length > 0) {
+      return this.failure();
+    }
+
+    this.checkWarnings(validatedInput);
     return this.success(validatedInput);
   }
 
+  /**
+   * Check the soft rules of a valid order: high quantities, zero tax rates,
+   * stale transaction times and unknown metadata keys
+   */
+  private checkWarnings(input: PartnerAInput): void {
+    if (input.lineItems) {
+      input.lineItems.forEach((line, index) => {
+        this.warnOnHighQuantity(line.quantity, `lineItems[${index}].quantity`);
+        if (line.taxRate !== undefined) {
+          this.warnOnZeroTaxRate(line.taxRate, `lineItems[${index}].taxRate`);
+        }
+      });
+    } else {
+      this.warnOnHighQuantity(input.quantity as number, 'quantity');
+    }
+
+    // The order tax rate only matters when a line falls back to it
+    if (!input.lineItems || input.lineItems.some((line) => line.taxRate === undefined)) {
+      this.warnOnZeroTaxRate(input.taxRate, 'taxRate');
+    }
+    this.warnOnStaleTransactionTime(new Date(input.transactionTimeMs), 'transactionTimeMs', input.transactionTimeMs);
+    if (input.metadata) {
+      this.warnOnUnknownMetadataKeys(input.metadata, 'metadata');
+    }
+  }
+
+  /**
+   * Validate every order line; errors name the line (e.g. lineItems[1].quantity)
+   */
+  private validateLineItems(value: unknown): boolean {
+    if (!this.validateLineItemList(value, 'lineItems')) {
+      return false;
+    }
+
+    const errorCount = this.errors.length;
+
+    value.forEach((line, index) => {
+      const path = `lineItems[${index}]`;
+
+      if (!line || typeof line !== 'object' || Array.isArray(line)) {
+        this.addError(path, ErrorCode.INVALID_DATA_TYPE, 'Line item must be a valid object', line, 'object');
+        return;
+      }
+
+      const item = line as Record<string, unknown>;
+      if (this.validateRequired(item, 'skuId', `${path}.skuId`)) {
+        this.validateString(item.skuId, `${path}.skuId`);
+      }
+      if (this.validateRequired(item, 'quantity', `${path}.quantity`)) {
+        this.validateQuantity(item.quantity, `${path}.quantity`);
+      }
+      if (this.validateRequired(item, 'unitPrice', `${path}.unitPrice`)) {
+        this.validatePositiveNumber(item.unitPrice, `${path}.unitPrice`);
+      }
+      if (!this.isNullOrUndefined(item.taxRate)) {
+        this.validateTaxRate(item.taxRate, `${path}.taxRate`, false);
+      }
+      if (!this.isNullOrUndefined(item.productCategory)) {
+        this.validateString(item.productCategory, `${path}.productCategory`);
+      }
+      if (!this.isNullOrUndefined(item.discountAmount)) {
+        this.validateNonNegativeNumber(item.discountAmount, `${path}.discountAmount`);
+      }
+    });
+
+    return this.errors.length === errorCount;
+  }
+
+  /**
+   * Validate the optional fields tax rules are looked up by
+   */
+  private validateTaxRuleFields(obj: Record<string, unknown>): boolean {
+    const validCategory = this.isNullOrUndefined(obj.productCategory) ||
+      this.validateString(obj.productCategory, 'productCategory');
+    const validRegion = this.isNullOrUndefined(obj.customerRegion) ||
+      this.validateRegionCode(obj.customerRegion, 'customerRegion');
+    const validPricesIncludeTax = this.isNullOrUndefined(obj.pricesIncludeTax) ||
+      this.validateBoolean(obj.pricesIncludeTax, 'pricesIncludeTax');
+
+    return validCategory && validRegion && validPricesIncludeTax;
+  }
+
+  /**
+   * Validate the optional discount fields (whether the promo codes exist and
+   * the discounts fit the amounts is checked when the order is processed)
+   */
+  private validateDiscountFields(obj: Record<string, unknown>): boolean {
+    const validDiscount = this.isNullOrUndefined(obj.discountAmount) ||
+      this.validateNonNegativeNumber(obj.discountAmount, 'discountAmount');
+    const validPromoCodes = this.isNullOrUndefined(obj.promoCodes) ||
+      this.validatePromoCodes(obj.promoCodes, 'promoCodes');
+
+    return validDiscount && validPromoCodes;
+  }
+
+  /**
+   * Build a validated order line
+   */
+  private toLineItem(line: Record<string, unknown>): PartnerALineItem {
+    return {
+      skuId: line.skuId as string,
+      quantity: line.quantity as number,
+      unitPrice: line.unitPrice as number,
+      ...(!this.isNullOrUndefined(line.productCategory) && { productCategory: line.productCategory as string }),
+      ...(!this.isNullOrUndefined(line.taxRate) && { taxRate: line.taxRate as number }),
+      ...(!this.isNullOrUndefined(line.discountAmount) && { discountAmount: line.discountAmount as number })
+    };
+  }
+
   /**
    * Validate quantity is a positive integer
    */
-  private validateQuantity(value: unknown): value is number {
+  private validateQuantity(value: unknown, field: string = 'quantity'): value is number {
     if (typeof value !== 'number' || isNaN(value)) {
       this.addError(
-        'quantity',
+        field,
+        ErrorCode.NOT_A_NUMBER,
         'Quantity must be a valid number',
         value,
         'positive integer'
@@ -98,7 +269,8 @@ export class PartnerAValidator extends BaseValidator<PartnerAInput> {
 
     if (!Number.isInteger(value)) {
       this.addError(
-        'quantity',
+        field,
+        ErrorCode.INVALID_VALUE,
         'Quantity must be an integer',
         value,
         'positive integer'
@@ -108,7 +280,8 @@ export class PartnerAValidator extends BaseValidator<PartnerAInput> {
 
     if (value <= 0) {
       this.addError(
-        'quantity',
+        field,
+        value === 0 ? ErrorCode.ZERO_VALUE : ErrorCode.NEGATIVE_NUMBER,
         'Quantity must be a positive integer',
         value,
         'positive integer'
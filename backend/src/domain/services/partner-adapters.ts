@@ -0,0 +1,193 @@
+import {
+  PartnerAInput,
+  PartnerBInput,
+  PartnerId,
+  CreateOrderEventInput,
+  TimestampPolicy,
+  ValidationResult
+} from '../models';
+import { IPartnerAdapter } from '../ports/partner-adapter.port';
+import { PartnerAValidator } from './partner-a-validator';
+import { PartnerBValidator } from './partner-b-validator';
+import { BusinessRules } from './business-rules';
+import { PARTNER_A_INPUT_SCHEMA, PARTNER_B_INPUT_SCHEMA } from './partner-schemas';
+
+/**
+ * Convert milliseconds timestamp to ISO 8601 string
+ */
+export function convertMsToISO8601(timestampMs: number): string {
+  return new Date(timestampMs).toISOString();
+}
+
+/**
+ * Normalize ISO 8601 timestamp (ensure consistent format)
+ */
+export function normalizeISO8601(timestamp: string): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Convert percentage (0-100) to decimal (0-1)
+ */
+export function convertPercentageToDecimal(percentage: number): number {
+  return percentage / 100;
+}
+
+/**
+ * Partner A adapter
+ *
+ * Partner A specifics:
+ * - transactionTimeMs: timestamp in milliseconds -> ISO 8601
+ * - taxRate: already in decimal format (0.1 = 10%)
+ * - lineItems[].skuId -> lineItems[].productId
+ * - tax rule fields (productCategory, customerRegion, pricesIncludeTax) keep their names
+ * - discountAmount (order and lines) and promoCodes keep their names
+ */
+export class PartnerAAdapter implements IPartnerAdapter<PartnerAInput> {
+  readonly partnerId = PartnerId.PARTNER_A;
+  readonly slug = 'partner-a';
+  readonly displayName = 'Partner A';
+  readonly idField = 'orderId';
+  readonly aliases = ['A'];
+  readonly fieldTypes = {
+    quantity: 'number',
+    unitPrice: 'number',
+    taxRate: 'number',
+    transactionTimeMs: 'timestamp-ms',
+    lineItems: 'json',
+    discountAmount: 'number',
+    promoCodes: 'json',
+    metadata: 'json'
+  } as const;
+  readonly inputSchema = PARTNER_A_INPUT_SCHEMA;
+
+  private readonly validator: PartnerAValidator;
+
+  /**
+   * @param timestampPolicy - Range of transactionTimeMs values accepted (default: DEFAULT_TIMESTAMP_POLICY)
+   * @param businessRules - Business rules checked after the structural validation (default: none)
+   */
+  constructor(timestampPolicy?: TimestampPolicy, businessRules?: BusinessRules) {
+    this.validator = new PartnerAValidator(timestampPolicy, () => businessRules?.forPartner(this.partnerId) ?? []);
+  }
+
+  validate(input: unknown): ValidationResult<PartnerAInput> {
+    return this.validator.validate(input);
+  }
+
+  toOrderInput(input: PartnerAInput): CreateOrderEventInput {
+    return {
+      externalOrderId: input.orderId,
+      partnerId: this.partnerId,
+      ...(input.lineItems
+        ? {
+            lineItems: input.lineItems.map((line) => ({
+              productId: line.skuId,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              ...(line.productCategory && { productCategory: line.productCategory }),
+              ...(line.taxRate !== undefined && { taxRate: line.taxRate }),
+              ...(line.discountAmount && { discountAmount: line.discountAmount })
+            }))
+          }
+        : {
+            productId: input.skuId,
+            ...(input.productCategory && { productCategory: input.productCategory }),
+            quantity: input.quantity,
+            unitPrice: input.unitPrice
+          }),
+      customerId: input.customerId,
+      taxRate: input.taxRate,
+      transactionTime: convertMsToISO8601(input.transactionTimeMs),
+      ...(input.currency && { currency: input.currency }),
+      ...(input.customerRegion && { customerRegion: input.customerRegion }),
+      ...(input.pricesIncludeTax && { pricesIncludeTax: true }),
+      ...(input.discountAmount && { discountAmount: input.discountAmount }),
+      ...(input.promoCodes?.length && { promoCodes: input.promoCodes }),
+      metadata: input.metadata
+    };
+  }
+}
+
+/**
+ * Partner B adapter
+ *
+ * Partner B specifics:
+ * - purchaseTime: already in ISO 8601 format
+ * - tax: percentage format (10 = 10%) -> decimal (0.1)
+ * - Field name mappings:
+ *   - transactionId -> externalOrderId
+ *   - itemCode -> productId
+ *   - clientId -> customerId
+ *   - qty -> quantity
+ *   - price -> unitPrice
+ *   - items[] { itemCode, qty, price, tax } -> lineItems[] (tax as decimal)
+ *   - itemCategory -> productCategory
+ *   - clientRegion -> customerRegion
+ *   - taxIncluded -> pricesIncludeTax
+ *   - discount (order and items) -> discountAmount
+ */
+export class PartnerBAdapter implements IPartnerAdapter<PartnerBInput> {
+  readonly partnerId = PartnerId.PARTNER_B;
+  readonly slug = 'partner-b';
+  readonly displayName = 'Partner B';
+  readonly idField = 'transactionId';
+  readonly aliases = ['B'];
+  readonly fieldTypes = {
+    qty: 'number',
+    price: 'number',
+    tax: 'number',
+    purchaseTime: 'timestamp-iso',
+    items: 'json',
+    discount: 'number',
+    promoCodes: 'json'
+  } as const;
+  readonly inputSchema = PARTNER_B_INPUT_SCHEMA;
+
+  private readonly validator: PartnerBValidator;
+
+  /**
+   * @param timestampPolicy - Range of purchaseTime values accepted (default: DEFAULT_TIMESTAMP_POLICY)
+   * @param businessRules - Business rules checked after the structural validation (default: none)
+   */
+  constructor(timestampPolicy?: TimestampPolicy, businessRules?: BusinessRules) {
+    this.validator = new PartnerBValidator(timestampPolicy, () => businessRules?.forPartner(this.partnerId) ?? []);
+  }
+
+  validate(input: unknown): ValidationResult<PartnerBInput> {
+    return this.validator.validate(input);
+  }
+
+  toOrderInput(input: PartnerBInput): CreateOrderEventInput {
+    return {
+      externalOrderId: input.transactionId,
+      partnerId: this.partnerId,
+      ...(input.items
+        ? {
+            lineItems: input.items.map((line) => ({
+              productId: line.itemCode,
+              quantity: line.qty,
+              unitPrice: line.price,
+              ...(line.itemCategory && { productCategory: line.itemCategory }),
+              ...(line.tax !== undefined && { taxRate: convertPercentageToDecimal(line.tax) }),
+              ...(line.discount && { discountAmount: line.discount })
+            }))
+          }
+        : {
+            productId: input.itemCode,
+            ...(input.itemCategory && { productCategory: input.itemCategory }),
+            quantity: input.qty,
+            unitPrice: input.price
+          }),
+      customerId: input.clientId,
+      taxRate: convertPercentageToDecimal(input.tax),
+      transactionTime: normalizeISO8601(input.purchaseTime),
+      ...(input.currency && { currency: input.currency }),
+      ...(input.clientRegion && { customerRegion: input.clientRegion }),
+      ...(input.taxIncluded && { pricesIncludeTax: true }),
+      ...(input.discount && { discountAmount: input.discount }),
+      ...(input.promoCodes?.length && { promoCodes: input.promoCodes }),
+      metadata: input.notes ? { notes: input.notes } : undefined
+    };
+  }
+}
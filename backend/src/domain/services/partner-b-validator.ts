@@ -1,20 +1,35 @@
-import { PartnerBInput, ValidationResult } from '../models';
+import { PartnerBInput, PartnerBLineItem, ValidationResult, ErrorCode } from '../models';
 import { BaseValidator } from './base-validator';
+import { PARTNER_B_INPUT_SCHEMA } from './partner-schemas';
+import { getOrderValue } from './business-rules';
 
 /**
  * Validator for Partner B input format
  * 
  * Partner B Field Requirements:
  * - transactionId: Required, non-empty string
- * - itemCode: Required, non-empty string
+ * - itemCode: Required unless items is given, non-empty string
  * - clientId: Required, non-empty string
- * - qty: Required, positive integer
- * - price: Required, positive number
+ * - qty: Required unless items is given, positive integer
+ * - price: Required unless items is given, positive number
  * - tax: Required, percentage between 0 and 100
  * - purchaseTime: Required, valid ISO 8601 timestamp string
+ * - items: Optional, 1-100 lines of { itemCode, qty, price, tax? } with the
+ *   same rules, sent instead of itemCode/qty/price
+ * - currency: Optional ISO 4217 currency code (e.g. EUR)
+ * - itemCategory: Optional non-empty string (also on items)
+ * - clientRegion: Optional ISO 3166 country or subdivision code (e.g. US-CA)
+ * - taxIncluded: Optional boolean
+ * - discount: Optional non-negative number (also on items)
+ * - promoCodes: Optional array of at most 10 distinct promo codes
  * - notes: Optional string
+ *
+ * The same rules are published as JSON Schema (PARTNER_B_INPUT_SCHEMA).
+ * Valid input is then checked against Partner B's business rules.
  */
 export class PartnerBValidator extends BaseValidator<PartnerBInput> {
+  readonly schema = PARTNER_B_INPUT_SCHEMA;
+
   /**
    * Validate Partner B input
    */
@@ -23,18 +38,21 @@ export class PartnerBValidator extends BaseValidator<PartnerBInput> {
 
     // Check if input is an object
     if (!input || typeof input !== 'object' || Array.isArray(input)) {
-      this.addError('root', 'Input must be a valid object', input, 'object');
+      this.addError('root', ErrorCode.INVALID_DATA_TYPE, 'Input must be a valid object', input, 'object');
       return this.failure();
     }
 
     const obj = input as Record<string, unknown>;
 
+    // Multi-line orders send their products as items
+    const hasItems = !this.isNullOrUndefined(obj.items);
+
     // Validate all required fields exist
     const hasTransactionId = this.validateRequired(obj, 'transactionId');
-    const hasItemCode = this.validateRequired(obj, 'itemCode');
+    const hasItemCode = hasItems || this.validateRequired(obj, 'itemCode');
     const hasClientId = this.validateRequired(obj, 'clientId');
-    const hasQty = this.validateRequired(obj, 'qty');
-    const hasPrice = this.validateRequired(obj, 'price');
+    const hasQty = hasItems || this.validateRequired(obj, 'qty');
+    const hasPrice = hasItems || this.validateRequired(obj, 'price');
     const hasTax = this.validateRequired(obj, 'tax');
     const hasPurchaseTime = this.validateRequired(obj, 'purchaseTime');
 
@@ -44,51 +62,202 @@ export class PartnerBValidator extends BaseValidator<PartnerBInput> {
       return this.failure();
     }
 
+    if (hasItems && ['itemCode', 'qty', 'price'].some((field) => obj[field] !== undefined)) {
+      this.addError(
+        'items',
+        ErrorCode.INVALID_VALUE,
+        'Send either items or itemCode, qty and price, not both',
+        obj.items,
+        'items without itemCode, qty and price'
+      );
+      return this.failure();
+    }
+
     // Validate field types and values
     const validTransactionId = this.validateString(obj.transactionId, 'transactionId');
-    const validItemCode = this.validateString(obj.itemCode, 'itemCode');
+    const validItemCode = hasItems || this.validateString(obj.itemCode, 'itemCode');
     const validClientId = this.validateString(obj.clientId, 'clientId');
-    const validQty = this.validateQuantity(obj.qty);
-    const validPrice = this.validatePositiveNumber(obj.price, 'price');
+    const validQty = hasItems || this.validateQuantity(obj.qty);
+    const validPrice = hasItems || this.validatePositiveNumber(obj.price, 'price');
     const validTax = this.validateTaxRate(obj.tax, 'tax', true); // Tax is percentage for Partner B
     const validPurchaseTime = this.validateISO8601Timestamp(obj.purchaseTime, 'purchaseTime');
+    const validItems = !hasItems || this.validateItems(obj.items);
+    const validCurrency = this.isNullOrUndefined(obj.currency) || this.validateCurrencyCode(obj.currency, 'currency');
+    const validTaxFields = this.validateTaxRuleFields(obj);
+    const validDiscountFields = this.validateDiscountFields(obj);
 
     // If any validation failed, return failure
-    if (!validTransactionId || !validItemCode || !validClientId || 
-        !validQty || !validPrice || !validTax || !validPurchaseTime) {
+    if (!validTransactionId || !validItemCode || !validClientId || !validQty || !validPrice ||
+        !validTax || !validPurchaseTime || !validItems || !validCurrency || !validTaxFields ||
+        !validDiscountFields) {
       return this.failure();
     }
 
     // Validate optional notes if present
     if (obj.notes !== undefined && obj.notes !== null) {
       if (typeof obj.notes !== 'string') {
-        this.addError('notes', 'Notes must be a string', obj.notes, 'string');
+        this.addError('notes', ErrorCode.INVALID_DATA_TYPE, 'Notes must be a string', obj.notes, 'string');
         return this.failure();
       }
     }
 
+    // Whatever the field checks accept must match the published schema
+    if (!this.checkSchema(obj)) {
+      return this.failure();
+    }
+
     // Build validated input object
     const validatedInput: PartnerBInput = {
       transactionId: obj.transactionId as string,
-      itemCode: obj.itemCode as string,
       clientId: obj.clientId as string,
-      qty: obj.qty as number,
-      price: obj.price as number,
       tax: obj.tax as number,
       purchaseTime: obj.purchaseTime as string,
+      ...(hasItems
+        ? { items: (obj.items as Record<string, unknown>[]).map((line) => this.toLineItem(line)) }
+        : {
+            itemCode: obj.itemCode as string,
+            qty: obj.qty as number,
+            price: obj.price as number,
+            ...(!this.isNullOrUndefined(obj.itemCategory) && { itemCategory: obj.itemCategory as string }),
+          }),
+      ...(!this.isNullOrUndefined(obj.currency) && { currency: obj.currency as string }),
+      ...(!this.isNullOrUndefined(obj.clientRegion) && { clientRegion: obj.clientRegion as string }),
+      ...(!this.isNullOrUndefined(obj.taxIncluded) && { taxIncluded: obj.taxIncluded as boolean }),
+      ...(!this.isNullOrUndefined(obj.discount) && { discount: obj.discount as number }),
+      ...(!this.isNullOrUndefined(obj.promoCodes) && { promoCodes: obj.promoCodes as string[] }),
       ...(obj.notes && { notes: obj.notes as string })
     };
 
+    // Partner business rules apply to structurally valid orders only
+    this.checkBusinessRules(validatedInput, {
+      $orderValue: getOrderValue(
+        (validatedInput.items ?? [{ qty: validatedInput.qty!, price: validatedInput.price! }])
+          .map((line) => ({ quantity: line.qty, unitPrice: line.price })),
+        validatedInput.currency
+      )
+    });
+    if (this.errors.length > 0) {
+      return this.failure();
+    }
+
+    this.checkWarnings(validatedInput);
     return this.success(validatedInput);
   }
 
+  /**
+   * Check the soft rules of a valid order: high quantities, zero tax rates
+   * and stale transaction times
+   */
+  private checkWarnings(input: PartnerBInput): void {
+    if (input.items) {
+      input.items.forEach((line, index) => {
+        this.warnOnHighQuantity(line.qty, `items[${index}].qty`);
+        if (line.tax !== undefined) {
+          this.warnOnZeroTaxRate(line.tax, `items[${index}].tax`);
+        }
+      });
+    } else {
+      this.warnOnHighQuantity(input.qty as number, 'qty');
+    }
+
+    // The order tax only matters when a line falls back to it
+    if (!input.items || input.items.some((line) => line.tax === undefined)) {
+      this.warnOnZeroTaxRate(input.tax, 'tax');
+    }
+    this.warnOnStaleTransactionTime(new Date(input.purchaseTime), 'purchaseTime', input.purchaseTime);
+  }
+
+  /**
+   * Validate every order line; errors name the line (e.g. items[1].qty)
+   */
+  private validateItems(value: unknown): boolean {
+    if (!this.validateLineItemList(value, 'items')) {
+      return false;
+    }
+
+    const errorCount = this.errors.length;
+
+    value.forEach((line, index) => {
+      const path = `items[${index}]`;
+
+      if (!line || typeof line !== 'object' || Array.isArray(line)) {
+        this.addError(path, ErrorCode.INVALID_DATA_TYPE, 'Line item must be a valid object', line, 'object');
+        return;
+      }
+
+      const item = line as Record<string, unknown>;
+      if (this.validateRequired(item, 'itemCode', `${path}.itemCode`)) {
+        this.validateString(item.itemCode, `${path}.itemCode`);
+      }
+      if (this.validateRequired(item, 'qty', `${path}.qty`)) {
+        this.validateQuantity(item.qty, `${path}.qty`);
+      }
+      if (this.validateRequired(item, 'price', `${path}.price`)) {
+        this.validatePositiveNumber(item.price, `${path}.price`);
+      }
+      if (!this.isNullOrUndefined(item.tax)) {
+        this.validateTaxRate(item.tax, `${path}.tax`, true);
+      }
+      if (!this.isNullOrUndefined(item.itemCategory)) {
+        this.validateString(item.itemCategory, `${path}.itemCategory`);
+      }
+      if (!this.isNullOrUndefined(item.discount)) {
+        this.validateNonNegativeNumber(item.discount, `${path}.discount`);
+      }
+    });
+
+    return this.errors.length === errorCount;
+  }
+
+  /**
+   * Validate the optional fields tax rules are looked up by
+   */
+  private validateTaxRuleFields(obj: Record<string, unknown>): boolean {
+    const validCategory = this.isNullOrUndefined(obj.itemCategory) ||
+      this.validateString(obj.itemCategory, 'itemCategory');
+    const validRegion = this.isNullOrUndefined(obj.clientRegion) ||
+      this.validateRegionCode(obj.clientRegion, 'clientRegion');
+    const validTaxIncluded = this.isNullOrUndefined(obj.taxIncluded) ||
+      this.validateBoolean(obj.taxIncluded, 'taxIncluded');
+
+    return validCategory && validRegion && validTaxIncluded;
+  }
+
+  /**
+   * Validate the optional discount fields (whether the promo codes exist and
+   * the discounts fit the amounts is checked when the order is processed)
+   */
+  private validateDiscountFields(obj: Record<string, unknown>): boolean {
+    const validDiscount = this.isNullOrUndefined(obj.discount) ||
+      this.validateNonNegativeNumber(obj.discount, 'discount');
+    const validPromoCodes = this.isNullOrUndefined(obj.promoCodes) ||
+      this.validatePromoCodes(obj.promoCodes, 'promoCodes');
+
+    return validDiscount && validPromoCodes;
+  }
+
+  /**
+   * Build a validated order line
+   */
+  private toLineItem(line: Record<string, unknown>): PartnerBLineItem {
+    return {
+      itemCode: line.itemCode as string,
+      qty: line.qty as number,
+      price: line.price as number,
+      ...(!this.isNullOrUndefined(line.itemCategory) && { itemCategory: line.itemCategory as string }),
+      ...(!this.isNullOrUndefined(line.tax) && { tax: line.tax as number }),
+      ...(!this.isNullOrUndefined(line.discount) && { discount: line.discount as number })
+    };
+  }
+
   /**
    * Validate quantity is a positive integer
    */
-  private validateQuantity(value: unknown): value is number {
+  private validateQuantity(value: unknown, field: string = 'qty'): value is number {
     if (typeof value !== 'number' || isNaN(value)) {
       this.addError(
-        'qty',
+        field,
+        ErrorCode.NOT_A_NUMBER,
         'Quantity must be a valid number',
         value,
         'positive integer'
@@ -98,7 +267,8 @@ export class PartnerBValidator extends BaseValidator<PartnerBInput> {
 
     if (!Number.isInteger(value)) {
       this.addError(
-        'qty',
+        field,
+        ErrorCode.INVALID_VALUE,
         'Quantity must be an integer',
         value,
         'positive integer'
@@ -108,7 +278,8 @@ export class PartnerBValidator extends BaseValidator<PartnerBInput> {
 
     if (value <= 0) {
       this.addError(
-        'qty',
+        field,
+        value === 0 ? ErrorCode.ZERO_VALUE : ErrorCode.NEGATIVE_NUMBER,
         'Quantity must be a positive integer',
         value,
         'positive integer'
@@ -0,0 +1,95 @@
+import { PartnerId } from '../models';
+import { IPartnerAdapter } from '../ports/partner-adapter.port';
+import { PartnerAAdapter, PartnerBAdapter } from './partner-adapters';
+import { TimestampPolicies } from './timestamp-policy';
+import { BusinessRules } from './business-rules';
+
+/**
+ * Registry of partner adapters.
+ *
+ * Single source of truth for which partners exist. Onboarding a partner
+ * means registering an adapter here; routes, authentication, queries and
+ * statistics look partners up through the registry.
+ */
+export class PartnerRegistry {
+  private readonly adapters: Map<PartnerId, IPartnerAdapter> = new Map();
+
+  /**
+   * Register a partner adapter.
+   * Throws if the partner ID, slug or an alias is already taken.
+   */
+  register(adapter: IPartnerAdapter): this {
+    const identifiers = [adapter.partnerId, adapter.slug, ...(adapter.aliases ?? [])];
+    for (const identifier of identifiers) {
+      if (this.resolve(identifier)) {
+        throw new Error(`Partner identifier already registered: ${identifier}`);
+      }
+    }
+
+    this.adapters.set(adapter.partnerId, adapter);
+    return this;
+  }
+
+  /**
+   * Get adapter by partner ID
+   */
+  get(partnerId: PartnerId): IPartnerAdapter | undefined {
+    return this.adapters.get(partnerId);
+  }
+
+  /**
+   * Get adapter by route slug (case-insensitive)
+   */
+  getBySlug(slug: string): IPartnerAdapter | undefined {
+    const normalized = slug.toLowerCase();
+    return this.list().find((adapter) => adapter.slug.toLowerCase() === normalized);
+  }
+
+  /**
+   * Resolve a partner from any accepted identifier: partner ID, slug or alias
+   * (case-insensitive). Used to parse partner parameters in queries.
+   */
+  resolve(identifier: string): IPartnerAdapter | undefined {
+    const normalized = identifier.toUpperCase();
+    return this.list().find((adapter) =>
+      adapter.partnerId.toUpperCase() === normalized ||
+      adapter.slug.toUpperCase() === normalized ||
+      (adapter.aliases ?? []).some((alias) => alias.toUpperCase() === normalized)
+    );
+  }
+
+  /**
+   * Check if a partner is registered
+   */
+  has(partnerId: PartnerId): boolean {
+    return this.adapters.has(partnerId);
+  }
+
+  /**
+   * List registered adapters in registration order
+   */
+  list(): IPartnerAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * List registered partner IDs in registration order
+   */
+  getPartnerIds(): PartnerId[] {
+    return Array.from(this.adapters.keys());
+  }
+}
+
+/**
+ * Create a registry with the built-in partners (Partner A and Partner B),
+ * validating their timestamps with their timestamp policies and their
+ * orders with their business rules.
+ */
+export function createDefaultPartnerRegistry(
+  timestampPolicies: TimestampPolicies = new TimestampPolicies(),
+  businessRules?: BusinessRules
+): PartnerRegistry {
+  return new PartnerRegistry()
+    .register(new PartnerAAdapter(timestampPolicies.forPartner(PartnerId.PARTNER_A), businessRules))
+    .register(new PartnerBAdapter(timestampPolicies.forPartner(PartnerId.PARTNER_B), businessRules));
+}
@@ -0,0 +1,167 @@
+import { JsonSchema, JsonSchemaType } from '../models';
+import { JSON_SCHEMA_DIALECT } from './json-schema';
+import { MAX_ORDER_LINE_ITEMS } from './order-line-items';
+import { MAX_PROMO_CODES } from './promotion-catalog';
+import { CURRENCY_CODE_PATTERN } from './fx-rate-table';
+import { REGION_CODE_PATTERN } from './tax-rules';
+
+/**
+ * Schema of an optional field: null is accepted and treated as absent
+ */
+export function nullable(schema: JsonSchema): JsonSchema {
+  const types: JsonSchemaType[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return { ...schema, type: [...types, 'null'] };
+}
+
+/**
+ * Schema of a string with at least one non-whitespace character
+ */
+export function nonBlankString(description?: string): JsonSchema {
+  return { type: 'string', pattern: '\\S', ...(description && { description }) };
+}
+
+const positiveInteger = (description: string): JsonSchema => ({ type: 'integer', exclusiveMinimum: 0, description });
+const positiveNumber = (description: string): JsonSchema => ({ type: 'number', exclusiveMinimum: 0, description });
+const nonNegativeNumber = (description: string): JsonSchema => ({ type: 'number', minimum: 0, description });
+
+const CURRENCY_CODE: JsonSchema = {
+  type: 'string',
+  pattern: CURRENCY_CODE_PATTERN,
+  description: 'ISO 4217 currency code of the prices (default: the base currency)'
+};
+
+const REGION_CODE: JsonSchema = {
+  type: 'string',
+  pattern: REGION_CODE_PATTERN,
+  description: 'ISO 3166 country or subdivision code (e.g. DE, US-CA), for tax rules'
+};
+
+const PROMO_CODES: JsonSchema = {
+  type: 'array',
+  maxItems: MAX_PROMO_CODES,
+  uniqueItems: true,
+  items: nonBlankString(),
+  description: 'Promo codes redeemed with the order'
+};
+
+/**
+ * Either lines or a single product, never both: the single-product fields
+ * must be absent from multi-line orders
+ */
+function singleOrMultiLine(linesField: string, productFields: string[]): JsonSchema[] {
+  return [
+    {
+      title: 'Multi-line order',
+      required: [linesField],
+      properties: { [linesField]: { type: 'array' } },
+      not: { anyOf: productFields.map((field) => ({ required: [field] })) }
+    },
+    {
+      title: 'Single-product order',
+      required: productFields,
+      properties: { [linesField]: { type: 'null' } }
+    }
+  ];
+}
+
+/**
+ * Partner A order line
+ */
+const PARTNER_A_LINE_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['skuId', 'quantity', 'unitPrice'],
+  properties: {
+    skuId: nonBlankString('Product identifier'),
+    quantity: positiveInteger('Number of units'),
+    unitPrice: positiveNumber('Price per unit'),
+    taxRate: nullable({ type: 'number', minimum: 0, maximum: 1, description: 'Line tax rate as decimal (default: the order taxRate)' }),
+    productCategory: nullable(nonBlankString('Product category, for tax rules and promotions')),
+    discountAmount: nullable(nonNegativeNumber('Amount off the line before tax'))
+  }
+};
+
+/**
+ * JSON Schema of the Partner A input format (PartnerAInput)
+ */
+export const PARTNER_A_INPUT_SCHEMA: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  title: 'Partner A order',
+  description: 'Order sent to /api/feed/partner-a. Transaction times must also be within the partner\'s timestamp policy.',
+  type: 'object',
+  required: ['orderId', 'customerId', 'taxRate', 'transactionTimeMs'],
+  properties: {
+    orderId: nonBlankString('Unique order identifier'),
+    skuId: nonBlankString('Product identifier (single-product orders)'),
+    customerId: nonBlankString('Customer identifier'),
+    quantity: positiveInteger('Number of units (single-product orders)'),
+    unitPrice: positiveNumber('Price per unit (single-product orders)'),
+    taxRate: { type: 'number', minimum: 0, maximum: 1, description: 'Tax rate as decimal (0.1 = 10%)' },
+    transactionTimeMs: { type: 'number', description: 'Transaction time as a Unix timestamp in milliseconds' },
+    lineItems: nullable({
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_ORDER_LINE_ITEMS,
+      items: PARTNER_A_LINE_ITEM_SCHEMA,
+      description: 'Lines of a multi-product order, sent instead of skuId, quantity and unitPrice'
+    }),
+    currency: nullable(CURRENCY_CODE),
+    productCategory: nullable(nonBlankString('Product category (single-product orders), for tax rules and promotions')),
+    customerRegion: nullable(REGION_CODE),
+    pricesIncludeTax: nullable({ type: 'boolean', description: 'Whether unit prices include tax' }),
+    discountAmount: nullable(nonNegativeNumber('Amount off the order before tax')),
+    promoCodes: nullable(PROMO_CODES),
+    metadata: nullable({ type: 'object', description: 'Free-form order metadata' })
+  },
+  oneOf: singleOrMultiLine('lineItems', ['skuId', 'quantity', 'unitPrice'])
+};
+
+/**
+ * Partner B order line
+ */
+const PARTNER_B_LINE_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['itemCode', 'qty', 'price'],
+  properties: {
+    itemCode: nonBlankString('Product identifier'),
+    qty: positiveInteger('Number of units'),
+    price: positiveNumber('Price per unit'),
+    tax: nullable({ type: 'number', minimum: 0, maximum: 100, description: 'Line tax percentage (default: the order tax)' }),
+    itemCategory: nullable(nonBlankString('Product category, for tax rules and promotions')),
+    discount: nullable(nonNegativeNumber('Amount off the line before tax'))
+  }
+};
+
+/**
+ * JSON Schema of the Partner B input format (PartnerBInput)
+ */
+export const PARTNER_B_INPUT_SCHEMA: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  title: 'Partner B order',
+  description: 'Order sent to /api/feed/partner-b. Purchase times must also be within the partner\'s timestamp policy.',
+  type: 'object',
+  required: ['transactionId', 'clientId', 'tax', 'purchaseTime'],
+  properties: {
+    transactionId: nonBlankString('Unique order identifier'),
+    itemCode: nonBlankString('Product identifier (single-item orders)'),
+    clientId: nonBlankString('Customer identifier'),
+    qty: positiveInteger('Number of units (single-item orders)'),
+    price: positiveNumber('Price per unit (single-item orders)'),
+    tax: { type: 'number', minimum: 0, maximum: 100, description: 'Tax rate as percentage (10 = 10%)' },
+    purchaseTime: { type: 'string', format: 'date-time', description: 'Purchase time as an ISO 8601 timestamp with a UTC designator or offset' },
+    items: nullable({
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_ORDER_LINE_ITEMS,
+      items: PARTNER_B_LINE_ITEM_SCHEMA,
+      description: 'Lines of a multi-product order, sent instead of itemCode, qty and price'
+    }),
+    currency: nullable(CURRENCY_CODE),
+    itemCategory: nullable(nonBlankString('Product category (single-item orders), for tax rules and promotions')),
+    clientRegion: nullable(REGION_CODE),
+    taxIncluded: nullable({ type: 'boolean', description: 'Whether prices include tax' }),
+    discount: nullable(nonNegativeNumber('Amount off the order before tax')),
+    promoCodes: nullable(PROMO_CODES),
+    notes: nullable({ type: 'string', description: 'Free-form order notes' })
+  },
+  oneOf: singleOrMultiLine('items', ['itemCode', 'qty', 'price'])
+};
@@ -0,0 +1,161 @@
+import { Promotion, PromotionCatalogDefinition, PromotionType } from '../models';
+import { isCurrencyCode } from './fx-rate-table';
+
+/**
+ * Most promo codes an order can redeem
+ */
+export const MAX_PROMO_CODES = 10;
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a date or ISO 8601 timestamp
+ */
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Check whether a value is a positive integer
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate a promotion catalog definition (typically parsed from a JSON file).
+ * Throws with every problem found so a broken catalog fails at startup.
+ */
+export function validatePromotionCatalog(definition: unknown): PromotionCatalogDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid promotion catalog: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  if (!Array.isArray(definition.promotions)) {
+    problems.push('promotions must be an array');
+  } else {
+    const codes = new Set<string>();
+
+    definition.promotions.forEach((promotion: unknown, index: number) => {
+      const where = `promotions[${index}]`;
+      if (!isObject(promotion)) {
+        problems.push(`${where} must be an object`);
+        return;
+      }
+
+      if (typeof promotion.code !== 'string' || promotion.code.trim() === '') {
+        problems.push(`${where}.code must be a non-empty string`);
+      } else if (codes.has(promotion.code)) {
+        problems.push(`${where}.code '${promotion.code}' is used by another promotion`);
+      } else {
+        codes.add(promotion.code);
+      }
+      if (promotion.description !== undefined && typeof promotion.description !== 'string') {
+        problems.push(`${where}.description must be a string`);
+      }
+      for (const field of ['productId', 'productCategory']) {
+        if (promotion[field] !== undefined && (typeof promotion[field] !== 'string' || promotion[field] === '')) {
+          problems.push(`${where}.${field} must be a non-empty string`);
+        }
+      }
+      if (promotion.effectiveFrom !== undefined && !isDate(promotion.effectiveFrom)) {
+        problems.push(`${where}.effectiveFrom must be a date or ISO 8601 timestamp`);
+      }
+      if (promotion.effectiveTo !== undefined && !isDate(promotion.effectiveTo)) {
+        problems.push(`${where}.effectiveTo must be a date or ISO 8601 timestamp`);
+      }
+      if (isDate(promotion.effectiveFrom) && isDate(promotion.effectiveTo) &&
+          new Date(promotion.effectiveTo).getTime() <= new Date(promotion.effectiveFrom).getTime()) {
+        problems.push(`${where}.effectiveTo must be after effectiveFrom`);
+      }
+
+      switch (promotion.type) {
+        case PromotionType.PERCENTAGE:
+          if (typeof promotion.value !== 'number' || !(promotion.value > 0 && promotion.value <= 1)) {
+            problems.push(`${where}.value must be a decimal between 0 and 1 for a PERCENTAGE promotion`);
+          }
+          break;
+        case PromotionType.FIXED_AMOUNT:
+          if (typeof promotion.value !== 'number' || !(promotion.value > 0)) {
+            problems.push(`${where}.value must be a positive amount for a FIXED_AMOUNT promotion`);
+          }
+          if (!isCurrencyCode(promotion.currency)) {
+            problems.push(`${where}.currency must be an ISO 4217 currency code for a FIXED_AMOUNT promotion`);
+          }
+          break;
+        case PromotionType.BUY_X_GET_Y:
+          if (!isPositiveInteger(promotion.buyQuantity)) {
+            problems.push(`${where}.buyQuantity must be a positive integer for a BUY_X_GET_Y promotion`);
+          }
+          if (!isPositiveInteger(promotion.freeQuantity)) {
+            problems.push(`${where}.freeQuantity must be a positive integer for a BUY_X_GET_Y promotion`);
+          }
+          break;
+        default:
+          problems.push(`${where}.type must be ${Object.values(PromotionType).join(', ')}`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid promotion catalog: ${problems.join('; ')}`);
+  }
+
+  return definition as unknown as PromotionCatalogDefinition;
+}
+
+/**
+ * Check whether a promotion can be redeemed at a point in time
+ */
+export function isPromotionActive(promotion: Promotion, at: Date): boolean {
+  const time = at.getTime();
+  return (promotion.effectiveFrom === undefined || new Date(promotion.effectiveFrom).getTime() <= time) &&
+    (promotion.effectiveTo === undefined || time < new Date(promotion.effectiveTo).getTime());
+}
+
+/**
+ * Check whether a promotion applies to an order line
+ */
+export function promotionAppliesTo(
+  promotion: Promotion,
+  line: { productId: string; productCategory?: string }
+): boolean {
+  return (promotion.productId === undefined || promotion.productId === line.productId) &&
+    (promotion.productCategory === undefined || promotion.productCategory === line.productCategory);
+}
+
+/**
+ * Promotions by promo code.
+ *
+ * Without a definition the catalog is empty, so orders cannot redeem
+ * promo codes.
+ */
+export class PromotionCatalog {
+  private readonly promotions: Map<string, Promotion>;
+
+  constructor(definition: PromotionCatalogDefinition = { promotions: [] }) {
+    const valid = validatePromotionCatalog(definition);
+    this.promotions = new Map(valid.promotions.map((promotion) => [promotion.code, promotion]));
+  }
+
+  /**
+   * Promotions in definition order
+   */
+  getPromotions(): Promotion[] {
+    return [...this.promotions.values()];
+  }
+
+  /**
+   * Promotion with a promo code, whether active or not
+   */
+  get(code: string): Promotion | undefined {
+    return this.promotions.get(code);
+  }
+}
@@ -0,0 +1,120 @@
+import { RateLimitPolicy, RateLimitPolicyDefinition, RateLimitPolicyOverride, TokenBucketLimit } from '../models';
+
+/**
+ * Policy for partners without one: bursts of 60 single orders refilling at
+ * 10 per second, batches of up to 5000 orders refilling at 100 per second,
+ * and a million orders a day
+ */
+export const DEFAULT_RATE_LIMIT_POLICY: Readonly<RateLimitPolicy> = {
+  single: { capacity: 60, refillPerSecond: 10 },
+  batch: { capacity: 5000, refillPerSecond: 100 },
+  dailyQuota: 1_000_000,
+};
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a positive number
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * Validate rate limit policies (typically parsed from a JSON file).
+ * Throws with every problem found so broken policies fail at startup.
+ */
+export function validateRateLimitPolicies(definition: unknown): RateLimitPolicyDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid rate limit policies: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  const checkBucket = (bucket: unknown, where: string) => {
+    if (!isObject(bucket)) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    if (bucket.capacity !== undefined && !(Number.isInteger(bucket.capacity) && isPositiveNumber(bucket.capacity))) {
+      problems.push(`${where}.capacity must be a positive integer`);
+    }
+    if (bucket.refillPerSecond !== undefined && !isPositiveNumber(bucket.refillPerSecond)) {
+      problems.push(`${where}.refillPerSecond must be a positive number`);
+    }
+  };
+
+  const checkPolicy = (policy: unknown, where: string) => {
+    if (!isObject(policy)) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    for (const kind of ['single', 'batch'] as const) {
+      if (policy[kind] !== undefined) {
+        checkBucket(policy[kind], `${where}.${kind}`);
+      }
+    }
+    if (policy.dailyQuota !== undefined && !(Number.isInteger(policy.dailyQuota) && isPositiveNumber(policy.dailyQuota))) {
+      problems.push(`${where}.dailyQuota must be a positive integer`);
+    }
+  };
+
+  if (definition.default !== undefined) {
+    checkPolicy(definition.default, 'default');
+  }
+  if (definition.partners !== undefined) {
+    if (!isObject(definition.partners)) {
+      problems.push('partners must be an object keyed by partner ID');
+    } else {
+      for (const [partnerId, policy] of Object.entries(definition.partners)) {
+        checkPolicy(policy, `partners.${partnerId}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid rate limit policies: ${problems.join('; ')}`);
+  }
+
+  return definition as RateLimitPolicyDefinition;
+}
+
+/**
+ * Apply the settings of an override to a policy
+ */
+function applyOverride(policy: RateLimitPolicy, override: RateLimitPolicyOverride = {}): RateLimitPolicy {
+  const bucket = (base: TokenBucketLimit, settings?: Partial<TokenBucketLimit>): TokenBucketLimit => ({ ...base, ...settings });
+  return {
+    single: bucket(policy.single, override.single),
+    batch: bucket(policy.batch, override.batch),
+    dailyQuota: override.dailyQuota ?? policy.dailyQuota,
+  };
+}
+
+/**
+ * Rate limit policies by partner.
+ *
+ * Without a definition every partner uses DEFAULT_RATE_LIMIT_POLICY.
+ */
+export class RateLimitPolicies {
+  private readonly defaultPolicy: RateLimitPolicy;
+  private readonly partners: Record<string, RateLimitPolicyOverride>;
+
+  constructor(definition: RateLimitPolicyDefinition = {}) {
+    const valid = validateRateLimitPolicies(definition);
+    this.defaultPolicy = applyOverride(DEFAULT_RATE_LIMIT_POLICY, valid.default);
+    this.partners = valid.partners ?? {};
+  }
+
+  /**
+   * Policy of a partner (the default policy if it has none)
+   */
+  forPartner(partnerId: string): RateLimitPolicy {
+    return applyOverride(this.defaultPolicy, this.partners[partnerId]);
+  }
+}
@@ -0,0 +1,160 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PartnerRequestSigning, RequestSigningDefinition } from '../models';
+
+/**
+ * Seconds a request timestamp may differ from our clock by default
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Largest signed NDJSON stream by default (10 MB). A stream is read in full
+ * to verify its signature before any of its orders are processed.
+ */
+export const DEFAULT_MAX_SIGNED_STREAM_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Shortest secret accepted, so signatures cannot be brute-forced
+ */
+export const MIN_SIGNING_SECRET_LENGTH = 16;
+
+/**
+ * What a partner signs
+ */
+export interface SignedRequest {
+  /** Unix seconds when the request was signed */
+  timestamp: string;
+
+  /** Value unique to the request */
+  nonce: string;
+
+  /** HTTP method (e.g. POST) */
+  method: string;
+
+  /** Request path and query string (e.g. /api/feed/partner-a/batch?atomic=true) */
+  url: string;
+
+  /** Raw body as sent (empty for requests without a body) */
+  body: Buffer | string;
+}
+
+/**
+ * Sign a feed request.
+ *
+ * The signature covers `${timestamp}.${nonce}.${method}.${url}.${body}`
+ * so neither the target nor the payload can be changed, and the timestamp
+ * and nonce let a captured request be refused when it is sent again.
+ * Format: `sha256=<hex HMAC-SHA256>`.
+ */
+export function signRequest(secret: string, request: SignedRequest): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${request.timestamp}.${request.nonce}.${request.method.toUpperCase()}.${request.url}.`)
+    .update(request.body)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a request signature in constant time against each secret.
+ * Callers must also check the timestamp tolerance and nonce reuse.
+ */
+export function verifyRequestSignature(secrets: string[], request: SignedRequest, signature: string): boolean {
+  const received = Buffer.from(signature);
+  // Every secret is tried so the time taken does not reveal which one matched
+  return secrets.reduce((valid, secret) => {
+    const expected = Buffer.from(signRequest(secret, request));
+    return (expected.length === received.length && timingSafeEqual(expected, received)) || valid;
+  }, false);
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate request signing settings (typically parsed from a JSON file).
+ * Throws with every problem found so broken settings fail at startup;
+ * secrets are never included in the messages.
+ */
+export function validateRequestSigning(definition: unknown): RequestSigningDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid request signing: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  if (definition.toleranceSeconds !== undefined &&
+      !(typeof definition.toleranceSeconds === 'number' && definition.toleranceSeconds > 0)) {
+    problems.push('toleranceSeconds must be a positive number');
+  }
+
+  if (definition.maxStreamBytes !== undefined &&
+      !(Number.isInteger(definition.maxStreamBytes) && (definition.maxStreamBytes as number) > 0)) {
+    problems.push('maxStreamBytes must be a positive integer');
+  }
+
+  if (!isObject(definition.partners)) {
+    problems.push('partners must be an object keyed by partner ID');
+  } else {
+    for (const [partnerId, signing] of Object.entries(definition.partners)) {
+      const where = `partners.${partnerId}`;
+      if (!isObject(signing)) {
+        problems.push(`${where} must be an object`);
+        continue;
+      }
+      if (!Array.isArray(signing.secrets) || signing.secrets.length === 0) {
+        problems.push(`${where}.secrets must be a non-empty array`);
+      } else {
+        signing.secrets.forEach((secret, index) => {
+          if (typeof secret !== 'string' || secret.length < MIN_SIGNING_SECRET_LENGTH) {
+            problems.push(`${where}.secrets[${index}] must be a string of at least ${MIN_SIGNING_SECRET_LENGTH} characters`);
+          }
+        });
+      }
+      if (signing.required !== undefined && typeof signing.required !== 'boolean') {
+        problems.push(`${where}.required must be a boolean`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid request signing: ${problems.join('; ')}`);
+  }
+
+  return definition as unknown as RequestSigningDefinition;
+}
+
+/**
+ * Request signing settings by partner.
+ *
+ * Without a definition no partner signs its requests.
+ */
+export class RequestSigning {
+  readonly toleranceSeconds: number;
+  readonly maxStreamBytes: number;
+  private readonly partners: Record<string, PartnerRequestSigning>;
+
+  constructor(definition: RequestSigningDefinition = { partners: {} }) {
+    const valid = validateRequestSigning(definition);
+    this.toleranceSeconds = valid.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+    this.maxStreamBytes = valid.maxStreamBytes ?? DEFAULT_MAX_SIGNED_STREAM_BYTES;
+    this.partners = valid.partners;
+  }
+
+  /**
+   * Signing settings of a partner (null if it does not sign)
+   */
+  forPartner(partnerId: string): Required<PartnerRequestSigning> | null {
+    const signing = this.partners[partnerId];
+    return signing ? { secrets: signing.secrets, required: signing.required ?? true } : null;
+  }
+
+  /**
+   * IDs of the partners that sign their requests
+   */
+  getPartnerIds(): string[] {
+    return Object.keys(this.partners);
+  }
+}
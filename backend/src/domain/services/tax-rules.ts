@@ -0,0 +1,216 @@
+import { TaxComponent, TaxRule, TaxRuleMode, TaxRuleSetDefinition } from '../models';
+
+/**
+ * What a tax rule is looked up for: an order line
+ */
+export interface TaxRuleCriteria {
+  productCategory?: string;
+  customerRegion?: string;
+
+  /** Transaction time of the order */
+  at: Date;
+}
+
+/**
+ * ISO 3166 region code: a country (DE) or a country subdivision (US-CA)
+ */
+export const REGION_CODE_PATTERN = '^[A-Z]{2}(-[A-Z0-9]{1,3})?$';
+
+/**
+ * Check whether a value is an ISO 3166 region code: a country (DE) or a
+ * country subdivision (US-CA)
+ */
+export function isRegionCode(value: unknown): value is string {
+  return typeof value === 'string' && new RegExp(REGION_CODE_PATTERN).test(value);
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a date or ISO 8601 timestamp
+ */
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Validate a tax rule set definition (typically parsed from a JSON file).
+ * Throws with every problem found so a broken rule set fails at startup.
+ */
+export function validateTaxRules(definition: unknown): TaxRuleSetDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid tax rules: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  if (!Array.isArray(definition.rules)) {
+    problems.push('rules must be an array');
+  } else {
+    const ids = new Set<string>();
+
+    definition.rules.forEach((rule: unknown, index: number) => {
+      const where = `rules[${index}]`;
+      if (!isObject(rule)) {
+        problems.push(`${where} must be an object`);
+        return;
+      }
+
+      if (typeof rule.id !== 'string' || rule.id.trim() === '') {
+        problems.push(`${where}.id must be a non-empty string`);
+      } else if (ids.has(rule.id)) {
+        problems.push(`${where}.id '${rule.id}' is used by another rule`);
+      } else {
+        ids.add(rule.id);
+      }
+      if (rule.description !== undefined && typeof rule.description !== 'string') {
+        problems.push(`${where}.description must be a string`);
+      }
+      if (rule.productCategory !== undefined &&
+          (typeof rule.productCategory !== 'string' || rule.productCategory.trim() === '')) {
+        problems.push(`${where}.productCategory must be a non-empty string`);
+      }
+      if (rule.customerRegion !== undefined && !isRegionCode(rule.customerRegion)) {
+        problems.push(`${where}.customerRegion must be an ISO 3166 country or subdivision code (e.g. DE, US-CA)`);
+      }
+      if (rule.effectiveFrom !== undefined && !isDate(rule.effectiveFrom)) {
+        problems.push(`${where}.effectiveFrom must be a date or ISO 8601 timestamp`);
+      }
+      if (rule.effectiveTo !== undefined && !isDate(rule.effectiveTo)) {
+        problems.push(`${where}.effectiveTo must be a date or ISO 8601 timestamp`);
+      }
+      if (isDate(rule.effectiveFrom) && isDate(rule.effectiveTo) &&
+          new Date(rule.effectiveTo).getTime() <= new Date(rule.effectiveFrom).getTime()) {
+        problems.push(`${where}.effectiveTo must be after effectiveFrom`);
+      }
+      if (!Object.values(TaxRuleMode).includes(rule.mode as TaxRuleMode)) {
+        problems.push(`${where}.mode must be ${Object.values(TaxRuleMode).join(' or ')}`);
+      }
+
+      if (!Array.isArray(rule.components) || rule.components.length === 0) {
+        problems.push(`${where}.components must be a non-empty array`);
+        return;
+      }
+      rule.components.forEach((component: unknown, componentIndex: number) => {
+        const at = `${where}.components[${componentIndex}]`;
+        if (!isObject(component)) {
+          problems.push(`${at} must be an object`);
+          return;
+        }
+        if (typeof component.name !== 'string' || component.name.trim() === '') {
+          problems.push(`${at}.name must be a non-empty string`);
+        }
+        if (typeof component.rate !== 'number' || !(component.rate >= 0 && component.rate <= 1)) {
+          problems.push(`${at}.rate must be a decimal between 0 and 1`);
+        }
+        if (component.compound !== undefined && typeof component.compound !== 'boolean') {
+          problems.push(`${at}.compound must be a boolean`);
+        }
+      });
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid tax rules: ${problems.join('; ')}`);
+  }
+
+  return definition as unknown as TaxRuleSetDefinition;
+}
+
+/**
+ * Total rate of stacked tax components: the sum of the rates, with compound
+ * rates also applied to the preceding components' tax. Rounded to 10
+ * decimals so that e.g. 0.05 + 0.09975 is 0.14975.
+ */
+export function getTaxComponentsRate(components: TaxComponent[]): number {
+  const total = components.reduce(
+    (sum, component) => sum + component.rate * (component.compound ? 1 + sum : 1),
+    0
+  );
+
+  return Number(total.toFixed(10));
+}
+
+/**
+ * Check whether a region is or lies in a rule's region
+ */
+function isInRegion(region: string, ruleRegion: string): boolean {
+  return region === ruleRegion || region.startsWith(`${ruleRegion}-`);
+}
+
+/**
+ * Specificity of a rule, compared most significant first: product category,
+ * then region (subdivision before country)
+ */
+function getSpecificity(rule: TaxRule): number[] {
+  return [
+    rule.productCategory !== undefined ? 1 : 0,
+    rule.customerRegion === undefined ? 0 : rule.customerRegion.includes('-') ? 2 : 1,
+  ];
+}
+
+/**
+ * Tax rules keyed by product category, customer region and date.
+ *
+ * Without a definition there are no rules, so the partner-supplied tax
+ * rates apply as sent.
+ */
+export class TaxRuleEngine {
+  private readonly rules: TaxRule[];
+
+  constructor(definition: TaxRuleSetDefinition = { rules: [] }) {
+    this.rules = validateTaxRules(definition).rules;
+  }
+
+  /**
+   * Rules in definition order
+   */
+  getRules(): TaxRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Rule that applies to an order line: among the rules matching its
+   * category, region and date, the most specific one (see getSpecificity),
+   * then the one effective latest, then the first defined. Null when no
+   * rule matches.
+   */
+  findRule(criteria: TaxRuleCriteria): TaxRule | null {
+    const time = criteria.at.getTime();
+
+    const matches = this.rules.filter((rule) =>
+      (rule.productCategory === undefined || rule.productCategory === criteria.productCategory) &&
+      (rule.customerRegion === undefined ||
+        (criteria.customerRegion !== undefined && isInRegion(criteria.customerRegion, rule.customerRegion))) &&
+      (rule.effectiveFrom === undefined || new Date(rule.effectiveFrom).getTime() <= time) &&
+      (rule.effectiveTo === undefined || time < new Date(rule.effectiveTo).getTime())
+    );
+
+    return matches.reduce<TaxRule | null>(
+      (best, rule) => (best === null || this.compare(rule, best) > 0 ? rule : best),
+      null
+    );
+  }
+
+  /**
+   * Positive when rule a takes precedence over rule b
+   */
+  private compare(a: TaxRule, b: TaxRule): number {
+    const specificityA = getSpecificity(a);
+    const specificityB = getSpecificity(b);
+    for (let index = 0; index < specificityA.length; index++) {
+      if (specificityA[index] !== specificityB[index]) {
+        return specificityA[index] - specificityB[index];
+      }
+    }
+
+    const effectiveA = a.effectiveFrom ? new Date(a.effectiveFrom).getTime() : -Infinity;
+    const effectiveB = b.effectiveFrom ? new Date(b.effectiveFrom).getTime() : -Infinity;
+    return effectiveA === effectiveB ? 0 : effectiveA > effectiveB ? 1 : -1;
+  }
+}
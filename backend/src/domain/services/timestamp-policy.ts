@@ -0,0 +1,115 @@
+import { TimestampPolicy, TimestampPolicyDefinition } from '../models';
+
+/**
+ * Policy for partners without one: five minutes of clock skew, ten years
+ * of history
+ */
+export const DEFAULT_TIMESTAMP_POLICY: Readonly<TimestampPolicy> = {
+  maxClockSkewSeconds: 300,
+  maxAgeDays: 3650,
+};
+
+/**
+ * ISO 8601 date-time with seconds and a UTC designator or offset
+ * (the RFC 3339 profile), e.g. 2024-01-15T10:30:00.000Z or 2024-01-15T12:30:00+02:00
+ */
+const ISO_8601_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-](\d{2}):(\d{2}))$/;
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a strict ISO 8601 timestamp. Returns null for anything else,
+ * including strings Date accepts leniently ("March 5", "2024-01-15",
+ * "2024-02-30T10:00:00Z").
+ */
+export function parseISO8601Timestamp(value: string): Date | null {
+  const match = ISO_8601_TIMESTAMP.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const offsetValid = match[8] === 'Z' || (Number(match[9]) <= 23 && Number(match[10]) <= 59);
+
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth ||
+      hour > 23 || minute > 59 || second > 59 || !offsetValid) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate timestamp policies (typically parsed from a JSON file).
+ * Throws with every problem found so broken policies fail at startup.
+ */
+export function validateTimestampPolicies(definition: unknown): TimestampPolicyDefinition {
+  if (!isObject(definition)) {
+    throw new Error('Invalid timestamp policies: definition must be an object');
+  }
+
+  const problems: string[] = [];
+
+  const checkPolicy = (policy: unknown, where: string) => {
+    if (!isObject(policy)) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    if (policy.maxClockSkewSeconds !== undefined &&
+        !(typeof policy.maxClockSkewSeconds === 'number' && policy.maxClockSkewSeconds >= 0)) {
+      problems.push(`${where}.maxClockSkewSeconds must be a non-negative number`);
+    }
+    if (policy.maxAgeDays !== undefined && !(typeof policy.maxAgeDays === 'number' && policy.maxAgeDays > 0)) {
+      problems.push(`${where}.maxAgeDays must be a positive number`);
+    }
+  };
+
+  if (definition.default !== undefined) {
+    checkPolicy(definition.default, 'default');
+  }
+  if (definition.partners !== undefined) {
+    if (!isObject(definition.partners)) {
+      problems.push('partners must be an object keyed by partner ID');
+    } else {
+      for (const [partnerId, policy] of Object.entries(definition.partners)) {
+        checkPolicy(policy, `partners.${partnerId}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid timestamp policies: ${problems.join('; ')}`);
+  }
+
+  return definition as TimestampPolicyDefinition;
+}
+
+/**
+ * Timestamp policies by partner.
+ *
+ * Without a definition every partner uses DEFAULT_TIMESTAMP_POLICY.
+ */
+export class TimestampPolicies {
+  private readonly defaultPolicy: TimestampPolicy;
+  private readonly partners: Record<string, Partial<TimestampPolicy>>;
+
+  constructor(definition: TimestampPolicyDefinition = {}) {
+    const valid = validateTimestampPolicies(definition);
+    this.defaultPolicy = { ...DEFAULT_TIMESTAMP_POLICY, ...valid.default };
+    this.partners = valid.partners ?? {};
+  }
+
+  /**
+   * Policy of a partner (the default policy if it has none)
+   */
+  forPartner(partnerId: string): TimestampPolicy {
+    return { ...this.defaultPolicy, ...this.partners[partnerId] };
+  }
+}
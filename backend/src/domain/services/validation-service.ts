@@ -2,22 +2,36 @@ import {
   PartnerAInput, 
   PartnerBInput, 
   PartnerId, 
-  ValidationResult 
+  ValidationError,
+  ValidationResult,
+  ErrorCode
 } from '../models';
 import { PartnerAValidator } from './partner-a-validator';
 import { PartnerBValidator } from './partner-b-validator';
+import { PartnerRegistry, createDefaultPartnerRegistry } from './partner-registry';
+
+/**
+ * Format validation errors as "field: message" strings for API responses
+ * and logs
+ */
+export function formatValidationErrors(errors: ValidationError[]): string[] {
+  return errors.map((error) => `${error.field}: ${error.message}`);
+}
 
 /**
  * Factory for creating and managing partner validators
  * 
  * This service provides a unified interface for validating input
- * from different partners while maintaining the Open/Closed principle.
+ * from different partners while maintaining the Open/Closed principle:
+ * partner-specific validation is looked up in the PartnerRegistry.
  */
 export class ValidationService {
   private partnerAValidator: PartnerAValidator;
   private partnerBValidator: PartnerBValidator;
 
-  constructor() {
+  constructor(
+    private readonly partnerRegistry: PartnerRegistry = createDefaultPartnerRegistry()
+  ) {
     this.partnerAValidator = new PartnerAValidator();
     this.partnerBValidator = new PartnerBValidator();
   }
@@ -42,23 +56,23 @@ export class ValidationService {
   validateByPartner(
     partnerId: PartnerId, 
     input: unknown
-  ): ValidationResult<PartnerAInput | PartnerBInput> {
-    switch (partnerId) {
-      case PartnerId.PARTNER_A:
-        return this.validatePartnerA(input);
-      case PartnerId.PARTNER_B:
-        return this.validatePartnerB(input);
-      default:
-        return {
-          isValid: false,
-          errors: [{
-            field: 'partnerId',
-            message: `Unknown partner: ${partnerId}`,
-            receivedValue: partnerId,
-            expectedType: 'PARTNER_A | PARTNER_B'
-          }]
-        };
+  ): ValidationResult<unknown> {
+    const adapter = this.partnerRegistry.get(partnerId);
+
+    if (!adapter) {
+      return {
+        isValid: false,
+        errors: [{
+          field: 'partnerId',
+          errorCode: ErrorCode.UNKNOWN_PARTNER,
+          message: `Unknown partner: ${partnerId}`,
+          receivedValue: partnerId,
+          expectedType: this.partnerRegistry.getPartnerIds().join(' | ')
+        }]
+      };
     }
+
+    return adapter.validate(input);
   }
 
   /**
@@ -67,7 +81,7 @@ export class ValidationService {
   validateBatch(
     partnerId: PartnerId,
     inputs: unknown[]
-  ): Array<{ index: number; result: ValidationResult<PartnerAInput | PartnerBInput> }> {
+  ): Array<{ index: number; result: ValidationResult<unknown> }> {
     return inputs.map((input, index) => ({
       index,
       result: this.validateByPartner(partnerId, input)
@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Sign a webhook body.
+ *
+ * The signature covers the timestamp and the raw body
+ * (`${timestamp}.${body}`) so a captured request cannot be replayed later
+ * with a new timestamp. Format: `sha256=<hex HMAC-SHA256>`.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook signature in constant time.
+ * Receivers should also reject timestamps outside their tolerance window.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiKey, PartnerId } from '../../domain/models';
+import { IApiKeyStorePort } from '../../domain/ports/api-key-store.port';
+
+/**
+ * File-based implementation of API key store.
+ * Persists key hashes and their lifecycle to a JSON file readable by the
+ * server user only.
+ */
+export class FileApiKeyStore implements IApiKeyStorePort {
+  private keys: Map<string, ApiKey> = new Map();
+  private keyIdsByHash: Map<string, string> = new Map();
+  private readonly filePath: string;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private readonly debounceMs = 500;
+
+  constructor(dataDir: string = './data') {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.filePath = path.join(dataDir, 'api-keys.json');
+    this.loadFromFile();
+  }
+
+  private loadFromFile(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = fs.readFileSync(this.filePath, 'utf-8');
+        const keys: ApiKey[] = JSON.parse(data);
+        for (const apiKey of keys) {
+          this.keys.set(apiKey.id, apiKey);
+          this.keyIdsByHash.set(apiKey.keyHash, apiKey.id);
+        }
+        console.log(`📂 Loaded ${keys.length} API keys from ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading API keys from file:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => this.saveToFile(), this.debounceMs);
+  }
+
+  private saveToFile(): void {
+    try {
+      const keys = Array.from(this.keys.values());
+      fs.writeFileSync(this.filePath, JSON.stringify(keys, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error(`❌ Error saving API keys to file:`, error);
+    }
+  }
+
+  async save(apiKey: ApiKey): Promise<void> {
+    this.keys.set(apiKey.id, apiKey);
+    this.keyIdsByHash.set(apiKey.keyHash, apiKey.id);
+    this.scheduleSave();
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return this.keys.get(id) ?? null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    const id = this.keyIdsByHash.get(keyHash);
+    return id ? this.keys.get(id) ?? null : null;
+  }
+
+  async list(partnerId?: PartnerId): Promise<ApiKey[]> {
+    const keys = Array.from(this.keys.values());
+    return partnerId ? keys.filter((apiKey) => apiKey.partnerId === partnerId) : keys;
+  }
+
+  async clear(): Promise<void> {
+    this.keys.clear();
+    this.keyIdsByHash.clear();
+    this.scheduleSave();
+  }
+}
+
+/**
+ * In-memory implementation for testing
+ */
+export class InMemoryApiKeyStore implements IApiKeyStorePort {
+  private keys: Map<string, ApiKey> = new Map();
+
+  async save(apiKey: ApiKey): Promise<void> {
+    this.keys.set(apiKey.id, apiKey);
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return this.keys.get(id) ?? null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return Array.from(this.keys.values()).find((apiKey) => apiKey.keyHash === keyHash) ?? null;
+  }
+
+  async list(partnerId?: PartnerId): Promise<ApiKey[]> {
+    const keys = Array.from(this.keys.values());
+    return partnerId ? keys.filter((apiKey) => apiKey.partnerId === partnerId) : keys;
+  }
+
+  async clear(): Promise<void> {
+    this.keys.clear();
+  }
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchJob, BatchJobStatus } from '../../domain/models';
+import { IBatchJobRepositoryPort } from '../../domain/ports/batch-job-repository.port';
+
+/** Default retention for finished jobs: 24 hours after completion */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a job finished longer ago than the retention window.
+ * Jobs still pending or running are never expired.
+ */
+function isExpired(job: BatchJob, ttlMs: number): boolean {
+  return job.completedAt !== undefined && Date.now() - new Date(job.completedAt).getTime() > ttlMs;
+}
+
+/**
+ * Remove the finished jobs past the retention window; returns whether any was removed.
+ */
+function pruneExpired(jobs: Map<string, BatchJob>, ttlMs: number): boolean {
+  let pruned = false;
+  for (const [id, job] of jobs) {
+    if (isExpired(job, ttlMs)) {
+      jobs.delete(id);
+      pruned = true;
+    }
+  }
+  return pruned;
+}
+
+/**
+ * File-based implementation of batch job repository.
+ * Persists jobs (status, progress and results) to a JSON file so job status
+ * survives a restart. Finished jobs are removed once past the retention window.
+ */
+export class FileBatchJobRepository implements IBatchJobRepositoryPort {
+  private jobs: Map<string, BatchJob> = new Map();
+  private readonly filePath: string;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private readonly debounceMs = 500;
+
+  constructor(dataDir: string = './data', private readonly ttlMs: number = DEFAULT_TTL_MS) {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.filePath = path.join(dataDir, 'jobs.json');
+    this.loadFromFile();
+  }
+
+  private loadFromFile(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = fs.readFileSync(this.filePath, 'utf-8');
+        const jobs: BatchJob[] = JSON.parse(data);
+        for (const job of jobs) {
+          if (!isExpired(job, this.ttlMs)) {
+            this.jobs.set(job.id, job);
+          }
+        }
+        console.log(`📂 Loaded ${this.jobs.size} batch jobs from ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading batch jobs from file:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => this.saveToFile(), this.debounceMs);
+  }
+
+  private saveToFile(): void {
+    try {
+      const jobs = Array.from(this.jobs.values());
+      fs.writeFileSync(this.filePath, JSON.stringify(jobs, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`❌ Error saving batch jobs to file:`, error);
+    }
+  }
+
+  async save(job: BatchJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    // Finishing a job is a good moment to drop old ones
+    if (job.completedAt) {
+      pruneExpired(this.jobs, this.ttlMs);
+    }
+    this.scheduleSave();
+  }
+
+  async findById(id: string): Promise<BatchJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (isExpired(job, this.ttlMs)) {
+      this.jobs.delete(id);
+      this.scheduleSave();
+      return null;
+    }
+    return job;
+  }
+
+  async findByStatus(statuses: BatchJobStatus[]): Promise<BatchJob[]> {
+    return Array.from(this.jobs.values()).filter((job) => statuses.includes(job.status));
+  }
+
+  async clear(): Promise<void> {
+    this.jobs.clear();
+    this.scheduleSave();
+  }
+}
+
+/**
+ * In-memory implementation for testing
+ */
+export class InMemoryBatchJobRepository implements IBatchJobRepositoryPort {
+  private jobs: Map<string, BatchJob> = new Map();
+
+  constructor(private readonly ttlMs: number = DEFAULT_TTL_MS) {}
+
+  async save(job: BatchJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    if (job.completedAt) {
+      pruneExpired(this.jobs, this.ttlMs);
+    }
+  }
+
+  async findById(id: string): Promise<BatchJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (isExpired(job, this.ttlMs)) {
+      this.jobs.delete(id);
+      return null;
+    }
+    return job;
+  }
+
+  async findByStatus(statuses: BatchJobStatus[]): Promise<BatchJob[]> {
+    return Array.from(this.jobs.values()).filter((job) => statuses.includes(job.status));
+  }
+
+  async clear(): Promise<void> {
+    this.jobs.clear();
+  }
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import { BusinessRuleSetDefinition } from '../../domain/models';
+import { BusinessRules, validateBusinessRules } from '../../domain/services/business-rules';
+
+/**
+ * Load business rules from a JSON file.
+ * A missing file yields no rules, an invalid file fails loudly.
+ */
+export function loadBusinessRules(filePath: string): BusinessRuleSetDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read business rules ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateBusinessRules(definition);
+}
+
+/**
+ * Business rule watcher configuration
+ */
+export interface BusinessRuleWatcherOptions {
+  /** Business rules file */
+  filePath: string;
+  /** How often the file is checked for changes (default: 2s) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Hot reload of the business rules file.
+ *
+ * Polls the file's modification time and replaces the rules when it
+ * changes; a removed file removes every rule. An invalid file is logged
+ * and the current rules stay in force until the file is fixed.
+ */
+export class BusinessRuleWatcher {
+  private readonly filePath: string;
+  private readonly pollIntervalMs: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private lastModified: number | null;
+
+  constructor(private readonly rules: BusinessRules, options: BusinessRuleWatcherOptions) {
+    this.filePath = options.filePath;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    // The rules were loaded from the file as it is now
+    this.lastModified = this.getModifiedTime();
+  }
+
+  /**
+   * Check the file for changes every poll interval.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.reloadIfChanged(), this.pollIntervalMs);
+    // Polling must not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reload the rules if the file changed since they were loaded.
+   * Returns whether new rules are in force.
+   */
+  reloadIfChanged(): boolean {
+    const modified = this.getModifiedTime();
+    if (modified === this.lastModified) {
+      return false;
+    }
+    this.lastModified = modified;
+
+    try {
+      this.rules.replace(loadBusinessRules(this.filePath) ?? { partners: {} });
+      console.log(`🔄 Reloaded business rules from ${this.filePath}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Keeping the current business rules: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  // ============ Private Helper Methods ============
+
+  private getModifiedTime(): number | null {
+    try {
+      return fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      return null;
+    }
+  }
+}
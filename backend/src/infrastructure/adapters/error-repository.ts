@@ -10,6 +10,13 @@ import {
   ErrorStatistics,
 } from '../../domain/ports/error-repository.port';
 
+/**
+ * Check whether an error event or one of its field-level errors has an error code
+ */
+function hasErrorCode(error: ErrorEvent, errorCode: ErrorCode): boolean {
+  return error.errorCode === errorCode || error.details.some((detail) => detail.errorCode === errorCode);
+}
+
 /**
  * File-based implementation of error repository.
  * Persists error events to a JSON file.
@@ -86,7 +93,7 @@ export class FileErrorRepository implements IErrorRepositoryPort {
         results = results.filter((e) => e.partnerId === filters.partnerId);
       }
       if (filters.errorCode) {
-        results = results.filter((e) => e.errorCode === filters.errorCode);
+        results = results.filter((e) => hasErrorCode(e, filters.errorCode!));
       }
       if (filters.fromDate) {
         results = results.filter((e) => new Date(e.timestamp) >= filters.fromDate!);
@@ -94,6 +101,9 @@ export class FileErrorRepository implements IErrorRepositoryPort {
       if (filters.toDate) {
         results = results.filter((e) => new Date(e.timestamp) <= filters.toDate!);
       }
+      if (filters.resolved !== undefined) {
+        results = results.filter((e) => (e.resolution !== undefined) === filters.resolved);
+      }
     }
 
     // Sort by timestamp descending (most recent first)
@@ -144,6 +154,7 @@ export class FileErrorRepository implements IErrorRepositoryPort {
       errorsByPartner,
       errorsByCode,
       last24Hours,
+      resolvedErrors: errors.filter((error) => error.resolution).length,
     };
   }
 
@@ -185,7 +196,10 @@ export class InMemoryErrorRepository implements IErrorRepositoryPort {
       results = results.filter((e) => e.partnerId === filters.partnerId);
     }
     if (filters?.errorCode) {
-      results = results.filter((e) => e.errorCode === filters.errorCode);
+      results = results.filter((e) => hasErrorCode(e, filters.errorCode!));
+    }
+    if (filters?.resolved !== undefined) {
+      results = results.filter((e) => (e.resolution !== undefined) === filters.resolved);
     }
 
     results.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
@@ -217,7 +231,8 @@ export class InMemoryErrorRepository implements IErrorRepositoryPort {
       }
     }
 
-    return { totalErrors: errors.length, errorsByPartner, errorsByCode, last24Hours };
+    const resolvedErrors = errors.filter((error) => error.resolution).length;
+    return { totalErrors: errors.length, errorsByPartner, errorsByCode, last24Hours, resolvedErrors };
   }
 
   async count(): Promise<number> {
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import { FxRateTableDefinition } from '../../domain/models';
+import { validateFxRateTable } from '../../domain/services/fx-rate-table';
+
+/**
+ * Load the FX rate table from a JSON file.
+ * A missing file yields no table (orders are accepted in the base currency
+ * only), an invalid file fails loudly.
+ */
+export function loadFxRateTable(filePath: string): FxRateTableDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read FX rate table ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateFxRateTable(definition);
+}
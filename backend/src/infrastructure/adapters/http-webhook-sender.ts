@@ -0,0 +1,23 @@
+import { IWebhookSenderPort, WebhookSendResult } from '../../domain/ports';
+
+/**
+ * Webhook sender using HTTP POST (Node's built-in fetch).
+ * Requests are aborted after the timeout so a slow partner cannot hold deliveries.
+ */
+export class HttpWebhookSender implements IWebhookSenderPort {
+  constructor(private readonly timeoutMs: number = 10000) {}
+
+  async send(url: string, body: string, headers: Record<string, string>): Promise<WebhookSendResult> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    return { statusCode: response.status };
+  }
+}
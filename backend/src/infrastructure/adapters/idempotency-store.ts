@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IIdempotencyStorePort, IdempotencyRecord } from '../../domain/ports/idempotency-store.port';
+
+/** Default retention for idempotency records: 24 hours */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a record is older than the retention window.
+ */
+function isExpired(record: IdempotencyRecord, ttlMs: number): boolean {
+  return Date.now() - new Date(record.createdAt).getTime() > ttlMs;
+}
+
+/**
+ * File-based implementation of idempotency store.
+ * Persists replayable responses to a JSON file so retries after a restart
+ * still receive the original response.
+ */
+export class FileIdempotencyStore implements IIdempotencyStorePort {
+  private records: Map<string, IdempotencyRecord> = new Map();
+  private readonly filePath: string;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private readonly debounceMs = 500;
+
+  constructor(dataDir: string = './data', private readonly ttlMs: number = DEFAULT_TTL_MS) {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.filePath = path.join(dataDir, 'idempotency-keys.json');
+    this.loadFromFile();
+  }
+
+  private loadFromFile(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = fs.readFileSync(this.filePath, 'utf-8');
+        const records: IdempotencyRecord[] = JSON.parse(data);
+        for (const record of records) {
+          if (!isExpired(record, this.ttlMs)) {
+            this.records.set(record.key, record);
+          }
+        }
+        console.log(`📂 Loaded ${this.records.size} idempotency keys from ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading idempotency keys from file:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => this.saveToFile(), this.debounceMs);
+  }
+
+  private saveToFile(): void {
+    try {
+      const records = Array.from(this.records.values());
+      fs.writeFileSync(this.filePath, JSON.stringify(records, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`❌ Error saving idempotency keys to file:`, error);
+    }
+  }
+
+  async find(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) return null;
+    if (isExpired(record, this.ttlMs)) {
+      this.records.delete(key);
+      this.scheduleSave();
+      return null;
+    }
+    return record;
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    this.records.set(record.key, record);
+    this.scheduleSave();
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.scheduleSave();
+  }
+}
+
+/**
+ * In-memory implementation for testing
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStorePort {
+  private records: Map<string, IdempotencyRecord> = new Map();
+
+  constructor(private readonly ttlMs: number = DEFAULT_TTL_MS) {}
+
+  async find(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) return null;
+    if (isExpired(record, this.ttlMs)) {
+      this.records.delete(key);
+      return null;
+    }
+    return record;
+  }
+
+  async save(record: IdempotencyRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
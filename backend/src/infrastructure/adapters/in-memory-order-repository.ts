@@ -1,4 +1,4 @@
-import { OrderEvent, PartnerId } from '../../domain/models';
+import { OrderEvent, PartnerId, MinorUnitAmounts } from '../../domain/models';
 import {
   IOrderRepositoryPort,
   OrderQueryFilters,
@@ -7,6 +7,11 @@ import {
   PaginatedResult,
   OrderStatistics,
 } from '../../domain/ports';
+import { getOrderStatus } from '../../domain/services/order-status';
+import { orderHasProduct } from '../../domain/services/order-line-items';
+import { hasWarning, hasWarnings } from '../../domain/services/order-warnings';
+import { getBaseAmounts } from '../../domain/services/fx-rate-table';
+import { divideMinorUnits, fromMinorUnits, getMinorUnitAmounts } from '../../domain/services/money';
 
 /**
  * In-memory implementation of order repository.
@@ -133,8 +138,13 @@ export class InMemoryOrderRepository implements IOrderRepositoryPort {
         return false;
       }
 
-      // Product filter
-      if (filters.productId && order.productId !== filters.productId) {
+      // Product filter (any line of the order)
+      if (filters.productId && !orderHasProduct(order, filters.productId)) {
+        return false;
+      }
+
+      // Status filter
+      if (filters.status && getOrderStatus(order) !== filters.status) {
         return false;
       }
 
@@ -150,11 +160,20 @@ export class InMemoryOrderRepository implements IOrderRepositoryPort {
       }
 
       // Amount range filters
-      if (filters.minAmount !== undefined && order.grossAmount < filters.minAmount) {
+      if (filters.minAmount !== undefined && getBaseAmounts(order).grossAmount < filters.minAmount) {
+        return false;
+      }
+
+      if (filters.maxAmount !== undefined && getBaseAmounts(order).grossAmount > filters.maxAmount) {
         return false;
       }
 
-      if (filters.maxAmount !== undefined && order.grossAmount > filters.maxAmount) {
+      // Validation warning filters
+      if (filters.hasWarnings !== undefined && hasWarnings(order) !== filters.hasWarnings) {
+        return false;
+      }
+
+      if (filters.warningCode && !hasWarning(order, filters.warningCode)) {
         return false;
       }
 
@@ -189,7 +208,7 @@ export class InMemoryOrderRepository implements IOrderRepositoryPort {
           comparison = new Date(a.transactionTime).getTime() - new Date(b.transactionTime).getTime();
           break;
         case 'grossAmount':
-          comparison = a.grossAmount - b.grossAmount;
+          comparison = getBaseAmounts(a).grossAmount - getBaseAmounts(b).grossAmount;
           break;
         case 'sequenceNumber':
           comparison = a.sequenceNumber - b.sequenceNumber;
@@ -207,44 +226,69 @@ export class InMemoryOrderRepository implements IOrderRepositoryPort {
     let orders = Array.from(this.orders.values());
     orders = this.applyFilters(orders, filters);
 
-    const ordersByPartner: Record<PartnerId, number> = {
-      [PartnerId.PARTNER_A]: 0,
-      [PartnerId.PARTNER_B]: 0,
-    };
-
-    const highestSequence: Record<PartnerId, number> = {
-      [PartnerId.PARTNER_A]: 0,
-      [PartnerId.PARTNER_B]: 0,
-    };
+    // Keyed by partners that have orders; registered partners without
+    // orders are filled in by OrderQueryService
+    const ordersByPartner: Record<PartnerId, number> = {};
+    const highestSequence: Record<PartnerId, number> = {};
 
-    let totalGrossAmount = 0;
-    let totalTaxAmount = 0;
-    let totalNetAmount = 0;
+    // Totals in integer minor units of the base currency (exact sums)
+    const totals: Required<MinorUnitAmounts> = { digits: 2, grossAmount: 0, discountAmount: 0, taxAmount: 0, netAmount: 0 };
+    let totalOrders = 0;
+    let cancelledOrders = 0;
+    const promoCodeRedemptions: Record<string, number> = {};
+    let ordersWithWarnings = 0;
+    const warningsByCode: Record<string, number> = {};
 
     for (const order of orders) {
-      ordersByPartner[order.partnerId]++;
-      totalGrossAmount += order.grossAmount;
-      totalTaxAmount += order.taxAmount;
-      totalNetAmount += order.netAmount;
-
-      if (order.sequenceNumber > highestSequence[order.partnerId]) {
+      // Cancelled orders keep their sequence number but no longer count
+      if (order.sequenceNumber > (highestSequence[order.partnerId] ?? 0)) {
         highestSequence[order.partnerId] = order.sequenceNumber;
       }
+
+      if (order.cancelledAt) {
+        cancelledOrders++;
+        continue;
+      }
+
+      totalOrders++;
+      ordersByPartner[order.partnerId] = (ordersByPartner[order.partnerId] ?? 0) + 1;
+      // Orders in other currencies count at their converted amounts
+      const baseAmounts = getBaseAmounts(order);
+      const amounts = getMinorUnitAmounts(baseAmounts, baseAmounts.currency);
+      totals.digits = amounts.digits;
+      totals.grossAmount += amounts.grossAmount;
+      totals.discountAmount += amounts.discountAmount;
+      totals.taxAmount += amounts.taxAmount;
+      totals.netAmount += amounts.netAmount;
+
+      for (const promotion of order.appliedPromotions ?? []) {
+        promoCodeRedemptions[promotion.code] = (promoCodeRedemptions[promotion.code] ?? 0) + 1;
+      }
+
+      if (hasWarnings(order)) ordersWithWarnings++;
+      for (const warning of order.warnings ?? []) {
+        warningsByCode[warning.errorCode] = (warningsByCode[warning.errorCode] ?? 0) + 1;
+      }
     }
 
-    const totalOrders = orders.length;
-    const averageOrderValue = totalOrders > 0 
-      ? Math.round((totalGrossAmount / totalOrders) * 100) / 100 
+    const averageOrderValue = totalOrders > 0
+      ? fromMinorUnits(divideMinorUnits(totals.grossAmount, totalOrders), totals.digits)
       : 0;
 
     return {
       totalOrders,
       ordersByPartner,
-      totalGrossAmount: Math.round(totalGrossAmount * 100) / 100,
-      totalTaxAmount: Math.round(totalTaxAmount * 100) / 100,
-      totalNetAmount: Math.round(totalNetAmount * 100) / 100,
+      totalGrossAmount: fromMinorUnits(totals.grossAmount, totals.digits),
+      totalDiscountAmount: fromMinorUnits(totals.discountAmount, totals.digits),
+      totalTaxAmount: fromMinorUnits(totals.taxAmount, totals.digits),
+      totalNetAmount: fromMinorUnits(totals.netAmount, totals.digits),
       averageOrderValue,
+      minorUnits: totals,
       highestSequence,
+      cancelledOrders,
+      promoCodeRedemptions,
+      ordersWithWarnings,
+      warningsByCode,
     };
   }
 
@@ -265,6 +309,11 @@ export class InMemoryOrderRepository implements IOrderRepositoryPort {
     this.externalIdIndex.clear();
   }
 
+  /**
+   * Nothing to write: orders only live in memory
+   */
+  async flush(): Promise<void> {}
+
   /**
    * Get all orders (for testing/debugging)
    */
@@ -4,8 +4,14 @@ import {
   StreamEvent,
   ValidOrderPayload,
   ErrorOrderPayload,
+  OrderAmendedPayload,
+  OrderCancelledPayload,
+  OrderStatusChangedPayload,
   ValidOrderListener,
   ErrorOrderListener,
+  OrderAmendedListener,
+  OrderCancelledListener,
+  OrderStatusChangedListener,
 } from '../../domain/ports';
 
 /**
@@ -18,7 +24,11 @@ export class InMemoryOrderStream implements IOrderStreamPort {
   private validOrderHistory: ValidOrderPayload[] = [];
   private errorOrderHistory: ErrorOrderPayload[] = [];
 
-  constructor() {
+  /**
+   * @param maxHistorySize Number of recent events kept per history, so
+   *                       large ingestions do not grow memory without bound
+   */
+  constructor(private readonly maxHistorySize: number = 1000) {
     this.emitter = new EventEmitter();
     // Increase max listeners to avoid warnings in tests
     this.emitter.setMaxListeners(100);
@@ -29,6 +39,9 @@ export class InMemoryOrderStream implements IOrderStreamPort {
    */
   emitValidOrder(payload: ValidOrderPayload): void {
     this.validOrderHistory.push(payload);
+    if (this.validOrderHistory.length > this.maxHistorySize) {
+      this.validOrderHistory.shift();
+    }
     this.emitter.emit(StreamEvent.VALID_ORDER, payload);
   }
 
@@ -37,9 +50,33 @@ export class InMemoryOrderStream implements IOrderStreamPort {
    */
   emitErrorOrder(payload: ErrorOrderPayload): void {
     this.errorOrderHistory.push(payload);
+    if (this.errorOrderHistory.length > this.maxHistorySize) {
+      this.errorOrderHistory.shift();
+    }
     this.emitter.emit(StreamEvent.ERROR_ORDER, payload);
   }
 
+  /**
+   * Emit an order amendment to all subscribers.
+   */
+  emitOrderAmended(payload: OrderAmendedPayload): void {
+    this.emitter.emit(StreamEvent.ORDER_AMENDED, payload);
+  }
+
+  /**
+   * Emit an order cancellation to all subscribers.
+   */
+  emitOrderCancelled(payload: OrderCancelledPayload): void {
+    this.emitter.emit(StreamEvent.ORDER_CANCELLED, payload);
+  }
+
+  /**
+   * Emit an order status change to all subscribers.
+   */
+  emitOrderStatusChanged(payload: OrderStatusChangedPayload): void {
+    this.emitter.emit(StreamEvent.ORDER_STATUS_CHANGED, payload);
+  }
+
   /**
    * Subscribe to valid order events.
    */
@@ -54,6 +91,27 @@ export class InMemoryOrderStream implements IOrderStreamPort {
     this.emitter.on(StreamEvent.ERROR_ORDER, listener);
   }
 
+  /**
+   * Subscribe to order amendments.
+   */
+  onOrderAmended(listener: OrderAmendedListener): void {
+    this.emitter.on(StreamEvent.ORDER_AMENDED, listener);
+  }
+
+  /**
+   * Subscribe to order cancellations.
+   */
+  onOrderCancelled(listener: OrderCancelledListener): void {
+    this.emitter.on(StreamEvent.ORDER_CANCELLED, listener);
+  }
+
+  /**
+   * Subscribe to order status changes.
+   */
+  onOrderStatusChanged(listener: OrderStatusChangedListener): void {
+    this.emitter.on(StreamEvent.ORDER_STATUS_CHANGED, listener);
+  }
+
   /**
    * Unsubscribe from valid order events.
    */
@@ -68,6 +126,27 @@ export class InMemoryOrderStream implements IOrderStreamPort {
     this.emitter.off(StreamEvent.ERROR_ORDER, listener);
   }
 
+  /**
+   * Unsubscribe from order amendments.
+   */
+  offOrderAmended(listener: OrderAmendedListener): void {
+    this.emitter.off(StreamEvent.ORDER_AMENDED, listener);
+  }
+
+  /**
+   * Unsubscribe from order cancellations.
+   */
+  offOrderCancelled(listener: OrderCancelledListener): void {
+    this.emitter.off(StreamEvent.ORDER_CANCELLED, listener);
+  }
+
+  /**
+   * Unsubscribe from order status changes.
+   */
+  offOrderStatusChanged(listener: OrderStatusChangedListener): void {
+    this.emitter.off(StreamEvent.ORDER_STATUS_CHANGED, listener);
+  }
+
   /**
    * Get count of valid order listeners.
    */
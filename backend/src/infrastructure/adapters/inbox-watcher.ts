@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FeedHandler } from '../../application/services/feed-handler';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { IIngestionLedgerPort, IOrderRepositoryPort, IPartnerAdapter } from '../../domain/ports';
+import { BatchJobOrderResult, IngestedFile, IngestedFileStatus, PartnerId } from '../../domain/models';
+import {
+  NumberedResult,
+  processCsvContent,
+  processJsonContent,
+  processNdjsonContent,
+} from '../formats/feed-content-processor';
+
+/** Subfolder of a partner inbox that receives consumed files */
+export const PROCESSED_FOLDER = 'processed';
+
+/** Subfolder of a partner inbox that receives files that could not be read */
+export const FAILED_FOLDER = 'failed';
+
+/** Suffix of the report written beside every consumed file */
+export const REPORT_SUFFIX = '.report.json';
+
+type FileFormat = 'json' | 'ndjson' | 'csv';
+
+const FORMATS_BY_EXTENSION: Readonly<Record<string, FileFormat>> = {
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.csv': 'csv',
+};
+
+/** Files that are still being written by the partner (or are hidden) */
+const IN_PROGRESS_FILE = /^\.|\.(tmp|part|partial)$/i;
+
+/**
+ * Inbox watcher configuration
+ */
+export interface InboxWatcherOptions {
+  /** Root folder holding one inbox folder per partner, named by partner slug */
+  inboxDir: string;
+  /** How often the inbox folders are scanned (default: 5s) */
+  pollIntervalMs?: number;
+  /** Files modified more recently are assumed to be still being written (default: 2s) */
+  minFileAgeMs?: number;
+}
+
+/**
+ * Result of one order in an ingested file
+ */
+export type InboxRecordResult = BatchJobOrderResult & {
+  /** CSV file line, NDJSON line or JSON array item (1-based) */
+  line: number;
+};
+
+/**
+ * Report written beside every consumed file (`<file>.report.json`)
+ */
+export interface InboxFileReport {
+  file: string;
+  partnerId: PartnerId;
+  /** skipped: the same content was already ingested and was not processed again */
+  status: 'processed' | 'failed' | 'skipped';
+  sha256: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  results: InboxRecordResult[];
+  error?: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Convert a numbered feed processing result to its report representation.
+ */
+function toRecordResult({ line, result }: NumberedResult): InboxRecordResult {
+  return result.success
+    ? { line, status: 'accepted', orderId: result.orderId, partnerId: result.partnerId, sequenceNumber: result.sequenceNumber }
+    : {
+        line,
+        status: 'rejected',
+        orderId: result.orderId,
+        partnerId: result.partnerId,
+        errors: result.errors ?? [],
+        ...(result.errorCode && { errorCode: result.errorCode }),
+      };
+}
+
+/**
+ * SHA-256 of a file, read as a stream so large files use bounded memory.
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Drop-directory ingestion.
+ *
+ * Polls `<inboxDir>/<partner-slug>/` for JSON (single order or array), NDJSON
+ * (.ndjson/.jsonl) and CSV files and processes each file as one batch
+ * through the FeedHandler. Consumed files are moved to `processed/` (even if
+ * some orders were rejected) or to `failed/` (unsupported or unreadable)
+ * with a `<file>.report.json` beside them.
+ *
+ * Every file is recorded in the ingestion ledger by content hash before it
+ * is processed, so after a restart content that was already consumed is
+ * moved aside without being processed again. A file interrupted mid-way is
+ * processed again; its already accepted orders are rejected as duplicates.
+ * Accepted orders are flushed to the order repository before a file is
+ * recorded as processed, so a crash cannot lose orders of a consumed file.
+ */
+export class InboxWatcher {
+  private readonly inboxDir: string;
+  private readonly pollIntervalMs: number;
+  private readonly minFileAgeMs: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private scanning: Promise<IngestedFile[]> | null = null;
+
+  constructor(
+    private readonly feedHandler: FeedHandler,
+    private readonly orderRepository: IOrderRepositoryPort,
+    private readonly partnerRegistry: PartnerRegistry,
+    private readonly ledger: IIngestionLedgerPort,
+    options: InboxWatcherOptions
+  ) {
+    this.inboxDir = options.inboxDir;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.minFileAgeMs = options.minFileAgeMs ?? 2000;
+  }
+
+  /**
+   * Scan the inbox folders now and then every poll interval.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const scan = () => {
+      this.scanOnce().catch((error) => console.error('❌ Error scanning inbox:', error));
+    };
+    this.timer = setInterval(scan, this.pollIntervalMs);
+    // Polling must not keep the process alive
+    this.timer.unref();
+    scan();
+  }
+
+  /**
+   * Stop polling and wait for a scan in progress to finish.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.scanning;
+  }
+
+  /**
+   * Get a partner's inbox folder
+   */
+  getPartnerInbox(partner: IPartnerAdapter): string {
+    return path.join(this.inboxDir, partner.slug);
+  }
+
+  /**
+   * Ingest every ready file in the partner inbox folders once.
+   * Returns the ledger entries of the files consumed by this scan.
+   * Concurrent calls share the scan in progress.
+   */
+  scanOnce(): Promise<IngestedFile[]> {
+    if (!this.scanning) {
+      this.scanning = this.scan().finally(() => {
+        this.scanning = null;
+      });
+    }
+    return this.scanning;
+  }
+
+  // ============ Private Helper Methods ============
+
+  private async scan(): Promise<IngestedFile[]> {
+    const consumed: IngestedFile[] = [];
+
+    for (const partner of this.partnerRegistry.list()) {
+      const inbox = this.getPartnerInbox(partner);
+      fs.mkdirSync(inbox, { recursive: true });
+
+      const fileNames = fs.readdirSync(inbox).filter((name) => !IN_PROGRESS_FILE.test(name)).sort();
+
+      for (const fileName of fileNames) {
+        const entry = await this.ingest(partner, inbox, fileName);
+        if (entry) {
+          consumed.push(entry);
+        }
+      }
+    }
+
+    return consumed;
+  }
+
+  /**
+   * Ingest one file; returns null if it is not ready yet or its content
+   * was already ingested (the file is then moved aside unprocessed).
+   */
+  private async ingest(partner: IPartnerAdapter, inbox: string, fileName: string): Promise<IngestedFile | null> {
+    const filePath = path.join(inbox, fileName);
+    const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+
+    if (!stats?.isFile() || this.isBeingWritten(stats)) {
+      return null;
+    }
+
+    const startedAt = new Date().toISOString();
+    const sha256 = await hashFile(filePath);
+    const id = `${partner.partnerId}:${sha256}`;
+
+    const previous = await this.ledger.findById(id);
+    if (previous?.status === IngestedFileStatus.PROCESSED) {
+      this.moveAndReport(filePath, PROCESSED_FOLDER, {
+        file: fileName,
+        partnerId: partner.partnerId,
+        status: 'skipped',
+        sha256,
+        total: 0,
+        accepted: 0,
+        rejected: 0,
+        results: [],
+        error: `Content already ingested from ${previous.fileName} at ${previous.completedAt}`,
+        startedAt,
+        completedAt: new Date().toISOString(),
+      });
+      return null;
+    }
+
+    const entry: IngestedFile = {
+      id,
+      partnerId: partner.partnerId,
+      sha256,
+      fileName,
+      status: IngestedFileStatus.PROCESSING,
+      total: 0,
+      accepted: 0,
+      rejected: 0,
+      startedAt,
+    };
+    await this.ledger.save(entry);
+
+    let results: InboxRecordResult[] = [];
+    try {
+      results = (await this.process(partner, filePath)).map(toRecordResult);
+      await this.orderRepository.flush();
+      entry.status = IngestedFileStatus.PROCESSED;
+    } catch (error) {
+      entry.status = IngestedFileStatus.FAILED;
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    entry.total = results.length;
+    entry.accepted = results.filter((r) => r.status === 'accepted').length;
+    entry.rejected = entry.total - entry.accepted;
+    entry.completedAt = new Date().toISOString();
+    await this.ledger.save(entry);
+
+    const failed = entry.status === IngestedFileStatus.FAILED;
+    this.moveAndReport(filePath, failed ? FAILED_FOLDER : PROCESSED_FOLDER, {
+      file: fileName,
+      partnerId: partner.partnerId,
+      status: failed ? 'failed' : 'processed',
+      sha256,
+      total: entry.total,
+      accepted: entry.accepted,
+      rejected: entry.rejected,
+      results,
+      ...(entry.error && { error: entry.error }),
+      startedAt,
+      completedAt: entry.completedAt,
+    });
+
+    console.log(
+      `📥 Ingested ${fileName} for ${partner.partnerId}: ${entry.status} ` +
+        `(accepted=${entry.accepted} rejected=${entry.rejected})`
+    );
+    return entry;
+  }
+
+  /**
+   * Whether a file was modified too recently to be complete.
+   * File times can be slightly ahead of the process clock, so a zero
+   * minimum age disables the check rather than comparing against it.
+   */
+  private isBeingWritten(stats: fs.Stats): boolean {
+    return this.minFileAgeMs > 0 && Date.now() - stats.mtimeMs < this.minFileAgeMs;
+  }
+
+  /**
+   * Process a file by its format. Throws when the file cannot be read as a feed.
+   */
+  private async process(partner: IPartnerAdapter, filePath: string): Promise<NumberedResult[]> {
+    const extension = path.extname(filePath).toLowerCase();
+    const format = FORMATS_BY_EXTENSION[extension];
+
+    switch (format) {
+      case 'json':
+        return processJsonContent(this.feedHandler, partner, fs.readFileSync(filePath, 'utf-8'));
+      case 'csv':
+        return processCsvContent(this.feedHandler, partner, fs.readFileSync(filePath, 'utf-8'));
+      case 'ndjson': {
+        const results: NumberedResult[] = [];
+        for await (const result of processNdjsonContent(this.feedHandler, partner, fs.createReadStream(filePath))) {
+          results.push(result);
+        }
+        return results;
+      }
+      default:
+        throw new Error(`Unsupported file type: ${extension || path.basename(filePath)}`);
+    }
+  }
+
+  /**
+   * Move a consumed file into a subfolder of its inbox and write its report beside it.
+   * The file is moved first so a crash can never leave a report for a file
+   * that is still waiting in the inbox.
+   */
+  private moveAndReport(filePath: string, folder: string, report: InboxFileReport): void {
+    const targetDir = path.join(path.dirname(filePath), folder);
+    fs.mkdirSync(targetDir, { recursive: true });
+
+    const targetPath = uniquePath(targetDir, path.basename(filePath));
+    fs.renameSync(filePath, targetPath);
+    fs.writeFileSync(`${targetPath}${REPORT_SUFFIX}`, JSON.stringify(report, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Path for a file in a folder, with a timestamp added to the name when
+ * a file of that name was consumed before.
+ */
+function uniquePath(dir: string, fileName: string): string {
+  const target = path.join(dir, fileName);
+  if (!fs.existsSync(target)) {
+    return target;
+  }
+
+  const extension = path.extname(fileName);
+  const stamp = new Date().toISOString().replace(/[-:.]/g, '');
+  return path.join(dir, `${path.basename(fileName, extension)}-${stamp}${extension}`);
+}
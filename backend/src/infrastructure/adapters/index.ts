@@ -4,3 +4,20 @@ export { InMemoryOrderRepository } from './in-memory-order-repository';
 export { FileOrderRepository } from './file-order-repository';
 export { FileSequenceManager } from './file-sequence-manager';
 export { FileErrorRepository, InMemoryErrorRepository } from './error-repository';
+export { FileIdempotencyStore, InMemoryIdempotencyStore } from './idempotency-store';
+export { loadPartnerMappings } from './partner-mapping-loader';
+export { loadFxRateTable } from './fx-rate-loader';
+export { loadTaxRules } from './tax-rule-loader';
+export { loadPromotionCatalog } from './promotion-catalog-loader';
+export { loadTimestampPolicies } from './timestamp-policy-loader';
+export { loadRateLimitPolicies } from './rate-limit-policy-loader';
+export { loadRequestSigning } from './request-signing-loader';
+export { loadBusinessRules, BusinessRuleWatcher } from './business-rule-loader';
+export type { BusinessRuleWatcherOptions } from './business-rule-loader';
+export { FileBatchJobRepository, InMemoryBatchJobRepository } from './batch-job-repository';
+export { FileApiKeyStore, InMemoryApiKeyStore } from './api-key-store';
+export { FileWebhookRepository, InMemoryWebhookRepository } from './webhook-repository';
+export { HttpWebhookSender } from './http-webhook-sender';
+export { FileIngestionLedger, InMemoryIngestionLedger } from './ingestion-ledger';
+export { InboxWatcher } from './inbox-watcher';
+export type { InboxWatcherOptions, InboxFileReport, InboxRecordResult } from './inbox-watcher';
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IngestedFile } from '../../domain/models';
+import { IIngestionLedgerPort } from '../../domain/ports/ingestion-ledger.port';
+
+/**
+ * File-based implementation of the ingestion ledger.
+ * Unlike the other file stores, every change is written immediately: the
+ * ledger is what prevents a file from being processed twice after a crash.
+ */
+export class FileIngestionLedger implements IIngestionLedgerPort {
+  private entries: Map<string, IngestedFile> = new Map();
+  private readonly filePath: string;
+
+  constructor(dataDir: string = './data') {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.filePath = path.join(dataDir, 'ingested-files.json');
+    this.loadFromFile();
+  }
+
+  private loadFromFile(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = fs.readFileSync(this.filePath, 'utf-8');
+        const entries: IngestedFile[] = JSON.parse(data);
+        for (const entry of entries) {
+          this.entries.set(entry.id, entry);
+        }
+        console.log(`📂 Loaded ${entries.length} ingested files from ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading ingested files from file:`, error);
+    }
+  }
+
+  private saveToFile(): void {
+    // Write to a temporary file and rename so a crash never leaves a truncated ledger
+    const tempPath = `${this.filePath}.tmp`;
+    const entries = Array.from(this.entries.values());
+    fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2), 'utf-8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  async save(entry: IngestedFile): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+    this.saveToFile();
+  }
+
+  async findById(id: string): Promise<IngestedFile | null> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async list(): Promise<IngestedFile[]> {
+    return Array.from(this.entries.values(), (entry) => ({ ...entry }));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.saveToFile();
+  }
+}
+
+/**
+ * In-memory implementation for testing
+ */
+export class InMemoryIngestionLedger implements IIngestionLedgerPort {
+  private entries: Map<string, IngestedFile> = new Map();
+
+  async save(entry: IngestedFile): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async findById(id: string): Promise<IngestedFile | null> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async list(): Promise<IngestedFile[]> {
+    return Array.from(this.entries.values(), (entry) => ({ ...entry }));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { PartnerMappingDefinition } from '../../domain/models';
+import { validatePartnerMapping } from '../../domain/services/declarative-partner-adapter';
+
+/** Parsers of the supported mapping file formats by extension */
+const MAPPING_PARSERS: Record<string, (text: string) => unknown> = {
+  '.json': (text) => JSON.parse(text),
+  '.yaml': (text) => yaml.load(text),
+  '.yml': (text) => yaml.load(text),
+};
+
+/**
+ * Load declarative partner mapping definitions from a directory.
+ * Every *.json, *.yaml or *.yml file holds one definition; files are read
+ * in name order. Missing directories yield no definitions, invalid files
+ * fail loudly and other files are skipped with a warning.
+ */
+export function loadPartnerMappings(dir: string): PartnerMappingDefinition[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const files = fs.readdirSync(dir).filter((file) => !file.startsWith('.')).sort();
+  const definitions: PartnerMappingDefinition[] = [];
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    const parse = MAPPING_PARSERS[path.extname(file).toLowerCase()];
+    if (!parse) {
+      console.warn(`⚠️  Skipping ${filePath}: partner mappings must be .json, .yaml or .yml files`);
+      continue;
+    }
+
+    let definition: unknown;
+    try {
+      definition = parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read partner mapping ${filePath}: ${(error as Error).message}`);
+    }
+
+    definitions.push(validatePartnerMapping(definition));
+  }
+
+  return definitions;
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import { PromotionCatalogDefinition } from '../../domain/models';
+import { validatePromotionCatalog } from '../../domain/services/promotion-catalog';
+
+/**
+ * Load the promotion catalog from a JSON file.
+ * A missing file yields no promotions (promo codes are rejected), an
+ * invalid file fails loudly.
+ */
+export function loadPromotionCatalog(filePath: string): PromotionCatalogDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read promotion catalog ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validatePromotionCatalog(definition);
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import { RateLimitPolicyDefinition } from '../../domain/models';
+import { validateRateLimitPolicies } from '../../domain/services/rate-limit-policy';
+
+/**
+ * Load rate limit policies from a JSON file.
+ * A missing file yields no policies (every partner uses the default
+ * policy), an invalid file fails loudly.
+ */
+export function loadRateLimitPolicies(filePath: string): RateLimitPolicyDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read rate limit policies ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateRateLimitPolicies(definition);
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import { RequestSigningDefinition } from '../../domain/models';
+import { validateRequestSigning } from '../../domain/services/request-signature';
+
+/**
+ * Load request signing settings from a JSON file.
+ * A missing file yields no settings (no partner signs its requests), an
+ * invalid file fails loudly.
+ */
+export function loadRequestSigning(filePath: string): RequestSigningDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read request signing settings ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateRequestSigning(definition);
+}
@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import { TaxRuleSetDefinition } from '../../domain/models';
+import { validateTaxRules } from '../../domain/services/tax-rules';
+
+/**
+ * Load the tax rules from a JSON file.
+ * A missing file yields no rules (partner tax rates apply as sent), an
+ * invalid file fails loudly.
+ */
+export function loadTaxRules(filePath: string): TaxRuleSetDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read tax rules ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateTaxRules(definition);
+}
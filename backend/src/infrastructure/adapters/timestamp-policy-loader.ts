@@ -0,0 +1,23 @@
+import * as fs from 'fs';
+import { TimestampPolicyDefinition } from '../../domain/models';
+import { validateTimestampPolicies } from '../../domain/services/timestamp-policy';
+
+/**
+ * Load timestamp policies from a JSON file.
+ * A missing file yields no policies (every partner uses the default
+ * policy), an invalid file fails loudly.
+ */
+export function loadTimestampPolicies(filePath: string): TimestampPolicyDefinition | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let definition: unknown;
+  try {
+    definition = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read timestamp policies ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateTimestampPolicies(definition);
+}
@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebhookSubscription, WebhookDelivery, PartnerId } from '../../domain/models';
+import {
+  IWebhookRepositoryPort,
+  WebhookDeliveryFilters,
+  PaginationOptions,
+  PaginatedResult,
+} from '../../domain/ports';
+
+/**
+ * Filter, sort (most recent first) and paginate deliveries.
+ */
+function queryDeliveries(
+  deliveries: Iterable<WebhookDelivery>,
+  filters?: WebhookDeliveryFilters,
+  pagination?: PaginationOptions
+): PaginatedResult<WebhookDelivery> {
+  let results = Array.from(deliveries);
+
+  if (filters?.partnerId) {
+    results = results.filter((d) => d.partnerId === filters.partnerId);
+  }
+  if (filters?.status) {
+    results = results.filter((d) => d.status === filters.status);
+  }
+  if (filters?.event) {
+    results = results.filter((d) => d.event === filters.event);
+  }
+
+  results.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const total = results.length;
+  const page = pagination?.page ?? 1;
+  const pageSize = pagination?.pageSize ?? 20;
+  const totalPages = Math.ceil(total / pageSize);
+  const startIndex = (page - 1) * pageSize;
+
+  return {
+    data: results.slice(startIndex, startIndex + pageSize),
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasMore: page < totalPages,
+  };
+}
+
+/**
+ * File-based implementation of webhook repository.
+ * Persists subscriptions and the delivery log to a JSON file.
+ */
+export class FileWebhookRepository implements IWebhookRepositoryPort {
+  private subscriptions: Map<PartnerId, WebhookSubscription> = new Map();
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+  private readonly filePath: string;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private readonly debounceMs = 500;
+
+  constructor(dataDir: string = './data') {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.filePath = path.join(dataDir, 'webhooks.json');
+    this.loadFromFile();
+  }
+
+  private loadFromFile(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = fs.readFileSync(this.filePath, 'utf-8');
+        const stored: { subscriptions: WebhookSubscription[]; deliveries: WebhookDelivery[] } = JSON.parse(data);
+        for (const subscription of stored.subscriptions ?? []) {
+          this.subscriptions.set(subscription.partnerId, subscription);
+        }
+        for (const delivery of stored.deliveries ?? []) {
+          this.deliveries.set(delivery.id, delivery);
+        }
+        console.log(`📂 Loaded ${this.subscriptions.size} webhook subscriptions and ${this.deliveries.size} deliveries from ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading webhooks from file:`, error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => this.saveToFile(), this.debounceMs);
+  }
+
+  private saveToFile(): void {
+    try {
+      const data = {
+        subscriptions: Array.from(this.subscriptions.values()),
+        deliveries: Array.from(this.deliveries.values()),
+      };
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`❌ Error saving webhooks to file:`, error);
+    }
+  }
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.subscriptions.set(subscription.partnerId, subscription);
+    this.scheduleSave();
+  }
+
+  async findSubscription(partnerId: PartnerId): Promise<WebhookSubscription | null> {
+    return this.subscriptions.get(partnerId) ?? null;
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values());
+  }
+
+  async deleteSubscription(partnerId: PartnerId): Promise<boolean> {
+    const deleted = this.subscriptions.delete(partnerId);
+    if (deleted) {
+      this.scheduleSave();
+    }
+    return deleted;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, delivery);
+    this.scheduleSave();
+  }
+
+  async findDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    return this.deliveries.get(id) ?? null;
+  }
+
+  async findDeliveries(
+    filters?: WebhookDeliveryFilters,
+    pagination?: PaginationOptions
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    return queryDeliveries(this.deliveries.values(), filters, pagination);
+  }
+
+  async clear(): Promise<void> {
+    this.subscriptions.clear();
+    this.deliveries.clear();
+    this.scheduleSave();
+  }
+}
+
+/**
+ * In-memory implementation for testing
+ */
+export class InMemoryWebhookRepository implements IWebhookRepositoryPort {
+  private subscriptions: Map<PartnerId, WebhookSubscription> = new Map();
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.subscriptions.set(subscription.partnerId, subscription);
+  }
+
+  async findSubscription(partnerId: PartnerId): Promise<WebhookSubscription | null> {
+    return this.subscriptions.get(partnerId) ?? null;
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values());
+  }
+
+  async deleteSubscription(partnerId: PartnerId): Promise<boolean> {
+    return this.subscriptions.delete(partnerId);
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, delivery);
+  }
+
+  async findDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    return this.deliveries.get(id) ?? null;
+  }
+
+  async findDeliveries(
+    filters?: WebhookDeliveryFilters,
+    pagination?: PaginationOptions
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    return queryDeliveries(this.deliveries.values(), filters, pagination);
+  }
+
+  async clear(): Promise<void> {
+    this.subscriptions.clear();
+    this.deliveries.clear();
+  }
+}
@@ -0,0 +1,266 @@
+import { InputFieldType } from '../../domain/ports';
+import { FeedFormatError } from './format-error';
+
+/**
+ * A parsed CSV record with the file line it starts on.
+ */
+export interface CsvRecord {
+  /** 1-based line number of the record in the file (the header is line 1) */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Error raised when CSV text is structurally invalid.
+ */
+export class CsvParseError extends FeedFormatError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV text into records.
+ *
+ * Supports quoted fields (with embedded commas, newlines and "" escapes),
+ * LF and CRLF line endings and a leading byte order mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    // Skip blank lines
+    if (cells.length > 1 || cells[0] !== '') {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Count the records of CSV text as parseCsv splits them, without building
+ * them (e.g. to size a request before it is processed). Unterminated
+ * quoted fields are not reported here.
+ */
+export function countCsvRecords(text: string): number {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let count = 0;
+  let inQuotes = false;
+  let cellStart = true;
+  // Whether the current record has a comma or a non-empty cell
+  let hasContent = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+        continue;
+      }
+      hasContent = true;
+      continue;
+    }
+
+    if (char === '"' && cellStart) {
+      inQuotes = true;
+      cellStart = false;
+    } else if (char === ',') {
+      hasContent = true;
+      cellStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      if (hasContent) count++;
+      hasContent = false;
+      cellStart = true;
+    } else {
+      hasContent = true;
+      cellStart = false;
+    }
+  }
+
+  return hasContent ? count + 1 : count;
+}
+
+/**
+ * Coerce a CSV cell to the partner input field type.
+ * Values that cannot be coerced are returned unchanged so the partner
+ * validator reports them with the value that was received.
+ */
+export function coerceCsvValue(value: string, type: InputFieldType = 'string'): unknown {
+  const trimmed = value.trim();
+  const isNumeric = trimmed !== '' && !isNaN(Number(trimmed));
+
+  switch (type) {
+    case 'number':
+      return isNumeric ? Number(trimmed) : value;
+    case 'boolean':
+      if (/^(true|false)$/i.test(trimmed)) {
+        return trimmed.toLowerCase() === 'true';
+      }
+      return value;
+    case 'timestamp-ms':
+    case 'timestamp-seconds': {
+      if (isNumeric) {
+        return Number(trimmed);
+      }
+      const ms = Date.parse(trimmed);
+      if (isNaN(ms)) {
+        return value;
+      }
+      return type === 'timestamp-ms' ? ms : ms / 1000;
+    }
+    case 'timestamp-iso': {
+      if (!isNumeric) {
+        return trimmed;
+      }
+      // Out-of-range milliseconds are left for the validator to reject
+      const date = new Date(Number(trimmed));
+      return isNaN(date.getTime()) ? value : date.toISOString();
+    }
+    case 'json':
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Build a partner input object from a CSV record.
+ * Headers are input field names; dot-separated headers (e.g. metadata.channel)
+ * build nested objects. Empty cells are omitted.
+ */
+export function csvRecordToInput(
+  headers: string[],
+  cells: string[],
+  fieldTypes: Readonly<Record<string, InputFieldType>> = {}
+): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+
+  headers.forEach((header, index) => {
+    const value = cells[index];
+    if (value === undefined || value.trim() === '') {
+      return;
+    }
+
+    const keys = header.split('.');
+    let target = input;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof target[key] !== 'object' || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = coerceCsvValue(value, fieldTypes[header]);
+  });
+
+  return input;
+}
+
+/**
+ * A CSV data row mapped to partner input, or the reason it cannot be mapped.
+ */
+export interface CsvRow {
+  /** 1-based line number of the row in the file (the header is line 1) */
+  line: number;
+  input?: Record<string, unknown>;
+  /** Set when the row cannot be mapped (e.g. more cells than headers) */
+  error?: string;
+  /** Raw cells of a row that cannot be mapped */
+  cells?: string[];
+  /** Raw value of the order ID column, when present */
+  orderId?: string;
+}
+
+/**
+ * Parse CSV text into partner input rows.
+ * The header row names the input fields; throws CsvParseError when the
+ * text or its header row is invalid.
+ */
+export function readCsvRows(
+  text: string,
+  fieldTypes: Readonly<Record<string, InputFieldType>> = {},
+  idField?: string
+): CsvRow[] {
+  const [headerRecord, ...records] = parseCsv(text);
+  const headers = headerRecord?.cells.map((header) => header.trim()) ?? [];
+
+  if (headers.length === 0 || headers.some((header) => header === '')) {
+    throw new CsvParseError('CSV must start with a header row naming every column');
+  }
+
+  const duplicateHeader = headers.find((header, index) => headers.indexOf(header) !== index);
+  if (duplicateHeader) {
+    throw new CsvParseError(`Duplicate CSV column: ${duplicateHeader}`);
+  }
+
+  const idIndex = idField ? headers.indexOf(idField) : -1;
+
+  return records.map(({ line, cells }) => {
+    const orderId = idIndex >= 0 ? cells[idIndex] : undefined;
+
+    // Rows with more cells than headers cannot be mapped to fields
+    if (cells.length > headers.length) {
+      return { line, orderId, cells, error: `Expected ${headers.length} columns but found ${cells.length}` };
+    }
+
+    return { line, orderId, input: csvRecordToInput(headers, cells, fieldTypes) };
+  });
+}
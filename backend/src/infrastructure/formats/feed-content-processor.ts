@@ -0,0 +1,108 @@
+import { FeedHandler, FeedProcessingResult } from '../../application/services/feed-handler';
+import { IPartnerAdapter } from '../../domain/ports';
+import { readCsvRows } from './csv-parser';
+import { readNdjsonLines } from './ndjson';
+import { FeedFormatError } from './format-error';
+
+/**
+ * Result of one record of multi-order content, with its position
+ * (CSV file line, NDJSON line or JSON array item, 1-based).
+ */
+export interface NumberedResult {
+  line: number;
+  result: FeedProcessingResult;
+}
+
+/**
+ * Prefix rejection errors with the record position (e.g. "Row 3: ...").
+ */
+function numbered(label: string, line: number, result: FeedProcessingResult): NumberedResult {
+  return {
+    line,
+    result: result.errors
+      ? { ...result, errors: result.errors.map((e) => `${label} ${line}: ${e}`) }
+      : result,
+  };
+}
+
+/**
+ * Process CSV content as one batch. The header row names the partner's
+ * input fields and cells are coerced to the partner's field types.
+ * Throws FeedFormatError when the CSV itself is invalid.
+ */
+export async function processCsvContent(
+  feedHandler: FeedHandler,
+  partner: IPartnerAdapter,
+  text: string
+): Promise<NumberedResult[]> {
+  const rows = readCsvRows(text, partner.fieldTypes, partner.idField);
+  const processNext = feedHandler.createBatchProcessor(partner.partnerId);
+  const results: NumberedResult[] = [];
+
+  for (const row of rows) {
+    const result = row.input
+      ? await processNext(row.input)
+      : feedHandler.rejectUnreadable(partner.partnerId, row.cells, row.error!, row.orderId);
+    results.push(numbered('Row', row.line, result));
+  }
+
+  return results;
+}
+
+/**
+ * Process NDJSON content (one order per line) as one batch, yielding each
+ * result as soon as its line is processed so content of any size runs in
+ * bounded memory. When given, admit is asked before every line; reading
+ * stops at the first line it refuses (e.g. rate limits).
+ */
+export async function* processNdjsonContent(
+  feedHandler: FeedHandler,
+  partner: IPartnerAdapter,
+  source: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+  admit: () => boolean = () => true
+): AsyncGenerator<NumberedResult> {
+  const processNext = feedHandler.createBatchProcessor(partner.partnerId);
+
+  for await (const { line, text, truncated } of readNdjsonLines(source)) {
+    if (!admit()) {
+      return;
+    }
+
+    if (truncated) {
+      yield numbered('Line', line, feedHandler.rejectUnreadable(partner.partnerId, null, 'Line exceeds the maximum length'));
+      continue;
+    }
+
+    let input: unknown;
+    try {
+      input = JSON.parse(text);
+    } catch {
+      yield numbered('Line', line, feedHandler.rejectUnreadable(partner.partnerId, text, 'Invalid JSON'));
+      continue;
+    }
+
+    yield numbered('Line', line, await processNext(input));
+  }
+}
+
+/**
+ * Process JSON content holding a single order or an array of orders.
+ * Throws FeedFormatError when the content is not valid JSON.
+ */
+export async function processJsonContent(
+  feedHandler: FeedHandler,
+  partner: IPartnerAdapter,
+  text: string
+): Promise<NumberedResult[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new FeedFormatError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const inputs = Array.isArray(parsed) ? parsed : [parsed];
+  const results = await feedHandler.processBatch(partner.partnerId, inputs);
+
+  return results.map((result, index) => numbered('Item', index + 1, result));
+}
@@ -0,0 +1,10 @@
+/**
+ * Error raised when feed content is structurally invalid as a whole
+ * (unparseable file, missing CSV header, ...), as opposed to invalid orders.
+ */
+export class FeedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedFormatError';
+  }
+}
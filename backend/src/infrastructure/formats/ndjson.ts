@@ -0,0 +1,59 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * A line read from an NDJSON stream.
+ */
+export interface NdjsonLine {
+  /** 1-based line number in the stream */
+  line: number;
+  /** Line content without the line terminator (empty when truncated) */
+  text: string;
+  /** True when the line exceeded the maximum length and was discarded */
+  truncated: boolean;
+}
+
+/**
+ * Split a byte stream into lines without buffering the whole body.
+ *
+ * Chunks are pulled one at a time, so a slow consumer applies backpressure
+ * to the request. Lines longer than maxLineLength are discarded and reported
+ * as truncated to keep memory bounded. Blank lines are skipped.
+ */
+export async function* readNdjsonLines(
+  source: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+  maxLineLength: number = 1024 * 1024
+): AsyncGenerator<NdjsonLine> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+  let lineNumber = 1;
+  let truncated = false;
+
+  const toLine = (text: string): NdjsonLine | null => {
+    const line = { line: lineNumber++, text: truncated ? '' : text.replace(/\r$/, ''), truncated };
+    truncated = false;
+    return line.truncated || line.text.trim() !== '' ? line : null;
+  };
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = toLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (line) yield line;
+    }
+
+    // Drop the partial line once it is too long; keep counting until its end
+    if (buffer.length > maxLineLength) {
+      buffer = '';
+      truncated = true;
+    }
+  }
+
+  buffer += decoder.end();
+  if (buffer !== '' || truncated) {
+    const line = toLine(buffer);
+    if (line) yield line;
+  }
+}
@@ -0,0 +1,89 @@
+import { Router, Request, Response } from 'express';
+import { BusinessRules } from '../../domain/services/business-rules';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { RateLimiter } from '../../application/services/rate-limiter';
+import { ErrorCode } from '../../domain/models';
+
+/**
+ * Create admin router with dependency injection.
+ * Exposes the configuration in force and partner usage (read-only).
+ */
+export function createAdminRouter(
+  businessRules: BusinessRules,
+  partnerRegistry: PartnerRegistry,
+  rateLimiter: RateLimiter
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/admin/business-rules
+   * Business rules of every partner, as last loaded from the rules file
+   */
+  router.get('/business-rules', (_req: Request, res: Response) => {
+    res.json({
+      status: 'success',
+      loadedAt: businessRules.getLoadedAt(),
+      partners: businessRules.getDefinition().partners,
+    });
+  });
+
+  /**
+   * GET /api/admin/business-rules/:partnerId
+   * Business rules of one partner (partner ID, slug or alias)
+   */
+  router.get('/business-rules/:partnerId', (req: Request, res: Response) => {
+    const partner = partnerRegistry.resolve(req.params.partnerId);
+
+    if (!partner) {
+      res.status(404).json({
+        status: 'error',
+        code: ErrorCode.UNKNOWN_PARTNER,
+        message: `Partner not found: ${req.params.partnerId}`,
+      });
+      return;
+    }
+
+    res.json({
+      status: 'success',
+      partnerId: partner.partnerId,
+      loadedAt: businessRules.getLoadedAt(),
+      rules: businessRules.forPartner(partner.partnerId),
+    });
+  });
+
+  /**
+   * GET /api/admin/rate-limits
+   * Limits and current usage of every partner
+   */
+  router.get('/rate-limits', (_req: Request, res: Response) => {
+    res.json({
+      status: 'success',
+      partners: partnerRegistry.list().map((partner) => rateLimiter.getUsage(partner.partnerId)),
+    });
+  });
+
+  /**
+   * GET /api/admin/rate-limits/:partnerId
+   * Limits and current usage of one partner (partner ID, slug or alias)
+   */
+  router.get('/rate-limits/:partnerId', (req: Request, res: Response) => {
+    const partner = partnerRegistry.resolve(req.params.partnerId);
+
+    if (!partner) {
+      res.status(404).json({
+        status: 'error',
+        code: ErrorCode.UNKNOWN_PARTNER,
+        message: `Partner not found: ${req.params.partnerId}`,
+      });
+      return;
+    }
+
+    res.json({
+      status: 'success',
+      partnerId: partner.partnerId,
+      usage: rateLimiter.getUsage(partner.partnerId),
+    });
+  });
+
+  return router;
+}
@@ -1,67 +1,65 @@
+import { timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-
-/**
- * API Key Configuration
- * 
- * SPEC REFERENCE: Optional - "Basic API key auth per partner"
- * 
- * In production, these would be stored securely (e.g., AWS Secrets Manager, HashiCorp Vault)
- * and loaded via environment variables.
- */
-export interface ApiKeyConfig {
-  [partnerId: string]: string[];
-}
-
-// Default API keys for development/testing
-const DEFAULT_API_KEYS: ApiKeyConfig = {
-  PARTNER_A: [
-    process.env.PARTNER_A_API_KEY || 'pk_partner_a_dev_key_123',
-    process.env.PARTNER_A_API_KEY_SECONDARY || 'pk_partner_a_backup_456',
-  ],
-  PARTNER_B: [
-    process.env.PARTNER_B_API_KEY || 'pk_partner_b_dev_key_789',
-    process.env.PARTNER_B_API_KEY_SECONDARY || 'pk_partner_b_backup_012',
-  ],
-};
-
-// Master key for admin operations (use with caution)
-const MASTER_API_KEY = process.env.MASTER_API_KEY || 'pk_master_admin_key_999';
+import { PartnerRegistry, createDefaultPartnerRegistry } from '../../domain/services/partner-registry';
+import { ApiKeyService, hashApiKey } from '../../application/services/api-key-service';
 
 /**
  * Options for configuring API key authentication middleware.
+ *
+ * SPEC REFERENCE: Optional - "Basic API key auth per partner"
+ *
+ * Partner keys are issued through the admin API and stored hashed (see
+ * ApiKeyService); there are no built-in keys.
  */
 export interface ApiKeyAuthOptions {
+  /** Store-backed service that authenticates partner keys */
+  apiKeyService: ApiKeyService;
+
   /** Whether authentication is enabled (default: true in production) */
   enabled?: boolean;
   
   /** Header name for the API key (default: 'X-API-Key') */
   headerName?: string;
   
-  /** Custom API key configuration */
-  apiKeys?: ApiKeyConfig;
-  
+  /** Master key for admin operations (default: MASTER_API_KEY; no master key when unset) */
+  masterKey?: string;
+
   /** Allow master key to bypass partner checks */
   allowMasterKey?: boolean;
   
   /** Paths to exclude from authentication */
   excludePaths?: string[];
+
+  /** Registry used to resolve the partner from the feed route slug */
+  partnerRegistry?: PartnerRegistry;
+}
+
+/**
+ * Check a presented key against the master key in constant time
+ */
+function isMasterKey(apiKey: string, masterKey: string | undefined): boolean {
+  if (!masterKey) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(hashApiKey(apiKey)), Buffer.from(hashApiKey(masterKey)));
 }
 
 /**
- * Extract partner ID from request path.
+ * Extract partner ID from request path using the registered route slugs.
  * 
  * Examples:
  * - /api/feed/partner-a → PARTNER_A
  * - /api/feed/partner-b → PARTNER_B
  * - /api/feed/partner-a/batch → PARTNER_A
  */
-function extractPartnerFromPath(path: string): string | null {
-  const partnerAMatch = path.match(/\/partner-a(\/|$)/i);
-  if (partnerAMatch) return 'PARTNER_A';
-  
-  const partnerBMatch = path.match(/\/partner-b(\/|$)/i);
-  if (partnerBMatch) return 'PARTNER_B';
-  
+function extractPartnerFromPath(path: string, partnerRegistry: PartnerRegistry): string | null {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+
+  for (const segment of segments) {
+    const adapter = partnerRegistry.getBySlug(segment);
+    if (adapter) return adapter.partnerId;
+  }
+
   return null;
 }
 
@@ -70,23 +68,26 @@ function extractPartnerFromPath(path: string): string | null {
  * 
  * This middleware validates that:
  * 1. The X-API-Key header is present
- * 2. The key is valid for the partner making the request
+ * 2. The key is an active key of the partner making the request
+ *    (not expired or revoked); its last use is recorded
  * 
  * Usage:
  * ```typescript
- * app.use('/api/feed', createApiKeyAuth());
+ * app.use('/api/feed', createApiKeyAuth({ apiKeyService }));
  * ```
  */
-export function createApiKeyAuth(options: ApiKeyAuthOptions = {}) {
+export function createApiKeyAuth(options: ApiKeyAuthOptions) {
   const {
+    apiKeyService,
     enabled = process.env.NODE_ENV === 'production' || process.env.ENABLE_API_AUTH === 'true',
     headerName = 'X-API-Key',
-    apiKeys = DEFAULT_API_KEYS,
+    masterKey = process.env.MASTER_API_KEY || undefined,
     allowMasterKey = true,
     excludePaths = ['/health', '/api/orders', '/api/orders/stats'],
+    partnerRegistry = createDefaultPartnerRegistry(),
   } = options;
 
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     // Skip if authentication is disabled
     if (!enabled) {
       return next();
@@ -116,14 +117,15 @@ export function createApiKeyAuth(options: ApiKeyAuthOptions = {}) {
     }
 
     // Check master key first
-    if (allowMasterKey && apiKey === MASTER_API_KEY) {
+    if (allowMasterKey && isMasterKey(apiKey, masterKey)) {
       // Attach auth info to request for logging
       (req as any).auth = { type: 'master', partnerId: null };
       return next();
     }
 
     // Extract partner from path
-    const partnerId = extractPartnerFromPath(req.path) || extractPartnerFromPath(req.originalUrl);
+    const partnerId = extractPartnerFromPath(req.path, partnerRegistry) ||
+      extractPartnerFromPath(req.originalUrl, partnerRegistry);
 
     if (!partnerId) {
       res.status(400).json({
@@ -135,9 +137,14 @@ export function createApiKeyAuth(options: ApiKeyAuthOptions = {}) {
     }
 
     // Validate API key for the specific partner
-    const validKeys = apiKeys[partnerId] || [];
-    
-    if (!validKeys.includes(apiKey)) {
+    let storedKey;
+    try {
+      storedKey = await apiKeyService.authenticate(apiKey);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (!storedKey || storedKey.partnerId !== partnerId) {
       // Log failed authentication attempt (without exposing the key)
       console.warn(`[AUTH] Failed authentication attempt for ${partnerId} from ${req.ip}`);
       
@@ -153,7 +160,7 @@ export function createApiKeyAuth(options: ApiKeyAuthOptions = {}) {
     (req as any).auth = { 
       type: 'partner', 
       partnerId,
-      keyIndex: validKeys.indexOf(apiKey),
+      keyId: storedKey.id,
     };
 
     // Log successful authentication
@@ -163,6 +170,52 @@ export function createApiKeyAuth(options: ApiKeyAuthOptions = {}) {
   };
 }
 
+/**
+ * Create middleware that admits only the master key (for admin endpoints).
+ * Without a master key configured every request is refused with 503.
+ */
+export function createMasterKeyAuth(options: { masterKey?: string; headerName?: string } = {}) {
+  const {
+    masterKey = process.env.MASTER_API_KEY || undefined,
+    headerName = 'X-API-Key',
+  } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!masterKey) {
+      res.status(503).json({
+        status: 'error',
+        code: 'MASTER_KEY_NOT_CONFIGURED',
+        message: 'Admin endpoints are unavailable: no master API key is configured (MASTER_API_KEY)',
+      });
+      return;
+    }
+
+    const apiKey = req.header(headerName);
+
+    if (!apiKey) {
+      res.status(401).json({
+        status: 'error',
+        code: 'MISSING_API_KEY',
+        message: `Missing required header: ${headerName}`,
+      });
+      return;
+    }
+
+    if (!isMasterKey(apiKey, masterKey)) {
+      console.warn(`[AUTH] Failed admin authentication attempt from ${req.ip}`);
+      res.status(403).json({
+        status: 'error',
+        code: 'INVALID_API_KEY',
+        message: 'Admin endpoints require the master API key',
+      });
+      return;
+    }
+
+    (req as any).auth = { type: 'master', partnerId: null };
+    next();
+  };
+}
+
 /**
  * Middleware to require authentication info on the request.
  * Use after createApiKeyAuth to ensure auth was successful.
@@ -0,0 +1,236 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiKeyService, getApiKeyStatus } from '../../application/services/api-key-service';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { parseISO8601Timestamp } from '../../domain/services/timestamp-policy';
+import { ApiKey, ErrorCode } from '../../domain/models';
+
+/** Longest accepted key label */
+const MAX_LABEL_LENGTH = 100;
+
+/** Longest accepted rotation grace period: 30 days */
+const MAX_GRACE_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Key as shown to admins: masked, without its hash, with its status.
+ */
+function toApiKeyView(apiKey: ApiKey) {
+  const { keyHash: _keyHash, ...view } = apiKey;
+  return { ...view, status: getApiKeyStatus(apiKey) };
+}
+
+/**
+ * Check an optional expiry time; returns a problem or null.
+ */
+function checkExpiresAt(value: unknown, mustBeFuture: boolean): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  const time = typeof value === 'string' ? parseISO8601Timestamp(value) : null;
+  if (!time) {
+    return 'expiresAt must be an ISO 8601 timestamp';
+  }
+  if (mustBeFuture && time.getTime() <= Date.now()) {
+    return 'expiresAt must be in the future';
+  }
+  return null;
+}
+
+/**
+ * Status code of a failed key change
+ */
+function failureStatus(errorCode: ErrorCode): number {
+  return errorCode === ErrorCode.API_KEY_NOT_FOUND ? 404 : 409;
+}
+
+/**
+ * Create API keys router with dependency injection.
+ * Plaintext keys are only returned when they are issued.
+ *
+ * - GET  /api/admin/api-keys                  List keys (?partnerId=)
+ * - POST /api/admin/api-keys                  Issue a key for a partner
+ * - GET  /api/admin/api-keys/:id              Key details
+ * - POST /api/admin/api-keys/:id/rotate       Issue a replacement; the old key works for a grace period
+ * - POST /api/admin/api-keys/:id/expire       Set when the key stops working (default: now)
+ * - POST /api/admin/api-keys/:id/revoke       Revoke the key immediately
+ */
+export function createApiKeysRouter(apiKeyService: ApiKeyService, partnerRegistry: PartnerRegistry): Router {
+  const router = Router();
+
+  const sendBadRequest = (res: Response, errors: string[]) => {
+    res.status(400).json({ status: 'error', message: 'Invalid API key request', errors });
+  };
+
+  const sendUnknownPartner = (res: Response, identifier: unknown) => {
+    res.status(404).json({
+      status: 'error',
+      code: ErrorCode.UNKNOWN_PARTNER,
+      message: `Partner not found: ${identifier}`,
+    });
+  };
+
+  /**
+   * GET /api/admin/api-keys
+   * List keys (masked), optionally of one partner: ?partnerId=
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      let partnerId;
+      if (typeof req.query.partnerId === 'string') {
+        const partner = partnerRegistry.resolve(req.query.partnerId);
+        if (!partner) {
+          sendUnknownPartner(res, req.query.partnerId);
+          return;
+        }
+        partnerId = partner.partnerId;
+      }
+
+      const keys = await apiKeyService.list(partnerId);
+      res.json({ status: 'success', apiKeys: keys.map(toApiKeyView) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/admin/api-keys
+   * Issue a key: { partnerId, label?, expiresAt? }
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body ?? {};
+      const errors: string[] = [];
+
+      if (typeof body.partnerId !== 'string') {
+        errors.push('partnerId is required');
+      }
+      if (body.label !== undefined && (typeof body.label !== 'string' || body.label.length > MAX_LABEL_LENGTH)) {
+        errors.push(`label must be a string of at most ${MAX_LABEL_LENGTH} characters`);
+      }
+      const expiresAtProblem = checkExpiresAt(body.expiresAt, true);
+      if (expiresAtProblem) {
+        errors.push(expiresAtProblem);
+      }
+      if (errors.length > 0) {
+        sendBadRequest(res, errors);
+        return;
+      }
+
+      const partner = partnerRegistry.resolve(body.partnerId);
+      if (!partner) {
+        sendUnknownPartner(res, body.partnerId);
+        return;
+      }
+
+      const { apiKey, key } = await apiKeyService.create(partner.partnerId, {
+        label: body.label,
+        expiresAt: body.expiresAt,
+      });
+      res.status(201).json({ status: 'success', apiKey: toApiKeyView(apiKey), key });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/admin/api-keys/:id
+   * Key details (masked), including when it was last used
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKey = await apiKeyService.get(req.params.id);
+
+      if (!apiKey) {
+        res.status(404).json({
+          status: 'error',
+          code: ErrorCode.API_KEY_NOT_FOUND,
+          message: `API key not found: ${req.params.id}`,
+        });
+        return;
+      }
+
+      res.json({ status: 'success', apiKey: toApiKeyView(apiKey) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/admin/api-keys/:id/rotate
+   * Issue a replacement: { gracePeriodSeconds? } (default: one day)
+   */
+  router.post('/:id/rotate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { gracePeriodSeconds } = req.body ?? {};
+
+      if (gracePeriodSeconds !== undefined &&
+          !(Number.isInteger(gracePeriodSeconds) && gracePeriodSeconds >= 0 && gracePeriodSeconds <= MAX_GRACE_PERIOD_SECONDS)) {
+        sendBadRequest(res, [`gracePeriodSeconds must be an integer between 0 and ${MAX_GRACE_PERIOD_SECONDS}`]);
+        return;
+      }
+
+      const result = await apiKeyService.rotate(req.params.id, gracePeriodSeconds);
+
+      if (!result.success) {
+        res.status(failureStatus(result.errorCode)).json({ status: 'error', code: result.errorCode, message: result.message });
+        return;
+      }
+
+      res.status(201).json({
+        status: 'success',
+        apiKey: toApiKeyView(result.issued.apiKey),
+        key: result.issued.key,
+        previous: toApiKeyView(result.previous),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/admin/api-keys/:id/expire
+   * Set when the key stops working: { expiresAt? } (default: now)
+   */
+  router.post('/:id/expire', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { expiresAt } = req.body ?? {};
+
+      const problem = checkExpiresAt(expiresAt, false);
+      if (problem) {
+        sendBadRequest(res, [problem]);
+        return;
+      }
+
+      const result = await apiKeyService.expire(req.params.id, expiresAt);
+
+      if (!result.success) {
+        res.status(failureStatus(result.errorCode)).json({ status: 'error', code: result.errorCode, message: result.message });
+        return;
+      }
+
+      res.json({ status: 'success', apiKey: toApiKeyView(result.apiKey) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/admin/api-keys/:id/revoke
+   * Revoke the key immediately (revoking a revoked key has no effect)
+   */
+  router.post('/:id/revoke', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await apiKeyService.revoke(req.params.id);
+
+      if (!result.success) {
+        res.status(failureStatus(result.errorCode)).json({ status: 'error', code: result.errorCode, message: result.message });
+        return;
+      }
+
+      res.json({ status: 'success', apiKey: toApiKeyView(result.apiKey) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,23 +1,24 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { IErrorRepositoryPort, ErrorQueryFilters, ErrorPaginationOptions } from '../../domain/ports/error-repository.port';
-import { PartnerId, ErrorCode } from '../../domain/models';
+import { ErrorCode } from '../../domain/models';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { ErrorReprocessingService } from '../../application/services/error-reprocessing-service';
+import { RateLimiter } from '../../application/services/rate-limiter';
+import { applyRateLimit } from './rate-limit';
 
 /**
  * Parse query parameters for error listing
  */
-function parseQueryParams(query: Record<string, any>): {
+function parseQueryParams(query: Record<string, any>, partnerRegistry: PartnerRegistry): {
   filters: ErrorQueryFilters;
   pagination: ErrorPaginationOptions;
 } {
   const filters: ErrorQueryFilters = {};
 
-  // Partner filter
+  // Partner filter (partner ID, slug or alias of a registered partner)
   if (query.partnerId) {
-    if (query.partnerId === 'PARTNER_A' || query.partnerId === 'A') {
-      filters.partnerId = PartnerId.PARTNER_A;
-    } else if (query.partnerId === 'PARTNER_B' || query.partnerId === 'B') {
-      filters.partnerId = PartnerId.PARTNER_B;
-    }
+    const partner = partnerRegistry.resolve(String(query.partnerId));
+    if (partner) filters.partnerId = partner.partnerId;
   }
 
   // Error code filter
@@ -25,6 +26,11 @@ function parseQueryParams(query: Record<string, any>): {
     filters.errorCode = query.errorCode as ErrorCode;
   }
 
+  // Resolution filter
+  if (query.resolved === 'true' || query.resolved === 'false') {
+    filters.resolved = query.resolved === 'true';
+  }
+
   // Date filters
   if (query.fromDate) {
     const date = new Date(query.fromDate);
@@ -43,12 +49,48 @@ function parseQueryParams(query: Record<string, any>): {
   return { filters, pagination };
 }
 
+/**
+ * Send a failed preview or reprocessing of an error event.
+ */
+function sendReprocessFailure(res: Response, errors: string[], errorCode?: ErrorCode): void {
+  const statusCode =
+    errorCode === ErrorCode.ERROR_NOT_FOUND ? 404
+    : errorCode === ErrorCode.ERROR_ALREADY_RESOLVED ? 409
+    : 422;
+  res.status(statusCode).json({
+    status: 'error',
+    message: errors.join('; '),
+    errors,
+    ...(errorCode && { errorCode }),
+  });
+}
+
+/**
+ * Read the optional edited payload of a preview or reprocessing request
+ * ({ "payload": ... }); undefined means the stored payload.
+ */
+function getEditedPayload(body: unknown): unknown {
+  return body && typeof body === 'object' && !Array.isArray(body)
+    ? (body as Record<string, unknown>).payload
+    : undefined;
+}
+
 /**
  * Create errors router with dependency injection.
  * 
  * SPEC REFERENCE: Optional - "Errors View" API endpoints
+ *
+ * Rejected orders can be fixed and resubmitted: preview and reprocess take
+ * an optional edited payload and run it through the FeedHandler.
+ * Reprocessed orders count towards the partner's rate limits like orders
+ * sent to the feed.
  */
-export function createErrorsRouter(errorRepository: IErrorRepositoryPort): Router {
+export function createErrorsRouter(
+  errorRepository: IErrorRepositoryPort,
+  partnerRegistry: PartnerRegistry,
+  errorReprocessingService: ErrorReprocessingService,
+  rateLimiter: RateLimiter
+): Router {
   const router = Router();
 
   /**
@@ -57,7 +99,7 @@ export function createErrorsRouter(errorRepository: IErrorRepositoryPort): Route
    */
   router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { filters, pagination } = parseQueryParams(req.query);
+      const { filters, pagination } = parseQueryParams(req.query, partnerRegistry);
       const result = await errorRepository.findMany(filters, pagination);
 
       res.json({
@@ -112,5 +154,63 @@ export function createErrorsRouter(errorRepository: IErrorRepositoryPort): Route
     }
   });
 
+  /**
+   * POST /api/errors/:id/preview
+   * Check the stored payload, or an edited one ({ "payload": ... }), like
+   * the feed would without processing it
+   */
+  router.post('/:id/preview', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await errorReprocessingService.preview(req.params.id, getEditedPayload(req.body));
+
+      if (!result.success) {
+        sendReprocessFailure(res, result.errors, result.errorCode);
+        return;
+      }
+
+      res.json({
+        status: 'success',
+        preview: result.preview,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/errors/:id/reprocess
+   * Resubmit the stored payload, or an edited one ({ "payload": ... }), as a
+   * new order and resolve the error event when it is accepted
+   */
+  router.post('/:id/reprocess', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Unknown error events are reported by the reprocessing service
+      const errorEvent = await errorRepository.findById(req.params.id);
+      if (errorEvent && !errorEvent.resolution && !applyRateLimit(res, rateLimiter, errorEvent.partnerId, 'single', 1)) {
+        return;
+      }
+
+      const result = await errorReprocessingService.reprocess(req.params.id, getEditedPayload(req.body));
+
+      if (!result.success) {
+        sendReprocessFailure(res, result.errors, result.errorCode);
+        return;
+      }
+
+      res.json({
+        status: 'success',
+        error: result.error,
+        order: {
+          orderId: result.result.orderId,
+          partnerId: result.result.partnerId,
+          sequenceNumber: result.result.sequenceNumber,
+          orderEventId: result.result.orderEventId,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   return router;
 }
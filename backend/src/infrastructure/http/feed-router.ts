@@ -1,6 +1,12 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { FeedHandler } from '../../application/services/feed-handler';
-import { PartnerAInput, PartnerBInput } from '../../domain/models';
+import { FeedHandler, FeedProcessingResult } from '../../application/services/feed-handler';
+import { BatchJobService } from '../../application/services/batch-job-service';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { IPartnerAdapter } from '../../domain/ports';
+import { ErrorCode } from '../../domain/models';
+import { FeedFormatError } from '../formats/format-error';
+import { processCsvContent, processNdjsonContent } from '../formats/feed-content-processor';
+import { RateLimitRefusalBody, StreamOrderAdmission } from './rate-limit';
 
 /**
  * HTTP response for successful feed processing.
@@ -10,6 +16,8 @@ interface FeedSuccessResponse {
   orderId: string;
   partnerId: string;
   sequenceNumber: number;
+  /** Soft validation rules the order broke (absent: none) */
+  warnings?: string[];
 }
 
 /**
@@ -20,31 +28,131 @@ interface FeedErrorResponse {
   orderId: string;
   partnerId: string;
   errors: string[];
+  errorCode?: string;
+}
+
+/**
+ * HTTP response for a successful amendment or cancellation.
+ */
+interface OrderChangeResponse {
+  status: 'amended' | 'cancelled';
+  orderId: string;
+  partnerId: string;
+  sequenceNumber: number;
+  revision: number;
+  warnings?: string[];
 }
 
 /**
  * HTTP response for batch processing.
  */
-interface BatchResponse {
+interface BatchResponse<TResult = FeedSuccessResponse | FeedErrorResponse> {
   total: number;
   accepted: number;
   rejected: number;
-  results: (FeedSuccessResponse | FeedErrorResponse)[];
+  results: TResult[];
+}
+
+/**
+ * Result of a CSV row, tagged with its line number in the uploaded file.
+ */
+type CsvRowResponse = (FeedSuccessResponse | FeedErrorResponse) & { row: number };
+
+/**
+ * Result of an NDJSON line, tagged with its line number in the request.
+ */
+type NdjsonLineResponse = (FeedSuccessResponse | FeedErrorResponse) & { line: number };
+
+/**
+ * Map a processing result to its HTTP representation.
+ */
+function toFeedResponse(result: FeedProcessingResult): FeedSuccessResponse | FeedErrorResponse {
+  return result.success
+    ? {
+        status: 'accepted',
+        orderId: result.orderId,
+        partnerId: result.partnerId,
+        sequenceNumber: result.sequenceNumber!,
+        ...(result.warnings && { warnings: result.warnings }),
+      }
+    : {
+        status: 'rejected',
+        orderId: result.orderId,
+        partnerId: result.partnerId,
+        errors: result.errors || [],
+        ...(result.errorCode && { errorCode: result.errorCode }),
+      };
+}
+
+/**
+ * Send the result of an amendment or cancellation.
+ */
+function sendOrderChange(res: Response, result: FeedProcessingResult, status: OrderChangeResponse['status']): void {
+  if (result.success) {
+    const response: OrderChangeResponse = {
+      status,
+      orderId: result.orderId,
+      partnerId: result.partnerId,
+      sequenceNumber: result.sequenceNumber!,
+      revision: result.revision!,
+      ...(result.warnings && { warnings: result.warnings }),
+    };
+    res.status(200).json(response);
+    return;
+  }
+
+  const statusCode =
+    result.errorCode === ErrorCode.ORDER_NOT_FOUND ? 404
+    : result.errorCode === ErrorCode.ORDER_CANCELLED || result.errorCode === ErrorCode.INVALID_STATUS_TRANSITION ? 409
+    : 422;
+  res.status(statusCode).json(toFeedResponse(result));
 }
 
 /**
  * Create feed router with dependency injection.
+ *
+ * Routes are generic over registered partners:
+ * - POST /api/feed/:partnerSlug        (e.g. /api/feed/partner-a)
+ * - POST /api/feed/:partnerSlug/batch   (?async=true runs it as a background job, ?atomic=true all-or-nothing)
+ * - POST /api/feed/:partnerSlug/csv
+ * - POST /api/feed/:partnerSlug/stream
+ * - PUT  /api/feed/:partnerSlug/orders/:orderId          (amend)
+ * - POST /api/feed/:partnerSlug/orders/:orderId/cancel
  */
-export function createFeedRouter(feedHandler: FeedHandler): Router {
+export function createFeedRouter(
+  feedHandler: FeedHandler,
+  partnerRegistry: PartnerRegistry,
+  batchJobService: BatchJobService
+): Router {
   const router = Router();
 
   /**
-   * POST /api/feed/partner-a
-   * Process a single Partner A order.
+   * Resolve the partner adapter from the route slug.
+   */
+  router.param('partnerSlug', (req: Request, res: Response, next: NextFunction, slug: string) => {
+    const adapter = partnerRegistry.getBySlug(slug);
+
+    if (!adapter) {
+      res.status(404).json({
+        status: 'error',
+        code: ErrorCode.UNKNOWN_PARTNER,
+        message: `Partner feed not found: ${slug}`,
+      });
+      return;
+    }
+
+    res.locals.partner = adapter;
+    next();
+  });
+
+  /**
+   * POST /api/feed/:partnerSlug
+   * Process a single order for the partner.
    */
-  router.post('/partner-a', (req: Request, res: Response, next: NextFunction) => {
+  router.post('/:partnerSlug', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const input = req.body as PartnerAInput;
+      const partner: IPartnerAdapter = res.locals.partner;
+      const input = req.body;
 
       // Basic request validation
       if (!input || typeof input !== 'object') {
@@ -55,24 +163,14 @@ export function createFeedRouter(feedHandler: FeedHandler): Router {
         return;
       }
 
-      const result = feedHandler.processPartnerAOrder(input);
+      const result = await feedHandler.processOrder(partner.partnerId, input);
+      const response = toFeedResponse(result);
 
       if (result.success) {
-        const response: FeedSuccessResponse = {
-          status: 'accepted',
-          orderId: result.orderId,
-          partnerId: result.partnerId,
-          sequenceNumber: result.sequenceNumber!,
-        };
         res.status(202).json(response);
       } else {
-        const response: FeedErrorResponse = {
-          status: 'rejected',
-          orderId: result.orderId,
-          partnerId: result.partnerId,
-          errors: result.errors || [],
-        };
-        res.status(422).json(response);
+        // Duplicates conflict with an already accepted order; anything else is invalid input
+        res.status(result.errorCode === ErrorCode.DUPLICATE_ORDER ? 409 : 422).json(response);
       }
     } catch (error) {
       next(error);
@@ -80,83 +178,103 @@ export function createFeedRouter(feedHandler: FeedHandler): Router {
   });
 
   /**
-   * POST /api/feed/partner-b
-   * Process a single Partner B order.
+   * POST /api/feed/:partnerSlug/batch
+   * Process a batch of orders for the partner.
+   * With ?async=true the batch is queued as a job and 202 is returned with
+   * the job ID; progress and results are available at GET /api/jobs/:id.
+   * With ?atomic=true either every order is accepted or none is (422).
    */
-  router.post('/partner-b', (req: Request, res: Response, next: NextFunction) => {
+  router.post('/:partnerSlug/batch', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const input = req.body as PartnerBInput;
+      const partner: IPartnerAdapter = res.locals.partner;
+      const inputs = req.body;
 
-      // Basic request validation
-      if (!input || typeof input !== 'object') {
+      if (!Array.isArray(inputs)) {
         res.status(400).json({
           status: 'error',
-          message: 'Request body must be a valid JSON object',
+          message: 'Request body must be an array of orders',
         });
         return;
       }
 
-      const result = feedHandler.processPartnerBOrder(input);
+      const atomic = req.query.atomic === 'true';
 
-      if (result.success) {
-        const response: FeedSuccessResponse = {
-          status: 'accepted',
-          orderId: result.orderId,
-          partnerId: result.partnerId,
-          sequenceNumber: result.sequenceNumber!,
-        };
-        res.status(202).json(response);
-      } else {
-        const response: FeedErrorResponse = {
-          status: 'rejected',
-          orderId: result.orderId,
-          partnerId: result.partnerId,
-          errors: result.errors || [],
-        };
-        res.status(422).json(response);
+      if (req.query.async === 'true') {
+        if (atomic) {
+          res.status(400).json({
+            status: 'error',
+            message: 'Atomic batches cannot be processed asynchronously',
+          });
+          return;
+        }
+
+        const job = await batchJobService.submit(partner.partnerId, inputs);
+        const statusUrl = `/api/jobs/${job.id}`;
+
+        res.status(202).location(statusUrl).json({
+          status: 'queued',
+          jobId: job.id,
+          total: job.total,
+          statusUrl,
+        });
+        return;
       }
+
+      const results = await feedHandler.processBatch(partner.partnerId, inputs, { atomic });
+
+      const response: BatchResponse = {
+        total: results.length,
+        accepted: results.filter((r) => r.success).length,
+        rejected: results.filter((r) => !r.success).length,
+        results: results.map(toFeedResponse),
+      };
+
+      // An aborted atomic batch accepted nothing
+      res.status(atomic && response.rejected > 0 ? 422 : 200).json(response);
     } catch (error) {
       next(error);
     }
   });
 
   /**
-   * POST /api/feed/partner-a/batch
-   * Process a batch of Partner A orders.
+   * POST /api/feed/:partnerSlug/csv
+   * Process a CSV export (text/csv) for the partner.
+   * The header row names the partner's input fields; every data row is
+   * coerced to the partner's field types and processed as one batch.
    */
-  router.post('/partner-a/batch', (req: Request, res: Response, next: NextFunction) => {
+  router.post('/:partnerSlug/csv', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const inputs = req.body as PartnerAInput[];
+      const partner: IPartnerAdapter = res.locals.partner;
 
-      if (!Array.isArray(inputs)) {
-        res.status(400).json({
+      if (typeof req.body !== 'string') {
+        res.status(415).json({
           status: 'error',
-          message: 'Request body must be an array of orders',
+          message: 'Request body must be CSV with Content-Type text/csv',
         });
         return;
       }
 
-      const results = feedHandler.processPartnerABatch(inputs);
+      let processed;
+      try {
+        processed = await processCsvContent(feedHandler, partner, req.body);
+      } catch (error) {
+        if (error instanceof FeedFormatError) {
+          res.status(400).json({ status: 'error', message: error.message });
+          return;
+        }
+        throw error;
+      }
 
-      const response: BatchResponse = {
+      const results: CsvRowResponse[] = processed.map(({ line, result }) => ({
+        row: line,
+        ...toFeedResponse(result),
+      }));
+
+      const response: BatchResponse<CsvRowResponse> = {
         total: results.length,
-        accepted: results.filter((r) => r.success).length,
-        rejected: results.filter((r) => !r.success).length,
-        results: results.map((r) =>
-          r.success
-            ? {
-                status: 'accepted' as const,
-                orderId: r.orderId,
-                partnerId: r.partnerId,
-                sequenceNumber: r.sequenceNumber!,
-              }
-            : {
-                status: 'rejected' as const,
-                orderId: r.orderId,
-                partnerId: r.partnerId,
-                errors: r.errors || [],
-              }
-        ),
+        accepted: results.filter((r) => r.status === 'accepted').length,
+        rejected: results.filter((r) => r.status === 'rejected').length,
+        results,
       };
 
       res.status(200).json(response);
@@ -166,45 +284,135 @@ export function createFeedRouter(feedHandler: FeedHandler): Router {
   });
 
   /**
-   * POST /api/feed/partner-b/batch
-   * Process a batch of Partner B orders.
+   * POST /api/feed/:partnerSlug/stream
+   * Process an NDJSON stream (application/x-ndjson), one order per line.
+   *
+   * The body is read and processed line by line and results are streamed
+   * back as NDJSON while the upload is in progress, so arbitrarily large
+   * batches run in bounded memory. The last line is a summary:
+   * {"summary":{"total":n,"accepted":n,"rejected":n}}
+   *
+   * Every line takes a rate limit token as it is read. Once the partner's
+   * limits are exhausted the rest of the stream is not processed and the
+   * last line is the refusal with the summary of the processed lines:
+   * {"status":"error","code":"RATE_LIMIT_EXCEEDED",...,"summary":{...}}
    */
-  router.post('/partner-b/batch', (req: Request, res: Response, next: NextFunction) => {
+  router.post('/:partnerSlug/stream', async (req: Request, res: Response, next: NextFunction) => {
+    const partner: IPartnerAdapter = res.locals.partner;
+
+    if (!req.is('application/x-ndjson')) {
+      res.status(415).json({
+        status: 'error',
+        message: 'Request body must be NDJSON with Content-Type application/x-ndjson',
+      });
+      return;
+    }
+
+    const summary = { total: 0, accepted: 0, rejected: 0 };
+
+    // Set by the rate limit middleware (absent for the master key)
+    const admitStreamedOrder: StreamOrderAdmission | undefined = res.locals.admitStreamedOrder;
+    let refusal = null as RateLimitRefusalBody | null;
+    const admit = (): boolean => {
+      refusal = admitStreamedOrder?.() ?? null;
+      return refusal === null;
+    };
+
+    // Respect backpressure from slow clients before reading more input
+    const writeLine = async (body: unknown): Promise<void> => {
+      if (!res.write(`${JSON.stringify(body)}\n`)) {
+        await new Promise<void>((resolve) => {
+          const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.on('drain', done);
+          res.on('close', done);
+        });
+      }
+    };
+
     try {
-      const inputs = req.body as PartnerBInput[];
+      res.status(200).type('application/x-ndjson');
 
-      if (!Array.isArray(inputs)) {
+      // Signed streams have been read in full to verify their signature
+      const source = req.rawBody ? [req.rawBody] : req;
+
+      for await (const { line, result: processed } of processNdjsonContent(feedHandler, partner, source, admit)) {
+        const result: NdjsonLineResponse = { line, ...toFeedResponse(processed) };
+
+        summary.total++;
+        summary[result.status === 'accepted' ? 'accepted' : 'rejected']++;
+        await writeLine(result);
+
+        // Stop reading once the client has gone away
+        if (res.destroyed) {
+          return;
+        }
+      }
+
+      if (refusal) {
+        // The unread lines can be sent again once the limits allow
+        res.end(`${JSON.stringify({ ...refusal, summary })}\n`);
+        return;
+      }
+
+      await writeLine({ summary });
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        return next(error);
+      }
+      // Results already streamed; report the failure in-band and stop
+      console.error('❌ Error processing NDJSON stream:', error);
+      res.end(`${JSON.stringify({ status: 'error', message: 'Stream processing failed', summary })}\n`);
+    }
+  });
+
+  /**
+   * PUT /api/feed/:partnerSlug/orders/:orderId
+   * Amend an accepted order. The body is the corrected order in the
+   * partner's format (same ID); amounts are recomputed.
+   */
+  router.put('/:partnerSlug/orders/:orderId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const partner: IPartnerAdapter = res.locals.partner;
+
+      if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
         res.status(400).json({
           status: 'error',
-          message: 'Request body must be an array of orders',
+          message: 'Request body must be a valid JSON object',
         });
         return;
       }
 
-      const results = feedHandler.processPartnerBBatch(inputs);
+      const result = await feedHandler.amendOrder(partner.partnerId, req.params.orderId, req.body);
+      sendOrderChange(res, result, 'amended');
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      const response: BatchResponse = {
-        total: results.length,
-        accepted: results.filter((r) => r.success).length,
-        rejected: results.filter((r) => !r.success).length,
-        results: results.map((r) =>
-          r.success
-            ? {
-                status: 'accepted' as const,
-                orderId: r.orderId,
-                partnerId: r.partnerId,
-                sequenceNumber: r.sequenceNumber!,
-              }
-            : {
-                status: 'rejected' as const,
-                orderId: r.orderId,
-                partnerId: r.partnerId,
-                errors: r.errors || [],
-              }
-        ),
-      };
+  /**
+   * POST /api/feed/:partnerSlug/orders/:orderId/cancel
+   * Cancel an accepted order, with an optional { "reason": "..." }.
+   */
+  router.post('/:partnerSlug/orders/:orderId/cancel', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const partner: IPartnerAdapter = res.locals.partner;
+      const reason = req.body?.reason;
 
-      res.status(200).json(response);
+      if (reason !== undefined && typeof reason !== 'string') {
+        res.status(400).json({
+          status: 'error',
+          message: 'reason must be a string',
+        });
+        return;
+      }
+
+      const result = await feedHandler.cancelOrder(partner.partnerId, req.params.orderId, reason);
+      sendOrderChange(res, result, 'cancelled');
     } catch (error) {
       next(error);
     }
@@ -212,3 +420,4 @@ export function createFeedRouter(feedHandler: FeedHandler): Router {
 
   return router;
 }
+
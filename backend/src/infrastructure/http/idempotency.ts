@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { IIdempotencyStorePort } from '../../domain/ports/idempotency-store.port';
+
+/**
+ * Options for configuring idempotency middleware.
+ */
+export interface IdempotencyOptions {
+  /** Store holding responses for replay */
+  store: IIdempotencyStorePort;
+
+  /** Header name carrying the client key (default: 'Idempotency-Key') */
+  headerName?: string;
+
+  /** Maximum accepted key length (default: 255) */
+  maxKeyLength?: number;
+}
+
+/**
+ * Hash a request body so that reuse of a key with a different payload can be detected.
+ */
+function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+}
+
+/**
+ * Create Idempotency-Key middleware for feed endpoints.
+ *
+ * When a POST request carries an Idempotency-Key header:
+ * 1. A stored response for the same route and key is replayed as-is
+ *    (same status and body, e.g. the original 202 with its sequenceNumber)
+ * 2. Reusing a key with a different body is rejected with 422
+ * 3. A request still in progress with the same key is rejected with 409
+ * 4. Otherwise the request is processed and its response stored, unless it
+ *    asks the client to retry (429 or status >= 500)
+ *
+ * Requests without the header are passed through untouched.
+ *
+ * Usage:
+ * ```typescript
+ * app.use('/api/feed', createIdempotencyMiddleware({ store }));
+ * ```
+ */
+export function createIdempotencyMiddleware(options: IdempotencyOptions) {
+  const {
+    store,
+    headerName = 'Idempotency-Key',
+    maxKeyLength = 255,
+  } = options;
+
+  // Keys whose first request has not produced a response yet
+  const inFlightKeys = new Set<string>();
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (req.method !== 'POST') {
+      return next();
+    }
+
+    const idempotencyKey = req.header(headerName);
+    if (idempotencyKey === undefined) {
+      return next();
+    }
+
+    if (idempotencyKey.trim().length === 0 || idempotencyKey.length > maxKeyLength) {
+      res.status(400).json({
+        status: 'error',
+        code: 'INVALID_IDEMPOTENCY_KEY',
+        message: `${headerName} must be between 1 and ${maxKeyLength} characters`,
+      });
+      return;
+    }
+
+    // Keys are scoped to the route so partners cannot collide with each other
+    const key = `${req.baseUrl}${req.path}:${idempotencyKey}`;
+    const requestHash = hashRequestBody(req.body);
+
+    try {
+      const existing = await store.find(key);
+
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          res.status(422).json({
+            status: 'error',
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: `${headerName} '${idempotencyKey}' was already used with a different request body`,
+          });
+          return;
+        }
+
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.statusCode).json(existing.responseBody);
+        return;
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    if (inFlightKeys.has(key)) {
+      res.status(409).json({
+        status: 'error',
+        code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+        message: `A request with ${headerName} '${idempotencyKey}' is still being processed`,
+      });
+      return;
+    }
+
+    inFlightKeys.add(key);
+    res.on('close', () => inFlightKeys.delete(key));
+
+    // Capture the response body so it can be replayed later
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (res.statusCode < 500 && res.statusCode !== 429) {
+        store
+          .save({
+            key,
+            requestHash,
+            statusCode: res.statusCode,
+            responseBody: body,
+            createdAt: new Date().toISOString(),
+          })
+          .catch((error) => console.error(`❌ Error saving idempotency key:`, error));
+      }
+      inFlightKeys.delete(key);
+      return originalJson(body);
+    };
+
+    next();
+  };
+}
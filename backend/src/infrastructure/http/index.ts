@@ -1,6 +1,18 @@
 export { createFeedRouter } from './feed-router';
 export { createOrdersRouter } from './orders-router';
 export { createErrorsRouter } from './errors-router';
+export { createPartnersRouter } from './partners-router';
+export { createJobsRouter } from './jobs-router';
+export { createWebhooksRouter } from './webhooks-router';
+export { createAdminRouter } from './admin-router';
+export { createSchemasRouter } from './schemas-router';
 export { errorHandler, notFoundHandler, AppError } from './error-handler';
-export { createApiKeyAuth, requireAuth, getAuthInfo } from './api-key-auth';
-export type { ApiKeyAuthOptions, ApiKeyConfig } from './api-key-auth';
+export { createApiKeyAuth, createMasterKeyAuth, requireAuth, getAuthInfo } from './api-key-auth';
+export type { ApiKeyAuthOptions } from './api-key-auth';
+export { createApiKeysRouter } from './api-keys-router';
+export { createIdempotencyMiddleware } from './idempotency';
+export type { IdempotencyOptions } from './idempotency';
+export { createRateLimitMiddleware } from './rate-limit';
+export type { RateLimitOptions, RateLimitRefusalBody, StreamOrderAdmission } from './rate-limit';
+export { createRequestSigningMiddleware, SignatureHeader } from './request-signing';
+export type { RequestSigningOptions } from './request-signing';
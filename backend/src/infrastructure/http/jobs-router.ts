@@ -0,0 +1,37 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { BatchJobService } from '../../application/services/batch-job-service';
+
+/**
+ * Create jobs router with dependency injection.
+ * Exposes the status of asynchronous batch jobs.
+ */
+export function createJobsRouter(batchJobService: BatchJobService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/jobs/:id
+   * Get job status, progress counts and per-order results
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = await batchJobService.getJob(req.params.id);
+
+      if (!job) {
+        res.status(404).json({
+          status: 'error',
+          message: `Job not found: ${req.params.id}`,
+        });
+        return;
+      }
+
+      res.json({
+        status: 'success',
+        job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,30 +1,36 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { OrderQueryService } from '../../application/services/order-query-service';
-import { PartnerId } from '../../domain/models';
+import { FeedHandler } from '../../application/services/feed-handler';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { isOrderStatus } from '../../domain/services/order-status';
 import { OrderQueryFilters, PaginationOptions, SortOptions } from '../../domain/ports';
+import { ErrorCode, OrderStatus } from '../../domain/models';
 
 /**
  * Parse query parameters for order listing
  */
-function parseQueryParams(query: Record<string, any>): {
+function parseQueryParams(query: Record<string, any>, partnerRegistry: PartnerRegistry): {
   filters: OrderQueryFilters;
   pagination: PaginationOptions;
   sort?: SortOptions;
 } {
   const filters: OrderQueryFilters = {};
   
-  // Partner filter
+  // Partner filter (partner ID, slug or alias of a registered partner)
   if (query.partnerId) {
-    if (query.partnerId === 'PARTNER_A' || query.partnerId === 'A') {
-      filters.partnerId = PartnerId.PARTNER_A;
-    } else if (query.partnerId === 'PARTNER_B' || query.partnerId === 'B') {
-      filters.partnerId = PartnerId.PARTNER_B;
-    }
+    const partner = partnerRegistry.resolve(String(query.partnerId));
+    if (partner) filters.partnerId = partner.partnerId;
   }
   
   // String filters
   if (query.customerId) filters.customerId = query.customerId;
   if (query.productId) filters.productId = query.productId;
+
+  // Status filter (case-insensitive)
+  if (query.status) {
+    const status = String(query.status).toUpperCase();
+    if (isOrderStatus(status)) filters.status = status;
+  }
   
   // Date filters
   if (query.fromDate) {
@@ -45,6 +51,15 @@ function parseQueryParams(query: Record<string, any>): {
     const amount = parseFloat(query.maxAmount);
     if (!isNaN(amount)) filters.maxAmount = amount;
   }
+
+  // Validation warning filters
+  if (query.hasWarnings === 'true' || query.hasWarnings === 'false') {
+    filters.hasWarnings = query.hasWarnings === 'true';
+  }
+  if (query.warningCode) {
+    const code = String(query.warningCode).toUpperCase();
+    if (Object.values(ErrorCode).includes(code as ErrorCode)) filters.warningCode = code as ErrorCode;
+  }
   
   // Pagination
   const page = parseInt(query.page, 10) || 1;
@@ -69,16 +84,53 @@ function parseQueryParams(query: Record<string, any>): {
 /**
  * Create orders router with dependency injection.
  */
-export function createOrdersRouter(queryService: OrderQueryService): Router {
+export function createOrdersRouter(
+  queryService: OrderQueryService,
+  partnerRegistry: PartnerRegistry,
+  feedHandler: FeedHandler
+): Router {
   const router = Router();
 
+  /**
+   * Respond with 400 listing the accepted partner identifiers.
+   */
+  const sendInvalidPartner = (res: Response): void => {
+    const accepted = partnerRegistry
+      .list()
+      .flatMap((partner) => [...(partner.aliases ?? []), partner.partnerId]);
+
+    res.status(400).json({
+      status: 'error',
+      message: `Invalid partner ID. Use ${accepted.join(', ')}`,
+    });
+  };
+
+  /**
+   * Respond with 400 when the status filter is not a known order status.
+   * Returns true when the response was sent.
+   */
+  const rejectUnknownStatus = (req: Request, res: Response): boolean => {
+    if (!req.query.status || isOrderStatus(String(req.query.status).toUpperCase())) {
+      return false;
+    }
+
+    res.status(400).json({
+      status: 'error',
+      message: `Invalid status. Use ${Object.values(OrderStatus).join(', ')}`,
+    });
+    return true;
+  };
+
   /**
    * GET /api/orders
    * List orders with optional filters and pagination
    */
   router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { filters, pagination, sort } = parseQueryParams(req.query);
+      if (rejectUnknownStatus(req, res)) {
+        return;
+      }
+      const { filters, pagination, sort } = parseQueryParams(req.query, partnerRegistry);
       
       const result = await queryService.listOrders({
         filters,
@@ -101,7 +153,10 @@ export function createOrdersRouter(queryService: OrderQueryService): Router {
    */
   router.get('/stats', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { filters } = parseQueryParams(req.query);
+      if (rejectUnknownStatus(req, res)) {
+        return;
+      }
+      const { filters } = parseQueryParams(req.query, partnerRegistry);
       const stats = await queryService.getStatistics(filters);
       
       res.json({
@@ -119,22 +174,14 @@ export function createOrdersRouter(queryService: OrderQueryService): Router {
    */
   router.get('/by-partner/:partnerId', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const partnerParam = req.params.partnerId.toUpperCase();
-      let partnerId: PartnerId;
-      
-      if (partnerParam === 'A' || partnerParam === 'PARTNER_A') {
-        partnerId = PartnerId.PARTNER_A;
-      } else if (partnerParam === 'B' || partnerParam === 'PARTNER_B') {
-        partnerId = PartnerId.PARTNER_B;
-      } else {
-        res.status(400).json({
-          status: 'error',
-          message: 'Invalid partner ID. Use A, B, PARTNER_A, or PARTNER_B',
-        });
+      const partner = partnerRegistry.resolve(req.params.partnerId);
+      if (!partner) {
+        sendInvalidPartner(res);
         return;
       }
+      const { partnerId } = partner;
       
-      const { pagination } = parseQueryParams(req.query);
+      const { pagination } = parseQueryParams(req.query, partnerRegistry);
       const result = await queryService.getOrdersByPartner(partnerId, pagination);
       
       res.json({
@@ -154,7 +201,7 @@ export function createOrdersRouter(queryService: OrderQueryService): Router {
   router.get('/by-customer/:customerId', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { customerId } = req.params;
-      const { pagination } = parseQueryParams(req.query);
+      const { pagination } = parseQueryParams(req.query, partnerRegistry);
       
       const result = await queryService.getOrdersByCustomer(customerId, pagination);
       
@@ -194,27 +241,64 @@ export function createOrdersRouter(queryService: OrderQueryService): Router {
     }
   });
 
+  /**
+   * PATCH /api/orders/:id/status
+   * Move an order to another lifecycle status: { "status": "FULFILLED", "reason": "..." }
+   */
+  router.patch('/:id/status', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.body ?? {};
+
+      if (!isOrderStatus(status)) {
+        res.status(400).json({
+          status: 'error',
+          message: `Invalid status. Use ${Object.values(OrderStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      if (reason !== undefined && typeof reason !== 'string') {
+        res.status(400).json({
+          status: 'error',
+          message: 'reason must be a string',
+        });
+        return;
+      }
+
+      const result = await feedHandler.changeOrderStatus(id, status, reason);
+
+      if (!result.success) {
+        res.status(result.errorCode === ErrorCode.ORDER_NOT_FOUND ? 404 : 409).json({
+          status: 'error',
+          message: result.errors.join('; '),
+          errorCode: result.errorCode,
+        });
+        return;
+      }
+
+      res.json({
+        status: 'success',
+        order: result.order,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * GET /api/orders/external/:partnerId/:externalId
    * Get order by external ID and partner
    */
   router.get('/external/:partnerId/:externalId', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const partnerParam = req.params.partnerId.toUpperCase();
       const { externalId } = req.params;
-      
-      let partnerId: PartnerId;
-      if (partnerParam === 'A' || partnerParam === 'PARTNER_A') {
-        partnerId = PartnerId.PARTNER_A;
-      } else if (partnerParam === 'B' || partnerParam === 'PARTNER_B') {
-        partnerId = PartnerId.PARTNER_B;
-      } else {
-        res.status(400).json({
-          status: 'error',
-          message: 'Invalid partner ID. Use A, B, PARTNER_A, or PARTNER_B',
-        });
+      const partner = partnerRegistry.resolve(req.params.partnerId);
+      if (!partner) {
+        sendInvalidPartner(res);
         return;
       }
+      const { partnerId } = partner;
       
       const result = await queryService.getOrderByExternalId(externalId, partnerId);
       
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+
+/**
+ * Create partners router with dependency injection.
+ * Exposes the registered partners so clients can discover feed routes.
+ */
+export function createPartnersRouter(partnerRegistry: PartnerRegistry): Router {
+  const router = Router();
+
+  /**
+   * GET /api/partners
+   * List registered partners
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    res.json({
+      status: 'success',
+      partners: partnerRegistry.list().map((partner) => ({
+        partnerId: partner.partnerId,
+        slug: partner.slug,
+        displayName: partner.displayName,
+        idField: partner.idField,
+        aliases: partner.aliases ?? [],
+        feedPath: `/api/feed/${partner.slug}`,
+        schemaPath: `/api/schemas/${partner.slug}`,
+      })),
+    });
+  });
+
+  return router;
+}
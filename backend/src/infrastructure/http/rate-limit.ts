@@ -0,0 +1,187 @@
+import { Request, Response, NextFunction } from 'express';
+import { PartnerId, RateLimitKind, RateLimitPolicy } from '../../domain/models';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { RateLimiter, RateLimitDecision, RateLimitRefusal } from '../../application/services/rate-limiter';
+import { countCsvRecords } from '../formats/csv-parser';
+import { getAuthInfo } from './api-key-auth';
+
+/**
+ * Options for configuring rate limit middleware.
+ */
+export interface RateLimitOptions {
+  /** Limiter holding the partners' token buckets and daily counts */
+  rateLimiter: RateLimiter;
+
+  /** Registry used to resolve the partner from the feed route slug */
+  partnerRegistry: PartnerRegistry;
+}
+
+/**
+ * Body of a response refusing orders
+ */
+export interface RateLimitRefusalBody {
+  status: 'error';
+  code: RateLimitRefusal;
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Take a token for the next line of an NDJSON stream. Returns null when the
+ * line may be processed, or why it was refused. Set on res.locals
+ * (admitStreamedOrder) by the rate limit middleware for stream requests.
+ */
+export type StreamOrderAdmission = () => RateLimitRefusalBody | null;
+
+/** Feed routes whose orders draw on the batch bucket */
+const BATCH_ROUTES = ['batch', 'csv', 'stream'];
+
+/**
+ * Number of orders a request sends, as far as it is known before processing.
+ * NDJSON streams count their first order upfront; every further line takes
+ * its token when it is read.
+ */
+function countOrders(req: Request, route: string | undefined): number {
+  if (route === 'batch') {
+    return Array.isArray(req.body) ? req.body.length : 1;
+  }
+  if (route === 'csv' && typeof req.body === 'string') {
+    // Records after the header row, counted without parsing them twice
+    return Math.max(1, countCsvRecords(req.body) - 1);
+  }
+  return 1;
+}
+
+/**
+ * RateLimit-Policy value: the bucket as a quota over the time it takes to
+ * refill completely, followed by the daily quota
+ */
+function describePolicy(policy: RateLimitPolicy, kind: RateLimitKind): string {
+  const bucket = policy[kind];
+  const window = Math.ceil(bucket.capacity / bucket.refillPerSecond);
+  return `${bucket.capacity};w=${window};burst=${bucket.capacity}, ${policy.dailyQuota};w=86400`;
+}
+
+/**
+ * Set the RateLimit-* headers (draft-ietf-httpapi-ratelimit-headers) of a decision
+ */
+function setRateLimitHeaders(res: Response, decision: RateLimitDecision): void {
+  res.setHeader('RateLimit-Limit', decision.limit);
+  res.setHeader('RateLimit-Remaining', decision.remaining);
+  res.setHeader('RateLimit-Reset', decision.resetSeconds);
+  res.setHeader('RateLimit-Policy', describePolicy(decision.policy, decision.kind));
+}
+
+/**
+ * Response body explaining why orders were refused
+ */
+function describeRefusal(decision: RateLimitDecision, orders: number): RateLimitRefusalBody {
+  const code = decision.refusal!;
+  const message = code === 'BATCH_TOO_LARGE'
+    ? `Batch of ${orders} orders exceeds the limit of ${decision.policy.batch.capacity} orders per request`
+    : code === 'DAILY_QUOTA_EXCEEDED'
+      ? `Daily quota of ${decision.policy.dailyQuota} orders exceeded`
+      : `Rate limit exceeded for ${decision.kind} orders; retry in ${decision.retryAfterSeconds} second(s)`;
+
+  return {
+    status: 'error',
+    code,
+    message,
+    ...(code !== 'BATCH_TOO_LARGE' && { retryAfterSeconds: decision.retryAfterSeconds }),
+  };
+}
+
+/**
+ * Take tokens for a partner's orders and set the RateLimit-* headers.
+ * Refused orders are answered with 429 (Retry-After) or 413 and false is
+ * returned; the caller must then not process them.
+ */
+export function applyRateLimit(
+  res: Response,
+  rateLimiter: RateLimiter,
+  partnerId: PartnerId,
+  kind: RateLimitKind,
+  orders: number
+): boolean {
+  const decision = rateLimiter.consume(partnerId, kind, orders);
+  setRateLimitHeaders(res, decision);
+
+  if (decision.refusal === 'BATCH_TOO_LARGE') {
+    res.status(413).json(describeRefusal(decision, orders));
+    return false;
+  }
+
+  if (!decision.allowed) {
+    console.warn(`[RATE_LIMIT] ${decision.refusal} for ${partnerId} (${orders} ${kind} order(s))`);
+    res.setHeader('Retry-After', decision.retryAfterSeconds ?? decision.resetSeconds);
+    res.status(429).json(describeRefusal(decision, orders));
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Create rate limit middleware for feed endpoints.
+ *
+ * Every order takes a token from the partner's bucket: single-order routes
+ * (submit, amend, cancel) and batch routes (batch, CSV, NDJSON stream)
+ * have separate buckets, and all orders count towards the daily quota.
+ * The partner is the one authenticated by createApiKeyAuth, or the route
+ * partner when authentication is disabled; the master key is not limited.
+ *
+ * Responses carry RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset
+ * and RateLimit-Policy. Refused requests get 429 with Retry-After, or 413
+ * for a batch larger than the bucket can ever hold. NDJSON streams are
+ * admitted line by line through res.locals.admitStreamedOrder.
+ *
+ * Mount after the idempotency middleware so replayed responses are not charged.
+ *
+ * Usage:
+ * ```typescript
+ * app.use('/api/feed', createRateLimitMiddleware({ rateLimiter, partnerRegistry }));
+ * ```
+ */
+export function createRateLimitMiddleware(options: RateLimitOptions) {
+  const { rateLimiter, partnerRegistry } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const auth = getAuthInfo(req);
+    if (auth?.type === 'master') {
+      return next();
+    }
+
+    const [slug, route] = req.path.split('/').filter(Boolean);
+    const partnerId = auth?.partnerId ?? (slug ? partnerRegistry.getBySlug(slug)?.partnerId : undefined);
+    if (!partnerId) {
+      // Unknown partners are rejected by the feed router
+      return next();
+    }
+
+    const kind: RateLimitKind = route !== undefined && BATCH_ROUTES.includes(route) ? 'batch' : 'single';
+    const orders = countOrders(req, route);
+    if (!applyRateLimit(res, rateLimiter, partnerId, kind, orders)) {
+      return;
+    }
+
+    // Stream lines after the first take their tokens as they are read
+    if (route === 'stream') {
+      let prepaid = orders;
+      const admitStreamedOrder: StreamOrderAdmission = () => {
+        if (prepaid > 0) {
+          prepaid--;
+          return null;
+        }
+        const decision = rateLimiter.consume(partnerId, kind, 1);
+        if (decision.allowed) {
+          return null;
+        }
+        console.warn(`[RATE_LIMIT] ${decision.refusal} for ${partnerId} (NDJSON stream cut short)`);
+        return describeRefusal(decision, 1);
+      };
+      res.locals.admitStreamedOrder = admitStreamedOrder;
+    }
+
+    next();
+  };
+}
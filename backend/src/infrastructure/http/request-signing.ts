@@ -0,0 +1,172 @@
+import { Request, Response, NextFunction } from 'express';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { RequestSigning, verifyRequestSignature } from '../../domain/services/request-signature';
+import { getAuthInfo } from './api-key-auth';
+
+/**
+ * Request signing headers
+ */
+export const SignatureHeader = {
+  SIGNATURE: 'X-Signature',
+  TIMESTAMP: 'X-Signature-Timestamp',
+  NONCE: 'X-Signature-Nonce',
+} as const;
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Body as received, kept by the body parsers (see app.ts) to verify request signatures */
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/** Nonces are opaque tokens such as UUIDs */
+const NONCE_PATTERN = /^[A-Za-z0-9._~-]{8,128}$/;
+
+/**
+ * Options for configuring request signing middleware.
+ */
+export interface RequestSigningOptions {
+  /** Partners that sign their requests, with their secrets */
+  signing: RequestSigning;
+
+  /** Registry used to resolve the partner from the feed route slug */
+  partnerRegistry: PartnerRegistry;
+
+  /** Largest body buffered to verify a signed NDJSON stream (default: signing.maxStreamBytes) */
+  maxStreamBytes?: number;
+}
+
+/**
+ * Raw body of a request as captured by the body parsers (see app.ts).
+ * Unparsed bodies (NDJSON streams) are read here; the feed router then
+ * processes the buffered body instead of the request stream.
+ */
+async function readRawBody(req: Request, maxBytes: number): Promise<Buffer | null> {
+  if (req.rawBody !== undefined || req.readableEnded) {
+    return req.rawBody ?? Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      return null;
+    }
+    chunks.push(chunk);
+  }
+
+  req.rawBody = Buffer.concat(chunks);
+  return req.rawBody;
+}
+
+/**
+ * Create request signing middleware for feed endpoints.
+ *
+ * Partners with signing settings send X-Signature-Timestamp (Unix
+ * seconds), X-Signature-Nonce (unique per request) and
+ * X-Signature: sha256=<HMAC-SHA256 of "<timestamp>.<nonce>.<method>.<url>.<body>">.
+ * A request is refused with 401 when the signature does not match any of
+ * the partner's secrets, the timestamp is outside the tolerance or the
+ * nonce was already used within it. Partners without settings, and the
+ * master key, are passed through.
+ *
+ * Nonces are remembered in memory for twice the tolerance: older requests
+ * are refused by their timestamp anyway.
+ *
+ * Signed NDJSON streams are buffered in full and verified before any order
+ * is processed, so they are limited to maxStreamBytes (413 beyond); unsigned
+ * streams keep bounded memory.
+ *
+ * Usage:
+ * ```typescript
+ * app.use('/api/feed', createRequestSigningMiddleware({ signing, partnerRegistry }));
+ * ```
+ */
+export function createRequestSigningMiddleware(options: RequestSigningOptions) {
+  const { signing, partnerRegistry, maxStreamBytes = signing.maxStreamBytes } = options;
+  const toleranceMs = signing.toleranceSeconds * 1000;
+
+  // Nonces by partner, in the order they expire
+  const seenNonces = new Map<string, number>();
+
+  const forgetExpiredNonces = (now: number) => {
+    for (const [nonce, expiresAt] of seenNonces) {
+      if (expiresAt > now) break;
+      seenNonces.delete(nonce);
+    }
+  };
+
+  const refuse = (res: Response, code: string, message: string) => {
+    res.status(401).json({ status: 'error', code, message });
+  };
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const auth = getAuthInfo(req);
+    if (auth?.type === 'master') {
+      return next();
+    }
+
+    const slug = req.path.split('/').filter(Boolean)[0];
+    const partnerId = auth?.partnerId ?? (slug ? partnerRegistry.getBySlug(slug)?.partnerId : undefined);
+    const settings = partnerId ? signing.forPartner(partnerId) : null;
+    if (!partnerId || !settings) {
+      return next();
+    }
+
+    const signature = req.header(SignatureHeader.SIGNATURE);
+    const timestamp = req.header(SignatureHeader.TIMESTAMP);
+    const nonce = req.header(SignatureHeader.NONCE);
+
+    if (signature === undefined && timestamp === undefined && nonce === undefined && !settings.required) {
+      return next();
+    }
+    if (signature === undefined || timestamp === undefined || nonce === undefined) {
+      return refuse(res, 'MISSING_SIGNATURE',
+        `Signed requests require the headers ${Object.values(SignatureHeader).join(', ')}`);
+    }
+
+    const now = Date.now();
+    const signedAt = /^\d{1,12}$/.test(timestamp) ? Number(timestamp) * 1000 : NaN;
+    if (!(Math.abs(now - signedAt) <= toleranceMs)) {
+      return refuse(res, 'INVALID_SIGNATURE_TIMESTAMP',
+        `${SignatureHeader.TIMESTAMP} must be Unix seconds within ${signing.toleranceSeconds} seconds of the server time`);
+    }
+    if (!NONCE_PATTERN.test(nonce)) {
+      return refuse(res, 'INVALID_NONCE', `${SignatureHeader.NONCE} must be 8 to 128 letters, digits or -._~`);
+    }
+
+    try {
+      const body = await readRawBody(req, maxStreamBytes);
+      if (body === null) {
+        res.status(413).json({
+          status: 'error',
+          code: 'PAYLOAD_TOO_LARGE',
+          message: `Signed streams are limited to ${maxStreamBytes} bytes`,
+        });
+        return;
+      }
+
+      const signedRequest = { timestamp, nonce, method: req.method, url: req.originalUrl, body };
+      if (!verifyRequestSignature(settings.secrets, signedRequest, signature)) {
+        console.warn(`[AUTH] Invalid request signature for ${partnerId} from ${req.ip}`);
+        return refuse(res, 'INVALID_SIGNATURE', 'Request signature does not match');
+      }
+
+      // Remembered only once verified, so forged requests cannot burn nonces
+      forgetExpiredNonces(now);
+      const nonceKey = `${partnerId}:${nonce}`;
+      if (seenNonces.has(nonceKey)) {
+        console.warn(`[AUTH] Replayed request for ${partnerId} from ${req.ip}`);
+        return refuse(res, 'NONCE_REUSED', 'Request nonce has already been used');
+      }
+      seenNonces.set(nonceKey, now + 2 * toleranceMs);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
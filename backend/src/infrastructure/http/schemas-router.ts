@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import { ErrorCode } from '../../domain/models';
+
+/**
+ * Create schemas router with dependency injection.
+ * Publishes the JSON Schema of every partner input format.
+ */
+export function createSchemasRouter(partnerRegistry: PartnerRegistry): Router {
+  const router = Router();
+
+  /**
+   * GET /api/schemas
+   * List the published schemas
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    res.json({
+      status: 'success',
+      schemas: partnerRegistry.list().map((partner) => ({
+        partnerId: partner.partnerId,
+        slug: partner.slug,
+        title: partner.inputSchema.title,
+        schemaPath: `/api/schemas/${partner.slug}`,
+      })),
+    });
+  });
+
+  /**
+   * GET /api/schemas/:partner
+   * JSON Schema of a partner's input format (partner ID, slug or alias)
+   */
+  router.get('/:partner', (req: Request, res: Response) => {
+    const partner = partnerRegistry.resolve(req.params.partner);
+    if (!partner) {
+      res.status(404).json({
+        status: 'error',
+        code: ErrorCode.UNKNOWN_PARTNER,
+        message: `Partner not found: ${req.params.partner}`,
+      });
+      return;
+    }
+
+    res.type('application/schema+json').send(JSON.stringify(partner.inputSchema, null, 2));
+  });
+
+  return router;
+}
@@ -0,0 +1,277 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { WebhookService } from '../../application/services/webhook-service';
+import { PartnerRegistry } from '../../domain/services/partner-registry';
+import {
+  WebhookSubscription,
+  WebhookEventType,
+  WebhookDeliveryStatus,
+  ErrorCode,
+} from '../../domain/models';
+import { WebhookDeliveryFilters } from '../../domain/ports';
+
+/** Minimum length of a partner supplied signing secret */
+const MIN_SECRET_LENGTH = 16;
+
+/**
+ * Hide the signing secret except for its last characters.
+ */
+function toSubscriptionView(subscription: WebhookSubscription) {
+  return {
+    ...subscription,
+    secret: `••••${subscription.secret.slice(-4)}`,
+  };
+}
+
+/**
+ * Validate a subscription request body; returns the list of problems.
+ */
+function validateSubscriptionBody(body: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  let url: URL | null = null;
+  try {
+    url = typeof body.url === 'string' ? new URL(body.url) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    errors.push('url must be an absolute http(s) URL');
+  }
+
+  if (body.secret !== undefined &&
+      (typeof body.secret !== 'string' || body.secret.length < MIN_SECRET_LENGTH)) {
+    errors.push(`secret must be a string of at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  const eventTypes = Object.values(WebhookEventType) as string[];
+  if (body.events !== undefined &&
+      (!Array.isArray(body.events) || body.events.length === 0 ||
+       body.events.some((e) => !eventTypes.includes(e)))) {
+    errors.push(`events must be a non-empty array of ${eventTypes.join(', ')}`);
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * Create webhooks router with dependency injection.
+ *
+ * - GET    /api/webhooks                               List subscriptions
+ * - GET    /api/webhooks/deliveries                    Delivery log
+ * - GET    /api/webhooks/deliveries/:id                Delivery details
+ * - POST   /api/webhooks/deliveries/:id/redeliver      Redeliver now
+ * - GET    /api/webhooks/:partnerId                    Partner subscription
+ * - PUT    /api/webhooks/:partnerId                    Create/update subscription
+ * - DELETE /api/webhooks/:partnerId                    Remove subscription
+ */
+export function createWebhooksRouter(webhookService: WebhookService, partnerRegistry: PartnerRegistry): Router {
+  const router = Router();
+
+  /**
+   * Resolve the partner from any accepted identifier (ID, slug or alias).
+   */
+  router.param('partnerId', (req: Request, res: Response, next: NextFunction, identifier: string) => {
+    const partner = partnerRegistry.resolve(identifier);
+
+    if (!partner) {
+      res.status(404).json({
+        status: 'error',
+        code: ErrorCode.UNKNOWN_PARTNER,
+        message: `Partner not found: ${identifier}`,
+      });
+      return;
+    }
+
+    res.locals.partnerId = partner.partnerId;
+    next();
+  });
+
+  /**
+   * GET /api/webhooks
+   * List subscriptions (secrets masked)
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscriptions = await webhookService.listSubscriptions();
+      res.json({
+        status: 'success',
+        subscriptions: subscriptions.map(toSubscriptionView),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/webhooks/deliveries
+   * Query the delivery log: ?partnerId=&status=&event=&page=&pageSize=
+   */
+  router.get('/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filters: WebhookDeliveryFilters = {};
+      const { partnerId, status, event } = req.query;
+
+      if (typeof partnerId === 'string') {
+        const partner = partnerRegistry.resolve(partnerId);
+        if (!partner) {
+          res.status(400).json({ status: 'error', message: `Unknown partner: ${partnerId}` });
+          return;
+        }
+        filters.partnerId = partner.partnerId;
+      }
+      if (typeof status === 'string') {
+        const normalized = status.toUpperCase() as WebhookDeliveryStatus;
+        if (!Object.values(WebhookDeliveryStatus).includes(normalized)) {
+          res.status(400).json({
+            status: 'error',
+            message: `Invalid status. Use ${Object.values(WebhookDeliveryStatus).join(', ')}`,
+          });
+          return;
+        }
+        filters.status = normalized;
+      }
+      if (typeof event === 'string') {
+        if (!(Object.values(WebhookEventType) as string[]).includes(event)) {
+          res.status(400).json({
+            status: 'error',
+            message: `Invalid event. Use ${Object.values(WebhookEventType).join(', ')}`,
+          });
+          return;
+        }
+        filters.event = event as WebhookEventType;
+      }
+
+      const page = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+      const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize as string, 10) || 20));
+
+      const result = await webhookService.listDeliveries(filters, { page, pageSize });
+      res.json({
+        status: 'success',
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/webhooks/deliveries/:id
+   * Get a delivery with its attempt state
+   */
+  router.get('/deliveries/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const delivery = await webhookService.getDelivery(req.params.id);
+
+      if (!delivery) {
+        res.status(404).json({ status: 'error', message: `Delivery not found: ${req.params.id}` });
+        return;
+      }
+
+      res.json({ status: 'success', delivery });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/webhooks/deliveries/:id/redeliver
+   * Start a new delivery cycle and return the outcome of its first attempt
+   */
+  router.post('/deliveries/:id/redeliver', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const delivery = await webhookService.redeliver(req.params.id);
+
+      if (!delivery) {
+        res.status(404).json({ status: 'error', message: `Delivery not found: ${req.params.id}` });
+        return;
+      }
+
+      res.json({ status: 'success', delivery });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/webhooks/:partnerId
+   * Get a partner's subscription (secret masked)
+   */
+  router.get('/:partnerId', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscription = await webhookService.getSubscription(res.locals.partnerId);
+
+      if (!subscription) {
+        res.status(404).json({
+          status: 'error',
+          message: `No webhook configured for ${res.locals.partnerId}`,
+        });
+        return;
+      }
+
+      res.json({ status: 'success', subscription: toSubscriptionView(subscription) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/webhooks/:partnerId
+   * Create or update a partner's subscription.
+   * The response is the only place the full signing secret is returned.
+   */
+  router.put('/:partnerId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body;
+
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        res.status(400).json({ status: 'error', message: 'Request body must be a valid JSON object' });
+        return;
+      }
+
+      const errors = validateSubscriptionBody(body);
+      if (errors.length > 0) {
+        res.status(400).json({ status: 'error', message: 'Invalid webhook configuration', errors });
+        return;
+      }
+
+      const subscription = await webhookService.configure(res.locals.partnerId, {
+        url: body.url,
+        secret: body.secret,
+        events: body.events,
+        enabled: body.enabled,
+      });
+
+      res.json({ status: 'success', subscription });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:partnerId
+   * Remove a partner's subscription
+   */
+  router.delete('/:partnerId', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const deleted = await webhookService.removeSubscription(res.locals.partnerId);
+
+      if (!deleted) {
+        res.status(404).json({
+          status: 'error',
+          message: `No webhook configured for ${res.locals.partnerId}`,
+        });
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
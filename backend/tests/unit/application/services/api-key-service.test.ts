@@ -0,0 +1,77 @@
+import { ApiKeyService, getApiKeyStatus, hashApiKey } from '../../../../src/application/services/api-key-service';
+import { InMemoryApiKeyStore } from '../../../../src/infrastructure/adapters/api-key-store';
+import { ApiKeyStatus, ErrorCode, PartnerId } from '../../../../src/domain/models';
+
+describe('ApiKeyService', () => {
+  let now: Date;
+  let store: InMemoryApiKeyStore;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    now = new Date('2024-01-15T10:00:00.000Z');
+    store = new InMemoryApiKeyStore();
+    service = new ApiKeyService(store, () => now);
+  });
+
+  it('should issue random keys and store only their hashes', async () => {
+    const { apiKey, key } = await service.create(PartnerId.PARTNER_A, { label: 'batch uploader' });
+    const other = await service.create(PartnerId.PARTNER_A);
+
+    expect(key).toMatch(/^pk_[A-Za-z0-9_-]{32}$/);
+    expect(other.key).not.toBe(key);
+    expect(apiKey).toEqual({
+      id: expect.any(String),
+      partnerId: PartnerId.PARTNER_A,
+      keyHash: hashApiKey(key),
+      maskedKey: `pk_••••${key.slice(-4)}`,
+      label: 'batch uploader',
+      createdAt: '2024-01-15T10:00:00.000Z',
+    });
+    expect(JSON.stringify(await store.list())).not.toContain(key);
+  });
+
+  it('should authenticate active keys and record their last use', async () => {
+    const { apiKey, key } = await service.create(PartnerId.PARTNER_A);
+    now = new Date('2024-01-15T11:00:00.000Z');
+
+    expect(await service.authenticate(key)).toMatchObject({ id: apiKey.id, lastUsedAt: '2024-01-15T11:00:00.000Z' });
+    expect((await service.get(apiKey.id))?.lastUsedAt).toBe('2024-01-15T11:00:00.000Z');
+    expect(await service.authenticate('pk_unknown')).toBeNull();
+  });
+
+  it('should keep a rotated key working for the grace period', async () => {
+    const { apiKey, key } = await service.create(PartnerId.PARTNER_A, { label: 'pos' });
+
+    const rotation = await service.rotate(apiKey.id, 3600);
+    if (!rotation.success) throw new Error(rotation.message);
+
+    expect(rotation.previous).toMatchObject({ expiresAt: '2024-01-15T11:00:00.000Z', replacedBy: rotation.issued.apiKey.id });
+    expect(rotation.issued.apiKey).toMatchObject({ partnerId: PartnerId.PARTNER_A, label: 'pos' });
+    expect(await service.authenticate(key)).not.toBeNull();
+    expect(await service.authenticate(rotation.issued.key)).not.toBeNull();
+
+    now = new Date('2024-01-15T11:00:00.000Z');
+    expect(await service.authenticate(key)).toBeNull();
+    expect(await service.authenticate(rotation.issued.key)).not.toBeNull();
+    expect(getApiKeyStatus(rotation.previous, now)).toBe(ApiKeyStatus.EXPIRED);
+
+    const again = await service.rotate(apiKey.id);
+    expect(again).toMatchObject({ success: false, errorCode: ErrorCode.API_KEY_INACTIVE });
+  });
+
+  it('should expire and revoke keys', async () => {
+    const scheduled = await service.create(PartnerId.PARTNER_A);
+    const revoked = await service.create(PartnerId.PARTNER_B);
+
+    await service.expire(scheduled.apiKey.id, '2024-01-20T00:00:00.000Z');
+    expect(await service.authenticate(scheduled.key)).not.toBeNull();
+    await service.expire(scheduled.apiKey.id);
+    expect(await service.authenticate(scheduled.key)).toBeNull();
+
+    const result = await service.revoke(revoked.apiKey.id);
+    expect(result).toMatchObject({ success: true, apiKey: { revokedAt: '2024-01-15T10:00:00.000Z' } });
+    expect(await service.authenticate(revoked.key)).toBeNull();
+    expect(await service.expire(revoked.apiKey.id)).toMatchObject({ success: false, errorCode: ErrorCode.API_KEY_INACTIVE });
+    expect(await service.revoke('missing')).toMatchObject({ success: false, errorCode: ErrorCode.API_KEY_NOT_FOUND });
+  });
+});
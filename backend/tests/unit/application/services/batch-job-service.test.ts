@@ -0,0 +1,156 @@
+import { BatchJobService } from '../../../../src/application/services/batch-job-service';
+import { FeedHandler } from '../../../../src/application/services/feed-handler';
+import { ValidationService } from '../../../../src/domain/services/validation-service';
+import { OrderTransformer } from '../../../../src/domain/services/order-transformer';
+import { InMemoryOrderStream } from '../../../../src/infrastructure/adapters/in-memory-order-stream';
+import { InMemorySequenceManager } from '../../../../src/infrastructure/adapters/in-memory-sequence-manager';
+import { InMemoryOrderRepository } from '../../../../src/infrastructure/adapters/in-memory-order-repository';
+import { InMemoryBatchJobRepository } from '../../../../src/infrastructure/adapters/batch-job-repository';
+import { PartnerAInput, PartnerId, BatchJobStatus, ErrorCode } from '../../../../src/domain/models';
+
+describe('BatchJobService', () => {
+  let service: BatchJobService;
+  let feedHandler: FeedHandler;
+  let orderStream: InMemoryOrderStream;
+  let jobRepository: InMemoryBatchJobRepository;
+
+  const validPartnerAInput: PartnerAInput = {
+    orderId: 'ORD-A-001',
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 5,
+    unitPrice: 19.99,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  };
+
+  beforeEach(() => {
+    orderStream = new InMemoryOrderStream();
+    const orderRepository = new InMemoryOrderRepository();
+    feedHandler = new FeedHandler(
+      new ValidationService(),
+      new OrderTransformer(),
+      orderStream,
+      new InMemorySequenceManager(),
+      orderRepository
+    );
+    orderStream.onValidOrder(async (payload) => {
+      await orderRepository.save(payload.orderEvent);
+    });
+
+    jobRepository = new InMemoryBatchJobRepository();
+    service = new BatchJobService(feedHandler, jobRepository);
+  });
+
+  afterEach(() => {
+    orderStream.removeAllListeners();
+  });
+
+  describe('submit', () => {
+    it('should return a pending job before processing starts', async () => {
+      const job = await service.submit(PartnerId.PARTNER_A, [validPartnerAInput]);
+
+      expect(job).toMatchObject({
+        partnerId: PartnerId.PARTNER_A,
+        status: BatchJobStatus.PENDING,
+        total: 1,
+        accepted: 0,
+        rejected: 0,
+        pending: 1,
+        results: [],
+      });
+      expect(job.id).toBeDefined();
+    });
+
+    it('should process the batch in the background', async () => {
+      const inputs = [
+        validPartnerAInput,
+        { ...validPartnerAInput, orderId: 'ORD-A-002', quantity: -1 },
+        validPartnerAInput,
+      ];
+
+      const job = await service.submit(PartnerId.PARTNER_A, inputs);
+      const finished = await service.waitForJob(job.id);
+
+      expect(finished).toMatchObject({
+        status: BatchJobStatus.COMPLETED,
+        total: 3,
+        accepted: 1,
+        rejected: 2,
+        pending: 0,
+      });
+      expect(finished!.startedAt).toBeDefined();
+      expect(finished!.completedAt).toBeDefined();
+      expect(finished!.results).toEqual([
+        { status: 'accepted', orderId: 'ORD-A-001', partnerId: PartnerId.PARTNER_A, sequenceNumber: 1 },
+        expect.objectContaining({ status: 'rejected', orderId: 'ORD-A-002' }),
+        expect.objectContaining({ status: 'rejected', errorCode: ErrorCode.DUPLICATE_ORDER }),
+      ]);
+    });
+
+    it('should keep the warnings of accepted orders', async () => {
+      const job = await service.submit(PartnerId.PARTNER_A, [{ ...validPartnerAInput, quantity: 5000 }]);
+      const finished = await service.waitForJob(job.id);
+
+      expect(finished!.results[0]).toMatchObject({
+        status: 'accepted',
+        warnings: [expect.stringMatching(/^quantity: /)],
+      });
+    });
+
+    it('should process large batches across event loop turns', async () => {
+      const inputs = Array.from({ length: 250 }, (_, i) => ({ ...validPartnerAInput, orderId: `ORD-${i}` }));
+
+      const job = await service.submit(PartnerId.PARTNER_A, inputs);
+      const finished = await service.waitForJob(job.id);
+
+      expect(finished).toMatchObject({ status: BatchJobStatus.COMPLETED, accepted: 250, pending: 0 });
+    });
+
+    it('should mark the job as failed when processing throws', async () => {
+      jest.spyOn(feedHandler, 'createBatchProcessor').mockImplementation(() => {
+        throw new Error('stream unavailable');
+      });
+
+      const job = await service.submit(PartnerId.PARTNER_A, [validPartnerAInput]);
+      const finished = await service.waitForJob(job.id);
+
+      expect(finished).toMatchObject({
+        status: BatchJobStatus.FAILED,
+        error: 'stream unavailable',
+        pending: 1,
+      });
+    });
+  });
+
+  describe('getJob', () => {
+    it('should return null for unknown jobs', async () => {
+      expect(await service.getJob('missing')).toBeNull();
+    });
+  });
+
+  describe('recoverInterruptedJobs', () => {
+    it('should mark pending and running jobs as failed', async () => {
+      const base = {
+        partnerId: PartnerId.PARTNER_A,
+        total: 2,
+        accepted: 1,
+        rejected: 0,
+        pending: 1,
+        results: [],
+        createdAt: new Date().toISOString(),
+      };
+      await jobRepository.save({ ...base, id: 'running', status: BatchJobStatus.RUNNING });
+      await jobRepository.save({ ...base, id: 'done', status: BatchJobStatus.COMPLETED });
+
+      const count = await service.recoverInterruptedJobs();
+
+      expect(count).toBe(1);
+      expect(await service.getJob('running')).toMatchObject({
+        status: BatchJobStatus.FAILED,
+        error: expect.stringContaining('Interrupted'),
+      });
+      expect((await service.getJob('done'))!.status).toBe(BatchJobStatus.COMPLETED);
+    });
+  });
+});
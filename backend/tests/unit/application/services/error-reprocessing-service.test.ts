@@ -0,0 +1,116 @@
+import { FeedHandler } from '../../../../src/application/services/feed-handler';
+import { ErrorReprocessingService } from '../../../../src/application/services/error-reprocessing-service';
+import { ValidationService } from '../../../../src/domain/services/validation-service';
+import { OrderTransformer } from '../../../../src/domain/services/order-transformer';
+import { createDefaultPartnerRegistry } from '../../../../src/domain/services/partner-registry';
+import { InMemoryOrderStream } from '../../../../src/infrastructure/adapters/in-memory-order-stream';
+import { InMemorySequenceManager } from '../../../../src/infrastructure/adapters/in-memory-sequence-manager';
+import { InMemoryOrderRepository } from '../../../../src/infrastructure/adapters/in-memory-order-repository';
+import { InMemoryErrorRepository } from '../../../../src/infrastructure/adapters/error-repository';
+import { ErrorCode, ErrorEvent, PartnerId } from '../../../../src/domain/models';
+
+describe('ErrorReprocessingService', () => {
+  let service: ErrorReprocessingService;
+  let errorRepository: InMemoryErrorRepository;
+  let orderRepository: InMemoryOrderRepository;
+  let orderStream: InMemoryOrderStream;
+
+  const payload = {
+    orderId: 'ORD-A-001',
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 0,
+    unitPrice: 10,
+    taxRate: 0.1,
+    transactionTimeMs: Date.now(),
+  };
+
+  const errorEvent: ErrorEvent = {
+    id: 'error-1',
+    partnerId: PartnerId.PARTNER_A,
+    externalOrderId: 'ORD-A-001',
+    errorCode: ErrorCode.ZERO_VALUE,
+    message: 'Validation failed',
+    details: [{ field: 'quantity', errorCode: ErrorCode.ZERO_VALUE, message: 'Quantity must be a positive integer' }],
+    originalPayload: payload,
+    timestamp: new Date().toISOString(),
+  };
+
+  beforeEach(async () => {
+    const partnerRegistry = createDefaultPartnerRegistry();
+    orderStream = new InMemoryOrderStream();
+    orderRepository = new InMemoryOrderRepository();
+    errorRepository = new InMemoryErrorRepository();
+
+    const feedHandler = new FeedHandler(
+      new ValidationService(partnerRegistry),
+      new OrderTransformer(partnerRegistry),
+      orderStream,
+      new InMemorySequenceManager(),
+      orderRepository,
+      partnerRegistry
+    );
+    service = new ErrorReprocessingService(errorRepository, feedHandler, partnerRegistry);
+
+    orderStream.onValidOrder(async ({ orderEvent }) => {
+      await orderRepository.save(orderEvent);
+    });
+    await errorRepository.save({ ...errorEvent });
+  });
+
+  afterEach(() => {
+    orderStream.removeAllListeners();
+  });
+
+  it('should resolve the error with the order an edited payload became', async () => {
+    const result = await service.reprocess('error-1', { ...payload, quantity: 2 });
+
+    expect(result.success).toBe(true);
+    const order = await orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A);
+    const stored = await errorRepository.findById('error-1');
+    expect(stored!.resolution).toMatchObject({
+      orderEventId: order!.id,
+      externalOrderId: 'ORD-A-001',
+      sequenceNumber: 1,
+      editedPayload: { ...payload, quantity: 2 },
+    });
+    expect(result.success && result.error).toEqual(stored);
+  });
+
+  it('should not resubmit a payload that still fails or record another error', async () => {
+    const result = await service.reprocess('error-1');
+
+    expect(result).toEqual({ success: false, errors: ['quantity: Quantity must be a positive integer'] });
+    expect(orderStream.getErrorOrderHistory()).toHaveLength(0);
+    expect((await errorRepository.findById('error-1'))!.resolution).toBeUndefined();
+  });
+
+  it('should preview a payload without processing it', async () => {
+    const result = await service.preview('error-1', { ...payload, quantity: 3 });
+
+    expect(result.success && result.preview).toMatchObject({ valid: true, orderEvent: { grossAmount: 30 } });
+    expect(orderStream.getValidOrderHistory()).toHaveLength(0);
+  });
+
+  it('should refuse unknown and resolved errors', async () => {
+    expect(await service.reprocess('missing')).toMatchObject({ success: false, errorCode: ErrorCode.ERROR_NOT_FOUND });
+
+    await service.reprocess('error-1', { ...payload, quantity: 1 });
+    const again = await service.reprocess('error-1', { ...payload, quantity: 1 });
+
+    expect(again).toEqual({
+      success: false,
+      errors: ["Error event 'error-1' was already resolved by order 'ORD-A-001'"],
+      errorCode: ErrorCode.ERROR_ALREADY_RESOLVED,
+    });
+    expect(await service.preview('error-1')).toMatchObject({ errorCode: ErrorCode.ERROR_ALREADY_RESOLVED });
+  });
+
+  it('should resubmit only once when reprocessed twice at the same time', async () => {
+    const fixed = { ...payload, quantity: 1 };
+    const results = await Promise.all([service.reprocess('error-1', fixed), service.reprocess('error-1', fixed)]);
+
+    expect(results.map((result) => result.success)).toEqual([true, false]);
+    expect(orderStream.getValidOrderHistory()).toHaveLength(1);
+  });
+});
@@ -1,14 +1,21 @@
 import { FeedHandler, FeedProcessingResult } from '../../../../src/application/services/feed-handler';
 import { ValidationService } from '../../../../src/domain/services/validation-service';
 import { OrderTransformer } from '../../../../src/domain/services/order-transformer';
+import { FxRateTable } from '../../../../src/domain/services/fx-rate-table';
+import { TaxRuleEngine } from '../../../../src/domain/services/tax-rules';
+import { PromotionCatalog } from '../../../../src/domain/services/promotion-catalog';
+import { RoundingMode } from '../../../../src/domain/services/money';
+import { createDefaultPartnerRegistry } from '../../../../src/domain/services/partner-registry';
 import { InMemoryOrderStream } from '../../../../src/infrastructure/adapters/in-memory-order-stream';
 import { InMemorySequenceManager } from '../../../../src/infrastructure/adapters/in-memory-sequence-manager';
-import { PartnerAInput, PartnerBInput, PartnerId } from '../../../../src/domain/models';
+import { InMemoryOrderRepository } from '../../../../src/infrastructure/adapters/in-memory-order-repository';
+import { PartnerAInput, PartnerBInput, PartnerId, ErrorCode, OrderStatus, TaxRuleMode, PromotionType } from '../../../../src/domain/models';
 
 describe('FeedHandler', () => {
   let feedHandler: FeedHandler;
   let orderStream: InMemoryOrderStream;
   let sequenceManager: InMemorySequenceManager;
+  let orderRepository: InMemoryOrderRepository;
 
   const validPartnerAInput: PartnerAInput = {
     orderId: 'ORD-A-001',
@@ -33,6 +40,7 @@ describe('FeedHandler', () => {
   beforeEach(() => {
     orderStream = new InMemoryOrderStream();
     sequenceManager = new InMemorySequenceManager();
+    orderRepository = new InMemoryOrderRepository();
     const validationService = new ValidationService();
     const transformer = new OrderTransformer();
 
@@ -40,8 +48,14 @@ describe('FeedHandler', () => {
       validationService,
       transformer,
       orderStream,
-      sequenceManager
+      sequenceManager,
+      orderRepository
     );
+
+    // Persist accepted orders the same way the application container does
+    orderStream.onValidOrder(async (payload) => {
+      await orderRepository.save(payload.orderEvent);
+    });
   });
 
   afterEach(() => {
@@ -50,8 +64,8 @@ describe('FeedHandler', () => {
 
   describe('processPartnerAOrder', () => {
     describe('valid orders', () => {
-      it('should process valid Partner A order successfully', () => {
-        const result = feedHandler.processPartnerAOrder(validPartnerAInput);
+      it('should process valid Partner A order successfully', async () => {
+        const result = await feedHandler.processPartnerAOrder(validPartnerAInput);
 
         expect(result.success).toBe(true);
         expect(result.orderId).toBe('ORD-A-001');
@@ -60,8 +74,8 @@ describe('FeedHandler', () => {
         expect(result.errors).toBeUndefined();
       });
 
-      it('should emit valid order to stream', () => {
-        feedHandler.processPartnerAOrder(validPartnerAInput);
+      it('should emit valid order to stream', async () => {
+        await feedHandler.processPartnerAOrder(validPartnerAInput);
 
         const history = orderStream.getValidOrderHistory();
         expect(history.length).toBe(1);
@@ -70,18 +84,18 @@ describe('FeedHandler', () => {
         expect(history[0].orderEvent.sequenceNumber).toBe(1);
       });
 
-      it('should increment sequence for each valid order', () => {
-        const result1 = feedHandler.processPartnerAOrder(validPartnerAInput);
-        const result2 = feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-002' });
-        const result3 = feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-003' });
+      it('should increment sequence for each valid order', async () => {
+        const result1 = await feedHandler.processPartnerAOrder(validPartnerAInput);
+        const result2 = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-002' });
+        const result3 = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-003' });
 
         expect(result1.sequenceNumber).toBe(1);
         expect(result2.sequenceNumber).toBe(2);
         expect(result3.sequenceNumber).toBe(3);
       });
 
-      it('should correctly transform order fields', () => {
-        feedHandler.processPartnerAOrder(validPartnerAInput);
+      it('should correctly transform order fields', async () => {
+        await feedHandler.processPartnerAOrder(validPartnerAInput);
 
         const history = orderStream.getValidOrderHistory();
         const orderEvent = history[0].orderEvent;
@@ -96,18 +110,18 @@ describe('FeedHandler', () => {
     });
 
     describe('invalid orders', () => {
-      it('should reject order with missing orderId', () => {
+      it('should reject order with missing orderId', async () => {
         const invalidInput = { ...validPartnerAInput, orderId: '' };
-        const result = feedHandler.processPartnerAOrder(invalidInput);
+        const result = await feedHandler.processPartnerAOrder(invalidInput);
 
         expect(result.success).toBe(false);
         expect(result.errors).toBeDefined();
         expect(result.errors!.length).toBeGreaterThan(0);
       });
 
-      it('should emit error order to stream for invalid input', () => {
+      it('should emit error order to stream for invalid input', async () => {
         const invalidInput = { ...validPartnerAInput, quantity: -5 };
-        feedHandler.processPartnerAOrder(invalidInput);
+        await feedHandler.processPartnerAOrder(invalidInput);
 
         const errorHistory = orderStream.getErrorOrderHistory();
         expect(errorHistory.length).toBe(1);
@@ -115,18 +129,18 @@ describe('FeedHandler', () => {
         expect(errorHistory[0].partnerId).toBe(PartnerId.PARTNER_A);
       });
 
-      it('should not increment sequence for invalid orders', () => {
+      it('should not increment sequence for invalid orders', async () => {
         const invalidInput = { ...validPartnerAInput, quantity: -5 };
-        feedHandler.processPartnerAOrder(invalidInput);
-        feedHandler.processPartnerAOrder(invalidInput);
+        await feedHandler.processPartnerAOrder(invalidInput);
+        await feedHandler.processPartnerAOrder(invalidInput);
         
-        const result = feedHandler.processPartnerAOrder(validPartnerAInput);
+        const result = await feedHandler.processPartnerAOrder(validPartnerAInput);
         expect(result.sequenceNumber).toBe(1);
       });
 
-      it('should include raw input in error payload', () => {
+      it('should include raw input in error payload', async () => {
         const invalidInput = { ...validPartnerAInput, quantity: -5 };
-        feedHandler.processPartnerAOrder(invalidInput);
+        await feedHandler.processPartnerAOrder(invalidInput);
 
         const errorHistory = orderStream.getErrorOrderHistory();
         expect(errorHistory[0].rawInput).toEqual(invalidInput);
@@ -136,8 +150,8 @@ describe('FeedHandler', () => {
 
   describe('processPartnerBOrder', () => {
     describe('valid orders', () => {
-      it('should process valid Partner B order successfully', () => {
-        const result = feedHandler.processPartnerBOrder(validPartnerBInput);
+      it('should process valid Partner B order successfully', async () => {
+        const result = await feedHandler.processPartnerBOrder(validPartnerBInput);
 
         expect(result.success).toBe(true);
         expect(result.orderId).toBe('TXN-B-001');
@@ -145,8 +159,8 @@ describe('FeedHandler', () => {
         expect(result.sequenceNumber).toBe(1);
       });
 
-      it('should emit valid order to stream', () => {
-        feedHandler.processPartnerBOrder(validPartnerBInput);
+      it('should emit valid order to stream', async () => {
+        await feedHandler.processPartnerBOrder(validPartnerBInput);
 
         const history = orderStream.getValidOrderHistory();
         expect(history.length).toBe(1);
@@ -154,19 +168,19 @@ describe('FeedHandler', () => {
         expect(history[0].orderEvent.partnerId).toBe(PartnerId.PARTNER_B);
       });
 
-      it('should maintain separate sequence from Partner A', () => {
-        feedHandler.processPartnerAOrder(validPartnerAInput);
-        feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-002' });
+      it('should maintain separate sequence from Partner A', async () => {
+        await feedHandler.processPartnerAOrder(validPartnerAInput);
+        await feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-002' });
         
-        const resultB = feedHandler.processPartnerBOrder(validPartnerBInput);
+        const resultB = await feedHandler.processPartnerBOrder(validPartnerBInput);
 
         expect(resultB.sequenceNumber).toBe(1);
         expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(2);
         expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_B)).toBe(1);
       });
 
-      it('should correctly transform Partner B fields', () => {
-        feedHandler.processPartnerBOrder(validPartnerBInput);
+      it('should correctly transform Partner B fields', async () => {
+        await feedHandler.processPartnerBOrder(validPartnerBInput);
 
         const history = orderStream.getValidOrderHistory();
         const orderEvent = history[0].orderEvent;
@@ -180,17 +194,17 @@ describe('FeedHandler', () => {
     });
 
     describe('invalid orders', () => {
-      it('should reject order with invalid transaction ID', () => {
+      it('should reject order with invalid transaction ID', async () => {
         const invalidInput = { ...validPartnerBInput, transactionId: '' };
-        const result = feedHandler.processPartnerBOrder(invalidInput);
+        const result = await feedHandler.processPartnerBOrder(invalidInput);
 
         expect(result.success).toBe(false);
         expect(result.partnerId).toBe(PartnerId.PARTNER_B);
       });
 
-      it('should emit error order to stream', () => {
+      it('should emit error order to stream', async () => {
         const invalidInput = { ...validPartnerBInput, qty: -1 };
-        feedHandler.processPartnerBOrder(invalidInput);
+        await feedHandler.processPartnerBOrder(invalidInput);
 
         const errorHistory = orderStream.getErrorOrderHistory();
         expect(errorHistory.length).toBe(1);
@@ -200,28 +214,28 @@ describe('FeedHandler', () => {
   });
 
   describe('processPartnerABatch', () => {
-    it('should process all orders in batch', () => {
+    it('should process all orders in batch', async () => {
       const inputs: PartnerAInput[] = [
         validPartnerAInput,
         { ...validPartnerAInput, orderId: 'ORD-A-002' },
         { ...validPartnerAInput, orderId: 'ORD-A-003' },
       ];
 
-      const results = feedHandler.processPartnerABatch(inputs);
+      const results = await feedHandler.processPartnerABatch(inputs);
 
       expect(results.length).toBe(3);
       expect(results.every((r) => r.success)).toBe(true);
       expect(results.map((r) => r.sequenceNumber)).toEqual([1, 2, 3]);
     });
 
-    it('should handle mixed valid and invalid orders', () => {
+    it('should handle mixed valid and invalid orders', async () => {
       const inputs: PartnerAInput[] = [
         validPartnerAInput,
         { ...validPartnerAInput, orderId: 'ORD-A-002', quantity: -5 },
         { ...validPartnerAInput, orderId: 'ORD-A-003' },
       ];
 
-      const results = feedHandler.processPartnerABatch(inputs);
+      const results = await feedHandler.processPartnerABatch(inputs);
 
       expect(results.length).toBe(3);
       expect(results[0].success).toBe(true);
@@ -231,55 +245,574 @@ describe('FeedHandler', () => {
       expect(results[2].sequenceNumber).toBe(2);
     });
 
-    it('should emit to correct streams for mixed batch', () => {
+    it('should emit to correct streams for mixed batch', async () => {
       const inputs: PartnerAInput[] = [
         validPartnerAInput,
         { ...validPartnerAInput, orderId: 'ORD-A-002', quantity: -5 },
       ];
 
-      feedHandler.processPartnerABatch(inputs);
+      await feedHandler.processPartnerABatch(inputs);
 
       expect(orderStream.getValidOrderHistory().length).toBe(1);
       expect(orderStream.getErrorOrderHistory().length).toBe(1);
     });
   });
 
+  describe('atomic batches', () => {
+    it('should sequence every order contiguously when all are valid', async () => {
+      await feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-000' });
+
+      const results = await feedHandler.processPartnerABatch(
+        [validPartnerAInput, { ...validPartnerAInput, orderId: 'ORD-A-002' }],
+        { atomic: true }
+      );
+
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(results.map((r) => r.sequenceNumber)).toEqual([2, 3]);
+      expect(orderStream.getValidOrderHistory()).toHaveLength(3);
+    });
+
+    it('should accept nothing when any order is rejected', async () => {
+      const results = await feedHandler.processPartnerABatch(
+        [
+          validPartnerAInput,
+          { ...validPartnerAInput, orderId: 'ORD-A-002', quantity: -5 },
+          { ...validPartnerAInput, orderId: 'ORD-A-003' },
+        ],
+        { atomic: true }
+      );
+
+      expect(results.map((r) => r.success)).toEqual([false, false, false]);
+      expect(results[0]).toMatchObject({
+        orderId: 'ORD-A-001',
+        errorCode: ErrorCode.BATCH_ABORTED,
+        errors: ['Batch aborted: 1 of 3 orders were rejected'],
+      });
+      expect(results[1].errors![0]).toContain('quantity');
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(0);
+      expect(orderStream.getValidOrderHistory()).toHaveLength(0);
+      // Only the invalid order is reported on the error stream
+      expect(orderStream.getErrorOrderHistory()).toHaveLength(1);
+    });
+
+    it('should abort on duplicates within the batch or of accepted orders', async () => {
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+
+      const results = await feedHandler.processPartnerABatch(
+        [
+          { ...validPartnerAInput, orderId: 'ORD-A-002' },
+          { ...validPartnerAInput, orderId: 'ORD-A-002' },
+          validPartnerAInput,
+        ],
+        { atomic: true }
+      );
+
+      expect(results.map((r) => r.errorCode)).toEqual([
+        ErrorCode.BATCH_ABORTED,
+        ErrorCode.DUPLICATE_ORDER,
+        ErrorCode.DUPLICATE_ORDER,
+      ]);
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(1);
+    });
+
+    it('should keep a concurrent atomic batch from interleaving sequence numbers', async () => {
+      const [first, second] = await Promise.all([
+        feedHandler.processPartnerABatch(
+          [validPartnerAInput, { ...validPartnerAInput, orderId: 'ORD-A-002' }],
+          { atomic: true }
+        ),
+        feedHandler.processPartnerABatch(
+          [
+            { ...validPartnerAInput, orderId: 'ORD-A-003' },
+            { ...validPartnerAInput, orderId: 'ORD-A-004' },
+          ],
+          { atomic: true }
+        ),
+      ]);
+
+      const ranges = [first, second].map((results) => results.map((r) => r.sequenceNumber!));
+      for (const [a, b] of ranges) {
+        expect(b).toBe(a + 1);
+      }
+    });
+  });
+
   describe('processPartnerBBatch', () => {
-    it('should process all orders in batch', () => {
+    it('should process all orders in batch', async () => {
       const inputs: PartnerBInput[] = [
         validPartnerBInput,
         { ...validPartnerBInput, transactionId: 'TXN-B-002' },
       ];
 
-      const results = feedHandler.processPartnerBBatch(inputs);
+      const results = await feedHandler.processPartnerBBatch(inputs);
 
       expect(results.length).toBe(2);
       expect(results.every((r) => r.success)).toBe(true);
     });
   });
 
+  describe('amendments and cancellations', () => {
+    beforeEach(async () => {
+      orderStream.onOrderAmended(async (payload) => {
+        await orderRepository.save(payload.orderEvent);
+      });
+      orderStream.onOrderCancelled(async (payload) => {
+        await orderRepository.save(payload.orderEvent);
+      });
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+    });
+
+    const amendedListener = () => {
+      const listener = jest.fn();
+      orderStream.onOrderAmended(listener);
+      return listener;
+    };
+
+    it('should amend an order and emit the changes', async () => {
+      const listener = amendedListener();
+
+      const result = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', {
+        ...validPartnerAInput,
+        quantity: 2,
+      });
+
+      expect(result).toMatchObject({ success: true, orderId: 'ORD-A-001', sequenceNumber: 1, revision: 2 });
+      const order = await orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A);
+      expect(order).toMatchObject({ quantity: 2, grossAmount: 39.98, revision: 2 });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].previous.quantity).toBe(5);
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(1);
+    });
+
+    it('should keep the revision when an amendment changes nothing', async () => {
+      const listener = amendedListener();
+
+      const result = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', validPartnerAInput);
+
+      expect(result).toMatchObject({ success: true, revision: 1 });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should apply concurrent amendments one after another', async () => {
+      await Promise.all([
+        feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', { ...validPartnerAInput, quantity: 2 }),
+        feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', { ...validPartnerAInput, quantity: 3 }),
+      ]);
+
+      const order = await orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A);
+      expect(order).toMatchObject({ quantity: 3, revision: 3 });
+      expect(order!.history!.map((h) => h.revision)).toEqual([2, 3]);
+    });
+
+    it('should reject invalid amendments', async () => {
+      const invalid = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', {
+        ...validPartnerAInput,
+        quantity: -1,
+      });
+      const mismatched = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', {
+        ...validPartnerAInput,
+        orderId: 'ORD-A-999',
+      });
+      const missing = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-404', {
+        ...validPartnerAInput,
+        orderId: 'ORD-A-404',
+      });
+
+      expect(invalid.success).toBe(false);
+      expect(mismatched).toMatchObject({ success: false, errorCode: ErrorCode.INVALID_VALUE });
+      expect(missing).toMatchObject({ success: false, errorCode: ErrorCode.ORDER_NOT_FOUND });
+      expect(orderStream.getErrorOrderHistory()).toHaveLength(3);
+    });
+
+    it('should cancel an order and refuse further changes', async () => {
+      const listener = jest.fn();
+      orderStream.onOrderCancelled(listener);
+
+      const result = await feedHandler.cancelOrder(PartnerId.PARTNER_A, 'ORD-A-001', 'Customer request');
+
+      expect(result).toMatchObject({ success: true, revision: 2 });
+      expect(listener.mock.calls[0][0]).toMatchObject({ reason: 'Customer request' });
+      const order = await orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A);
+      expect(order!.cancelledAt).toBeDefined();
+
+      const again = await feedHandler.cancelOrder(PartnerId.PARTNER_A, 'ORD-A-001');
+      const amended = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', validPartnerAInput);
+      expect(again.errorCode).toBe(ErrorCode.ORDER_CANCELLED);
+      expect(amended.errorCode).toBe(ErrorCode.ORDER_CANCELLED);
+    });
+  });
+
+  describe('order status changes', () => {
+    let orderId: string;
+
+    beforeEach(async () => {
+      orderStream.onOrderCancelled(async (payload) => {
+        await orderRepository.save(payload.orderEvent);
+      });
+      orderStream.onOrderStatusChanged(async (payload) => {
+        await orderRepository.save(payload.orderEvent);
+      });
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+      orderId = (await orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A))!.id;
+    });
+
+    it('should move an order through its lifecycle and record the history', async () => {
+      const listener = jest.fn();
+      orderStream.onOrderStatusChanged(listener);
+
+      await feedHandler.changeOrderStatus(orderId, OrderStatus.FULFILLED);
+      const result = await feedHandler.changeOrderStatus(orderId, OrderStatus.REFUNDED, 'Damaged in transit');
+
+      expect(result.success).toBe(true);
+      const order = await orderRepository.findById(orderId);
+      expect(order!.status).toBe(OrderStatus.REFUNDED);
+      expect(order!.statusHistory!.map((change) => [change.from, change.to])).toEqual([
+        [OrderStatus.PROCESSED, OrderStatus.FULFILLED],
+        [OrderStatus.FULFILLED, OrderStatus.REFUNDED],
+      ]);
+      expect(order!.statusHistory![1].reason).toBe('Damaged in transit');
+      expect(listener.mock.calls[1][0]).toMatchObject({ previousStatus: OrderStatus.FULFILLED });
+    });
+
+    it('should refuse transitions the lifecycle does not allow', async () => {
+      const result = await feedHandler.changeOrderStatus(orderId, OrderStatus.REFUNDED);
+
+      expect(result).toEqual({
+        success: false,
+        errors: ['Cannot change order status from PROCESSED to REFUNDED'],
+        errorCode: ErrorCode.INVALID_STATUS_TRANSITION,
+      });
+      expect(orderStream.getErrorOrderHistory()).toHaveLength(0);
+    });
+
+    it('should cancel the order when the status changes to CANCELLED', async () => {
+      const listener = jest.fn();
+      orderStream.onOrderCancelled(listener);
+
+      await feedHandler.changeOrderStatus(orderId, OrderStatus.CANCELLED, 'Out of stock');
+
+      const order = await orderRepository.findById(orderId);
+      expect(order).toMatchObject({ status: OrderStatus.CANCELLED, revision: 2 });
+      expect(order!.cancelledAt).toBeDefined();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not change an order to its current status', async () => {
+      const listener = jest.fn();
+      orderStream.onOrderStatusChanged(listener);
+
+      const result = await feedHandler.changeOrderStatus(orderId, OrderStatus.PROCESSED);
+
+      expect(result.success).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should return ORDER_NOT_FOUND for unknown orders', async () => {
+      const result = await feedHandler.changeOrderStatus('missing', OrderStatus.FULFILLED);
+
+      expect(result).toMatchObject({ success: false, errorCode: ErrorCode.ORDER_NOT_FOUND });
+    });
+
+    it('should refuse to amend or cancel a fulfilled order', async () => {
+      await feedHandler.changeOrderStatus(orderId, OrderStatus.FULFILLED);
+
+      const amended = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', { ...validPartnerAInput, quantity: 2 });
+      const cancelled = await feedHandler.cancelOrder(PartnerId.PARTNER_A, 'ORD-A-001');
+
+      expect(amended).toMatchObject({ success: false, errorCode: ErrorCode.INVALID_STATUS_TRANSITION });
+      expect(cancelled.errors).toEqual(["orderId: Order 'ORD-A-001' is FULFILLED and can no longer be changed"]);
+    });
+  });
+
+  describe('currencies', () => {
+    beforeEach(() => {
+      const partnerRegistry = createDefaultPartnerRegistry();
+      const fxRates = new FxRateTable({
+        baseCurrency: 'USD',
+        rates: [{ currency: 'EUR', rate: 1.1, effectiveFrom: '2024-01-01' }],
+      });
+
+      feedHandler = new FeedHandler(
+        new ValidationService(partnerRegistry),
+        new OrderTransformer(partnerRegistry, fxRates),
+        orderStream,
+        sequenceManager,
+        orderRepository,
+        partnerRegistry
+      );
+    });
+
+    it('should accept orders in currencies with a rate and store base amounts', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, currency: 'EUR' });
+
+      expect(result.success).toBe(true);
+      const { orderEvent } = orderStream.getValidOrderHistory()[0];
+      expect(orderEvent).toMatchObject({ currency: 'EUR', grossAmount: 99.95 });
+      expect(orderEvent.baseAmounts).toMatchObject({ currency: 'USD', fxRate: 1.1, grossAmount: 109.95 });
+    });
+
+    it('should reject orders in currencies without a rate before sequencing them', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, currency: 'GBP' });
+
+      expect(result).toMatchObject({ success: false, errorCode: ErrorCode.UNSUPPORTED_CURRENCY });
+      expect(result.errors![0]).toMatch(/^currency: No exchange rate from GBP to USD on \d{4}-\d{2}-\d{2}$/);
+      expect(orderStream.getErrorOrderHistory()[0].errorCode).toBe(ErrorCode.UNSUPPORTED_CURRENCY);
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(0);
+    });
+
+    it('should reject amendments to a currency without a rate', async () => {
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+
+      const result = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', { ...validPartnerAInput, currency: 'GBP' });
+
+      expect(result.errorCode).toBe(ErrorCode.UNSUPPORTED_CURRENCY);
+    });
+  });
+
+  describe('tax rules', () => {
+    beforeEach(() => {
+      const partnerRegistry = createDefaultPartnerRegistry();
+      const taxRules = new TaxRuleEngine({
+        rules: [{ id: 'de-vat', customerRegion: 'DE', mode: TaxRuleMode.VERIFY, components: [{ name: 'VAT', rate: 0.19 }] }],
+      });
+
+      feedHandler = new FeedHandler(
+        new ValidationService(partnerRegistry),
+        new OrderTransformer(partnerRegistry, new FxRateTable(), RoundingMode.HALF_UP, taxRules),
+        orderStream,
+        sequenceManager,
+        orderRepository,
+        partnerRegistry
+      );
+    });
+
+    it('should accept orders whose tax rate matches a verify rule and record the rule', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, taxRate: 0.19, customerRegion: 'DE' });
+
+      expect(result.success).toBe(true);
+      expect(orderStream.getValidOrderHistory()[0].orderEvent.lineItems![0].taxRule).toEqual({
+        id: 'de-vat',
+        mode: TaxRuleMode.VERIFY,
+        partnerTaxRate: 0.19,
+      });
+    });
+
+    it('should reject tax rates that differ from a verify rule before sequencing them', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, customerRegion: 'DE' });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.TAX_RATE_MISMATCH,
+        errors: ["taxRate: Tax rate 0.08 does not match tax rule 'de-vat' (0.19)"],
+      });
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(0);
+    });
+
+    it('should reject amendments with a tax rate that differs from a verify rule', async () => {
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+
+      const result = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', { ...validPartnerAInput, customerRegion: 'DE' });
+
+      expect(result.errorCode).toBe(ErrorCode.TAX_RATE_MISMATCH);
+    });
+  });
+
+  describe('discounts', () => {
+    beforeEach(() => {
+      const partnerRegistry = createDefaultPartnerRegistry();
+      const promotions = new PromotionCatalog({
+        promotions: [{ code: 'SPRING10', type: PromotionType.PERCENTAGE, value: 0.1 }],
+      });
+
+      feedHandler = new FeedHandler(
+        new ValidationService(partnerRegistry),
+        new OrderTransformer(partnerRegistry, new FxRateTable(), RoundingMode.HALF_UP, new TaxRuleEngine(), promotions),
+        orderStream,
+        sequenceManager,
+        orderRepository,
+        partnerRegistry
+      );
+    });
+
+    it('should accept known promo codes and record the promotions', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, unitPrice: 20, promoCodes: ['SPRING10'] });
+
+      expect(result.success).toBe(true);
+      expect(orderStream.getValidOrderHistory()[0].orderEvent).toMatchObject({
+        grossAmount: 100,
+        discountAmount: 10,
+        appliedPromotions: [{ code: 'SPRING10', discountAmount: 10 }],
+      });
+    });
+
+    it('should reject unknown promo codes before sequencing them', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, promoCodes: ['FREE'] });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.INVALID_DISCOUNT,
+        errors: ["promoCodes[0]: Unknown promo code 'FREE'"],
+      });
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(0);
+    });
+
+    it('should reject amendments with a discount larger than the order', async () => {
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+
+      const result = await feedHandler.amendOrder(PartnerId.PARTNER_A, 'ORD-A-001', { ...validPartnerAInput, discountAmount: 500 });
+
+      expect(result.errorCode).toBe(ErrorCode.INVALID_DISCOUNT);
+    });
+  });
+
+  describe('amount limits', () => {
+    // 0.01 USD units: the amounts are quantity cents
+    const largest = { ...validPartnerAInput, unitPrice: 0.01, taxRate: 0 };
+
+    it('should accept amounts of up to Number.MAX_SAFE_INTEGER minor units', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...largest, quantity: Number.MAX_SAFE_INTEGER });
+
+      expect(result.success).toBe(true);
+      expect(orderStream.getValidOrderHistory()[0].orderEvent.minorUnits!.netAmount).toBe(Number.MAX_SAFE_INTEGER);
+    });
+
+    it('should reject larger amounts before sequencing them', async () => {
+      const result = await feedHandler.processPartnerAOrder({ ...largest, quantity: Number.MAX_SAFE_INTEGER, taxRate: 0.01 });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: ErrorCode.INVALID_VALUE,
+        errors: ['netAmount: Amount exceeds the largest supported amount (90071992547409.91 USD)'],
+      });
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(0);
+    });
+  });
+
+  describe('previewOrder', () => {
+    it('should return the order an accepted input would become without processing it', async () => {
+      const preview = await feedHandler.previewOrder(PartnerId.PARTNER_A, validPartnerAInput);
+
+      expect(preview).toMatchObject({ valid: true, orderId: 'ORD-A-001', partnerId: PartnerId.PARTNER_A });
+      expect(preview.valid && preview.orderEvent).toMatchObject({ sequenceNumber: 0, grossAmount: 99.95 });
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(0);
+      expect(orderStream.getValidOrderHistory()).toHaveLength(0);
+    });
+
+    it('should report why an input would be rejected without recording an error', async () => {
+      const invalid = await feedHandler.previewOrder(PartnerId.PARTNER_A, { ...validPartnerAInput, quantity: -1 });
+
+      expect(invalid).toMatchObject({ valid: false, errors: ['quantity: Quantity must be a positive integer'] });
+      expect(orderStream.getErrorOrderHistory()).toHaveLength(0);
+
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+      const duplicate = await feedHandler.previewOrder(PartnerId.PARTNER_A, validPartnerAInput);
+
+      expect(duplicate).toMatchObject({ valid: false, errorCode: ErrorCode.DUPLICATE_ORDER });
+    });
+  });
+
+  describe('duplicate detection', () => {
+    it('should reject a resubmitted Partner A order with DUPLICATE_ORDER', async () => {
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+      const result = await feedHandler.processPartnerAOrder(validPartnerAInput);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorCode.DUPLICATE_ORDER);
+      expect(result.sequenceNumber).toBeUndefined();
+      expect(result.errors![0]).toContain('orderId');
+    });
+
+    it('should not consume a sequence number for duplicates', async () => {
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
+      const next = await feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'ORD-A-002' });
+
+      expect(next.sequenceNumber).toBe(2);
+      expect(sequenceManager.getCurrentSequence(PartnerId.PARTNER_A)).toBe(2);
+    });
+
+    it('should emit duplicates to the error stream with the error code', async () => {
+      await feedHandler.processPartnerBOrder(validPartnerBInput);
+      await feedHandler.processPartnerBOrder(validPartnerBInput);
+
+      const errorHistory = orderStream.getErrorOrderHistory();
+      expect(errorHistory.length).toBe(1);
+      expect(errorHistory[0].errorCode).toBe(ErrorCode.DUPLICATE_ORDER);
+      expect(errorHistory[0].errors[0]).toContain('transactionId');
+      expect(orderStream.getValidOrderHistory().length).toBe(1);
+    });
+
+    it('should scope duplicates per partner', async () => {
+      await feedHandler.processPartnerAOrder({ ...validPartnerAInput, orderId: 'SHARED-001' });
+      const result = await feedHandler.processPartnerBOrder({ ...validPartnerBInput, transactionId: 'SHARED-001' });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should allow resubmitting an order that was previously rejected as invalid', async () => {
+      await feedHandler.processPartnerAOrder({ ...validPartnerAInput, quantity: -5 });
+      const result = await feedHandler.processPartnerAOrder(validPartnerAInput);
+
+      expect(result.success).toBe(true);
+      expect(result.sequenceNumber).toBe(1);
+    });
+
+    it('should reject concurrent submissions of the same order', async () => {
+      const [first, second] = await Promise.all([
+        feedHandler.processPartnerAOrder(validPartnerAInput),
+        feedHandler.processPartnerAOrder(validPartnerAInput),
+      ]);
+
+      expect([first.success, second.success].sort()).toEqual([false, true]);
+      expect(orderStream.getValidOrderHistory().length).toBe(1);
+    });
+
+    it('should catch duplicates within the same batch', async () => {
+      const results = await feedHandler.processPartnerABatch([
+        validPartnerAInput,
+        { ...validPartnerAInput, orderId: 'ORD-A-002' },
+        validPartnerAInput,
+      ]);
+
+      expect(results.map((r) => r.success)).toEqual([true, true, false]);
+      expect(results[2].errorCode).toBe(ErrorCode.DUPLICATE_ORDER);
+      expect(results.map((r) => r.sequenceNumber)).toEqual([1, 2, undefined]);
+    });
+
+    it('should catch batch duplicates without a persisting subscriber', async () => {
+      orderStream.removeAllListeners();
+
+      const results = await feedHandler.processPartnerBBatch([
+        validPartnerBInput,
+        validPartnerBInput,
+      ]);
+
+      expect(results[1].errorCode).toBe(ErrorCode.DUPLICATE_ORDER);
+    });
+  });
+
   describe('stream event notifications', () => {
-    it('should notify valid order listeners synchronously', () => {
+    it('should notify valid order listeners synchronously', async () => {
       let receivedOrder: any = null;
 
       orderStream.onValidOrder((payload) => {
         receivedOrder = payload.orderEvent;
       });
 
-      feedHandler.processPartnerAOrder(validPartnerAInput);
+      await feedHandler.processPartnerAOrder(validPartnerAInput);
 
       expect(receivedOrder).not.toBeNull();
       expect(receivedOrder.externalOrderId).toBe('ORD-A-001');
     });
 
-    it('should notify error order listeners synchronously', () => {
+    it('should notify error order listeners synchronously', async () => {
       let receivedError: any = null;
 
       orderStream.onErrorOrder((payload) => {
         receivedError = payload;
       });
 
-      feedHandler.processPartnerAOrder({ ...validPartnerAInput, quantity: -5 });
+      await feedHandler.processPartnerAOrder({ ...validPartnerAInput, quantity: -5 });
 
       expect(receivedError).not.toBeNull();
       expect(receivedError.originalOrderId).toBe('ORD-A-001');
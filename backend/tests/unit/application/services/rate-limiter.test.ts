@@ -0,0 +1,82 @@
+import { RateLimiter } from '../../../../src/application/services/rate-limiter';
+import { RateLimitPolicies } from '../../../../src/domain/services/rate-limit-policy';
+
+describe('RateLimiter', () => {
+  // 2024-01-15T23:59:50.000Z: ten seconds before a new UTC day
+  let now: number;
+  let rateLimiter: RateLimiter;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 15, 23, 59, 50);
+    rateLimiter = new RateLimiter(
+      new RateLimitPolicies({
+        default: {
+          single: { capacity: 3, refillPerSecond: 1 },
+          batch: { capacity: 100, refillPerSecond: 10 },
+          dailyQuota: 150,
+        },
+      }),
+      () => now
+    );
+  });
+
+  it('should allow a burst up to the bucket capacity and refill over time', () => {
+    expect(rateLimiter.consume('PARTNER_A', 'single', 1)).toMatchObject({ allowed: true, limit: 3, remaining: 2, resetSeconds: 1 });
+    rateLimiter.consume('PARTNER_A', 'single', 1);
+    rateLimiter.consume('PARTNER_A', 'single', 1);
+
+    const refused = rateLimiter.consume('PARTNER_A', 'single', 1);
+    expect(refused).toMatchObject({ allowed: false, refusal: 'RATE_LIMIT_EXCEEDED', remaining: 0, retryAfterSeconds: 1 });
+
+    now += 2000;
+    expect(rateLimiter.consume('PARTNER_A', 'single', 1)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('should count every order of a batch and keep single and batch buckets apart', () => {
+    expect(rateLimiter.consume('PARTNER_A', 'batch', 80)).toMatchObject({ allowed: true, remaining: 20 });
+
+    // Nothing is taken for refused orders
+    expect(rateLimiter.consume('PARTNER_A', 'batch', 30)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+    expect(rateLimiter.consume('PARTNER_A', 'batch', 20)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(rateLimiter.consume('PARTNER_A', 'single', 1)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(rateLimiter.consume('PARTNER_B', 'batch', 100)).toMatchObject({ allowed: true });
+  });
+
+  it('should refuse batches larger than the bucket capacity', () => {
+    expect(rateLimiter.consume('PARTNER_A', 'batch', 101)).toMatchObject({ allowed: false, refusal: 'BATCH_TOO_LARGE' });
+    expect(rateLimiter.getUsage('PARTNER_A').batch.available).toBe(100);
+  });
+
+  it('should enforce the daily quota until the next UTC day', () => {
+    rateLimiter.consume('PARTNER_A', 'batch', 100);
+    now += 5000;
+    expect(rateLimiter.consume('PARTNER_A', 'batch', 50)).toMatchObject({ allowed: true, limit: 150, remaining: 0 });
+
+    now += 1000;
+    expect(rateLimiter.consume('PARTNER_A', 'single', 1)).toMatchObject({
+      allowed: false,
+      refusal: 'DAILY_QUOTA_EXCEEDED',
+      retryAfterSeconds: 4,
+    });
+
+    now += 4000;
+    expect(rateLimiter.consume('PARTNER_A', 'single', 1)).toMatchObject({ allowed: true });
+    expect(rateLimiter.getUsage('PARTNER_A').daily).toEqual({
+      date: '2024-01-16',
+      quota: 150,
+      used: 1,
+      remaining: 149,
+      resetsAt: '2024-01-17T00:00:00.000Z',
+    });
+  });
+
+  it('should let charged orders overdraw the bucket', () => {
+    rateLimiter.consume('PARTNER_A', 'batch', 1);
+    rateLimiter.charge('PARTNER_A', 'batch', 119);
+
+    const usage = rateLimiter.getUsage('PARTNER_A');
+    expect(usage.batch).toEqual({ capacity: 100, refillPerSecond: 10, available: -20, fullInSeconds: 12 });
+    expect(usage.daily.used).toBe(120);
+    expect(rateLimiter.consume('PARTNER_A', 'batch', 1)).toMatchObject({ allowed: false, retryAfterSeconds: 3 });
+  });
+});
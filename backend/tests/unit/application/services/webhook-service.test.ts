@@ -0,0 +1,339 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService, WebhookHeader } from '../../../../src/application/services/webhook-service';
+import { InMemoryWebhookRepository } from '../../../../src/infrastructure/adapters/webhook-repository';
+import { InMemoryOrderStream } from '../../../../src/infrastructure/adapters/in-memory-order-stream';
+import { HttpWebhookSender } from '../../../../src/infrastructure/adapters/http-webhook-sender';
+import { verifyWebhookSignature } from '../../../../src/domain/services/webhook-signature';
+import { IWebhookSenderPort } from '../../../../src/domain/ports';
+import {
+  OrderEvent,
+  PartnerId,
+  ErrorCode,
+  OrderStatus,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+} from '../../../../src/domain/models';
+
+const SECRET = 'test-secret-0123456789';
+
+const orderEvent: OrderEvent = {
+  id: 'evt-1',
+  externalOrderId: 'ORD-A-001',
+  partnerId: PartnerId.PARTNER_A,
+  sequenceNumber: 1,
+  productId: 'SKU-123',
+  customerId: 'CUST-001',
+  quantity: 2,
+  unitPrice: 10,
+  taxRate: 0.1,
+  grossAmount: 20,
+  taxAmount: 2,
+  netAmount: 22,
+  transactionTime: '2024-01-15T10:30:00.000Z',
+  processedAt: '2024-01-15T10:30:01.000Z',
+} as OrderEvent;
+
+/**
+ * Wait until queued promise callbacks (stream listeners, sender calls) have run.
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('WebhookService', () => {
+  let repository: InMemoryWebhookRepository;
+  let orderStream: InMemoryOrderStream;
+  let sender: jest.Mocked<IWebhookSenderPort>;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    repository = new InMemoryWebhookRepository();
+    orderStream = new InMemoryOrderStream();
+    sender = { send: jest.fn().mockResolvedValue({ statusCode: 200 }) };
+    service = new WebhookService(repository, sender, { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 15 });
+    service.attach(orderStream);
+  });
+
+  afterEach(() => {
+    service.stop();
+    orderStream.removeAllListeners();
+  });
+
+  const emitAccepted = () => orderStream.emitValidOrder({ orderEvent, receivedAt: new Date() });
+  const emitRejected = () =>
+    orderStream.emitErrorOrder({
+      partnerId: PartnerId.PARTNER_B,
+      originalOrderId: 'TXN-1',
+      errors: ['qty: Quantity must be a positive integer'],
+      details: [{ field: 'qty', errorCode: ErrorCode.INVALID_VALUE, message: 'Quantity must be a positive integer' }],
+      errorCode: ErrorCode.INVALID_VALUE,
+      rawInput: {},
+      timestamp: new Date(),
+    });
+
+  describe('configure', () => {
+    it('should generate a secret and subscribe to all events by default', async () => {
+      const subscription = await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook' });
+
+      expect(subscription.secret).toHaveLength(64);
+      expect(subscription.events).toEqual([
+        WebhookEventType.ORDER_ACCEPTED,
+        WebhookEventType.ORDER_REJECTED,
+        WebhookEventType.ORDER_AMENDED,
+        WebhookEventType.ORDER_CANCELLED,
+        WebhookEventType.ORDER_STATUS_CHANGED,
+      ]);
+      expect(subscription.enabled).toBe(true);
+    });
+
+    it('should keep the secret and creation time on update', async () => {
+      const created = await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/a', secret: SECRET });
+      const updated = await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/b' });
+
+      expect(updated.secret).toBe(SECRET);
+      expect(updated.url).toBe('http://localhost/b');
+      expect(updated.createdAt).toBe(created.createdAt);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should not send anything for partners without a subscription', async () => {
+      emitAccepted();
+      await flush();
+
+      expect(sender.send).not.toHaveBeenCalled();
+    });
+
+    it('should send a signed order.accepted delivery', async () => {
+      await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook', secret: SECRET });
+
+      emitAccepted();
+      await flush();
+
+      expect(sender.send).toHaveBeenCalledTimes(1);
+      const [url, body, headers] = sender.send.mock.calls[0];
+      const payload = JSON.parse(body);
+
+      expect(url).toBe('http://localhost/hook');
+      expect(payload).toMatchObject({
+        event: WebhookEventType.ORDER_ACCEPTED,
+        partnerId: PartnerId.PARTNER_A,
+        data: { orderId: 'ORD-A-001', order: { sequenceNumber: 1 } },
+      });
+      expect(headers[WebhookHeader.ID]).toBe(payload.id);
+      expect(headers[WebhookHeader.EVENT]).toBe('order.accepted');
+      expect(
+        verifyWebhookSignature(SECRET, headers[WebhookHeader.TIMESTAMP], body, headers[WebhookHeader.SIGNATURE])
+      ).toBe(true);
+
+      const { data } = await service.listDeliveries();
+      expect(data[0]).toMatchObject({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 1,
+        lastStatusCode: 200,
+      });
+      expect(data[0].deliveredAt).toBeDefined();
+    });
+
+    it('should send order.rejected deliveries with the errors', async () => {
+      await service.configure(PartnerId.PARTNER_B, { url: 'http://localhost/hook' });
+
+      emitRejected();
+      await flush();
+
+      const payload = JSON.parse(sender.send.mock.calls[0][1]);
+      expect(payload).toMatchObject({
+        event: WebhookEventType.ORDER_REJECTED,
+        data: { orderId: 'TXN-1', errorCode: 'INVALID_VALUE', errors: ['qty: Quantity must be a positive integer'] },
+      });
+    });
+
+    it('should send order.amended, order.cancelled and order.status_changed deliveries', async () => {
+      await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook' });
+      const changes = [{ field: 'quantity', from: 2, to: 3 }];
+
+      orderStream.emitOrderAmended({
+        orderEvent: { ...orderEvent, quantity: 3 },
+        previous: orderEvent,
+        changes,
+        receivedAt: new Date(),
+      });
+      orderStream.emitOrderStatusChanged({
+        orderEvent: { ...orderEvent, status: OrderStatus.FULFILLED },
+        previousStatus: OrderStatus.PROCESSED,
+        receivedAt: new Date(),
+      });
+      orderStream.emitOrderCancelled({
+        orderEvent: { ...orderEvent, status: OrderStatus.CANCELLED },
+        reason: 'Customer request',
+        receivedAt: new Date(),
+      });
+      await flush();
+
+      const payloads = sender.send.mock.calls.map(([, body]) => JSON.parse(body));
+      expect(payloads).toHaveLength(3);
+      expect(payloads[0]).toMatchObject({
+        event: WebhookEventType.ORDER_AMENDED,
+        data: { orderId: 'ORD-A-001', order: { quantity: 3 }, changes },
+      });
+      expect(payloads[1]).toMatchObject({
+        event: WebhookEventType.ORDER_STATUS_CHANGED,
+        data: { orderId: 'ORD-A-001', order: { status: 'FULFILLED' }, previousStatus: 'PROCESSED' },
+      });
+      expect(payloads[2]).toMatchObject({
+        event: WebhookEventType.ORDER_CANCELLED,
+        data: { orderId: 'ORD-A-001', reason: 'Customer request' },
+      });
+    });
+
+    it('should only send subscribed events of enabled subscriptions', async () => {
+      await service.configure(PartnerId.PARTNER_A, {
+        url: 'http://localhost/hook',
+        events: [WebhookEventType.ORDER_REJECTED],
+      });
+      await service.configure(PartnerId.PARTNER_B, { url: 'http://localhost/hook', enabled: false });
+
+      emitAccepted();
+      emitRejected();
+      await flush();
+
+      expect(sender.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry with backoff until the endpoint succeeds', async () => {
+      sender.send
+        .mockResolvedValueOnce({ statusCode: 500 })
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+        .mockResolvedValueOnce({ statusCode: 204 });
+      await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook' });
+
+      emitAccepted();
+      await flush();
+
+      let [delivery] = (await service.listDeliveries()).data;
+      expect(delivery).toMatchObject({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 1,
+        lastStatusCode: 500,
+        lastError: 'Endpoint responded with HTTP 500',
+      });
+      expect(delivery.nextAttemptAt).toBeDefined();
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      [delivery] = (await service.listDeliveries()).data;
+      expect(sender.send).toHaveBeenCalledTimes(3);
+      expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.SUCCEEDED, attempts: 3, lastStatusCode: 204 });
+      expect(delivery.lastError).toBeUndefined();
+    });
+
+    it('should mark the delivery failed after the maximum attempts', async () => {
+      sender.send.mockResolvedValue({ statusCode: 503 });
+      await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook' });
+
+      emitAccepted();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const { data } = await service.listDeliveries({ status: WebhookDeliveryStatus.FAILED });
+      expect(sender.send).toHaveBeenCalledTimes(3);
+      expect(data[0]).toMatchObject({ attempts: 3, lastStatusCode: 503 });
+      expect(data[0].nextAttemptAt).toBeUndefined();
+    });
+
+    it('should redeliver a failed delivery with a new attempt cycle', async () => {
+      sender.send.mockResolvedValue({ statusCode: 503 });
+      await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook' });
+      emitAccepted();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const [failed] = (await service.listDeliveries()).data;
+
+      sender.send.mockResolvedValue({ statusCode: 200 });
+      const redelivered = await service.redeliver(failed.id);
+
+      expect(redelivered).toMatchObject({ id: failed.id, status: WebhookDeliveryStatus.SUCCEEDED, attempts: 1 });
+      expect(JSON.parse(sender.send.mock.calls[3][1]).id).toBe(failed.id);
+    });
+
+    it('should fail pending deliveries whose subscription was removed', async () => {
+      sender.send.mockResolvedValueOnce({ statusCode: 500 });
+      await service.configure(PartnerId.PARTNER_A, { url: 'http://localhost/hook' });
+      emitAccepted();
+      await flush();
+
+      await service.removeSubscription(PartnerId.PARTNER_A);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const [delivery] = (await service.listDeliveries()).data;
+      expect(delivery).toMatchObject({
+        status: WebhookDeliveryStatus.FAILED,
+        lastError: 'Webhook subscription was removed',
+      });
+    });
+
+    it('should return null when redelivering an unknown delivery', async () => {
+      expect(await service.redeliver('missing')).toBeNull();
+    });
+  });
+
+  describe('with a local HTTP endpoint', () => {
+    let server: http.Server;
+    let received: { headers: http.IncomingHttpHeaders; body: string }[];
+    let statusCodes: number[];
+
+    beforeEach(async () => {
+      received = [];
+      statusCodes = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.statusCode = statusCodes.shift() ?? 200;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      service.stop();
+      orderStream.removeAllListeners();
+      service = new WebhookService(repository, new HttpWebhookSender(2000), { baseDelayMs: 10, maxDelayMs: 10 });
+      service.attach(orderStream);
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    it('should POST signed payloads and retry failed responses', async () => {
+      const { port } = server.address() as AddressInfo;
+      statusCodes = [500];
+      await service.configure(PartnerId.PARTNER_A, { url: `http://127.0.0.1:${port}/hooks`, secret: SECRET });
+
+      emitAccepted();
+      await waitFor(() => received.length === 2);
+      await flush();
+
+      expect(received).toHaveLength(2);
+      const { headers, body } = received[1];
+      expect(headers['content-type']).toBe('application/json');
+      expect(
+        verifyWebhookSignature(
+          SECRET,
+          headers['x-webhook-timestamp'] as string,
+          body,
+          headers['x-webhook-signature'] as string
+        )
+      ).toBe(true);
+
+      const [delivery] = (await service.listDeliveries()).data;
+      expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.SUCCEEDED, attempts: 2 });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  BusinessRules,
+  describeBusinessRule,
+  getBusinessRuleFieldValues,
+  getOrderValue,
+  satisfiesBusinessRule,
+  validateBusinessRules,
+} from '../../../src/domain/services/business-rules';
+import { BusinessRule, BusinessRuleOperator } from '../../../src/domain/models';
+
+describe('Business rules', () => {
+  const rule = (operator: BusinessRuleOperator, value: BusinessRule['value']): BusinessRule =>
+    ({ id: 'rule', field: 'field', operator, value });
+
+  it('should find the values of a field, expanding arrays', () => {
+    const input = {
+      customerId: 'CUST-1',
+      order: { ref: 'R-1' },
+      lineItems: [{ skuId: 'SKU-1' }, { skuId: 'SKU-2' }, {}],
+    };
+
+    expect(getBusinessRuleFieldValues('customerId', input)).toEqual([{ path: 'customerId', value: 'CUST-1' }]);
+    expect(getBusinessRuleFieldValues('order.ref', input)).toEqual([{ path: 'order.ref', value: 'R-1' }]);
+    expect(getBusinessRuleFieldValues('lineItems[].skuId', input)).toEqual([
+      { path: 'lineItems[0].skuId', value: 'SKU-1' },
+      { path: 'lineItems[1].skuId', value: 'SKU-2' },
+    ]);
+    expect(getBusinessRuleFieldValues('quantity', input)).toEqual([]);
+    expect(getBusinessRuleFieldValues('$orderValue', input, { $orderValue: 25 })).toEqual([{ path: '$orderValue', value: 25 }]);
+  });
+
+  it('should check values against each operator', () => {
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.MAX, 500), 500)).toBe(true);
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.MAX, 500), 501)).toBe(false);
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.MIN, 10), 9.99)).toBe(false);
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.MATCHES, '^SKU-\\d+$'), 'SKU-12')).toBe(true);
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.MATCHES, '^SKU-\\d+$'), 'ITEM-12')).toBe(false);
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.IN, ['EUR', 'USD']), 'EUR')).toBe(true);
+    expect(satisfiesBusinessRule(rule(BusinessRuleOperator.NOT_IN, ['CUST-BLOCKED']), 'CUST-BLOCKED')).toBe(false);
+    expect(describeBusinessRule(rule(BusinessRuleOperator.IN, ['EUR', 'USD']))).toBe('one of EUR, USD');
+  });
+
+  it('should compute the order value exactly', () => {
+    expect(getOrderValue([{ quantity: 3, unitPrice: 3.3 }])).toBe(9.9);
+    expect(getOrderValue([{ quantity: 2, unitPrice: 10 }, { quantity: 1, unitPrice: 5.5 }])).toBe(25.5);
+    expect(getOrderValue([{ quantity: 3, unitPrice: 333.5 }], 'JPY')).toBe(1001);
+  });
+
+  it('should report every problem of an invalid definition', () => {
+    expect(() =>
+      validateBusinessRules({
+        partners: {
+          PARTNER_A: [
+            { id: 'a', field: 'quantity', operator: 'MAX', value: '500' },
+            { id: 'a', field: '', operator: 'MATCHES', value: '[', severity: 'FATAL' },
+            { id: 'b', field: 'currency', operator: 'IN', value: [], errorCode: 'NOPE' },
+            { id: 'c', field: 'quantity', operator: 'BETWEEN', value: 1 },
+          ],
+          PARTNER_B: {},
+        },
+      })
+    ).toThrow(
+      'Invalid business rules: partners.PARTNER_A[0].value must be a number for MAX; ' +
+      "partners.PARTNER_A[1].id 'a' is used by another rule; partners.PARTNER_A[1].field must be a non-empty string; " +
+      'partners.PARTNER_A[1].value must be a regular expression for MATCHES; partners.PARTNER_A[1].severity must be ERROR or WARNING; ' +
+      'partners.PARTNER_A[2].value must be a non-empty array of strings or numbers for IN; partners.PARTNER_A[2].errorCode must be a known error code; ' +
+      'partners.PARTNER_A[3].operator must be MIN, MAX, MATCHES, IN, NOT_IN; partners.PARTNER_B must be an array'
+    );
+    expect(() => validateBusinessRules({})).toThrow('partners must be an object keyed by partner ID');
+  });
+
+  it('should keep the current rules when a replacement is invalid', () => {
+    const rules = new BusinessRules({ partners: { PARTNER_A: [{ ...rule(BusinessRuleOperator.MAX, 500), field: 'quantity' }] } });
+
+    expect(() => rules.replace({ partners: { PARTNER_A: [{ ...rule(BusinessRuleOperator.MAX, 'x' as never) }] } })).toThrow();
+    expect(rules.forPartner('PARTNER_A')).toHaveLength(1);
+
+    rules.replace({ partners: {} });
+    expect(rules.forPartner('PARTNER_A')).toEqual([]);
+    expect(new BusinessRules().forPartner('PARTNER_B')).toEqual([]);
+  });
+});
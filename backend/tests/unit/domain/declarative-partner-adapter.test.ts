@@ -0,0 +1,322 @@
+import {
+  DeclarativePartnerAdapter,
+  validatePartnerMapping
+} from '../../../src/domain/services/declarative-partner-adapter';
+import { ErrorCode, PartnerMappingDefinition } from '../../../src/domain/models';
+import { validateJsonSchema } from '../../../src/domain/services/json-schema';
+import { createContainer } from '../../../src/app';
+import { OrderTransformer } from '../../../src/domain/services/order-transformer';
+import { FxRateTable } from '../../../src/domain/services/fx-rate-table';
+import { createDefaultPartnerRegistry } from '../../../src/domain/services/partner-registry';
+
+const partnerCMapping: PartnerMappingDefinition = {
+  partnerId: 'PARTNER_C',
+  slug: 'partner-c',
+  displayName: 'Partner C',
+  aliases: ['C'],
+  fields: [
+    { source: 'order.ref', target: 'externalOrderId', type: 'string' },
+    { source: 'order.sku', target: 'productId', type: 'string' },
+    { source: 'buyer.id', target: 'customerId', type: 'integer' },
+    { source: 'units', target: 'quantity', type: 'integer', default: 1 },
+    { source: 'cost', target: 'unitPrice', type: 'number' },
+    { source: 'vat', target: 'taxRate', type: 'number', conversion: 'percent-to-decimal' },
+    { source: 'ts', target: 'transactionTime', type: 'timestamp', conversion: 'seconds-to-iso' },
+    { source: 'channel', target: 'metadata.channel', type: 'string', required: false },
+  ],
+};
+
+const validInput = {
+  order: { ref: 'C-1001', sku: 'SKU-9' },
+  buyer: { id: 42 },
+  units: 3,
+  cost: 12.5,
+  vat: 20,
+  ts: 1705314600,
+  channel: 'web',
+};
+
+describe('DeclarativePartnerAdapter', () => {
+  let adapter: DeclarativePartnerAdapter;
+
+  beforeEach(() => {
+    adapter = new DeclarativePartnerAdapter(partnerCMapping);
+  });
+
+  describe('definition', () => {
+    it('should expose partner identity from the mapping', () => {
+      expect(adapter.partnerId).toBe('PARTNER_C');
+      expect(adapter.slug).toBe('partner-c');
+      expect(adapter.displayName).toBe('Partner C');
+      expect(adapter.aliases).toEqual(['C']);
+      expect(adapter.idField).toBe('order.ref');
+    });
+
+    it('should default displayName to partnerId', () => {
+      const { displayName, ...rest } = partnerCMapping;
+      expect(new DeclarativePartnerAdapter(rest).displayName).toBe('PARTNER_C');
+    });
+
+    it('should reject a mapping missing required targets', () => {
+      const fields = partnerCMapping.fields.filter((f) => f.target !== 'unitPrice');
+      expect(() => validatePartnerMapping({ ...partnerCMapping, fields }))
+        .toThrow("Invalid partner mapping 'PARTNER_C': missing mapping for required field unitPrice");
+    });
+
+    it('should reject a type that does not fit the target', () => {
+      const fields = partnerCMapping.fields.map((f) =>
+        f.target === 'quantity' ? { ...f, type: 'string' as const } : f
+      );
+      expect(() => validatePartnerMapping({ ...partnerCMapping, fields }))
+        .toThrow("fields[3].type 'string' is not valid for quantity");
+    });
+
+    it('should reject unknown targets and conversions', () => {
+      const fields = [
+        ...partnerCMapping.fields,
+        { source: 'x', target: 'discount', type: 'number' },
+        { source: 'y', target: 'metadata.y', type: 'number', conversion: 'ms-to-iso' },
+      ];
+      expect(() => validatePartnerMapping({ ...partnerCMapping, fields }))
+        .toThrow(/target 'discount' is not a supported order field.*conversion 'ms-to-iso' is not valid for metadata\.y/);
+    });
+
+    it('should reject a default for externalOrderId', () => {
+      const fields = partnerCMapping.fields.map((f) =>
+        f.target === 'externalOrderId' ? { ...f, default: 'X' } : f
+      );
+      expect(() => validatePartnerMapping({ ...partnerCMapping, fields }))
+        .toThrow('maps externalOrderId and cannot have a default');
+    });
+
+    it('should reject non-object definitions', () => {
+      expect(() => validatePartnerMapping(null)).toThrow('definition must be an object');
+    });
+
+    it('should reject an invalid partner currency', () => {
+      expect(() => validatePartnerMapping({ ...partnerCMapping, currency: 'euro' }))
+        .toThrow('currency must be an ISO 4217 currency code');
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept valid nested input', () => {
+      const result = adapter.validate(validInput);
+
+      expect(result.isValid).toBe(true);
+      expect(result.data).toEqual(validInput);
+    });
+
+    it('should accept input with defaulted and optional fields missing', () => {
+      const { units, channel, ...input } = validInput;
+      expect(adapter.validate(input).isValid).toBe(true);
+    });
+
+    it('should report missing required fields by source path', () => {
+      const result = adapter.validate({ ...validInput, order: { sku: 'SKU-9' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({ field: 'order.ref', message: 'Missing required field: order.ref' })
+      );
+    });
+
+    it('should collect errors for every invalid field', () => {
+      const result = adapter.validate({ ...validInput, units: 1.5, cost: -1, vat: 150, ts: 'yesterday' });
+
+      expect(result.errors.map((e) => e.field)).toEqual(['units', 'cost', 'vat', 'ts']);
+    });
+
+    it('should reject integer ids sent as strings', () => {
+      const result = adapter.validate({ ...validInput, buyer: { id: '42' } });
+
+      expect(result.errors[0]).toMatchObject({ field: 'buyer.id', expectedType: 'integer' });
+    });
+
+    it('should reject non-object input', () => {
+      const result = adapter.validate('not an object');
+
+      expect(result.errors[0]).toMatchObject({ field: 'root' });
+    });
+  });
+
+  describe('schema', () => {
+    it('should describe the mapped input format', () => {
+      const schema = adapter.inputSchema;
+
+      expect(schema.title).toBe('Partner C order');
+      expect(schema.required).toEqual(['cost', 'vat', 'ts', 'order', 'buyer']);
+      expect(schema.properties?.order).toEqual({
+        type: 'object',
+        required: ['ref', 'sku'],
+        properties: {
+          ref: { type: 'string', pattern: '\\S', description: 'Maps to externalOrderId' },
+          sku: { type: 'string', pattern: '\\S', description: 'Maps to productId' },
+        },
+      });
+      expect(schema.properties?.units).toEqual({
+        type: ['integer', 'null'],
+        exclusiveMinimum: 0,
+        description: 'Maps to quantity, default 1',
+      });
+      expect(schema.properties?.vat).toMatchObject({ type: 'number', maximum: 100 });
+      expect(validateJsonSchema(schema, validInput)).toEqual([]);
+    });
+
+    it('should reference the schema path in errors', () => {
+      const result = adapter.validate({ ...validInput, cost: -1 });
+
+      expect(result.errors[0]).toMatchObject({ field: 'cost', schemaPath: '#/properties/cost' });
+    });
+
+    it('should reject input the field checks accept but the schema does not', () => {
+      const adapterWithNestedOptional = new DeclarativePartnerAdapter({
+        ...partnerCMapping,
+        fields: [...partnerCMapping.fields, { source: 'extra.note', target: 'metadata.note', type: 'string', required: false }],
+      });
+
+      const result = adapterWithNestedOptional.validate({ ...validInput, extra: 'not an object' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          field: 'extra',
+          errorCode: ErrorCode.INVALID_DATA_TYPE,
+          message: "Field 'extra' must be object | null (#/properties/extra/type)",
+          receivedValue: 'not an object',
+          expectedType: 'object | null',
+          schemaPath: '#/properties/extra/type',
+        },
+      ]);
+    });
+  });
+
+  describe('toOrderInput', () => {
+    it('should map, convert and collect metadata', () => {
+      expect(adapter.toOrderInput(validInput)).toEqual({
+        externalOrderId: 'C-1001',
+        partnerId: 'PARTNER_C',
+        productId: 'SKU-9',
+        customerId: '42',
+        quantity: 3,
+        unitPrice: 12.5,
+        taxRate: 0.2,
+        transactionTime: '2024-01-15T10:30:00.000Z',
+        metadata: { channel: 'web' },
+      });
+    });
+
+    it('should apply defaults and omit empty metadata', () => {
+      const { units, channel, ...input } = validInput;
+      const order = adapter.toOrderInput(input);
+
+      expect(order.quantity).toBe(1);
+      expect(order.metadata).toBeUndefined();
+    });
+
+    it('should normalize ISO timestamps and convert milliseconds', () => {
+      const withIso = new DeclarativePartnerAdapter({
+        ...partnerCMapping,
+        fields: partnerCMapping.fields.map((f) =>
+          f.target === 'transactionTime' ? { source: 'ts', target: 'transactionTime', type: 'timestamp' } : f
+        ),
+      });
+      const withMs = new DeclarativePartnerAdapter({
+        ...partnerCMapping,
+        fields: partnerCMapping.fields.map((f) =>
+          f.target === 'transactionTime' ? { ...f, conversion: 'ms-to-iso' } : f
+        ),
+      });
+
+      expect(withIso.toOrderInput({ ...validInput, ts: '2024-01-15T10:30:00Z' }).transactionTime)
+        .toBe('2024-01-15T10:30:00.000Z');
+      expect(withMs.toOrderInput({ ...validInput, ts: 1705314600000 }).transactionTime)
+        .toBe('2024-01-15T10:30:00.000Z');
+    });
+  });
+
+  describe('currency', () => {
+    const eurMapping: PartnerMappingDefinition = {
+      ...partnerCMapping,
+      currency: 'EUR',
+      fields: [...partnerCMapping.fields, { source: 'ccy', target: 'currency', type: 'string', required: false }],
+    };
+    const eurAdapter = new DeclarativePartnerAdapter(eurMapping);
+    const transformer = new OrderTransformer(
+      createDefaultPartnerRegistry().register(eurAdapter),
+      new FxRateTable({
+        baseCurrency: 'USD',
+        rates: [
+          { currency: 'EUR', rate: 1.1, effectiveFrom: '2024-01-01' },
+          { currency: 'GBP', rate: 1.25, effectiveFrom: '2024-01-01' },
+        ],
+      })
+    );
+
+    it('should price orders in the partner currency unless the order names one', () => {
+      expect(eurAdapter.defaultCurrency).toBe('EUR');
+      expect(transformer.buildOrderEvent(eurAdapter.toOrderInput(validInput), 1).currency).toBe('EUR');
+      expect(transformer.buildOrderEvent(eurAdapter.toOrderInput({ ...validInput, ccy: 'GBP' }), 1).currency).toBe('GBP');
+    });
+
+    it('should validate mapped currency codes', () => {
+      const result = eurAdapter.validate({ ...validInput, ccy: 'gbp' });
+
+      expect(result.errors[0]).toMatchObject({ field: 'ccy', message: "Field 'ccy' must be an ISO 4217 currency code" });
+    });
+  });
+
+  describe('tax rule fields', () => {
+    const taxMapping: PartnerMappingDefinition = {
+      ...partnerCMapping,
+      fields: [
+        ...partnerCMapping.fields,
+        { source: 'order.category', target: 'productCategory', type: 'string', required: false },
+        { source: 'buyer.region', target: 'customerRegion', type: 'string', required: false },
+        { source: 'gross', target: 'pricesIncludeTax', type: 'boolean', default: false },
+      ],
+    };
+    const taxAdapter = new DeclarativePartnerAdapter(taxMapping);
+
+    it('should map the fields tax rules are looked up by', () => {
+      const input = { ...validInput, order: { ...validInput.order, category: 'food' }, buyer: { id: 42, region: 'DE' }, gross: true };
+
+      expect(taxAdapter.toOrderInput(input)).toMatchObject({
+        productCategory: 'food',
+        customerRegion: 'DE',
+        pricesIncludeTax: true,
+      });
+    });
+
+    it('should validate mapped region codes', () => {
+      const result = taxAdapter.validate({ ...validInput, buyer: { id: 42, region: 'Germany' } });
+
+      expect(result.errors[0].field).toBe('buyer.region');
+    });
+  });
+
+  describe('discount field', () => {
+    const discountAdapter = new DeclarativePartnerAdapter({
+      ...partnerCMapping,
+      fields: [...partnerCMapping.fields, { source: 'rebate', target: 'discountAmount', type: 'number', required: false }],
+    });
+
+    it('should map a non-negative discount', () => {
+      expect(discountAdapter.toOrderInput({ ...validInput, rebate: 2.5 })).toMatchObject({ discountAmount: 2.5 });
+      expect(discountAdapter.validate({ ...validInput, rebate: -1 }).errors[0].field).toBe('rebate');
+    });
+  });
+
+  describe('feed integration', () => {
+    it('should process orders for a mapped partner end to end', async () => {
+      const container = createContainer({ partners: [adapter] });
+
+      const result = await container.feedHandler.processOrder('PARTNER_C', validInput);
+      const duplicate = await container.feedHandler.processOrder('PARTNER_C', validInput);
+
+      expect(result).toMatchObject({ success: true, orderId: 'C-1001', sequenceNumber: 1 });
+      expect(duplicate.success).toBe(false);
+      expect(duplicate.errors![0]).toContain("order.ref: Duplicate order 'C-1001'");
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  FxRateTable,
+  getBaseAmounts,
+  isCurrencyCode,
+  validateFxRateTable,
+} from '../../../src/domain/services/fx-rate-table';
+import { OrderTransformer } from '../../../src/domain/services/order-transformer';
+import { FxRateTableDefinition } from '../../../src/domain/models';
+
+describe('FX rate table', () => {
+  const definition: FxRateTableDefinition = {
+    baseCurrency: 'USD',
+    rates: [
+      { currency: 'EUR', rate: 1.1, effectiveFrom: '2024-07-01' },
+      { currency: 'EUR', rate: 1.08, effectiveFrom: '2024-01-01' },
+      { currency: 'JPY', rate: 0.0068, effectiveFrom: '2024-01-01T12:00:00.000Z' },
+    ],
+  };
+  const table = new FxRateTable(definition);
+
+  it('should find the rate with the latest effective date not after the given time', () => {
+    expect(table.findRate('EUR', new Date('2024-03-15T00:00:00.000Z'))).toEqual({ rate: 1.08, effectiveFrom: '2024-01-01' });
+    expect(table.findRate('EUR', new Date('2024-07-01T00:00:00.000Z'))).toEqual({ rate: 1.1, effectiveFrom: '2024-07-01' });
+    expect(table.findRate('JPY', new Date('2024-01-01T11:59:59.999Z'))).toBeNull();
+  });
+
+  it('should convert the base currency at 1 and not know other currencies', () => {
+    expect(table.findRate('USD', new Date('2000-01-01'))).toEqual({ rate: 1 });
+    expect(table.findRate('GBP', new Date('2024-03-15'))).toBeNull();
+    expect(table.getCurrencies()).toEqual(['EUR', 'JPY', 'USD']);
+  });
+
+  it('should only know USD without a definition', () => {
+    const empty = new FxRateTable();
+
+    expect(empty.baseCurrency).toBe('USD');
+    expect(empty.getCurrencies()).toEqual(['USD']);
+  });
+
+  it('should report every problem of an invalid definition', () => {
+    expect(() =>
+      validateFxRateTable({
+        baseCurrency: 'usd',
+        rates: [
+          { currency: 'EUR', rate: 0, effectiveFrom: 'soon' },
+          { currency: 'GBP', rate: 1.27, effectiveFrom: '2024-01-01' },
+          { currency: 'GBP', rate: 1.28, effectiveFrom: '2024-01-01T00:00:00.000Z' },
+        ],
+      })
+    ).toThrow(
+      'Invalid FX rate table: baseCurrency must be an ISO 4217 currency code; rates[0].rate must be a positive number; ' +
+      'rates[0].effectiveFrom must be a date or ISO 8601 timestamp; rates[2] repeats the GBP rate effective from 2024-01-01T00:00:00.000Z'
+    );
+    expect(() => validateFxRateTable({ baseCurrency: 'USD', rates: [{ currency: 'USD', rate: 1, effectiveFrom: '2024-01-01' }] }))
+      .toThrow('rates[0].currency is the base currency');
+    expect(() => validateFxRateTable([])).toThrow('definition must be an object');
+  });
+
+  it('should recognise currency codes', () => {
+    expect(isCurrencyCode('EUR')).toBe(true);
+    expect(isCurrencyCode('eur')).toBe(false);
+    expect(isCurrencyCode('EURO')).toBe(false);
+  });
+
+  it('should treat orders stored without base amounts as base currency orders', () => {
+    const { currency, baseAmounts, ...legacy } = new OrderTransformer().fromPartnerA(
+      {
+        orderId: 'ORD-001',
+        skuId: 'SKU-1',
+        customerId: 'CUST-001',
+        quantity: 2,
+        unitPrice: 10,
+        taxRate: 0.1,
+        transactionTimeMs: 1705315800000,
+      },
+      1
+    );
+
+    expect(currency).toBe('USD');
+    expect(baseAmounts).toBeDefined();
+    expect(getBaseAmounts(legacy)).toEqual({ currency: 'USD', fxRate: 1, grossAmount: 20, taxAmount: 2, netAmount: 22 });
+  });
+});
@@ -0,0 +1,83 @@
+import { getSchemaPath, validateJsonSchema } from '../../../src/domain/services/json-schema';
+import { JsonSchema } from '../../../src/domain/models';
+
+describe('JSON Schema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['id', 'lines'],
+    properties: {
+      id: { type: 'string', pattern: '\\S' },
+      status: { type: ['string', 'null'], enum: ['NEW', 'PAID', null] },
+      lines: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 2,
+        items: {
+          type: 'object',
+          required: ['quantity'],
+          properties: { quantity: { type: 'integer', exclusiveMinimum: 0 }, rate: { type: 'number', minimum: 0, maximum: 1 } },
+        },
+      },
+      tags: { type: 'array', uniqueItems: true, items: { type: 'string' } },
+      at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  const valid = { id: 'A-1', lines: [{ quantity: 2, rate: 0.2 }] };
+
+  it('should accept valid values', () => {
+    expect(validateJsonSchema(schema, valid)).toEqual([]);
+    expect(validateJsonSchema(schema, { ...valid, status: null, tags: ['a', 'b'], at: '2024-01-15T10:30:00Z' })).toEqual([]);
+  });
+
+  it('should report every violation with its field and schema path', () => {
+    const violations = validateJsonSchema(schema, {
+      id: ' ',
+      status: 'LOST',
+      lines: [{ quantity: 1.5 }, { rate: 2 }, {}],
+      tags: ['a', 'a'],
+      at: '2024-02-30T10:00:00Z',
+    });
+
+    expect(violations.map(({ field, schemaPath }) => [field, schemaPath])).toEqual([
+      ['id', '#/properties/id/pattern'],
+      ['status', '#/properties/status/enum'],
+      ['lines', '#/properties/lines/maxItems'],
+      ['lines[0].quantity', '#/properties/lines/items/properties/quantity/type'],
+      ['lines[1].quantity', '#/properties/lines/items/required'],
+      ['lines[1].rate', '#/properties/lines/items/properties/rate/maximum'],
+      ['lines[2].quantity', '#/properties/lines/items/required'],
+      ['tags', '#/properties/tags/uniqueItems'],
+      ['at', '#/properties/at/format'],
+    ]);
+    expect(violations[3]).toMatchObject({ keyword: 'type', expected: 'integer', value: 1.5 });
+    expect(validateJsonSchema(schema, [])).toEqual([
+      { field: '', schemaPath: '#/type', keyword: 'type', expected: 'object', value: [] },
+    ]);
+  });
+
+  it('should combine schemas with not, anyOf and oneOf', () => {
+    const either: JsonSchema = {
+      oneOf: [
+        { title: 'Lines', required: ['lines'], not: { required: ['sku'] } },
+        { title: 'Product', required: ['sku'] },
+      ],
+      anyOf: [{ required: ['id'] }, { required: ['ref'] }],
+    };
+
+    expect(validateJsonSchema(either, { id: 1, lines: [] })).toEqual([]);
+    expect(validateJsonSchema(either, { ref: 1, sku: 'S' })).toEqual([]);
+    expect(validateJsonSchema(either, { lines: [], sku: 'S' }).map((v) => [v.keyword, v.expected])).toEqual([
+      ['anyOf', 'matching any of option 1, option 2'],
+    ]);
+    expect(validateJsonSchema(either, { id: 1 }).map((v) => v.expected)).toEqual(['matching exactly one of Lines, Product']);
+  });
+
+  it('should find the schema of a field', () => {
+    expect(getSchemaPath(schema, 'lines[3].quantity')).toBe('#/properties/lines/items/properties/quantity');
+    expect(getSchemaPath(schema, 'lines')).toBe('#/properties/lines');
+    expect(getSchemaPath(schema, 'lines[0].note')).toBe('#/properties/lines/items');
+    expect(getSchemaPath(schema, 'root')).toBe('#');
+    expect(getSchemaPath(schema, '$orderValue')).toBeUndefined();
+  });
+});
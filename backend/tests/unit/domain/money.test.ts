@@ -0,0 +1,84 @@
+import {
+  RoundingMode,
+  allocateMinorUnits,
+  divideMinorUnits,
+  fromMinorUnits,
+  getCurrencyMinorDigits,
+  getMinorUnitAmounts,
+  isRoundingMode,
+  removeRate,
+  roundProduct,
+  toDecimalString,
+  toMinorUnits,
+} from '../../../src/domain/services/money';
+
+describe('Money', () => {
+  it('should round exact decimal values rather than their binary approximations', () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(toMinorUnits(1.005, 2)).toBe(101);
+    expect(roundProduct([3, 10.005], 2)).toBe(3002);
+    expect(roundProduct([0.1, 0.2], 2)).toBe(2);
+    expect(roundProduct([1e-7, 5e6], 1)).toBe(5);
+    expect(roundProduct([1.5e21, 1], 0)).toBe(1.5e21);
+  });
+
+  it('should round ties half-up or to even', () => {
+    expect(toMinorUnits(2.345, 2, RoundingMode.HALF_UP)).toBe(235);
+    expect(toMinorUnits(2.345, 2, RoundingMode.HALF_EVEN)).toBe(234);
+    expect(toMinorUnits(2.355, 2, RoundingMode.HALF_EVEN)).toBe(236);
+    expect(toMinorUnits(2.3451, 2, RoundingMode.HALF_EVEN)).toBe(235);
+    expect(toMinorUnits(-2.345, 2, RoundingMode.HALF_UP)).toBe(-235);
+    expect(toMinorUnits(-2.345, 2, RoundingMode.HALF_EVEN)).toBe(-234);
+  });
+
+  it('should divide minor units with rounding', () => {
+    expect(divideMinorUnits(1001, 2)).toBe(501);
+    expect(divideMinorUnits(1001, 2, RoundingMode.HALF_EVEN)).toBe(500);
+    expect(divideMinorUnits(1000, 3)).toBe(333);
+  });
+
+  it('should remove a rate added to an amount', () => {
+    expect(removeRate(11900, 0.19)).toBe(10000);
+    expect(removeRate(1000, 0.14975)).toBe(870);
+    expect(removeRate(1000, 0)).toBe(1000);
+  });
+
+  it('should convert minor units back to amounts', () => {
+    expect(fromMinorUnits(2999, 2)).toBe(29.99);
+    expect(fromMinorUnits(5, 2)).toBe(0.05);
+    expect(fromMinorUnits(-1234, 3)).toBe(-1.234);
+    expect(fromMinorUnits(1234, 0)).toBe(1234);
+    expect(toDecimalString(Number.MAX_SAFE_INTEGER, 2)).toBe('90071992547409.91');
+    expect(toDecimalString(-5, 3)).toBe('-0.005');
+    expect(toDecimalString(1234, 0)).toBe('1234');
+  });
+
+  it('should know the minor unit of currencies', () => {
+    expect(getCurrencyMinorDigits('USD')).toBe(2);
+    expect(getCurrencyMinorDigits('JPY')).toBe(0);
+    expect(getCurrencyMinorDigits('KWD')).toBe(3);
+  });
+
+  it('should convert amounts stored without minor units', () => {
+    const minorUnits = { digits: 2, grossAmount: 2001, taxAmount: 200, netAmount: 2201 };
+
+    expect(getMinorUnitAmounts({ grossAmount: 20.01, taxAmount: 2, netAmount: 22.01, minorUnits }, 'USD'))
+      .toEqual({ ...minorUnits, discountAmount: 0 });
+    expect(getMinorUnitAmounts({ grossAmount: 1234, taxAmount: 123, netAmount: 1357 }, 'JPY'))
+      .toEqual({ digits: 0, grossAmount: 1234, discountAmount: 0, taxAmount: 123, netAmount: 1357 });
+    expect(getMinorUnitAmounts({ grossAmount: 0.3, discountAmount: 0.1, taxAmount: 0.02, netAmount: 0.22 }, 'USD'))
+      .toEqual({ digits: 2, grossAmount: 30, discountAmount: 10, taxAmount: 2, netAmount: 22 });
+  });
+
+  it('should allocate minor units in proportion to weights without losing any', () => {
+    expect(allocateMinorUnits(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateMinorUnits(500, [2000, 1000, 0])).toEqual([333, 167, 0]);
+    expect(allocateMinorUnits(7, [0, 0])).toEqual([0, 0]);
+    expect(allocateMinorUnits(0, [5, 5])).toEqual([0, 0]);
+  });
+
+  it('should recognise rounding modes', () => {
+    expect(isRoundingMode('HALF_EVEN')).toBe(true);
+    expect(isRoundingMode('HALF_DOWN')).toBe(false);
+  });
+});
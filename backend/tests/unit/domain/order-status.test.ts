@@ -0,0 +1,62 @@
+import {
+  canTransitionOrderStatus,
+  getOrderStatus,
+  isOrderOpen,
+  isOrderStatus,
+} from '../../../src/domain/services/order-status';
+import { OrderTransformer } from '../../../src/domain/services/order-transformer';
+import { OrderStatus, PartnerAInput } from '../../../src/domain/models';
+
+describe('Order status', () => {
+  const transformer = new OrderTransformer();
+
+  const input: PartnerAInput = {
+    orderId: 'ORD-001',
+    skuId: 'SKU-1',
+    customerId: 'CUST-001',
+    quantity: 5,
+    unitPrice: 20,
+    taxRate: 0.1,
+    transactionTimeMs: 1705315800000,
+  };
+
+  it('should allow the lifecycle transitions', () => {
+    expect(canTransitionOrderStatus(OrderStatus.PENDING, OrderStatus.VALIDATED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.VALIDATED, OrderStatus.PROCESSED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.PROCESSED, OrderStatus.FULFILLED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.PROCESSED, OrderStatus.CANCELLED)).toBe(true);
+    expect(canTransitionOrderStatus(OrderStatus.FULFILLED, OrderStatus.REFUNDED)).toBe(true);
+  });
+
+  it('should refuse skipped, backward and final transitions', () => {
+    expect(canTransitionOrderStatus(OrderStatus.PROCESSED, OrderStatus.REFUNDED)).toBe(false);
+    expect(canTransitionOrderStatus(OrderStatus.FULFILLED, OrderStatus.PROCESSED)).toBe(false);
+    expect(canTransitionOrderStatus(OrderStatus.FULFILLED, OrderStatus.CANCELLED)).toBe(false);
+
+    for (const status of [OrderStatus.CANCELLED, OrderStatus.REFUNDED, OrderStatus.FAILED]) {
+      expect(Object.values(OrderStatus).some((to) => canTransitionOrderStatus(status, to))).toBe(false);
+    }
+  });
+
+  it('should derive the status of orders stored without one', () => {
+    const { status, ...legacy } = transformer.fromPartnerA(input, 1);
+
+    expect(status).toBe(OrderStatus.PROCESSED);
+    expect(getOrderStatus(legacy)).toBe(OrderStatus.PROCESSED);
+    expect(getOrderStatus({ ...legacy, cancelledAt: '2024-01-16T00:00:00.000Z' })).toBe(OrderStatus.CANCELLED);
+  });
+
+  it('should treat orders as open until they are fulfilled or final', () => {
+    const order = transformer.fromPartnerA(input, 1);
+
+    expect(isOrderOpen(order)).toBe(true);
+    expect(isOrderOpen({ ...order, status: OrderStatus.FULFILLED })).toBe(false);
+    expect(isOrderOpen({ ...order, status: OrderStatus.FAILED })).toBe(false);
+  });
+
+  it('should recognise status values', () => {
+    expect(isOrderStatus('REFUNDED')).toBe(true);
+    expect(isOrderStatus('refunded')).toBe(false);
+    expect(isOrderStatus(undefined)).toBe(false);
+  });
+});
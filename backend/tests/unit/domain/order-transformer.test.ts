@@ -1,5 +1,11 @@
 import { OrderTransformer } from '../../../src/domain/services/order-transformer';
-import { PartnerAInput, PartnerBInput, PartnerId } from '../../../src/domain/models';
+import { FxRateTable } from '../../../src/domain/services/fx-rate-table';
+import { RoundingMode } from '../../../src/domain/services/money';
+import { TaxRuleEngine } from '../../../src/domain/services/tax-rules';
+import { PromotionCatalog } from '../../../src/domain/services/promotion-catalog';
+import { createDefaultPartnerRegistry } from '../../../src/domain/services/partner-registry';
+import { formatValidationErrors } from '../../../src/domain/services/validation-service';
+import { PartnerAInput, PartnerBInput, PartnerId, OrderRevisionType, OrderStatus, TaxRuleMode, PromotionType, ErrorCode } from '../../../src/domain/models';
 
 describe('OrderTransformer', () => {
   let transformer: OrderTransformer;
@@ -447,6 +453,613 @@ describe('OrderTransformer', () => {
 
   // ============ Edge Cases ============
 
+  describe('Amendments and Cancellations', () => {
+    const input: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 5,
+      unitPrice: 20,
+      taxRate: 0.1,
+      transactionTimeMs: 1705315800000,
+    };
+
+    it('should recompute amounts and record the changed fields', () => {
+      const original = transformer.fromPartnerA(input, 7);
+      const amendedAt = new Date('2024-01-16T00:00:00.000Z');
+
+      const { orderEvent, changes } = transformer.amendOrderEvent(
+        original,
+        transformer.transformPartnerA({ ...input, quantity: 2 }),
+        amendedAt
+      );
+
+      expect(orderEvent).toMatchObject({
+        id: original.id,
+        sequenceNumber: 7,
+        processedAt: original.processedAt,
+        quantity: 2,
+        grossAmount: 40,
+        taxAmount: 4,
+        netAmount: 44,
+        revision: 2,
+      });
+      expect(changes.map((c) => c.field)).toEqual(['quantity', 'grossAmount', 'taxAmount', 'netAmount', 'baseAmounts', 'lineItems']);
+      expect(changes[0]).toEqual({ field: 'quantity', from: 5, to: 2 });
+      expect(orderEvent.history).toEqual([
+        { revision: 2, type: OrderRevisionType.AMENDED, occurredAt: '2024-01-16T00:00:00.000Z', changes },
+      ]);
+    });
+
+    it('should return the order unchanged when nothing changes', () => {
+      const original = transformer.fromPartnerA(input, 1);
+
+      const { orderEvent, changes } = transformer.amendOrderEvent(original, transformer.transformPartnerA(input));
+
+      expect(changes).toEqual([]);
+      expect(orderEvent).toBe(original);
+    });
+
+    it('should mark an order cancelled with the reason', () => {
+      const original = transformer.fromPartnerA(input, 1);
+
+      const cancelled = transformer.cancelOrderEvent(original, 'Customer request');
+
+      expect(cancelled.cancelledAt).toBeDefined();
+      expect(cancelled.revision).toBe(2);
+      expect(cancelled.history![0]).toMatchObject({ type: OrderRevisionType.CANCELLED, reason: 'Customer request' });
+      expect(original.cancelledAt).toBeUndefined();
+    });
+
+    it('should record status changes, including cancellations', () => {
+      const original = transformer.fromPartnerA(input, 1);
+      const changedAt = new Date('2024-01-16T00:00:00.000Z');
+
+      const fulfilled = transformer.changeOrderEventStatus(original, OrderStatus.FULFILLED, undefined, changedAt);
+      const cancelled = transformer.cancelOrderEvent(original, 'Customer request', changedAt);
+
+      expect(original.status).toBe(OrderStatus.PROCESSED);
+      expect(fulfilled.status).toBe(OrderStatus.FULFILLED);
+      expect(fulfilled.statusHistory).toEqual([
+        { from: OrderStatus.PROCESSED, to: OrderStatus.FULFILLED, changedAt: '2024-01-16T00:00:00.000Z' },
+      ]);
+      expect(fulfilled.revision).toBeUndefined();
+      expect(cancelled.status).toBe(OrderStatus.CANCELLED);
+      expect(cancelled.statusHistory![0]).toMatchObject({ to: OrderStatus.CANCELLED, reason: 'Customer request' });
+    });
+
+    it('should keep the status history when an order is amended', () => {
+      const original = transformer.changeOrderEventStatus(transformer.fromPartnerA(input, 1), OrderStatus.PROCESSED);
+
+      const { orderEvent } = transformer.amendOrderEvent(original, transformer.transformPartnerA({ ...input, quantity: 2 }));
+
+      expect(orderEvent.statusHistory).toEqual(original.statusHistory);
+    });
+  });
+
+  describe('Line Items', () => {
+    const multiLine: PartnerAInput = {
+      orderId: 'ORD-001',
+      customerId: 'CUST-001',
+      taxRate: 0.1,
+      transactionTimeMs: 1705315800000,
+      lineItems: [
+        { skuId: 'SKU-1', quantity: 2, unitPrice: 10.005 },
+        { skuId: 'SKU-2', quantity: 1, unitPrice: 5, taxRate: 0 },
+      ],
+    };
+
+    it('should calculate amounts per line and sum them for the order', () => {
+      const result = transformer.fromPartnerA(multiLine, 1);
+
+      expect(result.lineItems).toEqual([
+        { lineNumber: 1, productId: 'SKU-1', quantity: 2, unitPrice: 10.01, taxRate: 0.1, grossAmount: 20.01, taxAmount: 2, netAmount: 22.01,
+          minorUnits: { digits: 2, grossAmount: 2001, taxAmount: 200, netAmount: 2201 } },
+        { lineNumber: 2, productId: 'SKU-2', quantity: 1, unitPrice: 5, taxRate: 0, grossAmount: 5, taxAmount: 0, netAmount: 5,
+          minorUnits: { digits: 2, grossAmount: 500, taxAmount: 0, netAmount: 500 } },
+      ]);
+      expect(result).toMatchObject({
+        productId: 'SKU-1',
+        quantity: 3,
+        unitPrice: 8.34,
+        taxRate: 0.1,
+        grossAmount: 25.01,
+        taxAmount: 2,
+        netAmount: 27.01,
+      });
+    });
+
+    it('should map Partner B items with percentage tax', () => {
+      const result = transformer.fromPartnerB(
+        {
+          transactionId: 'TXN-001',
+          clientId: 'CLIENT-001',
+          tax: 10,
+          purchaseTime: '2024-01-15T10:30:00.000Z',
+          items: [{ itemCode: 'ITEM-1', qty: 1, price: 100, tax: 20 }, { itemCode: 'ITEM-2', qty: 1, price: 100 }],
+        },
+        1
+      );
+
+      expect(result.lineItems!.map((line) => [line.productId, line.taxRate, line.taxAmount])).toEqual([
+        ['ITEM-1', 0.2, 20],
+        ['ITEM-2', 0.1, 10],
+      ]);
+      expect(result.taxAmount).toBe(30);
+    });
+
+    it('should make a single-product order one line', () => {
+      const result = transformer.fromPartnerA(
+        { orderId: 'ORD-001', skuId: 'SKU-1', customerId: 'CUST-001', quantity: 3, unitPrice: 10, taxRate: 0.1, transactionTimeMs: 1705315800000 },
+        1
+      );
+
+      expect(result.lineItems).toEqual([
+        { lineNumber: 1, productId: 'SKU-1', quantity: 3, unitPrice: 10, taxRate: 0.1, grossAmount: 30, taxAmount: 3, netAmount: 33,
+          minorUnits: { digits: 2, grossAmount: 3000, taxAmount: 300, netAmount: 3300 } },
+      ]);
+    });
+
+    it('should throw when the input has neither a product nor lines', () => {
+      expect(() =>
+        transformer.buildOrderEvent(
+          { externalOrderId: 'X', partnerId: PartnerId.PARTNER_A, customerId: 'C', taxRate: 0, transactionTime: '2024-01-15T10:30:00.000Z' },
+          1
+        )
+      ).toThrow('Order input must have productId, quantity and unitPrice, or line items');
+    });
+  });
+
+  describe('Currencies', () => {
+    const fxRates = new FxRateTable({
+      baseCurrency: 'USD',
+      rates: [
+        { currency: 'EUR', rate: 1.1, effectiveFrom: '2024-01-01' },
+        { currency: 'EUR', rate: 1.2, effectiveFrom: '2024-02-01' },
+      ],
+    });
+
+    const input: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 3,
+      unitPrice: 10.01,
+      taxRate: 0.1,
+      transactionTimeMs: 1705315800000, // 2024-01-15T10:50:00.000Z
+      currency: 'EUR',
+    };
+
+    beforeEach(() => {
+      transformer = new OrderTransformer(createDefaultPartnerRegistry(), fxRates);
+    });
+
+    it('should keep amounts in the order currency and convert them at the rate in effect', () => {
+      const result = transformer.fromPartnerA(input, 1);
+
+      expect(result).toMatchObject({ currency: 'EUR', grossAmount: 30.03, taxAmount: 3, netAmount: 33.03 });
+      expect(result.baseAmounts).toEqual({
+        currency: 'USD',
+        fxRate: 1.1,
+        fxRateEffectiveFrom: '2024-01-01',
+        grossAmount: 33.03,
+        taxAmount: 3.3,
+        netAmount: 36.33,
+        minorUnits: { digits: 2, grossAmount: 3303, taxAmount: 330, netAmount: 3633 },
+      });
+    });
+
+    it('should use the rate effective at the transaction time', () => {
+      const result = transformer.fromPartnerA({ ...input, transactionTimeMs: Date.parse('2024-03-01T00:00:00.000Z') }, 1);
+
+      expect(result.baseAmounts).toMatchObject({ fxRate: 1.2, fxRateEffectiveFrom: '2024-02-01', grossAmount: 36.04 });
+    });
+
+    it('should default to the base currency', () => {
+      const { currency, ...withoutCurrency } = input;
+
+      expect(currency).toBe('EUR');
+      expect(transformer.fromPartnerA(withoutCurrency, 1)).toMatchObject({
+        currency: 'USD',
+        baseAmounts: { currency: 'USD', fxRate: 1, grossAmount: 30.03, taxAmount: 3, netAmount: 33.03 },
+      });
+    });
+
+    it('should throw when no rate is in effect', () => {
+      expect(() => transformer.fromPartnerA({ ...input, currency: 'GBP' }, 1))
+        .toThrow('No exchange rate from GBP to USD on 2024-01-15T10:50:00.000Z');
+      expect(() => transformer.fromPartnerA({ ...input, transactionTimeMs: Date.parse('2023-12-31T00:00:00.000Z') }, 1))
+        .toThrow('No exchange rate from EUR to USD');
+    });
+  });
+
+  describe('Exact Money Arithmetic', () => {
+    const input: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 1,
+      unitPrice: 2.345,
+      taxRate: 0.0625,
+      transactionTimeMs: 1705315800000,
+    };
+
+    it('should round exact decimal amounts half-up by default', () => {
+      // 1.005 is 1.00499999... as a binary float
+      const result = transformer.fromPartnerA({ ...input, unitPrice: 1.005, taxRate: 0 }, 1);
+
+      expect(result.grossAmount).toBe(1.01);
+      expect(transformer.fromPartnerA(input, 1).minorUnits).toEqual({ digits: 2, grossAmount: 235, taxAmount: 15, netAmount: 250 });
+    });
+
+    it("should round ties to even with banker's rounding", () => {
+      transformer = new OrderTransformer(createDefaultPartnerRegistry(), new FxRateTable(), RoundingMode.HALF_EVEN);
+
+      expect(transformer.fromPartnerA(input, 1).minorUnits).toEqual({ digits: 2, grossAmount: 234, taxAmount: 15, netAmount: 249 });
+      expect(transformer.fromPartnerA({ ...input, unitPrice: 10 }, 1).taxAmount).toBe(0.62);
+    });
+
+    it('should make the net amount exactly gross plus tax', () => {
+      for (const unitPrice of [0.1, 0.2, 0.3, 19.99, 33.333, 1234.565]) {
+        for (const taxRate of [0.07, 0.0825, 0.19]) {
+          const result = transformer.fromPartnerA({ ...input, quantity: 7, unitPrice, taxRate }, 1);
+          const minor = result.minorUnits!;
+
+          expect(minor.grossAmount + minor.taxAmount).toBe(minor.netAmount);
+          expect(result.netAmount).toBe(minor.netAmount / 100);
+          expect(result.baseAmounts!.minorUnits!.grossAmount + result.baseAmounts!.minorUnits!.taxAmount)
+            .toBe(result.baseAmounts!.minorUnits!.netAmount);
+        }
+      }
+    });
+
+    it('should refuse amounts beyond Number.MAX_SAFE_INTEGER minor units', () => {
+      const largest = { ...input, quantity: Number.MAX_SAFE_INTEGER, unitPrice: 0.01, taxRate: 0 };
+      const verify = (order: PartnerAInput) => formatValidationErrors(transformer.verifyAmounts(transformer.transformPartnerA(order)));
+
+      expect(verify(largest)).toEqual([]);
+      expect(transformer.fromPartnerA(largest, 1).minorUnits!.netAmount).toBe(Number.MAX_SAFE_INTEGER);
+      expect(verify({ ...largest, quantity: (Number.MAX_SAFE_INTEGER + 1) / 2, unitPrice: 0.02 })).toEqual([
+        'unitPrice: Amount exceeds the largest supported amount (90071992547409.91 USD)',
+      ]);
+      expect(verify({ ...largest, taxRate: 0.01 })).toEqual([
+        'netAmount: Amount exceeds the largest supported amount (90071992547409.91 USD)',
+      ]);
+    });
+
+    it('should refuse amounts beyond the limit once converted to the base currency', () => {
+      transformer = new OrderTransformer(
+        createDefaultPartnerRegistry(),
+        new FxRateTable({ baseCurrency: 'JPY', rates: [{ currency: 'USD', rate: 150, effectiveFrom: '2024-01-01' }] })
+      );
+
+      const problems = transformer.verifyAmounts(
+        transformer.transformPartnerA({ ...input, quantity: 1, unitPrice: 90071992547409.9, taxRate: 0, currency: 'USD' })
+      );
+
+      expect(formatValidationErrors(problems)).toEqual([
+        'baseAmounts.netAmount: Amount exceeds the largest supported amount (9007199254740991 JPY)',
+      ]);
+    });
+
+    it('should use the minor unit of the order currency', () => {
+      transformer = new OrderTransformer(
+        createDefaultPartnerRegistry(),
+        new FxRateTable({ baseCurrency: 'USD', rates: [{ currency: 'JPY', rate: 0.0068, effectiveFrom: '2024-01-01' }] })
+      );
+
+      const result = transformer.fromPartnerA({ ...input, unitPrice: 1234, taxRate: 0.1, currency: 'JPY' }, 1);
+
+      expect(result).toMatchObject({ grossAmount: 1234, taxAmount: 123, netAmount: 1357 });
+      expect(result.minorUnits).toEqual({ digits: 0, grossAmount: 1234, taxAmount: 123, netAmount: 1357 });
+      expect(result.baseAmounts).toMatchObject({
+        grossAmount: 8.39,
+        taxAmount: 0.84,
+        netAmount: 9.23,
+        minorUnits: { digits: 2, grossAmount: 839, taxAmount: 84, netAmount: 923 },
+      });
+    });
+  });
+
+  describe('Tax Rules', () => {
+    const taxRules = new TaxRuleEngine({
+      rules: [
+        {
+          id: 'ca-qc',
+          customerRegion: 'CA-QC',
+          mode: TaxRuleMode.OVERRIDE,
+          components: [{ name: 'GST', rate: 0.05 }, { name: 'QST', rate: 0.09975 }],
+        },
+        { id: 'de', customerRegion: 'DE', mode: TaxRuleMode.VERIFY, components: [{ name: 'VAT', rate: 0.19 }] },
+        { id: 'de-food', customerRegion: 'DE', productCategory: 'food', mode: TaxRuleMode.VERIFY, components: [{ name: 'VAT', rate: 0.07 }] },
+        {
+          id: 'compound',
+          customerRegion: 'CA-PE',
+          mode: TaxRuleMode.OVERRIDE,
+          components: [{ name: 'GST', rate: 0.05 }, { name: 'PST', rate: 0.095, compound: true }],
+        },
+      ],
+    });
+
+    const input: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 2,
+      unitPrice: 10,
+      taxRate: 0.13,
+      transactionTimeMs: 1705315800000,
+      customerRegion: 'CA-QC',
+    };
+
+    beforeEach(() => {
+      transformer = new OrderTransformer(createDefaultPartnerRegistry(), new FxRateTable(), RoundingMode.HALF_UP, taxRules);
+    });
+
+    it('should override the partner rate with the rule components and record the rule', () => {
+      const result = transformer.fromPartnerA(input, 1);
+
+      expect(result).toMatchObject({ customerRegion: 'CA-QC', taxRate: 0.13, grossAmount: 20, taxAmount: 3, netAmount: 23 });
+      expect(result.lineItems![0]).toMatchObject({
+        taxRate: 0.14975,
+        taxAmount: 3,
+        taxRule: { id: 'ca-qc', mode: TaxRuleMode.OVERRIDE, partnerTaxRate: 0.13 },
+        taxComponents: [
+          { name: 'GST', rate: 0.05, taxAmount: 1, taxMinorUnits: 100 },
+          { name: 'QST', rate: 0.09975, taxAmount: 2, taxMinorUnits: 200 },
+        ],
+      });
+    });
+
+    it('should apply compound components to the preceding tax', () => {
+      const result = transformer.fromPartnerA({ ...input, quantity: 1, customerRegion: 'CA-PE' }, 1);
+
+      expect(result.lineItems![0].taxComponents!.map((component) => component.taxMinorUnits)).toEqual([50, 100]);
+      expect(result.lineItems![0].taxComponents![1].compound).toBe(true);
+      expect(result.taxAmount).toBe(1.5);
+    });
+
+    it('should back-calculate the gross amount of tax-inclusive prices', () => {
+      const result = transformer.fromPartnerA({ ...input, quantity: 1, pricesIncludeTax: true }, 1);
+
+      // 10.00 / 1.14975 = 8.6975...; GST 0.435 and QST 0.8678 round to 0.44 and 0.87, one cent too much
+      expect(result).toMatchObject({ pricesIncludeTax: true, unitPrice: 10, grossAmount: 8.7, taxAmount: 1.3, netAmount: 10 });
+      expect(result.lineItems![0].taxComponents!.map((component) => component.taxMinorUnits)).toEqual([44, 86]);
+    });
+
+    it('should back-calculate tax-inclusive prices at the partner rate without a rule', () => {
+      const result = transformer.fromPartnerB(
+        {
+          transactionId: 'TXN-001',
+          clientId: 'CLIENT-001',
+          itemCode: 'ITEM-1',
+          qty: 1,
+          price: 119,
+          tax: 19,
+          purchaseTime: '2024-01-15T10:30:00.000Z',
+          taxIncluded: true,
+        },
+        1
+      );
+
+      expect(result).toMatchObject({ grossAmount: 100, taxAmount: 19, netAmount: 119 });
+      expect(result.lineItems![0].taxRule).toBeUndefined();
+    });
+
+    it('should accept partner rates matching a verify rule', () => {
+      const result = transformer.fromPartnerB(
+        {
+          transactionId: 'TXN-001',
+          clientId: 'CLIENT-001',
+          tax: 19,
+          purchaseTime: '2024-01-15T10:30:00.000Z',
+          clientRegion: 'DE',
+          items: [{ itemCode: 'ITEM-1', qty: 1, price: 100 }, { itemCode: 'ITEM-2', qty: 1, price: 10, tax: 7, itemCategory: 'food' }],
+        },
+        1
+      );
+
+      expect(result.lineItems!.map((line) => [line.productCategory, line.taxRule?.id, line.taxAmount])).toEqual([
+        [undefined, 'de', 19],
+        ['food', 'de-food', 0.7],
+      ]);
+    });
+
+    it('should refuse partner rates that differ from a verify rule', () => {
+      const order = { ...input, customerRegion: 'DE' };
+
+      expect(transformer.verifyTaxRates(transformer.transformPartnerA(order))).toEqual([
+        {
+          field: 'taxRate',
+          errorCode: ErrorCode.TAX_RATE_MISMATCH,
+          message: "Tax rate 0.13 does not match tax rule 'de' (0.19)",
+          receivedValue: 0.13,
+          expectedType: 'tax rate 0.19',
+        },
+      ]);
+      expect(() => transformer.fromPartnerA(order, 1)).toThrow("does not match tax rule 'de'");
+      expect(
+        transformer.verifyTaxRates(
+          transformer.transformPartnerA({
+            ...order,
+            skuId: undefined,
+            quantity: undefined,
+            unitPrice: undefined,
+            taxRate: 0.19,
+            lineItems: [{ skuId: 'SKU-1', quantity: 1, unitPrice: 5 }, { skuId: 'SKU-2', quantity: 1, unitPrice: 5, productCategory: 'food' }],
+          })
+        )
+      ).toMatchObject([{ field: 'lineItems[1].taxRate', message: "Tax rate 0.19 does not match tax rule 'de-food' (0.07)" }]);
+    });
+
+    it('should leave orders without a matching rule unchanged', () => {
+      const result = transformer.fromPartnerA({ ...input, customerRegion: 'FR' }, 1);
+
+      expect(result).toMatchObject({ taxAmount: 2.6, netAmount: 22.6 });
+      expect(result.lineItems![0]).not.toHaveProperty('taxRule');
+      expect(result.lineItems![0]).not.toHaveProperty('taxComponents');
+    });
+  });
+
+  describe('Discounts and Promotions', () => {
+    const promotions = new PromotionCatalog({
+      promotions: [
+        { code: 'SPRING10', type: PromotionType.PERCENTAGE, value: 0.1, effectiveTo: '2024-06-01' },
+        { code: 'WELCOME5', type: PromotionType.FIXED_AMOUNT, value: 5, currency: 'USD' },
+        { code: 'SOCKS3FOR2', type: PromotionType.BUY_X_GET_Y, buyQuantity: 2, freeQuantity: 1, productCategory: 'socks' },
+      ],
+    });
+
+    const input: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 2,
+      unitPrice: 10,
+      taxRate: 0.1,
+      transactionTimeMs: 1705315800000, // 2024-01-15
+    };
+
+    const multiLine = (lineItems: PartnerAInput['lineItems'], overrides: Partial<PartnerAInput> = {}): PartnerAInput => ({
+      ...input,
+      skuId: undefined,
+      quantity: undefined,
+      unitPrice: undefined,
+      lineItems,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      transformer = new OrderTransformer(
+        createDefaultPartnerRegistry(),
+        new FxRateTable(),
+        RoundingMode.HALF_UP,
+        new TaxRuleEngine(),
+        promotions
+      );
+    });
+
+    it('should take partner discounts off before tax', () => {
+      const result = transformer.fromPartnerA({ ...input, discountAmount: 5 }, 1);
+
+      expect(result).toMatchObject({ grossAmount: 20, discountAmount: 5, taxAmount: 1.5, netAmount: 16.5 });
+      expect(result.minorUnits).toEqual({ digits: 2, grossAmount: 2000, discountAmount: 500, taxAmount: 150, netAmount: 1650 });
+      expect(result.lineItems![0].discountAmount).toBe(5);
+    });
+
+    it('should spread an order discount over the lines in proportion to what is left of them', () => {
+      const result = transformer.fromPartnerA(
+        multiLine(
+          [{ skuId: 'SKU-1', quantity: 1, unitPrice: 30, discountAmount: 10 }, { skuId: 'SKU-2', quantity: 1, unitPrice: 10 }],
+          { discountAmount: 3 }
+        ),
+        1
+      );
+
+      expect(result.lineItems!.map((line) => [line.discountAmount, line.taxAmount, line.netAmount])).toEqual([
+        [12, 1.8, 19.8],
+        [1, 0.9, 9.9],
+      ]);
+      expect(result).toMatchObject({ grossAmount: 40, discountAmount: 13, taxAmount: 2.7, netAmount: 29.7 });
+    });
+
+    it('should apply promotions in promo code order to what is left of the matching lines', () => {
+      const result = transformer.fromPartnerA(
+        multiLine(
+          [
+            { skuId: 'SOCKS', quantity: 3, unitPrice: 4, productCategory: 'socks' },
+            { skuId: 'SHIRT', quantity: 1, unitPrice: 20 },
+          ],
+          { promoCodes: ['SOCKS3FOR2', 'SPRING10'] }
+        ),
+        1
+      );
+
+      expect(result.appliedPromotions).toEqual([
+        { code: 'SOCKS3FOR2', type: PromotionType.BUY_X_GET_Y, discountAmount: 4, discountMinorUnits: 400 },
+        { code: 'SPRING10', type: PromotionType.PERCENTAGE, discountAmount: 2.8, discountMinorUnits: 280 },
+      ]);
+      expect(result.lineItems!.map((line) => line.discountAmount)).toEqual([4.8, 2]);
+      expect(result).toMatchObject({ grossAmount: 32, discountAmount: 6.8, taxAmount: 2.52, netAmount: 27.72 });
+    });
+
+    it('should cap a fixed amount promotion at the order amount', () => {
+      const result = transformer.fromPartnerA({ ...input, quantity: 1, unitPrice: 3, promoCodes: ['WELCOME5'] }, 1);
+
+      expect(result).toMatchObject({ grossAmount: 3, discountAmount: 3, taxAmount: 0, netAmount: 0 });
+      expect(result.appliedPromotions![0].discountAmount).toBe(3);
+    });
+
+    it('should take discounts off tax-inclusive prices including their tax', () => {
+      const result = transformer.fromPartnerA(
+        { ...input, quantity: 1, unitPrice: 119, taxRate: 0.19, pricesIncludeTax: true, discountAmount: 11.9 },
+        1
+      );
+
+      expect(result).toMatchObject({ grossAmount: 100, discountAmount: 10, taxAmount: 17.1, netAmount: 107.1 });
+    });
+
+    it('should map Partner B discounts', () => {
+      const result = transformer.fromPartnerB(
+        {
+          transactionId: 'TXN-001',
+          clientId: 'CLIENT-001',
+          tax: 10,
+          purchaseTime: '2024-01-15T10:30:00.000Z',
+          items: [{ itemCode: 'ITEM-1', qty: 1, price: 10, discount: 1 }],
+          discount: 2,
+          promoCodes: ['SPRING10'],
+        },
+        1
+      );
+
+      expect(result).toMatchObject({ grossAmount: 10, discountAmount: 3.7, taxAmount: 0.63, netAmount: 6.93 });
+    });
+
+    it('should not record discounts on orders without any', () => {
+      const result = transformer.fromPartnerA(input, 1);
+
+      expect(result).not.toHaveProperty('discountAmount');
+      expect(result).not.toHaveProperty('appliedPromotions');
+      expect(result.minorUnits).not.toHaveProperty('discountAmount');
+    });
+
+    it('should refuse unknown, repeated, expired and foreign-currency promo codes', () => {
+      const problems = transformer.verifyDiscounts(
+        transformer.transformPartnerA({ ...input, currency: 'EUR', promoCodes: ['NOPE', 'WELCOME5', 'WELCOME5'] })
+      );
+      expect(problems.every((problem) => problem.errorCode === ErrorCode.INVALID_DISCOUNT)).toBe(true);
+      expect(formatValidationErrors(problems)).toEqual([
+        "promoCodes[0]: Unknown promo code 'NOPE'",
+        "promoCodes[1]: Promo code 'WELCOME5' only applies to USD orders",
+        "promoCodes[2]: Promo code 'WELCOME5' is redeemed more than once",
+      ]);
+      expect(
+        formatValidationErrors(
+          transformer.verifyDiscounts(transformer.transformPartnerA({ ...input, transactionTimeMs: Date.parse('2024-07-01T00:00:00Z'), promoCodes: ['SPRING10'] }))
+        )
+      ).toEqual(["promoCodes[0]: Promo code 'SPRING10' is not valid on 2024-07-01"]);
+      expect(() => transformer.fromPartnerA({ ...input, promoCodes: ['NOPE'] }, 1)).toThrow("Unknown promo code 'NOPE'");
+    });
+
+    it('should refuse discounts larger than the amounts they apply to', () => {
+      expect(
+        formatValidationErrors(
+          transformer.verifyDiscounts(
+            transformer.transformPartnerA(
+              multiLine([{ skuId: 'SKU-1', quantity: 1, unitPrice: 5, discountAmount: 6 }, { skuId: 'SKU-2', quantity: 1, unitPrice: 5 }], {
+                discountAmount: 5.01,
+              })
+            )
+          )
+        )
+      ).toEqual([
+        'lineItems[0].discountAmount: Discount exceeds the line amount (5)',
+        'discountAmount: Discount exceeds the order amount (5)',
+      ]);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle quantity of 1 correctly', () => {
       const input: PartnerAInput = {
@@ -1,5 +1,5 @@
 import { PartnerAValidator } from '../../../src/domain/services/partner-a-validator';
-import { PartnerAInput } from '../../../src/domain/models';
+import { PartnerAInput, ErrorCode, BusinessRule, BusinessRuleOperator, BusinessRuleSeverity } from '../../../src/domain/models';
 
 describe('PartnerAValidator', () => {
   let validator: PartnerAValidator;
@@ -506,6 +506,416 @@ describe('PartnerAValidator', () => {
 
       expect(result.isValid).toBe(false);
     });
+
+    it('should accept timestamps within the allowed clock skew', () => {
+      const result = validator.validate({
+        orderId: 'ORD-001',
+        skuId: 'SKU-12345',
+        customerId: 'CUST-001',
+        quantity: 5,
+        unitPrice: 29.99,
+        taxRate: 0.1,
+        transactionTimeMs: Date.now() + 60 * 1000
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject timestamps beyond the allowed clock skew with FUTURE_TIMESTAMP', () => {
+      const result = validator.validate({
+        orderId: 'ORD-001',
+        skuId: 'SKU-12345',
+        customerId: 'CUST-001',
+        quantity: 5,
+        unitPrice: 29.99,
+        taxRate: 0.1,
+        transactionTimeMs: Date.now() + 60 * 60 * 1000
+      });
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          field: 'transactionTimeMs',
+          errorCode: ErrorCode.FUTURE_TIMESTAMP,
+          message: "Field 'transactionTimeMs' is in the future (at most 300 seconds of clock skew allowed)"
+        })
+      ]);
+    });
+
+    it('should apply the partner timestamp policy', () => {
+      const strict = new PartnerAValidator({ maxClockSkewSeconds: 0, maxAgeDays: 7 });
+      const input = {
+        orderId: 'ORD-001',
+        skuId: 'SKU-12345',
+        customerId: 'CUST-001',
+        quantity: 5,
+        unitPrice: 29.99,
+        taxRate: 0.1
+      };
+
+      expect(strict.validate({ ...input, transactionTimeMs: Date.now() + 60 * 1000 }).errors[0].errorCode)
+        .toBe(ErrorCode.FUTURE_TIMESTAMP);
+      expect(strict.validate({ ...input, transactionTimeMs: Date.now() - 8 * 24 * 60 * 60 * 1000 }).errors[0])
+        .toEqual(expect.objectContaining({
+          errorCode: ErrorCode.INVALID_TIMESTAMP,
+          message: "Field 'transactionTimeMs' is more than 7 days in the past"
+        }));
+      expect(strict.validate({ ...input, transactionTimeMs: Date.now() - 6 * 24 * 60 * 60 * 1000 }).isValid).toBe(true);
+    });
+  });
+
+  // ============ Line Item Tests ============
+
+  describe('Error Codes', () => {
+    const validInput: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-12345',
+      customerId: 'CUST-001',
+      quantity: 5,
+      unitPrice: 29.99,
+      taxRate: 0.1,
+      transactionTimeMs: Date.now()
+    };
+
+    const codeOf = (input: unknown, field: string) =>
+      validator.validate(input).errors.find((error) => error.field === field)?.errorCode;
+
+    it('should classify each error by what is wrong with the field', () => {
+      const { orderId: _orderId, ...withoutOrderId } = validInput;
+
+      expect(codeOf(withoutOrderId, 'orderId')).toBe(ErrorCode.MISSING_REQUIRED_FIELD);
+      expect(codeOf({ ...validInput, customerId: null }, 'customerId')).toBe(ErrorCode.NULL_VALUE);
+      expect(codeOf({ ...validInput, skuId: 123 }, 'skuId')).toBe(ErrorCode.INVALID_DATA_TYPE);
+      expect(codeOf({ ...validInput, quantity: 0 }, 'quantity')).toBe(ErrorCode.ZERO_VALUE);
+      expect(codeOf({ ...validInput, quantity: -2 }, 'quantity')).toBe(ErrorCode.NEGATIVE_NUMBER);
+      expect(codeOf({ ...validInput, unitPrice: 'abc' }, 'unitPrice')).toBe(ErrorCode.NOT_A_NUMBER);
+      expect(codeOf({ ...validInput, taxRate: 1.5 }, 'taxRate')).toBe(ErrorCode.INVALID_VALUE);
+      expect(codeOf({ ...validInput, transactionTimeMs: 1000 }, 'transactionTimeMs')).toBe(ErrorCode.INVALID_TIMESTAMP);
+    });
+
+    it('should keep the received value and expected type with the code', () => {
+      expect(validator.validate({ ...validInput, quantity: 0 }).errors).toEqual([
+        {
+          field: 'quantity',
+          errorCode: ErrorCode.ZERO_VALUE,
+          message: 'Quantity must be a positive integer',
+          receivedValue: 0,
+          expectedType: 'positive integer',
+          schemaPath: '#/properties/quantity'
+        }
+      ]);
+    });
+  });
+
+  describe('Warnings', () => {
+    const validInput: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-12345',
+      customerId: 'CUST-001',
+      quantity: 5,
+      unitPrice: 29.99,
+      taxRate: 0.1,
+      transactionTimeMs: Date.now(),
+      metadata: { channel: 'web' }
+    };
+
+    const warningCodes = (input: unknown) =>
+      validator.validate(input).warnings?.map((warning) => warning.errorCode);
+
+    it('should accept a normal order without warnings', () => {
+      expect(validator.validate(validInput).warnings).toEqual([]);
+    });
+
+    it('should accept suspicious orders with warnings', () => {
+      const result = validator.validate({
+        ...validInput,
+        quantity: 5000,
+        taxRate: 0,
+        transactionTimeMs: Date.now() - 120 * 24 * 60 * 60 * 1000,
+        metadata: { channel: 'web', coupon: 'X1' }
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings?.map((warning) => warning.errorCode)).toEqual([
+        ErrorCode.HIGH_QUANTITY,
+        ErrorCode.ZERO_TAX_RATE,
+        ErrorCode.STALE_TRANSACTION_TIME,
+        ErrorCode.UNKNOWN_METADATA_KEY
+      ]);
+      expect(result.warnings?.[3]).toEqual({
+        field: 'metadata.coupon',
+        errorCode: ErrorCode.UNKNOWN_METADATA_KEY,
+        message: "Unknown metadata key 'coupon'",
+        receivedValue: 'X1',
+        expectedType: 'channel | source | campaign | notes | storeId',
+        schemaPath: '#/properties/metadata'
+      });
+    });
+
+    it('should warn about order lines and only about an order tax rate a line falls back to', () => {
+      const { skuId: _skuId, quantity: _quantity, unitPrice: _unitPrice, ...order } = validInput;
+
+      expect(warningCodes({
+        ...order,
+        taxRate: 0,
+        lineItems: [
+          { skuId: 'SKU-1', quantity: 2000, unitPrice: 1, taxRate: 0.2 },
+          { skuId: 'SKU-2', quantity: 1, unitPrice: 5, taxRate: 0 }
+        ]
+      })).toEqual([ErrorCode.HIGH_QUANTITY, ErrorCode.ZERO_TAX_RATE]);
+      expect(validator.validate({
+        ...order,
+        lineItems: [{ skuId: 'SKU-1', quantity: 2000, unitPrice: 1 }]
+      }).warnings?.[0].field).toBe('lineItems[0].quantity');
+    });
+
+    it('should not warn about invalid orders', () => {
+      const result = validator.validate({ ...validInput, quantity: 5000, unitPrice: -1 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.warnings ?? []).toEqual([]);
+    });
+  });
+
+  describe('Business Rules', () => {
+    const validInput: PartnerAInput = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-12345',
+      customerId: 'CUST-001',
+      quantity: 5,
+      unitPrice: 29.99,
+      taxRate: 0.1,
+      transactionTimeMs: Date.now()
+    };
+
+    let rules: BusinessRule[];
+
+    beforeEach(() => {
+      rules = [];
+      validator = new PartnerAValidator(undefined, () => rules);
+    });
+
+    it('should reject orders breaking an ERROR rule with its error code', () => {
+      rules = [
+        { id: 'max-quantity', field: 'quantity', operator: BusinessRuleOperator.MAX, value: 3 },
+        { id: 'customer-format', field: 'customerId', operator: BusinessRuleOperator.MATCHES, value: '^C-\\d+$', errorCode: ErrorCode.INVALID_VALUE, message: 'Customer IDs look like C-123' }
+      ];
+
+      const result = validator.validate(validInput);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          field: 'quantity',
+          errorCode: ErrorCode.BUSINESS_RULE_VIOLATION,
+          message: "Field 'quantity' must be at most 3 (rule max-quantity)",
+          receivedValue: 5,
+          expectedType: 'at most 3',
+          schemaPath: '#/properties/quantity'
+        },
+        {
+          field: 'customerId',
+          errorCode: ErrorCode.INVALID_VALUE,
+          message: 'Customer IDs look like C-123',
+          receivedValue: 'CUST-001',
+          expectedType: 'matching /^C-\\d+$/',
+          schemaPath: '#/properties/customerId'
+        }
+      ]);
+    });
+
+    it('should accept orders breaking a WARNING rule with a warning', () => {
+      rules = [{ id: 'min-order', field: '$orderValue', operator: BusinessRuleOperator.MIN, value: 200, severity: BusinessRuleSeverity.WARNING }];
+
+      const result = validator.validate(validInput);
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ field: '$orderValue', errorCode: ErrorCode.BUSINESS_RULE_VIOLATION, receivedValue: 149.95 })
+      ]);
+    });
+
+    it('should check every line of a multi-line order', () => {
+      const { skuId: _skuId, quantity: _quantity, unitPrice: _unitPrice, ...order } = validInput;
+      rules = [{ id: 'sku-format', field: 'lineItems[].skuId', operator: BusinessRuleOperator.MATCHES, value: '^SKU-' }];
+
+      const result = validator.validate({
+        ...order,
+        lineItems: [{ skuId: 'SKU-1', quantity: 1, unitPrice: 5 }, { skuId: 'ITEM-2', quantity: 1, unitPrice: 5 }]
+      });
+
+      expect(result.errors.map((error) => error.field)).toEqual(['lineItems[1].skuId']);
+    });
+
+    it('should not check rules on structurally invalid input', () => {
+      rules = [{ id: 'max-quantity', field: 'quantity', operator: BusinessRuleOperator.MAX, value: 3 }];
+
+      const result = validator.validate({ ...validInput, unitPrice: -1 });
+
+      expect(result.errors.map((error) => error.field)).toEqual(['unitPrice']);
+    });
+
+    it('should apply the rules in force at each validation', () => {
+      expect(validator.validate(validInput).isValid).toBe(true);
+
+      rules = [{ id: 'blocked', field: 'customerId', operator: BusinessRuleOperator.NOT_IN, value: ['CUST-001'] }];
+
+      expect(validator.validate(validInput).isValid).toBe(false);
+    });
+  });
+
+  describe('Line Items', () => {
+    const multiLine = {
+      orderId: 'ORD-001',
+      customerId: 'CUST-001',
+      taxRate: 0.1,
+      transactionTimeMs: Date.now(),
+      lineItems: [
+        { skuId: 'SKU-1', quantity: 2, unitPrice: 10 },
+        { skuId: 'SKU-2', quantity: 1, unitPrice: 5.5, taxRate: 0 },
+      ],
+    };
+
+    it('should validate an order with line items instead of a single product', () => {
+      const result = validator.validate(multiLine);
+
+      expect(result.isValid).toBe(true);
+      expect(result.data).toEqual(multiLine);
+    });
+
+    it('should name the line and field of invalid lines', () => {
+      const result = validator.validate({
+        ...multiLine,
+        lineItems: [{ skuId: 'SKU-1', quantity: 1.5, unitPrice: 10 }, { quantity: 1, unitPrice: 10, taxRate: 2 }, 'SKU-3'],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map((e) => e.field)).toEqual([
+        'lineItems[0].quantity',
+        'lineItems[1].skuId',
+        'lineItems[1].taxRate',
+        'lineItems[2]',
+      ]);
+    });
+
+    it('should fail validation when line items are empty or not an array', () => {
+      expect(validator.validate({ ...multiLine, lineItems: [] }).errors[0].message).toBe(
+        "Field 'lineItems' must have between 1 and 100 lines"
+      );
+      expect(validator.validate({ ...multiLine, lineItems: { skuId: 'SKU-1' } }).isValid).toBe(false);
+    });
+
+    it('should fail validation when both line items and a single product are sent', () => {
+      const result = validator.validate({ ...multiLine, skuId: 'SKU-1' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].field).toBe('lineItems');
+    });
+  });
+
+  describe('Currency', () => {
+    const input = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 1,
+      unitPrice: 10,
+      taxRate: 0.1,
+      transactionTimeMs: Date.now(),
+    };
+
+    it('should accept an ISO 4217 currency code', () => {
+      const result = validator.validate({ ...input, currency: 'EUR' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.data?.currency).toBe('EUR');
+    });
+
+    it('should fail validation for malformed currency codes', () => {
+      for (const currency of ['eur', 'EURO', 978]) {
+        const result = validator.validate({ ...input, currency });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toMatchObject({ field: 'currency', message: "Field 'currency' must be an ISO 4217 currency code" });
+      }
+    });
+  });
+
+  describe('Tax Rule Fields', () => {
+    const input = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-001',
+      quantity: 1,
+      unitPrice: 10,
+      taxRate: 0.1,
+      transactionTimeMs: Date.now(),
+    };
+
+    it('should accept a product category, customer region and tax-inclusive flag', () => {
+      const result = validator.validate({ ...input, productCategory: 'food', customerRegion: 'US-CA', pricesIncludeTax: true });
+
+      expect(result.isValid).toBe(true);
+      expect(result.data).toMatchObject({ productCategory: 'food', customerRegion: 'US-CA', pricesIncludeTax: true });
+    });
+
+    it('should fail validation for malformed tax rule fields', () => {
+      const result = validator.validate({ ...input, productCategory: '', customerRegion: 'California', pricesIncludeTax: 'yes' });
+
+      expect(result.errors.map((error) => error.field)).toEqual(['productCategory', 'customerRegion', 'pricesIncludeTax']);
+      expect(result.errors[1].message).toBe("Field 'customerRegion' must be an ISO 3166 country or subdivision code");
+    });
+
+    it('should validate line categories', () => {
+      const { skuId, quantity, unitPrice, ...order } = input;
+      const result = validator.validate({ ...order, lineItems: [{ skuId, quantity, unitPrice, productCategory: 7 }] });
+
+      expect(result.errors[0].field).toBe('lineItems[0].productCategory');
+    });
+  });
+
+  describe('Discount Fields', () => {
+    const input = {
+      orderId: 'ORD-001',
+      customerId: 'CUST-001',
+      taxRate: 0.1,
+      transactionTimeMs: Date.now(),
+      lineItems: [{ skuId: 'SKU-1', quantity: 1, unitPrice: 10, discountAmount: 1 }],
+    };
+
+    it('should accept order and line discounts and promo codes', () => {
+      const result = validator.validate({ ...input, discountAmount: 2, promoCodes: ['SPRING10'] });
+
+      expect(result.isValid).toBe(true);
+      expect(result.data).toMatchObject({ discountAmount: 2, promoCodes: ['SPRING10'] });
+      expect(result.data!.lineItems![0].discountAmount).toBe(1);
+    });
+
+    it('should fail validation for negative discounts and malformed promo codes', () => {
+      const result = validator.validate({
+        ...input,
+        lineItems: [{ skuId: 'SKU-1', quantity: 1, unitPrice: 10, discountAmount: -1 }],
+        discountAmount: 'all',
+        promoCodes: ['SPRING10', '', 'SPRING10'],
+      });
+
+      expect(result.errors.map((error) => error.field)).toEqual([
+        'lineItems[0].discountAmount',
+        'discountAmount',
+        'promoCodes[1]',
+        'promoCodes[2]',
+      ]);
+      expect(result.errors[3].message).toBe("Promo code 'SPRING10' is sent more than once");
+    });
+
+    it('should limit the number of promo codes', () => {
+      const result = validator.validate({ ...input, promoCodes: Array.from({ length: 11 }, (_, index) => `CODE${index}`) });
+
+      expect(result.errors[0]).toMatchObject({
+        field: 'promoCodes',
+        message: "Field 'promoCodes' must be an array of at most 10 promo codes",
+      });
+    });
   });
 
   // ============ Edge Cases ============
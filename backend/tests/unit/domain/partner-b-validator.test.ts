@@ -1,5 +1,5 @@
 import { PartnerBValidator } from '../../../src/domain/services/partner-b-validator';
-import { PartnerBInput } from '../../../src/domain/models';
+import { PartnerBInput, ErrorCode } from '../../../src/domain/models';
 
 describe('PartnerBValidator', () => {
   let validator: PartnerBValidator;
@@ -466,10 +466,132 @@ describe('PartnerBValidator', () => {
 
       expect(result.isValid).toBe(false);
     });
+
+    it('should reject timestamps that are not strict ISO 8601', () => {
+      const input = {
+        transactionId: 'TXN-001',
+        itemCode: 'ITEM-12345',
+        clientId: 'CLIENT-001',
+        qty: 5,
+        price: 29.99,
+        tax: 10
+      };
+
+      for (const purchaseTime of ['March 5, 2024', '2024-01-15', '2024-01-15T10:30:00', '2023-02-29T10:30:00Z']) {
+        expect(validator.validate({ ...input, purchaseTime }).errors).toEqual([
+          expect.objectContaining({ field: 'purchaseTime', errorCode: ErrorCode.INVALID_TIMESTAMP })
+        ]);
+      }
+      expect(validator.validate({ ...input, purchaseTime: '2024-01-15T12:30:00+02:00' }).isValid).toBe(true);
+    });
+
+    it('should reject future purchase times with FUTURE_TIMESTAMP', () => {
+      const result = validator.validate({
+        transactionId: 'TXN-001',
+        itemCode: 'ITEM-12345',
+        clientId: 'CLIENT-001',
+        qty: 5,
+        price: 29.99,
+        tax: 10,
+        purchaseTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+      });
+
+      expect(result.errors[0].errorCode).toBe(ErrorCode.FUTURE_TIMESTAMP);
+    });
   });
 
   // ============ Edge Cases ============
 
+  describe('Line Items', () => {
+    const multiLine = {
+      transactionId: 'TXN-001',
+      clientId: 'CLIENT-001',
+      tax: 10,
+      purchaseTime: '2024-01-15T10:30:00.000Z',
+      items: [
+        { itemCode: 'ITEM-1', qty: 2, price: 10 },
+        { itemCode: 'ITEM-2', qty: 1, price: 5.5, tax: 0 },
+      ],
+    };
+
+    it('should validate an order with items instead of a single product', () => {
+      const result = validator.validate(multiLine);
+
+      expect(result.isValid).toBe(true);
+      expect(result.data).toEqual(multiLine);
+    });
+
+    it('should name the line and field of invalid items', () => {
+      const result = validator.validate({
+        ...multiLine,
+        items: [{ itemCode: 'ITEM-1', qty: 0, price: 10 }, { itemCode: 'ITEM-2', qty: 1, price: 10, tax: 101 }],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map((e) => e.field)).toEqual(['items[0].qty', 'items[1].tax']);
+    });
+
+    it('should fail validation when both items and a single product are sent', () => {
+      const result = validator.validate({ ...multiLine, qty: 1 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].field).toBe('items');
+    });
+  });
+
+  describe('Currency', () => {
+    it('should accept an ISO 4217 currency code and reject others', () => {
+      const input = {
+        transactionId: 'TXN-001',
+        itemCode: 'ITEM-1',
+        clientId: 'CLIENT-001',
+        qty: 1,
+        price: 10,
+        tax: 10,
+        purchaseTime: '2024-01-15T10:30:00.000Z',
+      };
+
+      expect(validator.validate({ ...input, currency: 'GBP' }).data?.currency).toBe('GBP');
+      expect(validator.validate({ ...input, currency: 'gbp' }).errors[0].field).toBe('currency');
+    });
+  });
+
+  describe('Tax Rule Fields', () => {
+    it('should accept an item category, client region and tax-included flag and reject malformed ones', () => {
+      const input = {
+        transactionId: 'TXN-001',
+        itemCode: 'ITEM-1',
+        clientId: 'CLIENT-001',
+        qty: 1,
+        price: 10,
+        tax: 10,
+        purchaseTime: '2024-01-15T10:30:00.000Z',
+      };
+
+      expect(validator.validate({ ...input, itemCategory: 'food', clientRegion: 'DE', taxIncluded: false }).data)
+        .toMatchObject({ itemCategory: 'food', clientRegion: 'DE', taxIncluded: false });
+      expect(validator.validate({ ...input, clientRegion: 'de', taxIncluded: 1 }).errors.map((error) => error.field))
+        .toEqual(['clientRegion', 'taxIncluded']);
+    });
+  });
+
+  describe('Discount Fields', () => {
+    it('should accept a discount and promo codes and reject malformed ones', () => {
+      const input = {
+        transactionId: 'TXN-001',
+        clientId: 'CLIENT-001',
+        tax: 10,
+        purchaseTime: '2024-01-15T10:30:00.000Z',
+        items: [{ itemCode: 'ITEM-1', qty: 1, price: 10, discount: 1 }],
+      };
+
+      expect(validator.validate({ ...input, discount: 0.5, promoCodes: ['SPRING10'] }).data)
+        .toMatchObject({ discount: 0.5, promoCodes: ['SPRING10'], items: [{ discount: 1 }] });
+      expect(validator.validate({ ...input, discount: -2, promoCodes: 'SPRING10' }).errors.map((error) => error.field))
+        .toEqual(['discount', 'promoCodes']);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should fail validation for null input', () => {
       const result = validator.validate(null);
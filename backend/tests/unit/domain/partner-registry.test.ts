@@ -0,0 +1,100 @@
+import { PartnerRegistry, createDefaultPartnerRegistry } from '../../../src/domain/services/partner-registry';
+import { IPartnerAdapter } from '../../../src/domain/ports';
+import { PartnerId, CreateOrderEventInput, ValidationResult } from '../../../src/domain/models';
+
+interface PartnerCInput {
+  ref: string;
+}
+
+/**
+ * Minimal adapter used to exercise registration of additional partners.
+ */
+class PartnerCAdapter implements IPartnerAdapter<PartnerCInput> {
+  readonly partnerId = 'PARTNER_C';
+  readonly slug = 'partner-c';
+  readonly displayName = 'Partner C';
+  readonly idField = 'ref';
+  readonly aliases = ['C'];
+  readonly inputSchema = { type: 'object' as const, required: ['ref'] };
+
+  validate(input: unknown): ValidationResult<PartnerCInput> {
+    return { isValid: true, data: input as PartnerCInput, errors: [] };
+  }
+
+  toOrderInput(input: PartnerCInput): CreateOrderEventInput {
+    return {
+      externalOrderId: input.ref,
+      partnerId: this.partnerId,
+      productId: 'SKU-C',
+      customerId: 'CUST-C',
+      quantity: 1,
+      unitPrice: 10,
+      taxRate: 0,
+      transactionTime: '2024-01-15T10:30:00.000Z',
+    };
+  }
+}
+
+describe('PartnerRegistry', () => {
+  let registry: PartnerRegistry;
+
+  beforeEach(() => {
+    registry = createDefaultPartnerRegistry();
+  });
+
+  describe('createDefaultPartnerRegistry', () => {
+    it('should register the built-in partners', () => {
+      expect(registry.getPartnerIds()).toEqual([PartnerId.PARTNER_A, PartnerId.PARTNER_B]);
+    });
+  });
+
+  describe('register', () => {
+    it('should register an additional partner', () => {
+      registry.register(new PartnerCAdapter());
+
+      expect(registry.has('PARTNER_C')).toBe(true);
+      expect(registry.get('PARTNER_C')?.displayName).toBe('Partner C');
+      expect(registry.list().length).toBe(3);
+    });
+
+    it('should reject a duplicate partner ID', () => {
+      registry.register(new PartnerCAdapter());
+
+      expect(() => registry.register(new PartnerCAdapter())).toThrow('already registered');
+    });
+
+    it('should reject a slug already used by another partner', () => {
+      const adapter = new PartnerCAdapter();
+      Object.assign(adapter, { slug: 'partner-a' });
+
+      expect(() => registry.register(adapter)).toThrow('partner-a');
+    });
+  });
+
+  describe('getBySlug', () => {
+    it('should find partners by slug case-insensitively', () => {
+      expect(registry.getBySlug('partner-a')?.partnerId).toBe(PartnerId.PARTNER_A);
+      expect(registry.getBySlug('PARTNER-B')?.partnerId).toBe(PartnerId.PARTNER_B);
+    });
+
+    it('should return undefined for unknown slugs', () => {
+      expect(registry.getBySlug('partner-z')).toBeUndefined();
+    });
+  });
+
+  describe('resolve', () => {
+    it.each([
+      ['PARTNER_A', PartnerId.PARTNER_A],
+      ['partner_a', PartnerId.PARTNER_A],
+      ['A', PartnerId.PARTNER_A],
+      ['partner-b', PartnerId.PARTNER_B],
+      ['b', PartnerId.PARTNER_B],
+    ])('should resolve %s', (identifier, expected) => {
+      expect(registry.resolve(identifier)?.partnerId).toBe(expected);
+    });
+
+    it('should return undefined for unknown identifiers', () => {
+      expect(registry.resolve('Z')).toBeUndefined();
+    });
+  });
+});
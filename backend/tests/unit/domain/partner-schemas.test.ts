@@ -0,0 +1,115 @@
+import { PARTNER_A_INPUT_SCHEMA, PARTNER_B_INPUT_SCHEMA } from '../../../src/domain/services/partner-schemas';
+import { PartnerAValidator } from '../../../src/domain/services/partner-a-validator';
+import { PartnerBValidator } from '../../../src/domain/services/partner-b-validator';
+import { validateJsonSchema } from '../../../src/domain/services/json-schema';
+import { JsonSchema } from '../../../src/domain/models';
+
+/**
+ * The schemas are the published contract: they must accept what the
+ * validators accept and reject what the field checks reject.
+ */
+describe('Partner schemas', () => {
+  const expectAgreement = (schema: JsonSchema, validate: (input: unknown) => boolean, inputs: unknown[]) => {
+    for (const input of inputs) {
+      const schemaValid = validateJsonSchema(schema, input).length === 0;
+      expect({ input, valid: schemaValid }).toEqual({ input, valid: validate(input) });
+    }
+  };
+
+  describe('Partner A', () => {
+    const validator = new PartnerAValidator();
+    const order = {
+      orderId: 'ORD-001',
+      skuId: 'SKU-1',
+      customerId: 'CUST-1',
+      quantity: 2,
+      unitPrice: 9.99,
+      taxRate: 0.1,
+      transactionTimeMs: Date.now(),
+    };
+    const { skuId: _skuId, quantity: _quantity, unitPrice: _unitPrice, ...header } = order;
+    const line = { skuId: 'SKU-1', quantity: 1, unitPrice: 5 };
+
+    it('should agree with the validator', () => {
+      expectAgreement(PARTNER_A_INPUT_SCHEMA, (input) => validator.validate(input).isValid, [
+        order,
+        { ...order, currency: 'EUR', customerRegion: 'US-CA', pricesIncludeTax: true, discountAmount: 0, promoCodes: ['A'], metadata: {} },
+        { ...order, currency: null, productCategory: null, promoCodes: null, lineItems: null },
+        { ...header, lineItems: [line, { ...line, taxRate: 0, discountAmount: 1, productCategory: 'books' }] },
+        { ...order, orderId: '' },
+        { ...order, orderId: '  ' },
+        { ...order, customerId: 42 },
+        { ...order, quantity: 0 },
+        { ...order, quantity: 1.5 },
+        { ...order, quantity: '2' },
+        { ...order, unitPrice: -1 },
+        { ...order, taxRate: 1.5 },
+        { ...order, transactionTimeMs: '2024-01-15' },
+        { ...order, currency: 'eur' },
+        { ...order, customerRegion: 'USA' },
+        { ...order, pricesIncludeTax: 'yes' },
+        { ...order, discountAmount: -1 },
+        { ...order, promoCodes: ['A', 'A'] },
+        { ...order, promoCodes: Array.from({ length: 11 }, (_, i) => `P${i}`) },
+        { ...order, metadata: [] },
+        { ...order, orderId: null },
+        { ...header },
+        { ...header, lineItems: [] },
+        { ...header, lineItems: [{ ...line, quantity: 0 }] },
+        { ...header, lineItems: [{ skuId: 'SKU-1' }] },
+        { ...header, lineItems: [line], skuId: 'SKU-1' },
+        { ...header, lineItems: [line], quantity: null },
+        { ...order, taxRate: undefined },
+        'not an object',
+      ]);
+    });
+
+    it('should publish the field rules', () => {
+      expect(PARTNER_A_INPUT_SCHEMA.required).toEqual(['orderId', 'customerId', 'taxRate', 'transactionTimeMs']);
+      expect(PARTNER_A_INPUT_SCHEMA.properties?.quantity).toMatchObject({ type: 'integer', exclusiveMinimum: 0 });
+      expect(PARTNER_A_INPUT_SCHEMA.properties?.lineItems).toMatchObject({ type: ['array', 'null'], minItems: 1, maxItems: 100 });
+    });
+  });
+
+  describe('Partner B', () => {
+    const validator = new PartnerBValidator();
+    const order = {
+      transactionId: 'TXN-001',
+      itemCode: 'ITEM-1',
+      clientId: 'CL-1',
+      qty: 2,
+      price: 9.99,
+      tax: 10,
+      purchaseTime: new Date().toISOString(),
+    };
+    const { itemCode: _itemCode, qty: _qty, price: _price, ...header } = order;
+    const item = { itemCode: 'ITEM-1', qty: 1, price: 5 };
+
+    it('should agree with the validator', () => {
+      expectAgreement(PARTNER_B_INPUT_SCHEMA, (input) => validator.validate(input).isValid, [
+        order,
+        { ...order, currency: 'EUR', clientRegion: 'DE', taxIncluded: false, discount: 1, promoCodes: [], notes: '' },
+        { ...order, notes: null, itemCategory: null, items: null },
+        { ...header, items: [item, { ...item, tax: 0, discount: 0, itemCategory: 'food' }] },
+        { ...order, transactionId: '' },
+        { ...order, qty: -1 },
+        { ...order, price: 0 },
+        { ...order, tax: 101 },
+        { ...order, purchaseTime: 'March 5' },
+        { ...order, purchaseTime: '2024-01-15' },
+        { ...order, purchaseTime: 1705314600000 },
+        { ...order, notes: 5 },
+        { ...order, clientRegion: 'de' },
+        { ...header },
+        { ...header, items: [{ ...item, tax: 150 }] },
+        { ...header, items: [item], price: 5 },
+        [],
+      ]);
+    });
+
+    it('should publish the field rules', () => {
+      expect(PARTNER_B_INPUT_SCHEMA.properties?.tax).toMatchObject({ minimum: 0, maximum: 100 });
+      expect(PARTNER_B_INPUT_SCHEMA.properties?.purchaseTime).toMatchObject({ type: 'string', format: 'date-time' });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  PromotionCatalog,
+  isPromotionActive,
+  promotionAppliesTo,
+  validatePromotionCatalog,
+} from '../../../src/domain/services/promotion-catalog';
+import { Promotion, PromotionType } from '../../../src/domain/models';
+
+describe('Promotion catalog', () => {
+  const spring: Promotion = {
+    code: 'SPRING10',
+    type: PromotionType.PERCENTAGE,
+    value: 0.1,
+    effectiveFrom: '2024-03-01',
+    effectiveTo: '2024-06-01',
+  };
+  const socks: Promotion = { code: 'SOCKS3FOR2', type: PromotionType.BUY_X_GET_Y, buyQuantity: 2, freeQuantity: 1, productCategory: 'socks' };
+
+  it('should look up promotions by code', () => {
+    const catalog = new PromotionCatalog({ promotions: [spring, socks] });
+
+    expect(catalog.get('SOCKS3FOR2')).toBe(socks);
+    expect(catalog.get('spring10')).toBeUndefined();
+    expect(catalog.getPromotions().map((promotion) => promotion.code)).toEqual(['SPRING10', 'SOCKS3FOR2']);
+    expect(new PromotionCatalog().getPromotions()).toEqual([]);
+  });
+
+  it('should only be active between its effective dates', () => {
+    expect(isPromotionActive(spring, new Date('2024-02-29T23:59:59.999Z'))).toBe(false);
+    expect(isPromotionActive(spring, new Date('2024-03-01T00:00:00.000Z'))).toBe(true);
+    expect(isPromotionActive(spring, new Date('2024-06-01T00:00:00.000Z'))).toBe(false);
+    expect(isPromotionActive(socks, new Date(0))).toBe(true);
+  });
+
+  it('should apply to the lines of its product or category', () => {
+    expect(promotionAppliesTo(socks, { productId: 'SOCK-1', productCategory: 'socks' })).toBe(true);
+    expect(promotionAppliesTo(socks, { productId: 'SOCK-1' })).toBe(false);
+    expect(promotionAppliesTo({ ...spring, productId: 'SKU-1' }, { productId: 'SKU-2' })).toBe(false);
+    expect(promotionAppliesTo(spring, { productId: 'SKU-2' })).toBe(true);
+  });
+
+  it('should report every problem of an invalid definition', () => {
+    expect(() =>
+      validatePromotionCatalog({
+        promotions: [
+          { code: 'A', type: 'PERCENTAGE', value: 10 },
+          { code: 'A', type: 'FIXED_AMOUNT', value: 5, effectiveFrom: '2024-02-01', effectiveTo: '2024-01-01' },
+          { code: 'B', type: 'BUY_X_GET_Y', buyQuantity: 2, freeQuantity: 0.5 },
+          { code: 'C', type: 'FREE_SHIPPING' },
+        ],
+      })
+    ).toThrow(
+      'Invalid promotion catalog: promotions[0].value must be a decimal between 0 and 1 for a PERCENTAGE promotion; ' +
+      "promotions[1].code 'A' is used by another promotion; promotions[1].effectiveTo must be after effectiveFrom; " +
+      'promotions[1].currency must be an ISO 4217 currency code for a FIXED_AMOUNT promotion; ' +
+      'promotions[2].freeQuantity must be a positive integer for a BUY_X_GET_Y promotion; ' +
+      'promotions[3].type must be PERCENTAGE, FIXED_AMOUNT, BUY_X_GET_Y'
+    );
+    expect(() => validatePromotionCatalog({})).toThrow('promotions must be an array');
+  });
+});
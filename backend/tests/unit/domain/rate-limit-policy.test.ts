@@ -0,0 +1,41 @@
+import {
+  DEFAULT_RATE_LIMIT_POLICY,
+  RateLimitPolicies,
+  validateRateLimitPolicies,
+} from '../../../src/domain/services/rate-limit-policy';
+
+describe('Rate limit policy', () => {
+  it('should fall back to the default policy per setting', () => {
+    const policies = new RateLimitPolicies({
+      default: { single: { capacity: 20 } },
+      partners: { PARTNER_B: { batch: { refillPerSecond: 500 }, dailyQuota: 50000 } },
+    });
+
+    expect(policies.forPartner('PARTNER_A')).toEqual({
+      single: { capacity: 20, refillPerSecond: 10 },
+      batch: { capacity: 5000, refillPerSecond: 100 },
+      dailyQuota: 1000000,
+    });
+    expect(policies.forPartner('PARTNER_B')).toEqual({
+      single: { capacity: 20, refillPerSecond: 10 },
+      batch: { capacity: 5000, refillPerSecond: 500 },
+      dailyQuota: 50000,
+    });
+    expect(new RateLimitPolicies().forPartner('PARTNER_A')).toEqual(DEFAULT_RATE_LIMIT_POLICY);
+  });
+
+  it('should report every problem of an invalid definition', () => {
+    expect(() =>
+      validateRateLimitPolicies({
+        default: { single: { capacity: 0 }, dailyQuota: 1.5 },
+        partners: { PARTNER_A: { batch: { refillPerSecond: -1 } }, PARTNER_B: 'unlimited' },
+      })
+    ).toThrow(
+      'Invalid rate limit policies: default.single.capacity must be a positive integer; ' +
+        'default.dailyQuota must be a positive integer; ' +
+        'partners.PARTNER_A.batch.refillPerSecond must be a positive number; ' +
+        'partners.PARTNER_B must be an object'
+    );
+    expect(() => validateRateLimitPolicies([])).toThrow('definition must be an object');
+  });
+});
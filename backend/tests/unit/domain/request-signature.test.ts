@@ -0,0 +1,71 @@
+import {
+  RequestSigning,
+  signRequest,
+  verifyRequestSignature,
+  validateRequestSigning,
+} from '../../../src/domain/services/request-signature';
+
+describe('Request signature', () => {
+  const SECRET = 'partner-a-secret-0001';
+  const request = {
+    timestamp: '1705314600',
+    nonce: 'b3f1c2d4-0001',
+    method: 'POST',
+    url: '/api/feed/partner-a/batch?atomic=true',
+    body: '[{"orderId":"ORD-1"}]',
+  };
+
+  it('should sign the timestamp, nonce, method, URL and body', () => {
+    const signature = signRequest(SECRET, request);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signRequest(SECRET, { ...request, body: Buffer.from(request.body) })).toBe(signature);
+    expect(verifyRequestSignature([SECRET], request, signature)).toBe(true);
+    for (const changed of [
+      { timestamp: '1705314601' },
+      { nonce: 'b3f1c2d4-0002' },
+      { method: 'PUT' },
+      { url: '/api/feed/partner-a/batch' },
+      { body: '[{"orderId":"ORD-2"}]' },
+    ]) {
+      expect(verifyRequestSignature([SECRET], { ...request, ...changed }, signature)).toBe(false);
+    }
+    expect(verifyRequestSignature([SECRET], request, 'sha256=abc')).toBe(false);
+  });
+
+  it('should accept a signature made with any of the secrets being rotated', () => {
+    const signature = signRequest('partner-a-old-secret', request);
+
+    expect(verifyRequestSignature([SECRET, 'partner-a-old-secret'], request, signature)).toBe(true);
+    expect(verifyRequestSignature([SECRET], request, signature)).toBe(false);
+  });
+
+  it('should require signatures unless a partner opts out', () => {
+    const signing = new RequestSigning({
+      partners: { PARTNER_A: { secrets: [SECRET] }, PARTNER_B: { secrets: [SECRET], required: false } },
+    });
+
+    expect(signing.toleranceSeconds).toBe(300);
+    expect(signing.forPartner('PARTNER_A')).toEqual({ secrets: [SECRET], required: true });
+    expect(signing.forPartner('PARTNER_B')?.required).toBe(false);
+    expect(signing.forPartner('PARTNER_C')).toBeNull();
+    expect(new RequestSigning().getPartnerIds()).toEqual([]);
+  });
+
+  it('should report every problem of an invalid definition without the secrets', () => {
+    expect(() =>
+      validateRequestSigning({
+        toleranceSeconds: 0,
+        maxStreamBytes: 1.5,
+        partners: { PARTNER_A: { secrets: ['short'], required: 'yes' }, PARTNER_B: { secrets: [] } },
+      })
+    ).toThrow(
+      'Invalid request signing: toleranceSeconds must be a positive number; ' +
+        'maxStreamBytes must be a positive integer; ' +
+        'partners.PARTNER_A.secrets[0] must be a string of at least 16 characters; ' +
+        'partners.PARTNER_A.required must be a boolean; ' +
+        'partners.PARTNER_B.secrets must be a non-empty array'
+    );
+    expect(() => validateRequestSigning({})).toThrow('partners must be an object keyed by partner ID');
+  });
+});
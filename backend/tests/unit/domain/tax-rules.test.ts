@@ -0,0 +1,75 @@
+import {
+  TaxRuleEngine,
+  getTaxComponentsRate,
+  isRegionCode,
+  validateTaxRules,
+} from '../../../src/domain/services/tax-rules';
+import { TaxRuleMode, TaxRuleSetDefinition } from '../../../src/domain/models';
+
+describe('Tax rules', () => {
+  const vat = (rate: number) => [{ name: 'VAT', rate }];
+
+  const definition: TaxRuleSetDefinition = {
+    rules: [
+      { id: 'default', mode: TaxRuleMode.VERIFY, components: vat(0.1) },
+      { id: 'de', customerRegion: 'DE', mode: TaxRuleMode.VERIFY, components: vat(0.19) },
+      { id: 'de-2020', customerRegion: 'DE', effectiveFrom: '2020-07-01', effectiveTo: '2021-01-01', mode: TaxRuleMode.VERIFY, components: vat(0.16) },
+      { id: 'de-food', customerRegion: 'DE', productCategory: 'food', mode: TaxRuleMode.VERIFY, components: vat(0.07) },
+      { id: 'us-ca', customerRegion: 'US-CA', mode: TaxRuleMode.OVERRIDE, components: vat(0.0725) },
+      { id: 'us', customerRegion: 'US', mode: TaxRuleMode.OVERRIDE, components: vat(0) },
+      { id: 'books', productCategory: 'books', mode: TaxRuleMode.OVERRIDE, components: vat(0.05) },
+    ],
+  };
+  const engine = new TaxRuleEngine(definition);
+  const at = new Date('2024-03-15T00:00:00.000Z');
+
+  it('should apply the most specific matching rule', () => {
+    expect(engine.findRule({ customerRegion: 'FR', at })?.id).toBe('default');
+    expect(engine.findRule({ customerRegion: 'DE', at })?.id).toBe('de');
+    expect(engine.findRule({ customerRegion: 'DE', productCategory: 'food', at })?.id).toBe('de-food');
+    expect(engine.findRule({ customerRegion: 'DE', productCategory: 'books', at })?.id).toBe('books');
+    expect(engine.findRule({ customerRegion: 'US-CA', at })?.id).toBe('us-ca');
+    expect(engine.findRule({ customerRegion: 'US-NY', at })?.id).toBe('us');
+    expect(engine.findRule({ at })?.id).toBe('default');
+  });
+
+  it('should only apply rules effective at the given time', () => {
+    expect(engine.findRule({ customerRegion: 'DE', at: new Date('2020-08-01T00:00:00.000Z') })?.id).toBe('de-2020');
+    expect(engine.findRule({ customerRegion: 'DE', at: new Date('2021-01-01T00:00:00.000Z') })?.id).toBe('de');
+  });
+
+  it('should find no rule without rules', () => {
+    expect(new TaxRuleEngine().findRule({ customerRegion: 'DE', at })).toBeNull();
+    expect(new TaxRuleEngine().getRules()).toEqual([]);
+  });
+
+  it('should add up stacked and compound component rates', () => {
+    expect(getTaxComponentsRate([{ name: 'GST', rate: 0.05 }, { name: 'QST', rate: 0.09975 }])).toBe(0.14975);
+    expect(getTaxComponentsRate([{ name: 'GST', rate: 0.05 }, { name: 'PST', rate: 0.095, compound: true }])).toBe(0.14975);
+    expect(getTaxComponentsRate([{ name: 'VAT', rate: 0.1 }, { name: 'Levy', rate: 0.2 }])).toBe(0.3);
+  });
+
+  it('should report every problem of an invalid definition', () => {
+    expect(() =>
+      validateTaxRules({
+        rules: [
+          { id: 'a', customerRegion: 'de', mode: 'REPLACE', components: [] },
+          { id: 'a', effectiveFrom: '2024-02-01', effectiveTo: '2024-01-01', mode: 'VERIFY', components: [{ name: '', rate: 1.5 }] },
+        ],
+      })
+    ).toThrow(
+      'Invalid tax rules: rules[0].customerRegion must be an ISO 3166 country or subdivision code (e.g. DE, US-CA); ' +
+      'rules[0].mode must be OVERRIDE or VERIFY; rules[0].components must be a non-empty array; ' +
+      "rules[1].id 'a' is used by another rule; rules[1].effectiveTo must be after effectiveFrom; " +
+      'rules[1].components[0].name must be a non-empty string; rules[1].components[0].rate must be a decimal between 0 and 1'
+    );
+    expect(() => validateTaxRules({})).toThrow('rules must be an array');
+  });
+
+  it('should recognise region codes', () => {
+    expect(isRegionCode('DE')).toBe(true);
+    expect(isRegionCode('US-CA')).toBe(true);
+    expect(isRegionCode('us-ca')).toBe(false);
+    expect(isRegionCode('USA')).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  DEFAULT_TIMESTAMP_POLICY,
+  TimestampPolicies,
+  parseISO8601Timestamp,
+  validateTimestampPolicies,
+} from '../../../src/domain/services/timestamp-policy';
+
+describe('Timestamp policy', () => {
+  it('should parse strict ISO 8601 timestamps', () => {
+    expect(parseISO8601Timestamp('2024-01-15T10:30:00.000Z')?.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    expect(parseISO8601Timestamp('2024-01-15T10:30:00Z')?.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    expect(parseISO8601Timestamp('2024-01-15T12:30:00+02:00')?.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    expect(parseISO8601Timestamp('2024-02-29T00:00:00.123456Z')?.toISOString()).toBe('2024-02-29T00:00:00.123Z');
+  });
+
+  it('should reject strings that are not strict ISO 8601 timestamps', () => {
+    expect(parseISO8601Timestamp('March 5')).toBeNull();
+    expect(parseISO8601Timestamp('2024-01-15')).toBeNull();
+    expect(parseISO8601Timestamp('2024-01-15T10:30:00')).toBeNull();
+    expect(parseISO8601Timestamp('2024-01-15 10:30:00Z')).toBeNull();
+    expect(parseISO8601Timestamp('2023-02-29T10:30:00Z')).toBeNull();
+    expect(parseISO8601Timestamp('2024-13-45T99:99:99.000Z')).toBeNull();
+    expect(parseISO8601Timestamp('2024-01-15T10:30:00+25:00')).toBeNull();
+  });
+
+  it('should fall back to the default policy per setting', () => {
+    const policies = new TimestampPolicies({
+      default: { maxAgeDays: 365 },
+      partners: { PARTNER_B: { maxClockSkewSeconds: 30 } },
+    });
+
+    expect(policies.forPartner('PARTNER_A')).toEqual({ maxClockSkewSeconds: 300, maxAgeDays: 365 });
+    expect(policies.forPartner('PARTNER_B')).toEqual({ maxClockSkewSeconds: 30, maxAgeDays: 365 });
+    expect(new TimestampPolicies().forPartner('PARTNER_A')).toEqual(DEFAULT_TIMESTAMP_POLICY);
+  });
+
+  it('should report every problem of an invalid definition', () => {
+    expect(() =>
+      validateTimestampPolicies({
+        default: { maxClockSkewSeconds: -1 },
+        partners: { PARTNER_A: { maxAgeDays: 0 }, PARTNER_B: 'strict' },
+      })
+    ).toThrow(
+      'Invalid timestamp policies: default.maxClockSkewSeconds must be a non-negative number; ' +
+      'partners.PARTNER_A.maxAgeDays must be a positive number; partners.PARTNER_B must be an object'
+    );
+    expect(() => validateTimestampPolicies([])).toThrow('definition must be an object');
+  });
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BusinessRules } from '../../../../src/domain/services/business-rules';
+import { BusinessRuleWatcher, loadBusinessRules } from '../../../../src/infrastructure/adapters/business-rule-loader';
+
+describe('BusinessRuleWatcher', () => {
+  let dir: string;
+  let filePath: string;
+  let rules: BusinessRules;
+  let watcher: BusinessRuleWatcher;
+
+  const maxQuantity = (value: unknown) => ({
+    partners: { PARTNER_A: [{ id: 'max-quantity', field: 'quantity', operator: 'MAX', value }] },
+  });
+
+  /** Write the rules file with a later modification time than before */
+  let modified = Date.now() / 1000;
+  const write = (definition: unknown) => {
+    fs.writeFileSync(filePath, JSON.stringify(definition), 'utf-8');
+    modified += 10;
+    fs.utimesSync(filePath, modified, modified);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'business-rules-'));
+    filePath = path.join(dir, 'business-rules.json');
+    write(maxQuantity(500));
+    rules = new BusinessRules(loadBusinessRules(filePath) ?? undefined);
+    watcher = new BusinessRuleWatcher(rules, { filePath });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load no rules from a missing file', () => {
+    expect(loadBusinessRules(path.join(dir, 'missing.json'))).toBeNull();
+  });
+
+  it('should only reload when the file changed', () => {
+    expect(watcher.reloadIfChanged()).toBe(false);
+
+    write(maxQuantity(100));
+
+    expect(watcher.reloadIfChanged()).toBe(true);
+    expect(rules.forPartner('PARTNER_A')[0].value).toBe(100);
+    expect(watcher.reloadIfChanged()).toBe(false);
+  });
+
+  it('should keep the current rules when the file is invalid', () => {
+    write(maxQuantity('lots'));
+
+    expect(watcher.reloadIfChanged()).toBe(false);
+    expect(rules.forPartner('PARTNER_A')[0].value).toBe(500);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('value must be a number for MAX'));
+
+    write(maxQuantity(250));
+
+    expect(watcher.reloadIfChanged()).toBe(true);
+    expect(rules.forPartner('PARTNER_A')[0].value).toBe(250);
+  });
+
+  it('should remove every rule when the file is removed', () => {
+    fs.rmSync(filePath);
+
+    expect(watcher.reloadIfChanged()).toBe(true);
+    expect(rules.forPartner('PARTNER_A')).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { InMemoryBatchJobRepository } from '../../../../src/infrastructure/adapters/batch-job-repository';
+import { BatchJob, BatchJobStatus, PartnerId } from '../../../../src/domain/models';
+
+describe('InMemoryBatchJobRepository', () => {
+  let repository: InMemoryBatchJobRepository;
+
+  const createJob = (overrides: Partial<BatchJob> = {}): BatchJob => ({
+    id: 'job-001',
+    partnerId: PartnerId.PARTNER_A,
+    status: BatchJobStatus.COMPLETED,
+    total: 1,
+    accepted: 1,
+    rejected: 0,
+    pending: 0,
+    results: [],
+    createdAt: new Date().toISOString(),
+    completedAt: new Date().toISOString(),
+    ...overrides,
+  });
+
+  const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+  beforeEach(() => {
+    repository = new InMemoryBatchJobRepository(1000);
+  });
+
+  it('should return a saved job', async () => {
+    const job = createJob();
+    await repository.save(job);
+
+    expect(await repository.findById(job.id)).toEqual(job);
+  });
+
+  it('should not return jobs that finished before the retention window', async () => {
+    await repository.save(createJob({ completedAt: ago(5000) }));
+
+    expect(await repository.findById('job-001')).toBeNull();
+  });
+
+  it('should keep unfinished jobs regardless of their age', async () => {
+    await repository.save(createJob({ status: BatchJobStatus.RUNNING, createdAt: ago(5000), completedAt: undefined }));
+
+    expect(await repository.findById('job-001')).not.toBeNull();
+  });
+
+  it('should drop expired jobs when another job finishes', async () => {
+    await repository.save(createJob({ id: 'old', completedAt: ago(5000) }));
+    await repository.save(createJob({ id: 'new' }));
+
+    expect(await repository.findByStatus([BatchJobStatus.COMPLETED])).toEqual([
+      expect.objectContaining({ id: 'new' }),
+    ]);
+  });
+});
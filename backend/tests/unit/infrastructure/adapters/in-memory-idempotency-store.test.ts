@@ -0,0 +1,44 @@
+import { InMemoryIdempotencyStore } from '../../../../src/infrastructure/adapters/idempotency-store';
+import { IdempotencyRecord } from '../../../../src/domain/ports';
+
+describe('InMemoryIdempotencyStore', () => {
+  let store: InMemoryIdempotencyStore;
+
+  const createRecord = (overrides: Partial<IdempotencyRecord> = {}): IdempotencyRecord => ({
+    key: '/api/feed/partner-a:key-001',
+    requestHash: 'abc123',
+    statusCode: 202,
+    responseBody: { status: 'accepted', sequenceNumber: 1 },
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new InMemoryIdempotencyStore();
+  });
+
+  it('should return null for unknown keys', async () => {
+    expect(await store.find('missing')).toBeNull();
+  });
+
+  it('should return a saved record', async () => {
+    const record = createRecord();
+    await store.save(record);
+
+    expect(await store.find(record.key)).toEqual(record);
+  });
+
+  it('should not return expired records', async () => {
+    store = new InMemoryIdempotencyStore(1000);
+    await store.save(createRecord({ createdAt: new Date(Date.now() - 5000).toISOString() }));
+
+    expect(await store.find('/api/feed/partner-a:key-001')).toBeNull();
+  });
+
+  it('should clear all records', async () => {
+    await store.save(createRecord());
+    await store.clear();
+
+    expect(await store.find('/api/feed/partner-a:key-001')).toBeNull();
+  });
+});
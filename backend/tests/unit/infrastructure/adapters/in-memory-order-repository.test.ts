@@ -1,5 +1,5 @@
 import { InMemoryOrderRepository } from '../../../../src/infrastructure/adapters/in-memory-order-repository';
-import { OrderEvent, PartnerId } from '../../../../src/domain/models';
+import { ErrorCode, OrderEvent, OrderStatus, PartnerId, PromotionType } from '../../../../src/domain/models';
 
 describe('InMemoryOrderRepository', () => {
   let repository: InMemoryOrderRepository;
@@ -152,6 +152,32 @@ describe('InMemoryOrderRepository', () => {
       expect(result.total).toBe(2);
     });
 
+    it('should match productId against every line of an order', async () => {
+      const line = { quantity: 1, unitPrice: 10, taxRate: 0, grossAmount: 10, taxAmount: 0, netAmount: 10 };
+      await repository.save(createOrder({
+        id: 'order-4',
+        externalOrderId: 'EXT-004',
+        productId: 'PROD-3',
+        lineItems: [
+          { lineNumber: 1, productId: 'PROD-3', ...line },
+          { lineNumber: 2, productId: 'PROD-2', ...line },
+        ],
+      }));
+
+      const result = await repository.findMany({ productId: 'PROD-2' });
+      expect(result.data.map((o) => o.id).sort()).toEqual(['order-3', 'order-4']);
+    });
+
+    it('should filter by validation warnings', async () => {
+      const warning = { field: 'quantity', errorCode: ErrorCode.HIGH_QUANTITY, message: 'Quantity 5000 is unusually high', receivedValue: 5000 };
+      await repository.save(createOrder({ id: 'order-4', externalOrderId: 'EXT-004', warnings: [warning] }));
+
+      expect((await repository.findMany({ hasWarnings: true })).data.map((o) => o.id)).toEqual(['order-4']);
+      expect((await repository.findMany({ hasWarnings: false })).total).toBe(3);
+      expect((await repository.findMany({ warningCode: ErrorCode.HIGH_QUANTITY })).total).toBe(1);
+      expect((await repository.findMany({ warningCode: ErrorCode.ZERO_TAX_RATE })).total).toBe(0);
+    });
+
     it('should filter by date range', async () => {
       const result = await repository.findMany({
         fromDate: new Date('2025-01-18'),
@@ -170,6 +196,15 @@ describe('InMemoryOrderRepository', () => {
       expect(result.data[0].grossAmount).toBe(200);
     });
 
+    it('should filter by status, deriving it for orders stored without one', async () => {
+      await repository.save(createOrder({ id: 'order-4', externalOrderId: 'EXT-004', status: OrderStatus.FULFILLED }));
+      await repository.save(createOrder({ id: 'order-5', externalOrderId: 'EXT-005', cancelledAt: '2025-01-26T10:00:00Z' }));
+
+      expect((await repository.findMany({ status: OrderStatus.PROCESSED })).total).toBe(3);
+      expect((await repository.findMany({ status: OrderStatus.FULFILLED })).data.map((o) => o.id)).toEqual(['order-4']);
+      expect((await repository.findMany({ status: OrderStatus.CANCELLED })).data.map((o) => o.id)).toEqual(['order-5']);
+    });
+
     it('should combine multiple filters', async () => {
       const result = await repository.findMany({
         partnerId: PartnerId.PARTNER_A,
@@ -320,6 +355,126 @@ describe('InMemoryOrderRepository', () => {
       expect(stats.totalGrossAmount).toBe(300);
     });
 
+    it('should exclude cancelled orders from totals', async () => {
+      await repository.save(
+        createOrder({
+          id: 'cancelled',
+          partnerId: PartnerId.PARTNER_A,
+          sequenceNumber: 3,
+          grossAmount: 1000,
+          cancelledAt: new Date().toISOString(),
+        })
+      );
+
+      const stats = await repository.getStatistics();
+
+      expect(stats.totalOrders).toBe(3);
+      expect(stats.cancelledOrders).toBe(1);
+      expect(stats.ordersByPartner[PartnerId.PARTNER_A]).toBe(2);
+      expect(stats.totalGrossAmount).toBe(600);
+      expect(stats.highestSequence[PartnerId.PARTNER_A]).toBe(3);
+    });
+
+    it('should aggregate orders in other currencies at their base amounts', async () => {
+      await repository.save(
+        createOrder({
+          id: 'eur',
+          partnerId: PartnerId.PARTNER_B,
+          sequenceNumber: 2,
+          grossAmount: 100,
+          taxAmount: 10,
+          netAmount: 110,
+          currency: 'EUR',
+          baseAmounts: { currency: 'USD', fxRate: 1.1, grossAmount: 110, taxAmount: 11, netAmount: 121 },
+        })
+      );
+
+      const stats = await repository.getStatistics();
+      const expensive = await repository.findMany({ minAmount: 105 }, { page: 1, pageSize: 10 });
+
+      expect(stats.totalGrossAmount).toBe(710);
+      expect(stats.totalTaxAmount).toBe(59);
+      expect(stats.totalNetAmount).toBe(769);
+      expect(expensive.data.map((order) => order.id)).toContain('eur');
+    });
+
+    it('should sum amounts exactly in minor units', async () => {
+      await repository.clear();
+      await repository.saveBatch(
+        Array.from({ length: 10 }, (_, index) =>
+          createOrder({
+            id: `small-${index}`,
+            grossAmount: 0.1,
+            taxAmount: 0.01,
+            netAmount: 0.11,
+            minorUnits: { digits: 2, grossAmount: 10, taxAmount: 1, netAmount: 11 },
+          })
+        )
+      );
+      // Stored before minor units were introduced
+      await repository.save(createOrder({ id: 'legacy', grossAmount: 0.2, taxAmount: 0.02, netAmount: 0.22 }));
+
+      const stats = await repository.getStatistics();
+
+      expect(stats.totalGrossAmount).toBe(1.2);
+      expect(stats.totalTaxAmount).toBe(0.12);
+      expect(stats.totalNetAmount).toBe(1.32);
+      expect(stats.averageOrderValue).toBe(0.11);
+      expect(stats.minorUnits).toEqual({ digits: 2, grossAmount: 120, discountAmount: 0, taxAmount: 12, netAmount: 132 });
+    });
+
+    it('should total discounts and count promo code redemptions', async () => {
+      await repository.clear();
+      await repository.saveBatch([
+        createOrder({
+          id: 'discounted',
+          grossAmount: 20,
+          discountAmount: 2.5,
+          taxAmount: 1.4,
+          netAmount: 18.9,
+          appliedPromotions: [{ code: 'SPRING10', type: PromotionType.PERCENTAGE, discountAmount: 2, discountMinorUnits: 200 }],
+        }),
+        createOrder({
+          id: 'promo',
+          discountAmount: 2,
+          taxAmount: 1.44,
+          netAmount: 19.44,
+          appliedPromotions: [{ code: 'SPRING10', type: PromotionType.PERCENTAGE, discountAmount: 2, discountMinorUnits: 200 }],
+        }),
+        createOrder({ id: 'full-price' }),
+      ]);
+
+      const stats = await repository.getStatistics();
+
+      expect(stats.totalGrossAmount).toBe(60);
+      expect(stats.totalDiscountAmount).toBe(4.5);
+      expect(stats.totalNetAmount).toBe(59.94);
+      expect(stats.promoCodeRedemptions).toEqual({ SPRING10: 2 });
+    });
+
+    it('should count orders with warnings and warnings per code', async () => {
+      await repository.clear();
+      await repository.saveBatch([
+        createOrder({
+          id: 'suspicious',
+          warnings: [
+            { field: 'quantity', errorCode: ErrorCode.HIGH_QUANTITY, message: 'Quantity 5000 is unusually high' },
+            { field: 'taxRate', errorCode: ErrorCode.ZERO_TAX_RATE, message: 'Tax rate is zero' },
+          ],
+        }),
+        createOrder({
+          id: 'untaxed',
+          warnings: [{ field: 'taxRate', errorCode: ErrorCode.ZERO_TAX_RATE, message: 'Tax rate is zero' }],
+        }),
+        createOrder({ id: 'clean' }),
+      ]);
+
+      const stats = await repository.getStatistics();
+
+      expect(stats.ordersWithWarnings).toBe(2);
+      expect(stats.warningsByCode).toEqual({ HIGH_QUANTITY: 1, ZERO_TAX_RATE: 2 });
+    });
+
     it('should handle empty repository', async () => {
       await repository.clear();
       const stats = await repository.getStatistics();
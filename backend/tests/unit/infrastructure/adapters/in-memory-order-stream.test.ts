@@ -1,6 +1,6 @@
 import { InMemoryOrderStream } from '../../../../src/infrastructure/adapters/in-memory-order-stream';
 import { ValidOrderPayload, ErrorOrderPayload, PartnerId } from '../../../../src/domain/ports';
-import { OrderEvent } from '../../../../src/domain/models';
+import { OrderEvent, ErrorCode } from '../../../../src/domain/models';
 
 describe('InMemoryOrderStream', () => {
   let stream: InMemoryOrderStream;
@@ -28,7 +28,11 @@ describe('InMemoryOrderStream', () => {
   const createErrorPayload = (): ErrorOrderPayload => ({
     partnerId: PartnerId.PARTNER_A,
     originalOrderId: 'ORD-ERR-001',
-    errors: ['Invalid quantity', 'Missing SKU'],
+    errors: ['quantity: Invalid quantity', 'skuId: Missing SKU'],
+    details: [
+      { field: 'quantity', errorCode: ErrorCode.ZERO_VALUE, message: 'Invalid quantity' },
+      { field: 'skuId', errorCode: ErrorCode.MISSING_REQUIRED_FIELD, message: 'Missing SKU' },
+    ],
     rawInput: { orderId: 'ORD-ERR-001' },
     timestamp: new Date(),
   });
@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeedHandler } from '../../../../src/application/services/feed-handler';
+import { ValidationService } from '../../../../src/domain/services/validation-service';
+import { OrderTransformer } from '../../../../src/domain/services/order-transformer';
+import { createDefaultPartnerRegistry, PartnerRegistry } from '../../../../src/domain/services/partner-registry';
+import { InMemoryOrderStream } from '../../../../src/infrastructure/adapters/in-memory-order-stream';
+import { InMemorySequenceManager } from '../../../../src/infrastructure/adapters/in-memory-sequence-manager';
+import { InMemoryOrderRepository } from '../../../../src/infrastructure/adapters/in-memory-order-repository';
+import { FileOrderRepository } from '../../../../src/infrastructure/adapters/file-order-repository';
+import { FileIngestionLedger, InMemoryIngestionLedger } from '../../../../src/infrastructure/adapters/ingestion-ledger';
+import { InboxWatcher, InboxFileReport } from '../../../../src/infrastructure/adapters/inbox-watcher';
+import { IngestedFileStatus, PartnerAInput, PartnerId } from '../../../../src/domain/models';
+
+describe('InboxWatcher', () => {
+  let inboxDir: string;
+  let partnerRegistry: PartnerRegistry;
+  let orderStream: InMemoryOrderStream;
+  let orderRepository: InMemoryOrderRepository;
+  let feedHandler: FeedHandler;
+  let ledger: InMemoryIngestionLedger;
+  let watcher: InboxWatcher;
+
+  const order = (orderId: string, quantity = 5): PartnerAInput => ({
+    orderId,
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity,
+    unitPrice: 19.99,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  });
+
+  const inbox = 'partner-a';
+  const drop = (fileName: string, content: string) =>
+    fs.writeFileSync(path.join(inboxDir, inbox, fileName), content, 'utf-8');
+  const exists = (...segments: string[]) => fs.existsSync(path.join(inboxDir, inbox, ...segments));
+  const readReport = (folder: string, fileName: string): InboxFileReport =>
+    JSON.parse(fs.readFileSync(path.join(inboxDir, inbox, folder, `${fileName}.report.json`), 'utf-8'));
+
+  beforeEach(() => {
+    inboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inbox-'));
+    fs.mkdirSync(path.join(inboxDir, inbox));
+
+    partnerRegistry = createDefaultPartnerRegistry();
+    orderStream = new InMemoryOrderStream();
+    orderRepository = new InMemoryOrderRepository();
+    feedHandler = new FeedHandler(
+      new ValidationService(partnerRegistry),
+      new OrderTransformer(partnerRegistry),
+      orderStream,
+      new InMemorySequenceManager(),
+      orderRepository,
+      partnerRegistry
+    );
+    orderStream.onValidOrder(async (payload) => {
+      await orderRepository.save(payload.orderEvent);
+    });
+
+    ledger = new InMemoryIngestionLedger();
+    watcher = new InboxWatcher(feedHandler, orderRepository, partnerRegistry, ledger, { inboxDir, minFileAgeMs: 0 });
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    orderStream.removeAllListeners();
+    fs.rmSync(inboxDir, { recursive: true, force: true });
+  });
+
+  it('should create an inbox folder for every partner', async () => {
+    await watcher.scanOnce();
+
+    expect(fs.existsSync(path.join(inboxDir, 'partner-b'))).toBe(true);
+  });
+
+  it('should ingest a JSON file and move it to processed with a report', async () => {
+    drop('orders.json', JSON.stringify([order('ORD-1'), order('ORD-2', 0)]));
+
+    const [entry] = await watcher.scanOnce();
+
+    expect(entry).toMatchObject({
+      partnerId: PartnerId.PARTNER_A,
+      fileName: 'orders.json',
+      status: IngestedFileStatus.PROCESSED,
+      total: 2,
+      accepted: 1,
+      rejected: 1,
+    });
+    expect(exists('orders.json')).toBe(false);
+    expect(exists('processed', 'orders.json')).toBe(true);
+
+    const report = readReport('processed', 'orders.json');
+    expect(report).toMatchObject({ status: 'processed', sha256: entry.sha256, total: 2, accepted: 1, rejected: 1 });
+    expect(report.results[0]).toMatchObject({ line: 1, status: 'accepted', orderId: 'ORD-1', sequenceNumber: 1 });
+    expect(report.results[1].errors![0]).toMatch(/^Item 2: /);
+    expect(await orderRepository.count()).toBe(1);
+  });
+
+  it('should ingest a single JSON order, NDJSON and CSV files', async () => {
+    drop('a.json', JSON.stringify(order('ORD-1')));
+    drop('b.ndjson', `${JSON.stringify(order('ORD-2'))}\n{broken\n`);
+    drop(
+      'c.csv',
+      'orderId,skuId,customerId,quantity,unitPrice,taxRate,transactionTimeMs\n' +
+        `ORD-3,SKU-1,CUST-1,2,10,0.1,${Date.now()}\n`
+    );
+
+    const entries = await watcher.scanOnce();
+
+    expect(entries.map((e) => [e.fileName, e.accepted, e.rejected])).toEqual([
+      ['a.json', 1, 0],
+      ['b.ndjson', 1, 1],
+      ['c.csv', 1, 0],
+    ]);
+    expect(readReport('processed', 'b.ndjson').results[1].errors).toEqual(['Line 2: Invalid JSON']);
+    expect(readReport('processed', 'c.csv').results[0].line).toBe(2);
+  });
+
+  it('should move unreadable and unsupported files to failed', async () => {
+    drop('broken.json', '{"orderId":');
+    drop('orders.xml', '<orders/>');
+
+    const entries = await watcher.scanOnce();
+
+    expect(entries.every((e) => e.status === IngestedFileStatus.FAILED)).toBe(true);
+    expect(exists('failed', 'broken.json')).toBe(true);
+    expect(readReport('failed', 'broken.json').error).toMatch(/^Invalid JSON/);
+    expect(readReport('failed', 'orders.xml').error).toBe('Unsupported file type: .xml');
+  });
+
+  it('should leave files that are still being written', async () => {
+    drop('orders.json.part', '[]');
+    drop('.hidden.json', '[]');
+    watcher = new InboxWatcher(feedHandler, orderRepository, partnerRegistry, ledger, {
+      inboxDir,
+      minFileAgeMs: 60_000,
+    });
+    drop('fresh.json', '[]');
+
+    expect(await watcher.scanOnce()).toEqual([]);
+    expect(exists('orders.json.part')).toBe(true);
+    expect(exists('.hidden.json')).toBe(true);
+    expect(exists('fresh.json')).toBe(true);
+  });
+
+  it('should not process content that was already ingested', async () => {
+    const content = JSON.stringify([order('ORD-1')]);
+    drop('orders.json', content);
+    await watcher.scanOnce();
+
+    // Same content dropped again after a restart
+    watcher = new InboxWatcher(feedHandler, orderRepository, partnerRegistry, ledger, { inboxDir, minFileAgeMs: 0 });
+    drop('orders.json', content);
+
+    expect(await watcher.scanOnce()).toEqual([]);
+    expect(exists('orders.json')).toBe(false);
+
+    const processed = fs.readdirSync(path.join(inboxDir, inbox, 'processed'));
+    const copy = processed.find((name) => /^orders-\d+T\d+Z\.json$/.test(name))!;
+    expect(readReport('processed', copy)).toMatchObject({ status: 'skipped', total: 0 });
+    expect(readReport('processed', copy).error).toMatch(/^Content already ingested from orders.json at /);
+    expect(await orderRepository.count()).toBe(1);
+  });
+
+  it('should process a file again when a restart interrupted it', async () => {
+    drop('orders.json', JSON.stringify([order('ORD-1'), order('ORD-2')]));
+    // First order was accepted before the interruption
+    await feedHandler.processOrder(PartnerId.PARTNER_A, order('ORD-1'));
+    const [entry] = await watcher.scanOnce();
+    await ledger.save({ ...entry, status: IngestedFileStatus.PROCESSING });
+    fs.renameSync(path.join(inboxDir, inbox, 'processed', 'orders.json'), path.join(inboxDir, inbox, 'orders.json'));
+
+    const [retried] = await watcher.scanOnce();
+
+    expect(retried).toMatchObject({ status: IngestedFileStatus.PROCESSED, accepted: 0, rejected: 2 });
+    expect(await orderRepository.count()).toBe(2);
+  });
+
+  it('should write accepted orders to disk before recording a file as processed', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orders-'));
+    const fileRepository = new FileOrderRepository(dataDir);
+    orderStream.onValidOrder(async (payload) => {
+      await fileRepository.save(payload.orderEvent);
+    });
+    const saveEntry = ledger.save.bind(ledger);
+    const persistedWhenProcessed: string[][] = [];
+    jest.spyOn(ledger, 'save').mockImplementation(async (entry) => {
+      if (entry.status === IngestedFileStatus.PROCESSED) {
+        const persisted = JSON.parse(fs.readFileSync(path.join(dataDir, 'orders.json'), 'utf-8'));
+        persistedWhenProcessed.push(persisted.map((o: { externalOrderId: string }) => o.externalOrderId));
+      }
+      await saveEntry(entry);
+    });
+    watcher = new InboxWatcher(feedHandler, fileRepository, partnerRegistry, ledger, { inboxDir, minFileAgeMs: 0 });
+    drop('orders.json', JSON.stringify([order('ORD-1'), order('ORD-2')]));
+
+    try {
+      await watcher.scanOnce();
+
+      expect(persistedWhenProcessed).toEqual([['ORD-1', 'ORD-2']]);
+    } finally {
+      await fileRepository.flush();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('FileIngestionLedger', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist entries immediately', async () => {
+    const ledger = new FileIngestionLedger(dataDir);
+    await ledger.save({
+      id: 'A:abc',
+      partnerId: PartnerId.PARTNER_A,
+      sha256: 'abc',
+      fileName: 'orders.json',
+      status: IngestedFileStatus.PROCESSING,
+      total: 0,
+      accepted: 0,
+      rejected: 0,
+      startedAt: new Date().toISOString(),
+    });
+
+    const reloaded = new FileIngestionLedger(dataDir);
+    expect(await reloaded.findById('A:abc')).toMatchObject({ fileName: 'orders.json' });
+    expect(await reloaded.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPartnerMappings } from '../../../../src/infrastructure/adapters/partner-mapping-loader';
+
+describe('loadPartnerMappings', () => {
+  let dir: string;
+
+  const mapping = (partnerId: string, slug: string) => ({
+    partnerId,
+    slug,
+    displayName: partnerId,
+    fields: [
+      { source: 'ref', target: 'externalOrderId', type: 'string' },
+      { source: 'sku', target: 'productId', type: 'string' },
+      { source: 'buyer', target: 'customerId', type: 'integer' },
+      { source: 'units', target: 'quantity', type: 'integer' },
+      { source: 'cost', target: 'unitPrice', type: 'number' },
+      { source: 'vat', target: 'taxRate', type: 'number' },
+      { source: 'ts', target: 'transactionTime', type: 'timestamp' },
+    ],
+  });
+
+  const yamlMapping = [
+    'partnerId: PARTNER_D',
+    'slug: partner-d',
+    'displayName: Partner D',
+    'fields:',
+    '  - { source: ref, target: externalOrderId, type: string }',
+    '  - { source: sku, target: productId, type: string }',
+    '  - { source: buyer, target: customerId, type: integer }',
+    '  - { source: units, target: quantity, type: integer, default: 1 }',
+    '  - { source: cost, target: unitPrice, type: number }',
+    '  - { source: vat, target: taxRate, type: number, conversion: percent-to-decimal }',
+    '  - { source: ts, target: transactionTime, type: timestamp, conversion: seconds-to-iso }',
+  ].join('\n');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'partner-mappings-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load no mappings from a missing directory', () => {
+    expect(loadPartnerMappings(path.join(dir, 'missing'))).toEqual([]);
+  });
+
+  it('should load JSON and YAML mappings in name order', () => {
+    fs.writeFileSync(path.join(dir, 'partner-c.json'), JSON.stringify(mapping('PARTNER_C', 'partner-c')));
+    fs.writeFileSync(path.join(dir, 'partner-d.yaml'), yamlMapping);
+    fs.writeFileSync(path.join(dir, 'partner-e.yml'), JSON.stringify(mapping('PARTNER_E', 'partner-e')));
+
+    const definitions = loadPartnerMappings(dir);
+
+    expect(definitions.map((definition) => definition.partnerId)).toEqual(['PARTNER_C', 'PARTNER_D', 'PARTNER_E']);
+    expect(definitions[1].fields.find((field) => field.target === 'quantity')).toMatchObject({ default: 1 });
+  });
+
+  it('should skip other files with a warning', () => {
+    fs.writeFileSync(path.join(dir, 'README.md'), '# Partner mappings');
+
+    expect(loadPartnerMappings(dir)).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('README.md'));
+  });
+
+  it('should fail on unparsable YAML', () => {
+    fs.writeFileSync(path.join(dir, 'broken.yaml'), 'fields: [unclosed');
+
+    expect(() => loadPartnerMappings(dir)).toThrow(/Failed to read partner mapping .*broken\.yaml/);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  parseCsv,
+  countCsvRecords,
+  coerceCsvValue,
+  csvRecordToInput,
+  readCsvRows,
+  CsvParseError,
+} from '../../../../src/infrastructure/formats/csv-parser';
+
+describe('CSV parser', () => {
+  describe('parseCsv', () => {
+    it('should parse records with line numbers', () => {
+      expect(parseCsv('a,b\n1,2\n3,4')).toEqual([
+        { line: 1, cells: ['a', 'b'] },
+        { line: 2, cells: ['1', '2'] },
+        { line: 3, cells: ['3', '4'] },
+      ]);
+    });
+
+    it('should handle CRLF, trailing newline, BOM and blank lines', () => {
+      const records = parseCsv('﻿a,b\r\n\r\n1,2\r\n');
+
+      expect(records).toEqual([
+        { line: 1, cells: ['a', 'b'] },
+        { line: 3, cells: ['1', '2'] },
+      ]);
+    });
+
+    it('should handle quoted fields with commas, escaped quotes and newlines', () => {
+      const records = parseCsv('note,id\n"hello, ""world""\nsecond line",1\nx,2');
+
+      expect(records[1]).toEqual({ line: 2, cells: ['hello, "world"\nsecond line', '1'] });
+      expect(records[2]).toEqual({ line: 4, cells: ['x', '2'] });
+    });
+
+    it('should keep empty cells', () => {
+      expect(parseCsv('a,b,c\n1,,3')[1].cells).toEqual(['1', '', '3']);
+    });
+
+    it('should throw on unterminated quotes', () => {
+      expect(() => parseCsv('a\n"open')).toThrow(CsvParseError);
+      expect(() => parseCsv('a\n"open')).toThrow('Unterminated quoted field starting on line 2');
+    });
+  });
+
+  describe('countCsvRecords', () => {
+    it('should count the records parseCsv returns', () => {
+      const texts = [
+        'a,b\n1,2\n3,4',
+        '\uFEFFa,b\r\n\r\n1,2\r\n',
+        'note,id\n"hello, ""world""\nsecond line",1\nx,2',
+        'a\n""\n,\n"x"y\nab"c\n',
+        '',
+      ];
+
+      for (const text of texts) {
+        expect(countCsvRecords(text)).toBe(parseCsv(text).length);
+      }
+    });
+  });
+
+  describe('coerceCsvValue', () => {
+    it('should coerce numbers and leave invalid numbers unchanged', () => {
+      expect(coerceCsvValue(' 19.99 ', 'number')).toBe(19.99);
+      expect(coerceCsvValue('abc', 'number')).toBe('abc');
+    });
+
+    it('should coerce booleans', () => {
+      expect(coerceCsvValue('TRUE', 'boolean')).toBe(true);
+      expect(coerceCsvValue('false', 'boolean')).toBe(false);
+      expect(coerceCsvValue('yes', 'boolean')).toBe('yes');
+    });
+
+    it('should coerce millisecond and second timestamps from numbers or dates', () => {
+      expect(coerceCsvValue('1705314600000', 'timestamp-ms')).toBe(1705314600000);
+      expect(coerceCsvValue('2024-01-15T10:30:00Z', 'timestamp-ms')).toBe(1705314600000);
+      expect(coerceCsvValue('2024-01-15T10:30:00Z', 'timestamp-seconds')).toBe(1705314600);
+      expect(coerceCsvValue('not a date', 'timestamp-ms')).toBe('not a date');
+    });
+
+    it('should coerce ISO timestamps from milliseconds', () => {
+      expect(coerceCsvValue('1705314600000', 'timestamp-iso')).toBe('2024-01-15T10:30:00.000Z');
+      expect(coerceCsvValue('2024-01-15T10:30:00Z', 'timestamp-iso')).toBe('2024-01-15T10:30:00Z');
+    });
+
+    it('should leave out-of-range milliseconds unchanged for ISO timestamps', () => {
+      expect(coerceCsvValue('1e20', 'timestamp-iso')).toBe('1e20');
+    });
+
+    it('should parse JSON and keep strings by default', () => {
+      expect(coerceCsvValue('{"a":1}', 'json')).toEqual({ a: 1 });
+      expect(coerceCsvValue('{broken', 'json')).toBe('{broken');
+      expect(coerceCsvValue('007')).toBe('007');
+    });
+  });
+
+  describe('csvRecordToInput', () => {
+    it('should map headers to typed fields, nest dot paths and omit empty cells', () => {
+      const input = csvRecordToInput(
+        ['orderId', 'quantity', 'metadata.channel', 'notes'],
+        ['ORD-1', '5', 'web', ''],
+        { quantity: 'number' }
+      );
+
+      expect(input).toEqual({ orderId: 'ORD-1', quantity: 5, metadata: { channel: 'web' } });
+    });
+  });
+
+  describe('readCsvRows', () => {
+    it('should map data rows to input and flag rows with extra cells', () => {
+      const rows = readCsvRows('orderId,quantity\nORD-1,5\nORD-2,1,extra', { quantity: 'number' }, 'orderId');
+
+      expect(rows).toEqual([
+        { line: 2, orderId: 'ORD-1', input: { orderId: 'ORD-1', quantity: 5 } },
+        { line: 3, orderId: 'ORD-2', cells: ['ORD-2', '1', 'extra'], error: 'Expected 2 columns but found 3' },
+      ]);
+    });
+
+    it('should reject missing and duplicate headers', () => {
+      expect(() => readCsvRows('')).toThrow('CSV must start with a header row naming every column');
+      expect(() => readCsvRows('a,,b\n1,2,3')).toThrow(CsvParseError);
+      expect(() => readCsvRows('a,a\n1,2')).toThrow('Duplicate CSV column: a');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { readNdjsonLines, NdjsonLine } from '../../../../src/infrastructure/formats/ndjson';
+
+async function collect(chunks: (string | Buffer)[], maxLineLength?: number): Promise<NdjsonLine[]> {
+  const lines: NdjsonLine[] = [];
+  for await (const line of readNdjsonLines(chunks, maxLineLength)) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+describe('readNdjsonLines', () => {
+  it('should split chunks into numbered lines', async () => {
+    const lines = await collect(['{"a":1}\n{"a"', ':2}\n{"a":3}']);
+
+    expect(lines).toEqual([
+      { line: 1, text: '{"a":1}', truncated: false },
+      { line: 2, text: '{"a":2}', truncated: false },
+      { line: 3, text: '{"a":3}', truncated: false },
+    ]);
+  });
+
+  it('should strip CR and skip blank lines while keeping line numbers', async () => {
+    const lines = await collect(['{"a":1}\r\n\r\n  \n{"a":2}\n']);
+
+    expect(lines.map((l) => [l.line, l.text])).toEqual([
+      [1, '{"a":1}'],
+      [4, '{"a":2}'],
+    ]);
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{"name":"café"}\n');
+    const lines = await collect([bytes.subarray(0, 13), bytes.subarray(13)]);
+
+    expect(lines[0].text).toBe('{"name":"café"}');
+  });
+
+  it('should discard lines longer than the maximum length', async () => {
+    const lines = await collect(['{"a":1}\n', 'x'.repeat(20), 'x'.repeat(20), '\n{"a":3}\n'], 16);
+
+    expect(lines).toEqual([
+      { line: 1, text: '{"a":1}', truncated: false },
+      { line: 2, text: '', truncated: true },
+      { line: 3, text: '{"a":3}', truncated: false },
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { ErrorCode } from '../../../../src/domain/models';
+
+describe('Admin Router', () => {
+  let app: Express;
+  let container: AppContainer;
+  let dir: string;
+  let rulesFile: string;
+
+  const rules = {
+    partners: {
+      PARTNER_A: [
+        { id: 'max-quantity', field: 'quantity', operator: 'MAX', value: 100 },
+        { id: 'min-order', field: '$orderValue', operator: 'MIN', value: 10, severity: 'WARNING' },
+      ],
+    },
+  };
+
+  const partnerAInput = {
+    orderId: 'ORD-A-001',
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 5,
+    unitPrice: 19.99,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-'));
+    rulesFile = path.join(dir, 'business-rules.json');
+    fs.writeFileSync(rulesFile, JSON.stringify(rules), 'utf-8');
+    container = createContainer({ businessRulesFile: rulesFile });
+    app = createApp(container);
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.businessRuleWatcher.stop();
+    container.orderStream.removeAllListeners();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('GET /api/admin/business-rules', () => {
+    it('should return the rules in force for every partner', async () => {
+      const response = await request(app).get('/api/admin/business-rules').expect(200);
+
+      expect(response.body.status).toBe('success');
+      expect(response.body.partners).toEqual(rules.partners);
+      expect(new Date(response.body.loadedAt).getTime()).not.toBeNaN();
+    });
+
+    it('should return the rules of one partner', async () => {
+      const response = await request(app).get('/api/admin/business-rules/partner-a').expect(200);
+
+      expect(response.body.partnerId).toBe('PARTNER_A');
+      expect(response.body.rules).toEqual(rules.partners.PARTNER_A);
+
+      const partnerB = await request(app).get('/api/admin/business-rules/PARTNER_B').expect(200);
+      expect(partnerB.body.rules).toEqual([]);
+    });
+
+    it('should return 404 for an unknown partner', async () => {
+      const response = await request(app).get('/api/admin/business-rules/partner-z').expect(404);
+
+      expect(response.body.code).toBe(ErrorCode.UNKNOWN_PARTNER);
+    });
+  });
+
+  describe('Feed ingestion', () => {
+    it('should reject orders breaking a rule and accept them once it is relaxed', async () => {
+      const order = { ...partnerAInput, quantity: 150 };
+
+      const rejected = await request(app).post('/api/feed/partner-a').send(order).expect(422);
+      expect(rejected.body.errors).toContain("quantity: Field 'quantity' must be at most 100 (rule max-quantity)");
+
+      container.businessRules.replace({ partners: {} });
+
+      await request(app).post('/api/feed/partner-a').send(order).expect(202);
+    });
+
+    it('should accept orders breaking a warning rule with a warning', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a')
+        .send({ ...partnerAInput, quantity: 1, unitPrice: 5 })
+        .expect(202);
+
+      expect(response.body.warnings).toContain("$orderValue: Field '$orderValue' must be at least 10 (rule min-order)");
+    });
+  });
+
+  describe('GET /api/admin/rate-limits', () => {
+    it('should return the limits and usage of every partner', async () => {
+      await request(app).post('/api/feed/partner-a').send(partnerAInput).expect(202);
+
+      const response = await request(app).get('/api/admin/rate-limits').expect(200);
+
+      expect(response.body.status).toBe('success');
+      const partnerA = response.body.partners.find((usage: { partnerId: string }) => usage.partnerId === 'PARTNER_A');
+      expect(partnerA).toMatchObject({
+        single: { capacity: 60, refillPerSecond: 10, available: 59 },
+        batch: { capacity: 5000, refillPerSecond: 100, available: 5000 },
+        daily: { quota: 1000000, used: 1, remaining: 999999 },
+      });
+      expect(response.body.partners.map((usage: { partnerId: string }) => usage.partnerId)).toContain('PARTNER_B');
+    });
+
+    it('should return the usage of one partner', async () => {
+      const response = await request(app).get('/api/admin/rate-limits/partner-b').expect(200);
+
+      expect(response.body.partnerId).toBe('PARTNER_B');
+      expect(response.body.usage.daily.used).toBe(0);
+      await request(app).get('/api/admin/rate-limits/partner-z').expect(404);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { ErrorCode } from '../../../../src/domain/models';
+
+describe('API Keys Router', () => {
+  let app: Express;
+  let container: AppContainer;
+
+  const MASTER_KEY = 'master-key-for-tests';
+
+  const partnerAOrder = (orderId: string) => ({
+    orderId,
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 1,
+    unitPrice: 10,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  });
+
+  const admin = {
+    get: (path: string) => request(app).get(`/api/admin/api-keys${path}`).set('X-API-Key', MASTER_KEY),
+    post: (path: string, body: object = {}) => request(app).post(`/api/admin/api-keys${path}`).set('X-API-Key', MASTER_KEY).send(body),
+  };
+
+  const submitOrder = (apiKey: string, orderId: string) =>
+    request(app).post('/api/feed/partner-a').set('X-API-Key', apiKey).send(partnerAOrder(orderId));
+
+  beforeEach(() => {
+    container = createContainer();
+    app = createApp(container, { enableApiAuth: true, masterApiKey: MASTER_KEY });
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.orderStream.removeAllListeners();
+  });
+
+  it('should issue a key that authenticates the partner', async () => {
+    const created = await admin.post('', { partnerId: 'partner-a', label: 'POS', expiresAt: '2999-01-01T00:00:00Z' }).expect(201);
+
+    expect(created.body.apiKey).toEqual({
+      id: expect.any(String),
+      partnerId: 'PARTNER_A',
+      maskedKey: `pk_••••${created.body.key.slice(-4)}`,
+      label: 'POS',
+      createdAt: expect.any(String),
+      expiresAt: '2999-01-01T00:00:00.000Z',
+      status: 'ACTIVE',
+    });
+    await submitOrder(created.body.key, 'ORD-1').expect(202);
+
+    const details = await admin.get(`/${created.body.apiKey.id}`).expect(200);
+    expect(new Date(details.body.apiKey.lastUsedAt).getTime()).not.toBeNaN();
+
+    // Keys only work for their own partner
+    await request(app).post('/api/feed/partner-b').set('X-API-Key', created.body.key).send({}).expect(403);
+  });
+
+  it('should list keys masked and filtered by partner', async () => {
+    const { body: a } = await admin.post('', { partnerId: 'PARTNER_A' }).expect(201);
+    await admin.post('', { partnerId: 'partner-b' }).expect(201);
+
+    const response = await admin.get('?partnerId=partner-a').expect(200);
+
+    expect(response.body.apiKeys).toHaveLength(1);
+    expect(response.body.apiKeys[0].id).toBe(a.apiKey.id);
+    expect(JSON.stringify(response.body)).not.toContain(a.key);
+    expect(response.body.apiKeys[0].keyHash).toBeUndefined();
+    expect((await admin.get('').expect(200)).body.apiKeys).toHaveLength(2);
+  });
+
+  it('should rotate a key with a grace period', async () => {
+    const { body: original } = await admin.post('', { partnerId: 'partner-a' }).expect(201);
+
+    const rotated = await admin.post(`/${original.apiKey.id}/rotate`, { gracePeriodSeconds: 3600 }).expect(201);
+
+    expect(rotated.body.previous).toMatchObject({ status: 'ACTIVE', replacedBy: rotated.body.apiKey.id });
+    expect(new Date(rotated.body.previous.expiresAt).getTime() - Date.now()).toBeGreaterThan(3500 * 1000);
+    await submitOrder(original.key, 'ORD-1').expect(202);
+    await submitOrder(rotated.body.key, 'ORD-2').expect(202);
+
+    const immediate = await admin.post(`/${rotated.body.apiKey.id}/rotate`, { gracePeriodSeconds: 0 }).expect(201);
+    await submitOrder(rotated.body.key, 'ORD-3').expect(403);
+    await submitOrder(immediate.body.key, 'ORD-4').expect(202);
+  });
+
+  it('should expire and revoke keys', async () => {
+    const { body: expiring } = await admin.post('', { partnerId: 'partner-a' }).expect(201);
+    const { body: revoked } = await admin.post('', { partnerId: 'partner-a' }).expect(201);
+
+    const expired = await admin.post(`/${expiring.apiKey.id}/expire`).expect(200);
+    expect(expired.body.apiKey.status).toBe('EXPIRED');
+    await submitOrder(expiring.key, 'ORD-1').expect(403);
+
+    const revocation = await admin.post(`/${revoked.apiKey.id}/revoke`).expect(200);
+    expect(revocation.body.apiKey.status).toBe('REVOKED');
+    await submitOrder(revoked.key, 'ORD-2').expect(403);
+
+    const rotation = await admin.post(`/${revoked.apiKey.id}/rotate`).expect(409);
+    expect(rotation.body.code).toBe(ErrorCode.API_KEY_INACTIVE);
+    await admin.post('/missing/revoke').expect(404);
+  });
+
+  it('should validate requests', async () => {
+    const response = await admin.post('', { label: 42, expiresAt: '2020-01-01T00:00:00Z' }).expect(400);
+
+    expect(response.body.errors).toEqual([
+      'partnerId is required',
+      'label must be a string of at most 100 characters',
+      'expiresAt must be in the future',
+    ]);
+    await admin.post('', { partnerId: 'partner-z' }).expect(404);
+    const { body } = await admin.post('', { partnerId: 'partner-a' }).expect(201);
+    await admin.post(`/${body.apiKey.id}/rotate`, { gracePeriodSeconds: -1 }).expect(400);
+  });
+
+  it('should require the master key', async () => {
+    await request(app).get('/api/admin/api-keys').expect(401);
+    const { body: partnerKey } = await admin.post('', { partnerId: 'partner-a' }).expect(201);
+    await request(app).get('/api/admin/api-keys').set('X-API-Key', partnerKey.key).expect(403);
+    await request(app).get('/api/admin/rate-limits').set('X-API-Key', partnerKey.key).expect(403);
+
+    // No built-in master key
+    const withoutMaster = createApp(container, { enableApiAuth: true, masterApiKey: '' });
+    const unavailable = await request(withoutMaster).get('/api/admin/api-keys').set('X-API-Key', 'pk_master_admin_key_999').expect(503);
+    expect(unavailable.body.code).toBe('MASTER_KEY_NOT_CONFIGURED');
+    await request(withoutMaster).post('/api/feed/partner-a').set('X-API-Key', 'pk_master_admin_key_999').send(partnerAOrder('ORD-1')).expect(403);
+  });
+
+  it('should require the master key when API authentication is disabled', async () => {
+    const withoutAuth = createApp(container, { enableApiAuth: false, masterApiKey: MASTER_KEY });
+
+    await request(withoutAuth).post('/api/admin/api-keys').send({ partnerId: 'partner-a' }).expect(401);
+    await request(withoutAuth).get('/api/admin/api-keys').set('X-API-Key', 'guessed').expect(403);
+    expect(await container.apiKeyService.list()).toEqual([]);
+    await request(withoutAuth).post('/api/admin/api-keys').set('X-API-Key', MASTER_KEY).send({ partnerId: 'partner-a' }).expect(201);
+
+    const withoutMaster = createApp(container, { enableApiAuth: false, masterApiKey: '' });
+    await request(withoutMaster).post('/api/admin/api-keys').send({ partnerId: 'partner-a' }).expect(503);
+  });
+});
@@ -0,0 +1,167 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { ErrorCode, PartnerId } from '../../../../src/domain/models';
+
+describe('Errors Router', () => {
+  let app: Express;
+  let container: AppContainer;
+
+  const invalidPartnerAInput = {
+    orderId: 'ORD-A-001',
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 0,
+    unitPrice: 19.99,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  /** Submit an invalid order and return the ID of the recorded error event */
+  const recordError = async (): Promise<string> => {
+    await request(app).post('/api/feed/partner-a').send(invalidPartnerAInput).expect(422);
+    await flush();
+    const list = await request(app).get('/api/errors').expect(200);
+    return list.body.data[0].id;
+  };
+
+  beforeEach(() => {
+    container = createContainer();
+    app = createApp(container);
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.orderStream.removeAllListeners();
+  });
+
+  describe('GET /api/errors', () => {
+    it('should keep the field-level errors and classify the event by them', async () => {
+      const id = await recordError();
+
+      const response = await request(app).get(`/api/errors/${id}`).expect(200);
+      expect(response.body.error).toMatchObject({
+        errorCode: ErrorCode.ZERO_VALUE,
+        details: [
+          {
+            field: 'quantity',
+            errorCode: ErrorCode.ZERO_VALUE,
+            message: 'Quantity must be a positive integer',
+            receivedValue: 0,
+            expectedType: 'positive integer',
+          },
+        ],
+      });
+
+      const stats = await request(app).get('/api/errors/stats').expect(200);
+      expect(stats.body.statistics.errorsByCode).toEqual({ [ErrorCode.ZERO_VALUE]: 1 });
+    });
+
+    it('should filter by the error code of any field-level error', async () => {
+      await request(app)
+        .post('/api/feed/partner-a')
+        .send({ ...invalidPartnerAInput, orderId: 'ORD-A-002', unitPrice: -1 })
+        .expect(422);
+      await flush();
+
+      const negative = await request(app).get(`/api/errors?errorCode=${ErrorCode.NEGATIVE_NUMBER}`).expect(200);
+      expect(negative.body.data.map((error: { externalOrderId: string }) => error.externalOrderId)).toEqual(['ORD-A-002']);
+      const zero = await request(app).get(`/api/errors?errorCode=${ErrorCode.ZERO_VALUE}`).expect(200);
+      expect(zero.body.total).toBe(1);
+    });
+  });
+
+  describe('POST /api/errors/:id/preview', () => {
+    it('should preview the stored or an edited payload', async () => {
+      const id = await recordError();
+
+      const stored = await request(app).post(`/api/errors/${id}/preview`).send({}).expect(200);
+      expect(stored.body.preview).toMatchObject({ valid: false, errors: ['quantity: Quantity must be a positive integer'] });
+
+      const edited = await request(app)
+        .post(`/api/errors/${id}/preview`)
+        .send({ payload: { ...invalidPartnerAInput, quantity: 2 } })
+        .expect(200);
+      expect(edited.body.preview).toMatchObject({ valid: true, orderEvent: { grossAmount: 39.98 } });
+    });
+
+    it('should return 404 for unknown error events', async () => {
+      const response = await request(app).post('/api/errors/missing/preview').send({}).expect(404);
+
+      expect(response.body.errorCode).toBe(ErrorCode.ERROR_NOT_FOUND);
+    });
+  });
+
+  describe('POST /api/errors/:id/reprocess', () => {
+    it('should accept the fixed payload and resolve the error event', async () => {
+      const id = await recordError();
+
+      const response = await request(app)
+        .post(`/api/errors/${id}/reprocess`)
+        .send({ payload: { ...invalidPartnerAInput, quantity: 2 } })
+        .expect(200);
+
+      expect(response.body.order).toMatchObject({ orderId: 'ORD-A-001', sequenceNumber: 1 });
+      expect(response.body.error.resolution.orderEventId).toBe(response.body.order.orderEventId);
+
+      await flush();
+      await request(app).get(`/api/orders/${response.body.order.orderEventId}`).expect(200);
+      const resolved = await request(app).get('/api/errors?resolved=true').expect(200);
+      expect(resolved.body.data.map((error: { id: string }) => error.id)).toEqual([id]);
+      const stats = await request(app).get('/api/errors/stats').expect(200);
+      expect(stats.body.statistics.resolvedErrors).toBe(1);
+
+      await request(app).post(`/api/errors/${id}/reprocess`).send({}).expect(409);
+    });
+
+    it('should return 422 with the errors when the payload still fails', async () => {
+      const id = await recordError();
+
+      const response = await request(app).post(`/api/errors/${id}/reprocess`).send({}).expect(422);
+
+      expect(response.body).toMatchObject({
+        status: 'error',
+        errors: ['quantity: Quantity must be a positive integer'],
+      });
+    });
+
+    it("should count reprocessed orders towards the partner's rate limits", async () => {
+      const id = await recordError();
+      const usedBefore = container.rateLimiter.getUsage(PartnerId.PARTNER_A).daily.used;
+
+      await request(app).post(`/api/errors/${id}/reprocess`).send({}).expect(422);
+      expect(container.rateLimiter.getUsage(PartnerId.PARTNER_A).daily.used).toBe(usedBefore + 1);
+
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      container.rateLimiter.charge(PartnerId.PARTNER_A, 'single', 1000);
+      const refused = await request(app)
+        .post(`/api/errors/${id}/reprocess`)
+        .send({ payload: { ...invalidPartnerAInput, quantity: 2 } })
+        .expect(429);
+      expect(refused.body.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(refused.headers['retry-after']).toBeDefined();
+      jest.restoreAllMocks();
+    });
+
+    it('should require the master key when API authentication is enabled', async () => {
+      const id = await recordError();
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const authApp = createApp(container, { enableApiAuth: true, masterApiKey: 'master-key-for-tests' });
+      const fixed = { payload: { ...invalidPartnerAInput, quantity: 2 } };
+
+      await request(authApp).post(`/api/errors/${id}/reprocess`).send(fixed).expect(401);
+      await request(authApp).post(`/api/errors/${id}/reprocess`).set('X-API-Key', 'pk_guessed').send(fixed).expect(403);
+      await request(authApp).post(`/api/errors/${id}/preview`).send(fixed).expect(401);
+      await request(authApp).get(`/api/errors/${id}`).expect(200);
+
+      await request(authApp)
+        .post(`/api/errors/${id}/reprocess`)
+        .set('X-API-Key', 'master-key-for-tests')
+        .send(fixed)
+        .expect(200);
+      jest.restoreAllMocks();
+    });
+  });
+});
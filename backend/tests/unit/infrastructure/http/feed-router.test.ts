@@ -1,7 +1,8 @@
 import request from 'supertest';
 import { Express } from 'express';
 import { createApp, createContainer, AppContainer } from '../../../../src/app';
-import { PartnerAInput, PartnerBInput, PartnerId } from '../../../../src/domain/models';
+import { PartnerAInput, PartnerBInput, PartnerId, CreateOrderEventInput, ValidationResult, ErrorCode } from '../../../../src/domain/models';
+import { IPartnerAdapter } from '../../../../src/domain/ports';
 
 describe('Feed Router', () => {
   let app: Express;
@@ -94,6 +95,44 @@ describe('Feed Router', () => {
       expect(response2.body.sequenceNumber).toBe(2);
     });
 
+    it('should accept a multi-line order and store its lines', async () => {
+      const { skuId, quantity, unitPrice, ...order } = validPartnerAInput;
+      await request(app)
+        .post('/api/feed/partner-a')
+        .send({ ...order, lineItems: [{ skuId, quantity, unitPrice }, { skuId: 'SKU-456', quantity: 1, unitPrice: 5 }] })
+        .expect(202);
+
+      const stored = await container.orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A);
+      expect(stored!.lineItems!.map((line) => line.productId)).toEqual(['SKU-123', 'SKU-456']);
+      expect(stored!.grossAmount).toBe(104.95);
+
+      const byProduct = await request(app).get('/api/orders?productId=SKU-456').expect(200);
+      expect(byProduct.body.total).toBe(1);
+    });
+
+    it('should accept a suspicious order with warnings', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a')
+        .send({ ...validPartnerAInput, quantity: 5000, taxRate: 0 })
+        .expect(202);
+
+      expect(response.body.warnings).toEqual(['quantity: Quantity 5000 is unusually high', 'taxRate: Tax rate is zero']);
+
+      const stored = await container.orderRepository.findByExternalId('ORD-A-001', PartnerId.PARTNER_A);
+      expect(stored!.warnings!.map((warning) => warning.errorCode)).toEqual([ErrorCode.HIGH_QUANTITY, ErrorCode.ZERO_TAX_RATE]);
+
+      await request(app).post('/api/feed/partner-a').send({ ...validPartnerAInput, orderId: 'ORD-A-002' }).expect(202);
+
+      const flagged = await request(app).get('/api/orders?hasWarnings=true').expect(200);
+      expect(flagged.body.data.map((order: { externalOrderId: string }) => order.externalOrderId)).toEqual(['ORD-A-001']);
+      const byCode = await request(app).get('/api/orders?warningCode=zero_tax_rate').expect(200);
+      expect(byCode.body.total).toBe(1);
+
+      const stats = await request(app).get('/api/orders/stats').expect(200);
+      expect(stats.body.statistics.ordersWithWarnings).toBe(1);
+      expect(stats.body.statistics.warningsByCode).toEqual({ HIGH_QUANTITY: 1, ZERO_TAX_RATE: 1 });
+    });
+
     it('should emit valid orders to stream', async () => {
       await request(app)
         .post('/api/feed/partner-a')
@@ -230,6 +269,528 @@ describe('Feed Router', () => {
     });
   });
 
+  describe('atomic batches', () => {
+    it('should accept the whole batch', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a/batch?atomic=true')
+        .send([validPartnerAInput, { ...validPartnerAInput, orderId: 'ORD-A-002' }])
+        .expect(200);
+
+      expect(response.body).toMatchObject({ total: 2, accepted: 2, rejected: 0 });
+    });
+
+    it('should return 422 and accept nothing when an order is invalid', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a/batch?atomic=true')
+        .send([validPartnerAInput, { ...validPartnerAInput, orderId: 'ORD-A-002', quantity: 0 }])
+        .expect(422);
+
+      expect(response.body).toMatchObject({ total: 2, accepted: 0, rejected: 2 });
+      expect(response.body.results[0].errorCode).toBe('BATCH_ABORTED');
+
+      const orders = await request(app).get('/api/orders').expect(200);
+      expect(orders.body.data).toHaveLength(0);
+    });
+
+    it('should not combine with asynchronous processing', async () => {
+      await request(app)
+        .post('/api/feed/partner-a/batch?atomic=true&async=true')
+        .send([validPartnerAInput])
+        .expect(400);
+    });
+  });
+
+  describe('amendments and cancellations', () => {
+    beforeEach(async () => {
+      await request(app).post('/api/feed/partner-a').send(validPartnerAInput).expect(202);
+    });
+
+    it('should amend an order and update statistics', async () => {
+      const response = await request(app)
+        .put('/api/feed/partner-a/orders/ORD-A-001')
+        .send({ ...validPartnerAInput, quantity: 1 })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ status: 'amended', orderId: 'ORD-A-001', revision: 2 });
+
+      const stats = await request(app).get('/api/orders/stats').expect(200);
+      expect(stats.body.statistics.totalGrossAmount).toBe(validPartnerAInput.unitPrice);
+    });
+
+    it('should cancel an order and exclude it from statistics', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a/orders/ORD-A-001/cancel')
+        .send({ reason: 'Customer request' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ status: 'cancelled', revision: 2 });
+
+      const stats = await request(app).get('/api/orders/stats').expect(200);
+      expect(stats.body.statistics).toMatchObject({ totalOrders: 0, cancelledOrders: 1 });
+
+      const amended = await request(app)
+        .put('/api/feed/partner-a/orders/ORD-A-001')
+        .send(validPartnerAInput)
+        .expect(409);
+      expect(amended.body.errorCode).toBe('ORDER_CANCELLED');
+    });
+
+    it('should return 404 for unknown orders and 422 for invalid amendments', async () => {
+      await request(app).post('/api/feed/partner-a/orders/ORD-A-404/cancel').expect(404);
+      await request(app)
+        .put('/api/feed/partner-a/orders/ORD-A-001')
+        .send({ ...validPartnerAInput, quantity: 0 })
+        .expect(422);
+      await request(app)
+        .post('/api/feed/partner-a/orders/ORD-A-001/cancel')
+        .send({ reason: 42 })
+        .expect(400);
+    });
+  });
+
+  describe('asynchronous batches', () => {
+    it('should queue the batch and expose progress at /api/jobs/:id', async () => {
+      const inputs = [validPartnerAInput, { ...validPartnerAInput, orderId: 'ORD-A-002', quantity: 0 }];
+
+      const queued = await request(app)
+        .post('/api/feed/partner-a/batch?async=true')
+        .send(inputs)
+        .expect(202);
+
+      expect(queued.body).toMatchObject({ status: 'queued', total: 2 });
+      expect(queued.headers.location).toBe(`/api/jobs/${queued.body.jobId}`);
+
+      await container.batchJobService.waitForJob(queued.body.jobId);
+
+      const response = await request(app).get(queued.body.statusUrl).expect(200);
+
+      expect(response.body.job).toMatchObject({
+        id: queued.body.jobId,
+        status: 'COMPLETED',
+        total: 2,
+        accepted: 1,
+        rejected: 1,
+        pending: 0,
+      });
+      expect(response.body.job.results).toHaveLength(2);
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      await request(app).get('/api/jobs/does-not-exist').expect(404);
+    });
+
+    it('should still validate the request body synchronously', async () => {
+      await request(app)
+        .post('/api/feed/partner-a/batch?async=true')
+        .send(validPartnerAInput)
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/feed/:partnerSlug/csv', () => {
+    const postCsv = (path: string, csv: string) =>
+      request(app).post(path).set('Content-Type', 'text/csv').send(csv);
+
+    it('should process Partner A rows with type coercion', async () => {
+      // The 2024 transaction times are accepted with a warning
+      const staleWarning = expect.stringMatching(/^transactionTimeMs: Transaction time is \d+ days in the past$/);
+      const csv = [
+        'orderId,skuId,customerId,quantity,unitPrice,taxRate,transactionTimeMs,metadata.channel',
+        'ORD-CSV-1,SKU-1,CUST-1,2,19.99,0.08,2024-01-15T10:30:00Z,web',
+        'ORD-CSV-2,SKU-2,CUST-2,1,5,0.1,1705314600000,',
+      ].join('\n');
+
+      const response = await postCsv('/api/feed/partner-a/csv', csv).expect(200);
+
+      expect(response.body).toEqual({
+        total: 2,
+        accepted: 2,
+        rejected: 0,
+        results: [
+          { row: 2, status: 'accepted', orderId: 'ORD-CSV-1', partnerId: PartnerId.PARTNER_A, sequenceNumber: 1, warnings: [staleWarning] },
+          { row: 3, status: 'accepted', orderId: 'ORD-CSV-2', partnerId: PartnerId.PARTNER_A, sequenceNumber: 2, warnings: [staleWarning] },
+        ],
+      });
+
+      const stored = await container.orderRepository.findByExternalId('ORD-CSV-1', PartnerId.PARTNER_A);
+      expect(stored).toMatchObject({
+        quantity: 2,
+        unitPrice: 19.99,
+        transactionTime: '2024-01-15T10:30:00.000Z',
+        metadata: { channel: 'web' },
+      });
+    });
+
+    it('should read line items from a JSON column', async () => {
+      const csv = [
+        'orderId,customerId,taxRate,transactionTimeMs,lineItems',
+        'ORD-CSV-1,CUST-1,0.1,1705314600000,"[{""skuId"":""SKU-1"",""quantity"":2,""unitPrice"":10}]"',
+      ].join('\n');
+
+      const response = await postCsv('/api/feed/partner-a/csv', csv).expect(200);
+
+      expect(response.body.accepted).toBe(1);
+      const stored = await container.orderRepository.findByExternalId('ORD-CSV-1', PartnerId.PARTNER_A);
+      expect(stored).toMatchObject({ productId: 'SKU-1', quantity: 2, netAmount: 22 });
+    });
+
+    it('should process Partner B rows', async () => {
+      const csv = [
+        'transactionId,itemCode,clientId,qty,price,tax,purchaseTime,notes',
+        'TXN-CSV-1,ITEM-1,CLIENT-1,3,29.99,8.5,2024-01-15T10:30:00Z,"Gift, wrapped"',
+      ].join('\r\n');
+
+      const response = await postCsv('/api/feed/partner-b/csv', csv).expect(200);
+
+      expect(response.body.accepted).toBe(1);
+    });
+
+    it('should reject only the row with an out-of-range timestamp', async () => {
+      const csv = [
+        'transactionId,itemCode,clientId,qty,price,tax,purchaseTime',
+        'TXN-CSV-1,ITEM-1,CLIENT-1,3,29.99,8.5,1e20',
+        'TXN-CSV-2,ITEM-1,CLIENT-1,3,29.99,8.5,2024-01-15T10:30:00Z',
+      ].join('\n');
+
+      const response = await postCsv('/api/feed/partner-b/csv', csv).expect(200);
+
+      expect(response.body).toMatchObject({ total: 2, accepted: 1, rejected: 1 });
+      expect(response.body.results[0].errors[0]).toMatch(/^Row 2: purchaseTime:/);
+    });
+
+    it('should report rejected rows with their row numbers', async () => {
+      const csv = [
+        'orderId,skuId,customerId,quantity,unitPrice,taxRate,transactionTimeMs',
+        'ORD-CSV-1,SKU-1,CUST-1,2,19.99,0.08,1705314600000',
+        'ORD-CSV-2,SKU-2,CUST-2,many,19.99,0.08,1705314600000',
+        '',
+        'ORD-CSV-1,SKU-1,CUST-1,2,19.99,0.08,1705314600000',
+        'ORD-CSV-3,SKU-3,CUST-3,1,1,0,1705314600000,extra',
+      ].join('\n');
+
+      const response = await postCsv('/api/feed/partner-a/csv', csv).expect(200);
+
+      expect(response.body.total).toBe(4);
+      expect(response.body.accepted).toBe(1);
+      expect(response.body.rejected).toBe(3);
+
+      const [, invalid, duplicate, extra] = response.body.results;
+      expect(invalid).toMatchObject({ row: 3, status: 'rejected', orderId: 'ORD-CSV-2' });
+      expect(invalid.errors[0]).toMatch(/^Row 3: quantity:/);
+      expect(duplicate).toMatchObject({ row: 5, errorCode: 'DUPLICATE_ORDER' });
+      expect(duplicate.errors[0]).toMatch(/^Row 5: orderId: Duplicate order/);
+      expect(extra).toMatchObject({
+        row: 6,
+        orderId: 'ORD-CSV-3',
+        errors: ['Row 6: Expected 7 columns but found 8'],
+      });
+
+      // Unreadable rows are recorded as error events like other rejections
+      const { data: errorEvents } = await container.errorRepository.findMany({ errorCode: ErrorCode.INVALID_DATA_TYPE });
+      expect(errorEvents).toEqual([
+        expect.objectContaining({
+          externalOrderId: 'ORD-CSV-3',
+          originalPayload: ['ORD-CSV-3', 'SKU-3', 'CUST-3', '1', '1', '0', '1705314600000', 'extra'],
+        }),
+      ]);
+    });
+
+    it('should reject non-CSV bodies with 415', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a/csv')
+        .send(validPartnerAInput)
+        .expect(415);
+
+      expect(response.body.status).toBe('error');
+    });
+
+    it('should reject malformed CSV with 400', async () => {
+      await postCsv('/api/feed/partner-a/csv', '').expect(400);
+      await postCsv('/api/feed/partner-a/csv', 'orderId,orderId\nA,B').expect(400);
+
+      const response = await postCsv('/api/feed/partner-a/csv', 'orderId\n"unterminated').expect(400);
+      expect(response.body.message).toContain('Unterminated quoted field');
+    });
+  });
+
+  describe('POST /api/feed/:partnerSlug/stream', () => {
+    const postNdjson = (path: string, body: string) =>
+      request(app)
+        .post(path)
+        .set('Content-Type', 'application/x-ndjson')
+        .buffer(true)
+        .parse((res, callback) => {
+          let data = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => (data += chunk));
+          res.on('end', () => callback(null, data.trim().split('\n').map((line) => JSON.parse(line))));
+        })
+        .send(body);
+
+    it('should stream per-line results and a summary', async () => {
+      const body = [
+        JSON.stringify({ ...validPartnerAInput, orderId: 'ORD-S-1' }),
+        JSON.stringify({ ...validPartnerAInput, orderId: 'ORD-S-2', quantity: 0 }),
+        '{not json',
+        '',
+        JSON.stringify({ ...validPartnerAInput, orderId: 'ORD-S-1' }),
+      ].join('\n');
+
+      const response = await postNdjson('/api/feed/partner-a/stream', body).expect(200);
+
+      expect(response.headers['content-type']).toMatch(/application\/x-ndjson/);
+      const [accepted, invalid, malformed, duplicate, summary] = response.body;
+      expect(accepted).toEqual({
+        line: 1,
+        status: 'accepted',
+        orderId: 'ORD-S-1',
+        partnerId: PartnerId.PARTNER_A,
+        sequenceNumber: 1,
+      });
+      expect(invalid).toMatchObject({ line: 2, status: 'rejected', orderId: 'ORD-S-2' });
+      expect(invalid.errors[0]).toMatch(/^Line 2: quantity:/);
+      expect(malformed).toMatchObject({ line: 3, errors: ['Line 3: Invalid JSON'] });
+      expect(duplicate).toMatchObject({ line: 5, errorCode: 'DUPLICATE_ORDER' });
+      expect(summary).toEqual({ summary: { total: 4, accepted: 1, rejected: 3 } });
+
+      const stats = await container.errorRepository.getStatistics();
+      expect(stats.totalErrors).toBe(3);
+      const { data: [unreadable] } = await container.errorRepository.findMany({ errorCode: ErrorCode.INVALID_DATA_TYPE });
+      expect(unreadable).toMatchObject({ externalOrderId: 'unknown', originalPayload: '{not json' });
+    });
+
+    it('should process large streams', async () => {
+      const count = 1000;
+      const body = Array.from({ length: count }, (_, i) =>
+        JSON.stringify({ ...validPartnerBInput, transactionId: `TXN-S-${i}` })
+      ).join('\n');
+
+      const response = await postNdjson('/api/feed/partner-b/stream', body).expect(200);
+
+      expect(response.body).toHaveLength(count + 1);
+      expect(response.body[count]).toEqual({ summary: { total: count, accepted: count, rejected: 0 } });
+      expect(response.body[count - 1].sequenceNumber).toBe(count);
+    });
+
+    it('should reject other content types with 415', async () => {
+      await request(app)
+        .post('/api/feed/partner-a/stream')
+        .send([validPartnerAInput])
+        .expect(415);
+    });
+  });
+
+  describe('duplicate orders', () => {
+    it('should reject a resubmitted order with 409 and DUPLICATE_ORDER', async () => {
+      await request(app)
+        .post('/api/feed/partner-a')
+        .send(validPartnerAInput)
+        .expect(202);
+
+      const response = await request(app)
+        .post('/api/feed/partner-a')
+        .send(validPartnerAInput)
+        .expect(409);
+
+      expect(response.body.status).toBe('rejected');
+      expect(response.body.errorCode).toBe('DUPLICATE_ORDER');
+    });
+
+    it('should record duplicates as DUPLICATE_ORDER error events', async () => {
+      await request(app).post('/api/feed/partner-b').send(validPartnerBInput).expect(202);
+      await request(app).post('/api/feed/partner-b').send(validPartnerBInput).expect(409);
+
+      const stats = await container.errorRepository.getStatistics();
+      expect(stats.errorsByCode).toEqual({ DUPLICATE_ORDER: 1 });
+    });
+
+    it('should report duplicates within a batch', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a/batch')
+        .send([validPartnerAInput, validPartnerAInput])
+        .expect(200);
+
+      expect(response.body.accepted).toBe(1);
+      expect(response.body.rejected).toBe(1);
+      expect(response.body.results[1].errorCode).toBe('DUPLICATE_ORDER');
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    it('should replay the original 202 response for a repeated key', async () => {
+      const first = await request(app)
+        .post('/api/feed/partner-a')
+        .set('Idempotency-Key', 'key-001')
+        .send(validPartnerAInput)
+        .expect(202);
+
+      const replay = await request(app)
+        .post('/api/feed/partner-a')
+        .set('Idempotency-Key', 'key-001')
+        .send(validPartnerAInput)
+        .expect(202);
+
+      expect(replay.body).toEqual(first.body);
+      expect(replay.body.sequenceNumber).toBe(1);
+      expect(replay.headers['idempotent-replayed']).toBe('true');
+      expect(container.orderStream.getValidOrderHistory().length).toBe(1);
+      expect(container.orderStream.getErrorOrderHistory().length).toBe(0);
+    });
+
+    it('should replay batch responses', async () => {
+      const inputs = [validPartnerBInput, { ...validPartnerBInput, transactionId: 'TXN-B-002' }];
+
+      const first = await request(app)
+        .post('/api/feed/partner-b/batch')
+        .set('Idempotency-Key', 'batch-001')
+        .send(inputs)
+        .expect(200);
+
+      const replay = await request(app)
+        .post('/api/feed/partner-b/batch')
+        .set('Idempotency-Key', 'batch-001')
+        .send(inputs)
+        .expect(200);
+
+      expect(replay.body).toEqual(first.body);
+      expect(replay.body.accepted).toBe(2);
+    });
+
+    it('should reject reuse of a key with a different body', async () => {
+      await request(app)
+        .post('/api/feed/partner-a')
+        .set('Idempotency-Key', 'key-002')
+        .send(validPartnerAInput)
+        .expect(202);
+
+      const response = await request(app)
+        .post('/api/feed/partner-a')
+        .set('Idempotency-Key', 'key-002')
+        .send({ ...validPartnerAInput, orderId: 'ORD-A-999' })
+        .expect(422);
+
+      expect(response.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    });
+
+    it('should scope keys per endpoint', async () => {
+      await request(app)
+        .post('/api/feed/partner-a')
+        .set('Idempotency-Key', 'shared-key')
+        .send(validPartnerAInput)
+        .expect(202);
+
+      const response = await request(app)
+        .post('/api/feed/partner-b')
+        .set('Idempotency-Key', 'shared-key')
+        .send(validPartnerBInput)
+        .expect(202);
+
+      expect(response.body.orderId).toBe('TXN-B-001');
+    });
+
+    it('should return 400 for an empty key', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-a')
+        .set('Idempotency-Key', ' ')
+        .send(validPartnerAInput)
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_IDEMPOTENCY_KEY');
+    });
+  });
+
+  describe('registered partners', () => {
+    /**
+     * Partner C sends { ref, sku, amount } and is registered at container creation.
+     */
+    const partnerCAdapter: IPartnerAdapter<{ ref: string; sku: string; amount: number }> = {
+      partnerId: 'PARTNER_C',
+      slug: 'partner-c',
+      displayName: 'Partner C',
+      idField: 'ref',
+      inputSchema: { type: 'object', required: ['ref', 'amount'] },
+      validate(input: unknown): ValidationResult<{ ref: string; sku: string; amount: number }> {
+        const obj = input as Record<string, unknown>;
+        if (typeof obj.ref !== 'string' || typeof obj.amount !== 'number') {
+          return { isValid: false, errors: [{ field: 'ref', errorCode: ErrorCode.MISSING_REQUIRED_FIELD, message: 'ref and amount are required' }] };
+        }
+        return { isValid: true, data: obj as { ref: string; sku: string; amount: number }, errors: [] };
+      },
+      toOrderInput(input): CreateOrderEventInput {
+        return {
+          externalOrderId: input.ref,
+          partnerId: 'PARTNER_C',
+          productId: input.sku,
+          customerId: 'CUST-C',
+          quantity: 1,
+          unitPrice: input.amount,
+          taxRate: 0,
+          transactionTime: new Date().toISOString(),
+        };
+      },
+    };
+
+    beforeEach(() => {
+      container = createContainer({ partners: [partnerCAdapter] });
+      app = createApp(container);
+    });
+
+    it('should accept orders on the generic route of a registered partner', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-c')
+        .send({ ref: 'C-001', sku: 'SKU-C', amount: 12.5 })
+        .expect(202);
+
+      expect(response.body).toEqual({
+        status: 'accepted',
+        orderId: 'C-001',
+        partnerId: 'PARTNER_C',
+        sequenceNumber: 1,
+      });
+    });
+
+    it('should process batches for a registered partner', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-c/batch')
+        .send([{ ref: 'C-001', sku: 'SKU-C', amount: 1 }, { ref: 'C-002' }])
+        .expect(200);
+
+      expect(response.body.accepted).toBe(1);
+      expect(response.body.rejected).toBe(1);
+    });
+
+    it('should include registered partners in statistics', async () => {
+      await request(app).post('/api/feed/partner-c').send({ ref: 'C-001', sku: 'SKU-C', amount: 1 });
+
+      const response = await request(app).get('/api/orders/stats').expect(200);
+
+      expect(response.body.statistics.ordersByPartner).toEqual({
+        PARTNER_A: 0,
+        PARTNER_B: 0,
+        PARTNER_C: 1,
+      });
+    });
+
+    it('should list registered partners', async () => {
+      const response = await request(app).get('/api/partners').expect(200);
+
+      expect(response.body.partners.map((p: { slug: string }) => p.slug)).toEqual([
+        'partner-a',
+        'partner-b',
+        'partner-c',
+      ]);
+    });
+
+    it('should return 404 for an unregistered partner slug', async () => {
+      const response = await request(app)
+        .post('/api/feed/partner-z')
+        .send({ ref: 'Z-001' })
+        .expect(404);
+
+      expect(response.body.code).toBe('UNKNOWN_PARTNER');
+    });
+  });
+
   describe('GET /health', () => {
     it('should return healthy status', async () => {
       const response = await request(app)
@@ -1,4 +1,7 @@
 import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Express } from 'express';
 import { createApp, createContainer, AppContainer } from '../../../../src/app';
 import { PartnerAInput, PartnerBInput, PartnerId, OrderEvent } from '../../../../src/domain/models';
@@ -153,6 +156,30 @@ describe('Orders Router', () => {
       expect(response.body.statistics.totalGrossAmount).toBeGreaterThan(0);
     });
 
+    it('should total orders in the base currency', async () => {
+      const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fx-'));
+      const fxRatesFile = path.join(configDir, 'fx-rates.json');
+      fs.writeFileSync(fxRatesFile, JSON.stringify({
+        baseCurrency: 'USD',
+        rates: [{ currency: 'EUR', rate: 1.5, effectiveFrom: '2024-01-01' }],
+      }));
+
+      try {
+        container = createContainer({ fxRatesFile });
+        app = createApp(container);
+
+        await request(app).post('/api/feed/partner-a').send({ ...validPartnerAInput, unitPrice: 20, currency: 'EUR' }).expect(202);
+        await request(app).post('/api/feed/partner-b').send({ ...validPartnerBInput, qty: 1, price: 50 }).expect(202);
+        await request(app).post('/api/feed/partner-b').send({ ...validPartnerBInput, transactionId: 'TXN-B-002', currency: 'JPY' }).expect(422);
+
+        const response = await request(app).get('/api/orders/stats').expect(200);
+
+        expect(response.body.statistics).toMatchObject({ baseCurrency: 'USD', totalOrders: 2, totalGrossAmount: 200 });
+      } finally {
+        fs.rmSync(configDir, { recursive: true, force: true });
+      }
+    });
+
     it('should filter statistics by partner', async () => {
       await request(app).post('/api/feed/partner-a').send(validPartnerAInput);
       await request(app).post('/api/feed/partner-b').send(validPartnerBInput);
@@ -279,6 +306,92 @@ describe('Orders Router', () => {
     });
   });
 
+  describe('PATCH /api/orders/:id/status', () => {
+    let orderId: string;
+
+    beforeEach(async () => {
+      await request(app).post('/api/feed/partner-a').send(validPartnerAInput).expect(202);
+      const list = await request(app).get('/api/orders').expect(200);
+      orderId = list.body.data[0].id;
+    });
+
+    it('should change the status and record it in the history', async () => {
+      const response = await request(app)
+        .patch(`/api/orders/${orderId}/status`)
+        .send({ status: 'FULFILLED', reason: 'Shipped' })
+        .expect(200);
+
+      expect(response.body.order.status).toBe('FULFILLED');
+      expect(response.body.order.statusHistory).toEqual([
+        expect.objectContaining({ from: 'PROCESSED', to: 'FULFILLED', reason: 'Shipped' }),
+      ]);
+
+      const fetched = await request(app).get(`/api/orders/${orderId}`).expect(200);
+      expect(fetched.body.order.status).toBe('FULFILLED');
+    });
+
+    it('should filter orders by status', async () => {
+      await request(app).post('/api/feed/partner-b').send(validPartnerBInput).expect(202);
+      await request(app).patch(`/api/orders/${orderId}/status`).send({ status: 'FULFILLED' }).expect(200);
+
+      const fulfilled = await request(app).get('/api/orders?status=fulfilled').expect(200);
+      const processed = await request(app).get('/api/orders?status=PROCESSED').expect(200);
+
+      expect(fulfilled.body.data.map((o: OrderEvent) => o.id)).toEqual([orderId]);
+      expect(processed.body.total).toBe(1);
+    });
+
+    it('should return 400 for an unknown status filter', async () => {
+      const response = await request(app).get('/api/orders?status=FOO').expect(400);
+
+      expect(response.body).toMatchObject({ status: 'error', message: expect.stringMatching(/^Invalid status\. Use /) });
+      await request(app).get('/api/orders/stats?status=FOO').expect(400);
+    });
+
+    it('should return 409 for transitions the lifecycle does not allow', async () => {
+      const response = await request(app)
+        .patch(`/api/orders/${orderId}/status`)
+        .send({ status: 'REFUNDED' })
+        .expect(409);
+
+      expect(response.body).toMatchObject({
+        status: 'error',
+        message: 'Cannot change order status from PROCESSED to REFUNDED',
+        errorCode: 'INVALID_STATUS_TRANSITION',
+      });
+    });
+
+    it('should validate the request body', async () => {
+      await request(app).patch(`/api/orders/${orderId}/status`).send({ status: 'SHIPPED' }).expect(400);
+      await request(app).patch(`/api/orders/${orderId}/status`).send({ status: 'FULFILLED', reason: 42 }).expect(400);
+    });
+
+    it('should return 404 for unknown orders', async () => {
+      await request(app).patch('/api/orders/missing/status').send({ status: 'FULFILLED' }).expect(404);
+    });
+
+    it('should require the master key when API authentication is enabled', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const authApp = createApp(container, { enableApiAuth: true, masterApiKey: 'master-key-for-tests' });
+
+      await request(authApp).patch(`/api/orders/${orderId}/status`).send({ status: 'CANCELLED' }).expect(401);
+      await request(authApp)
+        .patch(`/api/orders/${orderId}/status`)
+        .set('X-API-Key', 'not-the-master-key')
+        .send({ status: 'CANCELLED' })
+        .expect(403);
+      const unchanged = await request(authApp).get(`/api/orders/${orderId}`).expect(200);
+      expect(unchanged.body.order.status).toBe('PROCESSED');
+
+      await request(authApp)
+        .patch(`/api/orders/${orderId}/status`)
+        .set('X-API-Key', 'master-key-for-tests')
+        .send({ status: 'FULFILLED' })
+        .expect(200);
+      jest.restoreAllMocks();
+    });
+  });
+
   describe('Integration: Feed to Query flow', () => {
     it('should persist and query multiple orders correctly', async () => {
       // Submit multiple orders
@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { PartnerId } from '../../../../src/domain/models';
+
+describe('Rate Limit Middleware', () => {
+  let app: Express;
+  let container: AppContainer;
+  let dir: string;
+
+  // Buckets that do not noticeably refill during a test
+  const limits = {
+    default: {
+      single: { capacity: 2, refillPerSecond: 0.01 },
+      batch: { capacity: 5, refillPerSecond: 0.01 },
+      dailyQuota: 1000,
+    },
+  };
+
+  const partnerAOrder = (orderId: string) => ({
+    orderId,
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 1,
+    unitPrice: 10,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  });
+
+  const setUp = (limitsDefinition: object, enableApiAuth = false) => {
+    fs.writeFileSync(path.join(dir, 'rate-limits.json'), JSON.stringify(limitsDefinition), 'utf-8');
+    container = createContainer({ rateLimitsFile: path.join(dir, 'rate-limits.json') });
+    app = createApp(container, { enableApiAuth, masterApiKey: 'master-key-for-tests' });
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limits-'));
+    setUp(limits);
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.orderStream.removeAllListeners();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should refuse single orders beyond the burst with 429 and Retry-After', async () => {
+    const first = await request(app).post('/api/feed/partner-a').send(partnerAOrder('ORD-1')).expect(202);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(first.headers['ratelimit-policy']).toBe('2;w=200;burst=2, 1000;w=86400');
+    await request(app).post('/api/feed/partner-a').send(partnerAOrder('ORD-2')).expect(202);
+
+    const refused = await request(app).post('/api/feed/partner-a').send(partnerAOrder('ORD-3')).expect(429);
+
+    expect(refused.body).toMatchObject({ status: 'error', code: 'RATE_LIMIT_EXCEEDED', retryAfterSeconds: 100 });
+    expect(refused.headers['retry-after']).toBe('100');
+    expect(refused.headers['ratelimit-remaining']).toBe('0');
+    expect(await container.orderRepository.findByExternalId('ORD-3', PartnerId.PARTNER_A)).toBeNull();
+
+    // Other partners and the batch endpoints have their own buckets
+    await request(app).post('/api/feed/partner-a/batch').send([partnerAOrder('ORD-4')]).expect(200);
+    const partnerB = await request(app).post('/api/feed/partner-b').send({}).expect(422);
+    expect(partnerB.headers['ratelimit-remaining']).toBe('1');
+  });
+
+  it('should count every order of a batch', async () => {
+    const batch = await request(app)
+      .post('/api/feed/partner-a/batch')
+      .send([partnerAOrder('ORD-1'), partnerAOrder('ORD-2'), partnerAOrder('ORD-3')])
+      .expect(200);
+    expect(batch.headers['ratelimit-remaining']).toBe('2');
+
+    const refused = await request(app)
+      .post('/api/feed/partner-a/batch')
+      .send([partnerAOrder('ORD-4'), partnerAOrder('ORD-5'), partnerAOrder('ORD-6')])
+      .expect(429);
+    expect(refused.body.code).toBe('RATE_LIMIT_EXCEEDED');
+
+    const csv = ['orderId,skuId,customerId,quantity,unitPrice,taxRate,transactionTimeMs', 'ORD-7,SKU-1,CUST-1,1,10,0.08,2024-01-15T10:30:00Z', 'ORD-8,SKU-1,CUST-1,1,10,0.08,2024-01-15T10:30:00Z', 'ORD-9,SKU-1,CUST-1,1,10,0.08,2024-01-15T10:30:00Z'].join('\n');
+    await request(app).post('/api/feed/partner-a/csv').set('Content-Type', 'text/csv').send(csv).expect(429);
+  });
+
+  it('should refuse batches larger than the bucket with 413', async () => {
+    const orders = Array.from({ length: 6 }, (_, i) => partnerAOrder(`ORD-${i}`));
+
+    const response = await request(app).post('/api/feed/partner-a/batch').send(orders).expect(413);
+
+    expect(response.body).toEqual({
+      status: 'error',
+      code: 'BATCH_TOO_LARGE',
+      message: 'Batch of 6 orders exceeds the limit of 5 orders per request',
+    });
+  });
+
+  const sendStream = (orderIds: string[]) =>
+    request(app)
+      .post('/api/feed/partner-a/stream')
+      .set('Content-Type', 'application/x-ndjson')
+      .send(orderIds.map((id) => JSON.stringify(partnerAOrder(id))).join('\n'))
+      .expect(200);
+  const readLines = (text: string) => text.trim().split('\n').map((line) => JSON.parse(line));
+
+  it('should take a token for every line of an NDJSON stream', async () => {
+    await sendStream(['ORD-1', 'ORD-2', 'ORD-3', 'ORD-4']);
+
+    expect(container.rateLimiter.getUsage('PARTNER_A')).toMatchObject({
+      batch: { available: 1 },
+      daily: { used: 4 },
+    });
+    await request(app).post('/api/feed/partner-a/batch').send([partnerAOrder('ORD-5'), partnerAOrder('ORD-6')]).expect(429);
+  });
+
+  it('should stop an NDJSON stream once the bucket is exhausted', async () => {
+    const response = await sendStream(['ORD-1', 'ORD-2', 'ORD-3', 'ORD-4', 'ORD-5', 'ORD-6', 'ORD-7']);
+    const lines = readLines(response.text);
+
+    expect(lines).toHaveLength(6);
+    expect(lines[4]).toMatchObject({ line: 5, status: 'accepted' });
+    expect(lines[5]).toMatchObject({
+      status: 'error',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfterSeconds: 100,
+      summary: { total: 5, accepted: 5, rejected: 0 },
+    });
+    expect(await container.orderRepository.findByExternalId('ORD-6', PartnerId.PARTNER_A)).toBeNull();
+    expect(container.rateLimiter.getUsage('PARTNER_A')).toMatchObject({ batch: { available: 0 }, daily: { used: 5 } });
+  });
+
+  it('should stop an NDJSON stream once the daily quota is exhausted', async () => {
+    setUp({ default: { ...limits.default, dailyQuota: 3 } });
+    await request(app).post('/api/feed/partner-a').send(partnerAOrder('ORD-1')).expect(202);
+
+    const response = await sendStream(['ORD-2', 'ORD-3', 'ORD-4', 'ORD-5']);
+    const lines = readLines(response.text);
+
+    expect(lines.map((line) => line.orderId ?? line.code)).toEqual(['ORD-2', 'ORD-3', 'DAILY_QUOTA_EXCEEDED']);
+    expect(lines[2]).toMatchObject({
+      message: 'Daily quota of 3 orders exceeded',
+      summary: { total: 2, accepted: 2, rejected: 0 },
+    });
+    expect(await container.orderRepository.count()).toBe(3);
+    expect(container.rateLimiter.getUsage('PARTNER_A').daily).toMatchObject({ used: 3, remaining: 0 });
+  });
+
+  it('should not charge replayed idempotent requests or store refusals', async () => {
+    const send = (order: object, key: string) =>
+      request(app).post('/api/feed/partner-a').set('Idempotency-Key', key).send(order);
+    const order = partnerAOrder('ORD-1');
+
+    await send(order, 'key-1').expect(202);
+    const replay = await send(order, 'key-1').expect(202);
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(container.rateLimiter.getUsage('PARTNER_A').daily.used).toBe(1);
+
+    await send(partnerAOrder('ORD-2'), 'key-2').expect(202);
+    await send(partnerAOrder('ORD-3'), 'key-3').expect(429);
+    expect(await container.idempotencyStore.find('/api/feed/partner-a:key-3')).toBeNull();
+  });
+
+  it('should enforce the daily quota', async () => {
+    setUp({ default: { ...limits.default, dailyQuota: 2 } });
+    await request(app).post('/api/feed/partner-a/batch').send([partnerAOrder('ORD-1'), partnerAOrder('ORD-2')]).expect(200);
+
+    const refused = await request(app).post('/api/feed/partner-a').send(partnerAOrder('ORD-3')).expect(429);
+
+    expect(refused.body.code).toBe('DAILY_QUOTA_EXCEEDED');
+    expect(refused.headers['ratelimit-limit']).toBe('2');
+    expect(Number(refused.headers['retry-after'])).toBeGreaterThan(0);
+    expect(Number(refused.headers['retry-after'])).toBeLessThanOrEqual(86400);
+  });
+
+  it('should limit the authenticated partner and let the master key through', async () => {
+    setUp(limits, true);
+    const send = (apiKey: string, orderId: string) =>
+      request(app).post('/api/feed/partner-a').set('X-API-Key', apiKey).send(partnerAOrder(orderId));
+
+    const { key: primary } = await container.apiKeyService.create(PartnerId.PARTNER_A);
+    const { key: backup } = await container.apiKeyService.create(PartnerId.PARTNER_A);
+
+    await send(primary, 'ORD-1').expect(202);
+    await send(backup, 'ORD-2').expect(202);
+    await send(primary, 'ORD-3').expect(429);
+
+    const master = await send('master-key-for-tests', 'ORD-4').expect(202);
+    expect(master.headers['ratelimit-limit']).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { signRequest } from '../../../../src/domain/services/request-signature';
+
+describe('Request Signing Middleware', () => {
+  let app: Express;
+  let container: AppContainer;
+  let dir: string;
+  let nonceCounter = 0;
+
+  const SECRET_A = 'partner-a-secret-0001';
+  const SECRET_B = 'partner-b-secret-0001';
+
+  const partnerAOrder = (orderId: string) => ({
+    orderId,
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 1,
+    unitPrice: 10,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  });
+
+  /**
+   * Send a request signed with the given secret (headers can be overridden)
+   */
+  const sendSigned = (
+    url: string,
+    body: string,
+    options: { secret?: string; contentType?: string; timestamp?: string; nonce?: string } = {}
+  ) => {
+    const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000).toString();
+    const nonce = options.nonce ?? `nonce-${Date.now()}-${++nonceCounter}`;
+    const signature = signRequest(options.secret ?? SECRET_A, { timestamp, nonce, method: 'POST', url, body });
+
+    return request(app)
+      .post(url)
+      .set('Content-Type', options.contentType ?? 'application/json')
+      .set('X-Signature-Timestamp', timestamp)
+      .set('X-Signature-Nonce', nonce)
+      .set('X-Signature', signature)
+      .send(body);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signing-'));
+    const signingFile = path.join(dir, 'request-signing.json');
+    fs.writeFileSync(signingFile, JSON.stringify({
+      toleranceSeconds: 60,
+      maxStreamBytes: 1024,
+      partners: {
+        PARTNER_A: { secrets: [SECRET_A] },
+        PARTNER_B: { secrets: [SECRET_B], required: false },
+      },
+    }), 'utf-8');
+    container = createContainer({ requestSigningFile: signingFile });
+    app = createApp(container);
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.orderStream.removeAllListeners();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should accept signed requests, including query strings', async () => {
+    await sendSigned('/api/feed/partner-a', JSON.stringify(partnerAOrder('ORD-1'))).expect(202);
+
+    const batch = await sendSigned('/api/feed/partner-a/batch?atomic=true', JSON.stringify([partnerAOrder('ORD-2')])).expect(200);
+    expect(batch.body.accepted).toBe(1);
+  });
+
+  it('should refuse unsigned requests of partners that must sign', async () => {
+    const response = await request(app).post('/api/feed/partner-a').send(partnerAOrder('ORD-1')).expect(401);
+
+    expect(response.body.code).toBe('MISSING_SIGNATURE');
+    expect(await container.orderRepository.count()).toBe(0);
+  });
+
+  it('should refuse requests whose body or target was changed after signing', async () => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify(partnerAOrder('ORD-1'));
+    const signature = signRequest(SECRET_A, { timestamp, nonce: 'nonce-tampered', method: 'POST', url: '/api/feed/partner-a', body });
+
+    const response = await request(app)
+      .post('/api/feed/partner-a/batch')
+      .set('Content-Type', 'application/json')
+      .set({ 'X-Signature-Timestamp': timestamp, 'X-Signature-Nonce': 'nonce-tampered', 'X-Signature': signature })
+      .send(`[${body}]`)
+      .expect(401);
+
+    expect(response.body.code).toBe('INVALID_SIGNATURE');
+    await sendSigned('/api/feed/partner-a', body, { secret: SECRET_B }).expect(401);
+  });
+
+  it('should refuse a captured request sent again', async () => {
+    const body = JSON.stringify(partnerAOrder('ORD-1'));
+    await sendSigned('/api/feed/partner-a', body, { nonce: 'nonce-replayed' }).expect(202);
+
+    const replay = await sendSigned('/api/feed/partner-a', body, { nonce: 'nonce-replayed' }).expect(401);
+
+    expect(replay.body.code).toBe('NONCE_REUSED');
+  });
+
+  it('should refuse timestamps outside the tolerance', async () => {
+    const stale = Math.floor(Date.now() / 1000 - 120).toString();
+    const body = JSON.stringify(partnerAOrder('ORD-1'));
+
+    const response = await sendSigned('/api/feed/partner-a', body, { timestamp: stale }).expect(401);
+
+    expect(response.body.code).toBe('INVALID_SIGNATURE_TIMESTAMP');
+    await sendSigned('/api/feed/partner-a', body, { timestamp: '2024-01-15T10:30:00Z' }).expect(401);
+  });
+
+  it('should verify signed NDJSON streams before processing them', async () => {
+    const body = ['ORD-1', 'ORD-2'].map((id) => JSON.stringify(partnerAOrder(id))).join('\n');
+
+    const response = await sendSigned('/api/feed/partner-a/stream', body, { contentType: 'application/x-ndjson' }).expect(200);
+
+    expect(response.text.trim().split('\n').pop()).toBe('{"summary":{"total":2,"accepted":2,"rejected":0}}');
+    await sendSigned('/api/feed/partner-a/stream', body, { contentType: 'application/x-ndjson', secret: SECRET_B }).expect(401);
+    expect(await container.orderRepository.count()).toBe(2);
+  });
+
+  it('should refuse signed NDJSON streams larger than maxStreamBytes', async () => {
+    const body = Array.from({ length: 10 }, (_, i) => JSON.stringify(partnerAOrder(`ORD-${i}`))).join('\n');
+    expect(body.length).toBeGreaterThan(1024);
+
+    const response = await sendSigned('/api/feed/partner-a/stream', body, { contentType: 'application/x-ndjson' }).expect(413);
+
+    expect(response.body).toMatchObject({ code: 'PAYLOAD_TOO_LARGE', message: 'Signed streams are limited to 1024 bytes' });
+    expect(await container.orderRepository.count()).toBe(0);
+  });
+
+  it('should let optional partners send unsigned requests but verify signed ones', async () => {
+    const partnerBOrder = {
+      transactionId: 'TXN-1',
+      itemCode: 'ITEM-1',
+      clientId: 'CLIENT-1',
+      qty: 1,
+      price: 10,
+      tax: 8,
+      purchaseTime: new Date().toISOString(),
+    };
+
+    await request(app).post('/api/feed/partner-b').send(partnerBOrder).expect(202);
+    await sendSigned('/api/feed/partner-b', JSON.stringify({ ...partnerBOrder, transactionId: 'TXN-2' }), { secret: SECRET_B }).expect(202);
+    await sendSigned('/api/feed/partner-b', JSON.stringify({ ...partnerBOrder, transactionId: 'TXN-3' })).expect(401);
+  });
+});
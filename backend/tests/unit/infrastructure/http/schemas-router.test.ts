@@ -0,0 +1,81 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { ErrorCode } from '../../../../src/domain/models';
+import { validateJsonSchema } from '../../../../src/domain/services/json-schema';
+
+describe('Schemas Router', () => {
+  let app: Express;
+  let container: AppContainer;
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    container = createContainer();
+    app = createApp(container);
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.orderStream.removeAllListeners();
+  });
+
+  describe('GET /api/schemas', () => {
+    it('should list the schema of every partner', async () => {
+      const response = await request(app).get('/api/schemas').expect(200);
+
+      expect(response.body.schemas).toEqual([
+        { partnerId: 'PARTNER_A', slug: 'partner-a', title: 'Partner A order', schemaPath: '/api/schemas/partner-a' },
+        { partnerId: 'PARTNER_B', slug: 'partner-b', title: 'Partner B order', schemaPath: '/api/schemas/partner-b' },
+      ]);
+    });
+  });
+
+  describe('GET /api/schemas/:partner', () => {
+    it('should return the JSON Schema of a partner input format', async () => {
+      const response = await request(app).get('/api/schemas/partner-a').expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^application\/schema\+json/);
+      const schema = JSON.parse(response.text);
+      expect(schema).toEqual(container.partnerRegistry.get('PARTNER_A')!.inputSchema);
+      expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+      expect(validateJsonSchema(schema, {
+        orderId: 'ORD-1',
+        skuId: 'SKU-1',
+        customerId: 'CUST-1',
+        quantity: 1,
+        unitPrice: 10,
+        taxRate: 0.1,
+        transactionTimeMs: Date.now(),
+      })).toEqual([]);
+    });
+
+    it('should resolve partners by ID or alias', async () => {
+      const response = await request(app).get('/api/schemas/B').expect(200);
+
+      expect(JSON.parse(response.text).title).toBe('Partner B order');
+    });
+
+    it('should return 404 for an unknown partner', async () => {
+      const response = await request(app).get('/api/schemas/partner-z').expect(404);
+
+      expect(response.body.code).toBe(ErrorCode.UNKNOWN_PARTNER);
+    });
+  });
+
+  it('should reference the schema path in the errors of rejected orders', async () => {
+    await request(app)
+      .post('/api/feed/partner-b')
+      .send({ transactionId: 'TXN-1', itemCode: 'ITEM-1', clientId: 'CL-1', qty: 1, price: 10, tax: 150, purchaseTime: new Date().toISOString() })
+      .expect(422);
+    await flush();
+
+    const errors = await request(app).get('/api/errors').expect(200);
+    expect(errors.body.data[0].details).toEqual([
+      expect.objectContaining({ field: 'tax', schemaPath: '#/properties/tax' }),
+    ]);
+
+    const partners = await request(app).get('/api/partners').expect(200);
+    expect(partners.body.partners[1].schemaPath).toBe('/api/schemas/partner-b');
+  });
+});
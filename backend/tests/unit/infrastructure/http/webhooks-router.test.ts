@@ -0,0 +1,160 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp, createContainer, AppContainer } from '../../../../src/app';
+import { IWebhookSenderPort } from '../../../../src/domain/ports';
+import { PartnerId } from '../../../../src/domain/models';
+
+describe('Webhooks Router', () => {
+  let app: Express;
+  let container: AppContainer;
+  let sender: jest.Mocked<IWebhookSenderPort>;
+
+  const validPartnerAInput = {
+    orderId: 'ORD-A-001',
+    skuId: 'SKU-123',
+    customerId: 'CUST-001',
+    quantity: 5,
+    unitPrice: 19.99,
+    taxRate: 0.08,
+    transactionTimeMs: Date.now(),
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    sender = { send: jest.fn().mockResolvedValue({ statusCode: 200 }) };
+    container = createContainer({
+      webhookSender: sender,
+      webhookOptions: { maxAttempts: 1 },
+    });
+    app = createApp(container);
+  });
+
+  afterEach(() => {
+    container.webhookService.stop();
+    container.orderStream.removeAllListeners();
+  });
+
+  describe('subscriptions', () => {
+    it('should create a subscription and return the secret once', async () => {
+      const response = await request(app)
+        .put('/api/webhooks/partner-a')
+        .send({ url: 'https://partner-a.example.com/hooks' })
+        .expect(200);
+
+      expect(response.body.subscription).toMatchObject({
+        partnerId: PartnerId.PARTNER_A,
+        url: 'https://partner-a.example.com/hooks',
+        events: ['order.accepted', 'order.rejected', 'order.amended', 'order.cancelled', 'order.status_changed'],
+        enabled: true,
+      });
+      expect(response.body.subscription.secret).toHaveLength(64);
+
+      const fetched = await request(app).get('/api/webhooks/A').expect(200);
+      expect(fetched.body.subscription.secret).toBe(`••••${response.body.subscription.secret.slice(-4)}`);
+
+      const list = await request(app).get('/api/webhooks').expect(200);
+      expect(list.body.subscriptions).toHaveLength(1);
+    });
+
+    it('should reject invalid configuration', async () => {
+      const response = await request(app)
+        .put('/api/webhooks/PARTNER_B')
+        .send({ url: 'ftp://example.com', secret: 'short', events: ['order.shipped'], enabled: 'yes' })
+        .expect(400);
+
+      expect(response.body.errors).toHaveLength(4);
+    });
+
+    it('should return 404 for unknown partners and missing subscriptions', async () => {
+      await request(app).put('/api/webhooks/partner-z').send({ url: 'http://x.test' }).expect(404);
+      await request(app).get('/api/webhooks/partner-b').expect(404);
+      await request(app).delete('/api/webhooks/partner-b').expect(404);
+    });
+
+    it('should delete a subscription', async () => {
+      await request(app).put('/api/webhooks/partner-a').send({ url: 'http://x.test/hook' }).expect(200);
+
+      await request(app).delete('/api/webhooks/partner-a').expect(204);
+      await request(app).get('/api/webhooks/partner-a').expect(404);
+    });
+  });
+
+  describe('deliveries', () => {
+    beforeEach(async () => {
+      await request(app).put('/api/webhooks/partner-a').send({ url: 'http://x.test/hook' }).expect(200);
+    });
+
+    it('should log a delivery for every processed order', async () => {
+      await request(app).post('/api/feed/partner-a').send(validPartnerAInput).expect(202);
+      await request(app).post('/api/feed/partner-a').send({ ...validPartnerAInput, orderId: 'ORD-A-002', quantity: 0 }).expect(422);
+      await flush();
+
+      const response = await request(app).get('/api/webhooks/deliveries?partnerId=A').expect(200);
+
+      expect(response.body.total).toBe(2);
+      expect(response.body.data.map((d: { event: string }) => d.event).sort()).toEqual([
+        'order.accepted',
+        'order.rejected',
+      ]);
+    });
+
+    it('should filter deliveries by status and redeliver failed ones', async () => {
+      sender.send.mockResolvedValueOnce({ statusCode: 500 });
+      await request(app).post('/api/feed/partner-a').send(validPartnerAInput).expect(202);
+      await flush();
+
+      const failed = await request(app).get('/api/webhooks/deliveries?status=failed').expect(200);
+      expect(failed.body.total).toBe(1);
+      const deliveryId = failed.body.data[0].id;
+
+      const detail = await request(app).get(`/api/webhooks/deliveries/${deliveryId}`).expect(200);
+      expect(detail.body.delivery).toMatchObject({ status: 'FAILED', lastStatusCode: 500 });
+
+      const redelivered = await request(app)
+        .post(`/api/webhooks/deliveries/${deliveryId}/redeliver`)
+        .expect(200);
+      expect(redelivered.body.delivery).toMatchObject({ status: 'SUCCEEDED', attempts: 1 });
+    });
+
+    it('should validate delivery filters', async () => {
+      await request(app).get('/api/webhooks/deliveries?status=LOST').expect(400);
+      await request(app).get('/api/webhooks/deliveries?event=order.shipped').expect(400);
+      await request(app).get('/api/webhooks/deliveries?partnerId=Z').expect(400);
+    });
+
+    it('should return 404 for unknown deliveries', async () => {
+      await request(app).get('/api/webhooks/deliveries/missing').expect(404);
+      await request(app).post('/api/webhooks/deliveries/missing/redeliver').expect(404);
+    });
+  });
+
+  describe('authentication', () => {
+    const MASTER_KEY = 'master-key-for-tests';
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      app = createApp(container, { enableApiAuth: true, masterApiKey: MASTER_KEY });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should require the master key when API authentication is enabled', async () => {
+      const hook = { url: 'https://attacker.example.com/hooks' };
+      await request(app).put('/api/webhooks/partner-a').send(hook).expect(401);
+      await request(app).put('/api/webhooks/partner-a').set('X-API-Key', 'not-the-master-key').send(hook).expect(403);
+      await request(app).delete('/api/webhooks/partner-a').expect(401);
+      await request(app).post('/api/webhooks/deliveries/missing/redeliver').expect(401);
+      await request(app).get('/api/webhooks/deliveries').expect(401);
+      expect(await container.webhookService.getSubscription(PartnerId.PARTNER_A)).toBeNull();
+
+      await request(app)
+        .put('/api/webhooks/partner-a')
+        .set('X-API-Key', MASTER_KEY)
+        .send({ url: 'https://partner-a.example.com/hooks' })
+        .expect(200);
+    });
+  });
+});
@@ -8,6 +8,8 @@ import {
   PartnerBInput,
   QueryParams,
   PartnerId,
+  ErrorPreview,
+  ReprocessResponse,
 } from '@/types';
 
 const API_BASE = '/api';
@@ -112,8 +114,8 @@ export const feedApi = {
       body: JSON.stringify(order),
     });
     
-    // Both 202 (accepted) and 422 (rejected) are valid responses
-    if (response.status === 202 || response.status === 422) {
+    // 202 (accepted), 409 (duplicate) and 422 (rejected) are valid responses
+    if (response.status === 202 || response.status === 409 || response.status === 422) {
       return response.json();
     }
     
@@ -129,8 +131,8 @@ export const feedApi = {
       body: JSON.stringify(order),
     });
     
-    // Both 202 (accepted) and 422 (rejected) are valid responses
-    if (response.status === 202 || response.status === 422) {
+    // 202 (accepted), 409 (duplicate) and 422 (rejected) are valid responses
+    if (response.status === 202 || response.status === 409 || response.status === 422) {
       return response.json();
     }
     
@@ -178,6 +180,21 @@ export const errorsApi = {
     const response = await request<{ status: string; statistics: any }>('/errors/stats');
     return response.statistics;
   },
+
+  async previewError(id: string, payload?: unknown): Promise<ErrorPreview> {
+    const response = await request<{ status: string; preview: ErrorPreview }>(`/errors/${encodeURIComponent(id)}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(payload === undefined ? {} : { payload }),
+    });
+    return response.preview;
+  },
+
+  async reprocessError(id: string, payload?: unknown): Promise<ReprocessResponse> {
+    return request<{ status: string } & ReprocessResponse>(`/errors/${encodeURIComponent(id)}/reprocess`, {
+      method: 'POST',
+      body: JSON.stringify(payload === undefined ? {} : { payload }),
+    });
+  },
 };
 
 export { ApiError };
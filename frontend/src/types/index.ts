@@ -12,12 +12,52 @@ export interface OrderEvent {
   quantity: number;
   unitPrice: number;
   grossAmount: number;
+  discountAmount?: number;
   taxAmount: number;
   netAmount: number;
+  currency?: string;
+  baseAmounts?: BaseCurrencyAmounts;
+  appliedPromotions?: AppliedPromotion[];
+  lineItems?: OrderLineItem[];
+  warnings?: ValidationErrorDetail[];
   transactionTime: Date;
   processedAt: Date;
 }
 
+export interface OrderLineItem {
+  lineNumber: number;
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number;
+  grossAmount: number;
+  discountAmount?: number;
+  taxAmount: number;
+  netAmount: number;
+  taxRule?: AppliedTaxRule;
+}
+
+export interface AppliedPromotion {
+  code: string;
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'BUY_X_GET_Y';
+  discountAmount: number;
+}
+
+export interface AppliedTaxRule {
+  id: string;
+  mode: 'OVERRIDE' | 'VERIFY';
+  partnerTaxRate: number;
+}
+
+export interface BaseCurrencyAmounts {
+  currency: string;
+  fxRate: number;
+  fxRateEffectiveFrom?: string;
+  grossAmount: number;
+  taxAmount: number;
+  netAmount: number;
+}
+
 export interface ErrorEvent {
   id: string;
   partnerId: PartnerId;
@@ -28,22 +68,26 @@ export interface ErrorEvent {
 
 export interface PartnerAInput {
   orderId: string;
-  skuId: string;
+  skuId?: string;
   customerId: string;
-  quantity: number;
-  unitPrice: number;
+  quantity?: number;
+  unitPrice?: number;
   taxRate: number;
   transactionTimeMs: number;
+  lineItems?: { skuId: string; quantity: number; unitPrice: number; taxRate?: number }[];
+  currency?: string;
 }
 
 export interface PartnerBInput {
   transactionId: string;
-  itemCode: string;
+  itemCode?: string;
   clientId: string;
-  qty: number;
-  price: number;
+  qty?: number;
+  price?: number;
   tax: number;
   purchaseTime: string;
+  items?: { itemCode: string; qty: number; price: number; tax?: number }[];
+  currency?: string;
 }
 
 // API Response Types
@@ -61,9 +105,14 @@ export interface OrderStatistics {
   totalOrders: number;
   ordersByPartner: Record<PartnerId, number>;
   totalGrossAmount: number;
+  totalDiscountAmount?: number;
   totalTaxAmount: number;
   totalNetAmount: number;
   averageOrderValue: number;
+  promoCodeRedemptions?: Record<string, number>;
+  ordersWithWarnings?: number;
+  warningsByCode?: Record<string, number>;
+  baseCurrency?: string;
   ordersByDate: Record<string, number>;
 }
 
@@ -73,6 +122,7 @@ export interface FeedSuccessResponse {
   orderId: string;
   partnerId: string;
   sequenceNumber: number;
+  warnings?: string[];
 }
 
 // Error feed response from backend
@@ -81,6 +131,7 @@ export interface FeedErrorResponse {
   orderId: string;
   partnerId: string;
   errors: string[];
+  errorCode?: string;
 }
 
 // Combined type for feed API responses
@@ -105,10 +156,42 @@ export interface ErrorEvent {
   externalOrderId?: string;
   errorCode: string;
   message: string;
-  details: Array<{ field: string; message: string }>;
+  details: ValidationErrorDetail[];
   errors?: string[];
   originalPayload: unknown;
   timestamp: string;
+  resolution?: ErrorResolution;
+}
+
+// Field-level error of a rejected order (or warning of an accepted one)
+export interface ValidationErrorDetail {
+  field: string;
+  errorCode?: string;
+  message: string;
+  receivedValue?: unknown;
+  expectedType?: string;
+  // JSON Pointer into the partner's input schema (GET /api/schemas/:partner)
+  schemaPath?: string;
+}
+
+// How an error event was fixed and resubmitted
+export interface ErrorResolution {
+  resolvedAt: string;
+  orderEventId: string;
+  externalOrderId: string;
+  sequenceNumber: number;
+  editedPayload?: unknown;
+}
+
+// Dry run of an error event's (edited) payload
+export type ErrorPreview =
+  | { valid: true; orderId: string; partnerId: string; orderEvent: OrderEvent }
+  | { valid: false; orderId: string; partnerId: string; errors: string[]; errorCode?: string };
+
+// Order accepted by reprocessing an error event
+export interface ReprocessResponse {
+  error: ErrorEvent;
+  order: { orderId: string; partnerId: string; sequenceNumber: number; orderEventId: string };
 }
 
 // Error Statistics
@@ -117,6 +200,7 @@ export interface ErrorStatistics {
   errorsByPartner: Record<string, number>;
   errorsByCode: Record<string, number>;
   last24Hours: number;
+  resolvedErrors?: number;
 }
 
 // Query Parameters
@@ -128,6 +212,7 @@ export interface OrderQueryFilters {
   endDate?: Date;
   minAmount?: number;
   maxAmount?: number;
+  hasWarnings?: boolean;
 }
 
 export interface PaginationOptions {
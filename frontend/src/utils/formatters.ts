@@ -1,9 +1,31 @@
-export function formatCurrency(amount: number): string {
+// Digits of the minor unit of currencies that do not use cents - matching backend money rules
+const CURRENCY_MINOR_DIGITS: Record<string, number> = {
+  BHD: 3,
+  CLP: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  UGX: 0,
+  VND: 0,
+};
+
+export function getCurrencyMinorDigits(currency: string): number {
+  return CURRENCY_MINOR_DIGITS[currency] ?? 2;
+}
+
+export function formatCurrency(amount: number, currency = 'USD'): string {
+  const digits = getCurrencyMinorDigits(currency);
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
   }).format(amount);
 }
 
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, Loading, DashboardIllustration } from '@/components';
 import { ordersApi } from '@/api';
 import { OrderStatistics } from '@/types';
@@ -112,21 +113,21 @@ export const Dashboard: React.FC = () => {
     },
     {
       label: 'Gross Amount',
-      value: formatCurrency(stats.totalGrossAmount ?? 0),
+      value: formatCurrency(stats.totalGrossAmount ?? 0, stats.baseCurrency),
       icon: GrossAmountIcon,
       trend: '+8.2%',
       trendUp: true,
     },
     {
       label: 'Tax Amount',
-      value: formatCurrency(stats.totalTaxAmount ?? 0),
+      value: formatCurrency(stats.totalTaxAmount ?? 0, stats.baseCurrency),
       icon: TaxIcon,
       trend: '+5.1%',
       trendUp: true,
     },
     {
       label: 'Net Amount',
-      value: formatCurrency(stats.totalNetAmount ?? 0),
+      value: formatCurrency(stats.totalNetAmount ?? 0, stats.baseCurrency),
       icon: NetAmountIcon,
       trend: '+15.3%',
       trendUp: true,
@@ -259,7 +260,7 @@ export const Dashboard: React.FC = () => {
             </svg>
             <div className="absolute inset-0 flex flex-col items-center justify-center">
               <span className="text-2xl font-bold stat-value">
-                {formatCurrency(stats.averageOrderValue || 0)}
+                {formatCurrency(stats.averageOrderValue || 0, stats.baseCurrency)}
               </span>
               <span className="text-xs text-gray-500 dark:text-gray-400">avg / order</span>
             </div>
@@ -269,6 +270,28 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Validation Warnings */}
+      {(stats.ordersWithWarnings ?? 0) > 0 && (
+        <div className="card p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold stat-value">Accepted with Warnings</h3>
+            <Link to="/orders?hasWarnings=true" className="text-sm font-medium text-cyber-600 dark:text-neon-cyan hover:underline">
+              {(stats.ordersWithWarnings ?? 0).toLocaleString()} orders
+            </Link>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {Object.entries(stats.warningsByCode ?? {})
+              .sort(([, a], [, b]) => b - a)
+              .map(([code, count]) => (
+                <div key={code} className="p-4 rounded-xl bg-amber-500/5 border border-amber-500/20 text-center">
+                  <p className="text-2xl font-bold stat-value">{count}</p>
+                  <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1">{code}</p>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* Orders by Date */}
       {stats.ordersByDate && Object.keys(stats.ordersByDate).length > 0 && (
         <div className="card p-6">
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge, Button } from '@/components';
+import { errorsApi } from '@/api';
+import { ErrorEvent, ErrorPreview, ReprocessResponse } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+
+interface ErrorPayloadEditorProps {
+  errorEvent: ErrorEvent;
+  onResolved: (response: ReprocessResponse) => void;
+}
+
+const PREVIEW_DELAY_MS = 500;
+
+/**
+ * Error Payload Editor
+ *
+ * Lets ops fix a rejected order's payload and resubmit it. Every edit is
+ * validated against the backend (debounced) so the order can only be
+ * resubmitted once it would be accepted.
+ */
+export const ErrorPayloadEditor: React.FC<ErrorPayloadEditorProps> = ({ errorEvent, onResolved }) => {
+  const [payloadText, setPayloadText] = useState(() => JSON.stringify(errorEvent.originalPayload, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ErrorPreview | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (errorEvent.resolution) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(payloadText);
+      setParseError(null);
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'Invalid JSON');
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await errorsApi.previewError(errorEvent.id, payload);
+        if (!cancelled) setPreview(result);
+      } catch (err) {
+        if (!cancelled) setSubmitError(err instanceof Error ? err.message : 'Failed to validate payload');
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [errorEvent.id, errorEvent.resolution, payloadText]);
+
+  const handleResubmit = async () => {
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      onResolved(await errorsApi.reprocessError(errorEvent.id, JSON.parse(payloadText)));
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to resubmit order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (errorEvent.resolution) {
+    const { resolution } = errorEvent;
+    return (
+      <div className="p-4 rounded-lg bg-green-500/5 border border-green-500/20 space-y-1">
+        <div className="flex items-center gap-2">
+          <Badge variant="success" size="sm">Resolved</Badge>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {formatDate(new Date(resolution.resolvedAt), true)}
+          </span>
+        </div>
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Resubmitted{resolution.editedPayload !== undefined ? ' with an edited payload' : ''} as order{' '}
+          <Link to={`/orders/${resolution.orderEventId}`} className="font-mono text-cyber-600 dark:text-neon-cyan hover:underline">
+            {resolution.externalOrderId}
+          </Link>{' '}
+          (sequence #{resolution.sequenceNumber})
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={payloadText}
+        onChange={(e) => {
+          setPayloadText(e.target.value);
+          setPreview(null);
+          setSubmitError(null);
+        }}
+        spellCheck={false}
+        rows={14}
+        className="w-full p-4 rounded-lg bg-gray-100 dark:bg-dark-700 text-xs font-mono text-gray-800 dark:text-gray-200 border border-transparent focus:border-cyber-500 focus:outline-none"
+      />
+
+      {/* Live Validation Preview */}
+      <div className="min-h-[2.5rem]">
+        {parseError ? (
+          <p className="text-sm text-red-600 dark:text-red-400">Invalid JSON: {parseError}</p>
+        ) : !preview ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Validating...</p>
+        ) : preview.valid ? (
+          <div className="p-3 rounded-lg bg-green-500/5 border border-green-500/20 text-sm text-green-700 dark:text-green-400">
+            Valid: {formatCurrency(preview.orderEvent.netAmount, preview.orderEvent.currency)} net
+            ({formatCurrency(preview.orderEvent.grossAmount, preview.orderEvent.currency)} gross,{' '}
+            {formatCurrency(preview.orderEvent.taxAmount, preview.orderEvent.currency)} tax)
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {preview.errors.map((message, i) => (
+              <div key={i} className="p-3 rounded-lg bg-red-500/5 border border-red-500/20">
+                <p className="text-sm text-red-600 dark:text-red-400">{message}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {submitError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{submitError}</p>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleResubmit}
+          disabled={!preview?.valid || submitting}
+        >
+          {submitting ? 'Resubmitting...' : 'Resubmit Order'}
+        </Button>
+      </div>
+    </div>
+  );
+};
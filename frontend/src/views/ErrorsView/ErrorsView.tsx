@@ -1,14 +1,16 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Card, Table, Badge, Loading, Pagination, Select, Button } from '@/components';
 import { errorsApi } from '@/api';
-import { ErrorEvent, ErrorStatistics, PaginatedResult } from '@/types';
+import { ErrorEvent, ErrorStatistics, ReprocessResponse } from '@/types';
 import { formatDate, formatRelativeTime } from '@/utils/formatters';
+import { ErrorPayloadEditor } from './ErrorPayloadEditor';
 
 /**
  * Errors View Component
  * 
  * SPEC REFERENCE: Optional - "Errors View" in React frontend
- * Displays rejected orders with validation error details.
+ * Displays rejected orders with validation error details, and lets ops fix
+ * and resubmit them.
  */
 export const ErrorsView: React.FC = () => {
   const [errors, setErrors] = useState<ErrorEvent[]>([]);
@@ -19,6 +21,8 @@ export const ErrorsView: React.FC = () => {
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
   const [partnerFilter, setPartnerFilter] = useState<string>('');
+  const [resolvedFilter, setResolvedFilter] = useState<string>('');
+  const [codeFilter, setCodeFilter] = useState<string>('');
   const [selectedError, setSelectedError] = useState<ErrorEvent | null>(null);
 
   const pageSize = 10;
@@ -31,6 +35,12 @@ export const ErrorsView: React.FC = () => {
       if (partnerFilter) {
         params.partnerId = partnerFilter;
       }
+      if (resolvedFilter) {
+        params.resolved = resolvedFilter;
+      }
+      if (codeFilter) {
+        params.errorCode = codeFilter;
+      }
       
       const result = await errorsApi.getErrors(params);
       setErrors(result.data);
@@ -41,7 +51,7 @@ export const ErrorsView: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [page, partnerFilter]);
+  }, [page, partnerFilter, resolvedFilter, codeFilter]);
 
   const fetchStats = useCallback(async () => {
     try {
@@ -62,6 +72,11 @@ export const ErrorsView: React.FC = () => {
     fetchStats();
   };
 
+  const handleResolved = (response: ReprocessResponse) => {
+    setSelectedError(response.error);
+    handleRefresh();
+  };
+
   const getPartnerBadgeVariant = (partnerId: string) => {
     return partnerId === 'PARTNER_A' ? 'info' : 'secondary';
   };
@@ -103,9 +118,16 @@ export const ErrorsView: React.FC = () => {
       key: 'errorCode',
       header: 'Error Code',
       render: (row: ErrorEvent) => (
-        <Badge variant="error" size="sm">
-          {row.errorCode}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant="error" size="sm">
+            {row.errorCode}
+          </Badge>
+          {row.resolution && (
+            <Badge variant="success" size="sm">
+              Resolved
+            </Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -113,7 +135,9 @@ export const ErrorsView: React.FC = () => {
       header: 'Errors',
       render: (row: ErrorEvent) => (
         <div className="max-w-xs truncate text-sm text-gray-600 dark:text-gray-400">
-          {row.errors?.length || row.details?.length || 0} validation error(s)
+          {row.details?.length
+            ? [...new Set(row.details.map((detail) => detail.field))].join(', ')
+            : `${row.errors?.length || 0} validation error(s)`}
         </div>
       ),
     },
@@ -233,6 +257,35 @@ export const ErrorsView: React.FC = () => {
               ]}
             />
           </div>
+          <div className="w-48">
+            <Select
+              label="Filter by Status"
+              value={resolvedFilter}
+              onChange={(e) => {
+                setResolvedFilter(e.target.value);
+                setPage(1);
+              }}
+              options={[
+                { value: '', label: 'All Errors' },
+                { value: 'false', label: 'Unresolved' },
+                { value: 'true', label: 'Resolved' },
+              ]}
+            />
+          </div>
+          <div className="w-56">
+            <Select
+              label="Filter by Error Code"
+              value={codeFilter}
+              onChange={(e) => {
+                setCodeFilter(e.target.value);
+                setPage(1);
+              }}
+              options={[
+                { value: '', label: 'All Codes' },
+                ...Object.keys(stats?.errorsByCode ?? {}).sort().map((code) => ({ value: code, label: code })),
+              ]}
+            />
+          </div>
           <div className="text-sm text-gray-500 dark:text-gray-400 ml-auto">
             Showing {errors.length} of {total} errors
           </div>
@@ -343,16 +396,39 @@ export const ErrorsView: React.FC = () => {
                       Validation Errors
                     </p>
                     <div className="space-y-2">
-                      {(selectedError.errors || selectedError.details || []).map((err: any, i: number) => (
-                        <div
-                          key={i}
-                          className="p-3 rounded-lg bg-red-500/5 border border-red-500/20"
-                        >
-                          <p className="text-sm text-red-600 dark:text-red-400">
-                            {typeof err === 'string' ? err : `${err.field}: ${err.message}`}
-                          </p>
-                        </div>
-                      ))}
+                      {selectedError.details?.length
+                        ? selectedError.details.map((detail, i) => (
+                          <div
+                            key={i}
+                            className="p-3 rounded-lg bg-red-500/5 border border-red-500/20"
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="font-mono text-sm text-gray-900 dark:text-white">{detail.field}</p>
+                              {detail.errorCode && <Badge variant="danger" size="sm">{detail.errorCode}</Badge>}
+                            </div>
+                            <p className="text-sm text-red-600 dark:text-red-400">{detail.message}</p>
+                            {(detail.receivedValue !== undefined || detail.expectedType) && (
+                              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                {detail.receivedValue !== undefined && <>Received <code>{JSON.stringify(detail.receivedValue)}</code></>}
+                                {detail.receivedValue !== undefined && detail.expectedType && ', '}
+                                {detail.expectedType && <>expected {detail.expectedType}</>}
+                              </p>
+                            )}
+                            {detail.schemaPath && (
+                              <p className="mt-1 text-xs font-mono text-gray-500 dark:text-gray-400">
+                                Schema: {detail.schemaPath}
+                              </p>
+                            )}
+                          </div>
+                        ))
+                        : (selectedError.errors || []).map((message, i) => (
+                          <div
+                            key={i}
+                            className="p-3 rounded-lg bg-red-500/5 border border-red-500/20"
+                          >
+                            <p className="text-sm text-red-600 dark:text-red-400">{message}</p>
+                          </div>
+                        ))}
                     </div>
                   </div>
                 )}
@@ -366,6 +442,18 @@ export const ErrorsView: React.FC = () => {
                     {JSON.stringify(selectedError.originalPayload, null, 2)}
                   </pre>
                 </div>
+
+                {/* Fix and Resubmit */}
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    {selectedError.resolution ? 'Resolution' : 'Fix and Resubmit'}
+                  </p>
+                  <ErrorPayloadEditor
+                    key={selectedError.id}
+                    errorEvent={selectedError}
+                    onResolved={handleResolved}
+                  />
+                </div>
               </div>
             </div>
           </Card>
@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Card, Loading, Button, Badge } from '@/components';
+import { Card, Loading, Button, Badge, Table, TableColumn } from '@/components';
 import { ordersApi } from '@/api';
-import { OrderEvent } from '@/types';
-import { formatCurrency, formatDate } from '@/utils/formatters';
+import { OrderEvent, OrderLineItem } from '@/types';
+import { formatCurrency, formatDate, formatPercentage } from '@/utils/formatters';
 
 const BackIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -69,10 +69,34 @@ export const OrderDetails: React.FC = () => {
     items: DetailItem[];
   }
 
+  const lineItems = order.lineItems ?? [];
+
+  // Orders in another currency also show their amounts in the base currency
+  const baseAmounts = order.baseAmounts;
+  const baseAmountItems: DetailItem[] = baseAmounts && baseAmounts.currency !== order.currency
+    ? [{ label: `Exchange Rate (${order.currency} → ${baseAmounts.currency})`, value: baseAmounts.fxRate }, { label: `Net Amount (${baseAmounts.currency})`, value: formatCurrency(baseAmounts.netAmount, baseAmounts.currency) }]
+    : [];
+
+  // Discounts are only shown for orders that have one, with the redeemed promo codes
+  const discountItems: DetailItem[] = order.discountAmount
+    ? [{ label: order.appliedPromotions?.length ? `Discount (${order.appliedPromotions.map((promotion) => promotion.code).join(', ')})` : 'Discount', value: `-${formatCurrency(order.discountAmount, order.currency)}` }]
+    : [];
+
+  const lineColumns: TableColumn<OrderLineItem>[] = [
+    { key: 'lineNumber', header: '#', width: '60px', render: (line: OrderLineItem) => <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{line.lineNumber}</span> },
+    { key: 'productId', header: 'Product', render: (line: OrderLineItem) => <span className="font-mono text-sm font-medium text-gray-900 dark:text-white">{line.productId}</span> },
+    { key: 'quantity', header: 'Qty', width: '60px', render: (line: OrderLineItem) => <span className="text-sm text-gray-600 dark:text-gray-300">{line.quantity}</span> },
+    { key: 'unitPrice', header: 'Unit Price', render: (line: OrderLineItem) => <span className="text-sm text-gray-600 dark:text-gray-300">{formatCurrency(line.unitPrice, order.currency)}</span> },
+    { key: 'taxRate', header: 'Tax Rate', render: (line: OrderLineItem) => <span className="text-sm text-gray-600 dark:text-gray-300">{formatPercentage(line.taxRate * 100)}{line.taxRule && <span className="block font-mono text-xs text-gray-500 dark:text-gray-400">{line.taxRule.id}</span>}</span> },
+    { key: 'grossAmount', header: 'Gross', render: (line: OrderLineItem) => <span className="text-sm text-gray-600 dark:text-gray-300">{formatCurrency(line.grossAmount, order.currency)}</span> },
+    { key: 'taxAmount', header: 'Tax', render: (line: OrderLineItem) => <span className="text-sm text-gray-600 dark:text-gray-300">{formatCurrency(line.taxAmount, order.currency)}</span> },
+    { key: 'netAmount', header: 'Net', render: (line: OrderLineItem) => <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(line.netAmount, order.currency)}</span> },
+  ];
+
   const detailSections: DetailSection[] = [
     { title: 'Order Information', icon: <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>, items: [{ label: 'Internal ID', value: order.id, mono: true }, { label: 'External Order ID', value: order.externalOrderId, mono: true }, { label: 'Sequence Number', value: `#${order.sequenceNumber}` }, { label: 'Partner', value: order.partnerId }] },
-    { title: 'Customer & Product', icon: <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>, items: [{ label: 'Customer ID', value: order.customerId }, { label: 'Product ID', value: order.productId }, { label: 'Quantity', value: order.quantity }, { label: 'Unit Price', value: formatCurrency(order.unitPrice) }] },
-    { title: 'Financial Details', icon: <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>, items: [{ label: 'Gross Amount', value: formatCurrency(order.grossAmount) }, { label: 'Tax Amount', value: formatCurrency(order.taxAmount) }, { label: 'Net Amount', value: formatCurrency(order.netAmount), highlight: true }] },
+    { title: 'Customer & Product', icon: <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>, items: [{ label: 'Customer ID', value: order.customerId }, { label: 'Product ID', value: lineItems.length > 1 ? `${order.productId} (+${lineItems.length - 1} more)` : order.productId }, { label: 'Quantity', value: order.quantity }, { label: lineItems.length > 1 ? 'Average Unit Price' : 'Unit Price', value: formatCurrency(order.unitPrice, order.currency) }] },
+    { title: 'Financial Details', icon: <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>, items: [{ label: 'Gross Amount', value: formatCurrency(order.grossAmount, order.currency) }, ...discountItems, { label: 'Tax Amount', value: formatCurrency(order.taxAmount, order.currency) }, { label: 'Net Amount', value: formatCurrency(order.netAmount, order.currency), highlight: true }, ...baseAmountItems] },
     { title: 'Timestamps', icon: <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>, items: [{ label: 'Transaction Time', value: formatDate(order.transactionTime, true) }, { label: 'Processed At', value: formatDate(order.processedAt, true) }] },
   ];
 
@@ -110,6 +134,30 @@ export const OrderDetails: React.FC = () => {
         ))}
       </div>
 
+      {order.warnings && order.warnings.length > 0 && (
+        <Card className="overflow-hidden border-amber-500/20">
+          <div className="flex items-center gap-3 px-6 py-4 border-b border-gray-100 dark:border-dark-600 bg-amber-500/5">
+            <h3 className="font-semibold text-gray-900 dark:text-white">Validation Warnings <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({order.warnings.length})</span></h3>
+          </div>
+          <ul className="p-6 space-y-3">
+            {order.warnings.map((warning, i) => (
+              <li key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-mono text-gray-900 dark:text-white">{warning.field}</span>
+                {warning.errorCode && <Badge variant="warning" size="sm">{warning.errorCode}</Badge>}
+                <span className="text-gray-600 dark:text-gray-300">{warning.message}</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {lineItems.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Line Items <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({lineItems.length})</span></h3>
+          <Table data={lineItems} columns={lineColumns} keyField="lineNumber" emptyMessage="No line items" />
+        </div>
+      )}
+
       <Card padding="md">
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
           <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
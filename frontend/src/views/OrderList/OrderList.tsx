@@ -32,6 +32,7 @@ export const OrderList: React.FC = () => {
   const [partnerId, setPartnerId] = useState<PartnerId | ''>((searchParams.get('partnerId') as PartnerId) || '');
   const [customerId, setCustomerId] = useState(searchParams.get('customerId') || '');
   const [productId, setProductId] = useState(searchParams.get('productId') || '');
+  const [hasWarnings, setHasWarnings] = useState(searchParams.get('hasWarnings') || '');
   const [page, setPage] = useState(parseInt(searchParams.get('page') || '1', 10));
   const [pageSize] = useState(10);
   const [sortField, setSortField] = useState<SortField>((searchParams.get('sortField') as SortField) || 'processedAt');
@@ -43,7 +44,8 @@ export const OrderList: React.FC = () => {
     try {
       const result = await ordersApi.getOrders({
         page, pageSize, partnerId: partnerId || undefined, customerId: customerId || undefined,
-        productId: productId || undefined, field: sortField, direction: sortDirection,
+        productId: productId || undefined, hasWarnings: hasWarnings ? hasWarnings === 'true' : undefined,
+        field: sortField, direction: sortDirection,
       });
       setOrders(result);
     } catch (err) {
@@ -51,7 +53,7 @@ export const OrderList: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [page, pageSize, partnerId, customerId, productId, sortField, sortDirection]);
+  }, [page, pageSize, partnerId, customerId, productId, hasWarnings, sortField, sortDirection]);
 
   useEffect(() => { fetchOrders(); }, [fetchOrders]);
 
@@ -60,11 +62,12 @@ export const OrderList: React.FC = () => {
     if (partnerId) params.set('partnerId', partnerId);
     if (customerId) params.set('customerId', customerId);
     if (productId) params.set('productId', productId);
+    if (hasWarnings) params.set('hasWarnings', hasWarnings);
     if (page > 1) params.set('page', String(page));
     if (sortField !== 'processedAt') params.set('sortField', sortField);
     if (sortDirection !== 'desc') params.set('sortDirection', sortDirection);
     setSearchParams(params);
-  }, [partnerId, customerId, productId, page, sortField, sortDirection, setSearchParams]);
+  }, [partnerId, customerId, productId, hasWarnings, page, sortField, sortDirection, setSearchParams]);
 
   const handleSort = (field: string) => {
     if (field === sortField) {
@@ -75,17 +78,17 @@ export const OrderList: React.FC = () => {
     }
   };
 
-  const handleClearFilters = () => { setPartnerId(''); setCustomerId(''); setProductId(''); setPage(1); };
-  const hasActiveFilters = partnerId || customerId || productId;
+  const handleClearFilters = () => { setPartnerId(''); setCustomerId(''); setProductId(''); setHasWarnings(''); setPage(1); };
+  const hasActiveFilters = partnerId || customerId || productId || hasWarnings;
 
   const columns: TableColumn<OrderEvent>[] = [
     { key: 'sequenceNumber', header: 'Seq #', sortable: true, width: '80px', render: (order: OrderEvent) => <span className="font-mono text-sm text-gray-500 dark:text-gray-400">#{order.sequenceNumber}</span> },
-    { key: 'externalOrderId', header: 'Order ID', render: (order: OrderEvent) => <span className="font-mono text-sm font-medium text-gray-900 dark:text-white">{order.externalOrderId}</span> },
+    { key: 'externalOrderId', header: 'Order ID', render: (order: OrderEvent) => <span className="flex items-center gap-2"><span className="font-mono text-sm font-medium text-gray-900 dark:text-white">{order.externalOrderId}</span>{order.warnings && order.warnings.length > 0 && <Badge variant="warning" size="sm">{order.warnings.length} {order.warnings.length === 1 ? 'warning' : 'warnings'}</Badge>}</span> },
     { key: 'partnerId', header: 'Partner', render: (order: OrderEvent) => <Badge variant={order.partnerId === 'PARTNER_A' ? 'primary' : 'cyber'}>{order.partnerId === 'PARTNER_A' ? 'Partner A' : 'Partner B'}</Badge> },
     { key: 'customerId', header: 'Customer', render: (order: OrderEvent) => <span className="text-sm text-gray-600 dark:text-gray-300">{order.customerId}</span> },
     { key: 'productId', header: 'Product', render: (order: OrderEvent) => <span className="text-sm text-gray-600 dark:text-gray-300">{order.productId}</span> },
     { key: 'quantity', header: 'Qty', width: '60px', render: (order: OrderEvent) => <span className="inline-flex items-center justify-center min-w-[2rem] px-2 py-0.5 rounded-lg bg-gray-100 dark:bg-dark-600 text-sm font-medium text-gray-700 dark:text-gray-300">{order.quantity}</span> },
-    { key: 'netAmount', header: 'Net Amount', sortable: true, render: (order: OrderEvent) => <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(order.netAmount)}</span> },
+    { key: 'netAmount', header: 'Net Amount', sortable: true, render: (order: OrderEvent) => <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(order.netAmount, order.currency)}</span> },
     { key: 'transactionTime', header: 'Transaction', sortable: true, render: (order: OrderEvent) => <span className="text-sm text-gray-500 dark:text-gray-400">{formatDate(order.transactionTime)}</span> },
   ];
 
@@ -101,10 +104,11 @@ export const OrderList: React.FC = () => {
 
       <Card padding="md">
         <div className="flex flex-col lg:flex-row gap-4">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 flex-1">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 flex-1">
             <Select label="Partner" value={partnerId} onChange={(e) => { setPartnerId(e.target.value as PartnerId | ''); setPage(1); }} options={[{ value: '', label: 'All Partners' }, { value: 'PARTNER_A', label: 'Partner A' }, { value: 'PARTNER_B', label: 'Partner B' }]} />
             <Input label="Customer ID" value={customerId} onChange={(e) => { setCustomerId(e.target.value); setPage(1); }} placeholder="Filter by customer..." icon={<SearchIcon />} />
             <Input label="Product ID" value={productId} onChange={(e) => { setProductId(e.target.value); setPage(1); }} placeholder="Filter by product..." icon={<SearchIcon />} />
+            <Select label="Warnings" value={hasWarnings} onChange={(e) => { setHasWarnings(e.target.value); setPage(1); }} options={[{ value: '', label: 'All Orders' }, { value: 'true', label: 'With Warnings' }, { value: 'false', label: 'Without Warnings' }]} />
           </div>
           {hasActiveFilters && <div className="flex items-end"><Button variant="ghost" onClick={handleClearFilters}><svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>Clear</Button></div>}
         </div>
@@ -130,6 +130,14 @@ export const SubmitOrder: React.FC = () => {
                   <div><p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Sequence Number</p><p className="font-mono text-sm text-gray-900 dark:text-white">#{response.sequenceNumber}</p></div>
                   <div><p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Partner</p><p className="text-sm text-gray-900 dark:text-white">{response.partnerId}</p></div>
                 </div>
+                {response.warnings && response.warnings.length > 0 && (
+                  <div className="mt-4 p-4 rounded-xl bg-amber-500/5 border border-amber-500/20 space-y-1">
+                    <p className="text-sm font-medium text-amber-700 dark:text-amber-400">Accepted with warnings</p>
+                    {response.warnings.map((warning, i) => (
+                      <p key={i} className="text-sm text-amber-700 dark:text-amber-300">{warning}</p>
+                    ))}
+                  </div>
+                )}
                 <div className="flex gap-3 mt-4">
                   <Button variant="secondary" size="sm" onClick={() => navigate('/orders')}>View All Orders</Button>
                   <Button variant="ghost" size="sm" onClick={() => { handleReset(); setResponse(null); }}>Submit Another</Button>